@@ -0,0 +1,430 @@
+// amm-simulator.ts
+import type { PoolSnapshot } from "./arbitrage-monitor";
+
+// ============ Constants (mirroring Uniswap V3 core libraries) ============
+
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+const Q96 = BigInt(2) ** BigInt(96);
+const MAX_UINT160 = (ONE << BigInt(160)) - ONE;
+const MAX_UINT256 = (ONE << BigInt(256)) - ONE;
+const FEE_DENOMINATOR = BigInt(1_000_000);
+
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = BigInt("4295128739");
+export const MAX_SQRT_RATIO = BigInt("1461446703485210103287273052203988822378723970342");
+
+const DEFAULT_TICK_SPACING: Record<number, number> = {
+  100: 1,
+  500: 10,
+  3000: 60,
+  10000: 200,
+};
+
+interface SwapResult {
+  amountIn: bigint;
+  amountOut: bigint;
+  sqrtPriceX96After?: bigint;
+  tickAfter?: number;
+  liquidityAfter?: bigint;
+  ticksCrossed: number;
+}
+
+interface RouteSimulation {
+  borrowAmount: bigint;
+  intermediateToken: string;
+  leg1AmountOut: bigint;
+  leg2AmountOut: bigint;
+  leg1: SwapResult;
+  leg2: SwapResult;
+}
+
+// ============ FullMath / UnsafeMath ============
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  const result = product / denominator;
+  return product % denominator > ZERO ? result + ONE : result;
+}
+
+function divRoundingUp(x: bigint, y: bigint): bigint {
+  return x / y + (x % y > ZERO ? ONE : ZERO);
+}
+
+// ============ TickMath ============
+
+const TICK_RATIO_MULTIPLIERS: Array<[number, bigint]> = [
+  [0x2, BigInt("0xfff97272373d413259a46990580e213a")],
+  [0x4, BigInt("0xfff2e50f5f656932ef12357cf3c7fdcc")],
+  [0x8, BigInt("0xffe5caca7e10e4e61c3624eaa0941cd0")],
+  [0x10, BigInt("0xffcb9843d60f6159c9db58835c926644")],
+  [0x20, BigInt("0xff973b41fa98c081472e6896dfb254c0")],
+  [0x40, BigInt("0xff2ea16466c96a3843ec78b326b52861")],
+  [0x80, BigInt("0xfe5dee046a99a2a811c461f1969c3053")],
+  [0x100, BigInt("0xfcbe86c7900a88aedcffc83b479aa3a4")],
+  [0x200, BigInt("0xf987a7253ac413176f2b074cf7815e54")],
+  [0x400, BigInt("0xf3392b0822b70005940c7a398e4b70f3")],
+  [0x800, BigInt("0xe7159475a2c29b7443b29c7fa6e889d9")],
+  [0x1000, BigInt("0xd097f3bdfd2022b8845ad8f792aa5825")],
+  [0x2000, BigInt("0xa9f746462d870fdf8a65dc1f90e061e5")],
+  [0x4000, BigInt("0x70d869a156d2a1b890bb3df62baf32f7")],
+  [0x8000, BigInt("0x31be135f97d08fd981231505542fcfa6")],
+  [0x10000, BigInt("0x9aa508b5b7a84e1c677de54f3e99bc9")],
+  [0x20000, BigInt("0x5d6af8dedb81196699c329225ee604")],
+  [0x40000, BigInt("0x2216e584f5fa1ea926041bedfe98")],
+  [0x80000, BigInt("0x48a170391f7dc42444e8fa2")],
+];
+
+/**
+ * sqrt(1.0001^tick) * 2^96, bit-exact with TickMath.getSqrtRatioAtTick
+ */
+export function getSqrtRatioAtTick(tick: number): bigint {
+  const absTick = Math.abs(tick);
+  if (absTick > MAX_TICK) throw new Error(`Tick ${tick} out of range`);
+
+  let ratio =
+    (absTick & 0x1) !== 0
+      ? BigInt("0xfffcb933bd6fad37aa2d162d1a594001")
+      : BigInt("0x100000000000000000000000000000000");
+  for (const [mask, multiplier] of TICK_RATIO_MULTIPLIERS) {
+    if ((absTick & mask) !== 0) ratio = (ratio * multiplier) >> BigInt(128);
+  }
+
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  // Round up so getTickAtSqrtRatio(getSqrtRatioAtTick(t)) == t
+  const remainder = ratio % (ONE << BigInt(32));
+  return (ratio >> BigInt(32)) + (remainder === ZERO ? ZERO : ONE);
+}
+
+/**
+ * Greatest tick whose sqrt ratio is <= sqrtPriceX96 (same result as TickMath.getTickAtSqrtRatio)
+ */
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  if (sqrtPriceX96 < MIN_SQRT_RATIO || sqrtPriceX96 >= MAX_SQRT_RATIO) {
+    throw new Error("sqrtPriceX96 out of range");
+  }
+
+  let low = MIN_TICK;
+  let high = MAX_TICK;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (getSqrtRatioAtTick(mid) <= sqrtPriceX96) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+// ============ SqrtPriceMath ============
+
+function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (amount === ZERO) return sqrtPX96;
+  const numerator1 = liquidity << BigInt(96);
+  const product = amount * sqrtPX96;
+
+  if (add) {
+    // The contract falls back to a less precise formula when the product overflows
+    if (product <= MAX_UINT256) {
+      const denominator = numerator1 + product;
+      if (denominator <= MAX_UINT256) {
+        return mulDivRoundingUp(numerator1, sqrtPX96, denominator);
+      }
+    }
+    return divRoundingUp(numerator1, numerator1 / sqrtPX96 + amount);
+  }
+
+  if (product > MAX_UINT256 || numerator1 <= product) {
+    throw new Error("Insufficient liquidity for output amount");
+  }
+  return mulDivRoundingUp(numerator1, sqrtPX96, numerator1 - product);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (add) {
+    const quotient =
+      amount <= MAX_UINT160 ? (amount << BigInt(96)) / liquidity : mulDiv(amount, Q96, liquidity);
+    return sqrtPX96 + quotient;
+  }
+
+  const quotient =
+    amount <= MAX_UINT160
+      ? divRoundingUp(amount << BigInt(96), liquidity)
+      : mulDivRoundingUp(amount, Q96, liquidity);
+  if (sqrtPX96 <= quotient) throw new Error("Insufficient liquidity for output amount");
+  return sqrtPX96 - quotient;
+}
+
+function getNextSqrtPriceFromInput(
+  sqrtPX96: bigint,
+  liquidity: bigint,
+  amountIn: bigint,
+  zeroForOne: boolean
+): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPX96, liquidity, amountIn, true)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtPX96, liquidity, amountIn, true);
+}
+
+function getAmount0Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+
+  const numerator1 = liquidity << BigInt(96);
+  const numerator2 = sqrtRatioBX96 - sqrtRatioAX96;
+
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtRatioBX96), sqrtRatioAX96)
+    : mulDiv(numerator1, numerator2, sqrtRatioBX96) / sqrtRatioAX96;
+}
+
+function getAmount1Delta(
+  sqrtRatioAX96: bigint,
+  sqrtRatioBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  if (sqrtRatioAX96 > sqrtRatioBX96) [sqrtRatioAX96, sqrtRatioBX96] = [sqrtRatioBX96, sqrtRatioAX96];
+
+  return roundUp
+    ? mulDivRoundingUp(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96)
+    : mulDiv(liquidity, sqrtRatioBX96 - sqrtRatioAX96, Q96);
+}
+
+// ============ SwapMath (exact input only) ============
+
+function computeSwapStep(
+  sqrtRatioCurrentX96: bigint,
+  sqrtRatioTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: bigint
+): { sqrtRatioNextX96: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+  const zeroForOne = sqrtRatioCurrentX96 >= sqrtRatioTargetX96;
+
+  const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - feePips, FEE_DENOMINATOR);
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtRatioTargetX96, sqrtRatioCurrentX96, liquidity, true)
+    : getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioTargetX96, liquidity, true);
+
+  const sqrtRatioNextX96 =
+    amountRemainingLessFee >= amountIn
+      ? sqrtRatioTargetX96
+      : getNextSqrtPriceFromInput(sqrtRatioCurrentX96, liquidity, amountRemainingLessFee, zeroForOne);
+
+  const max = sqrtRatioTargetX96 === sqrtRatioNextX96;
+  let amountOut: bigint;
+  if (zeroForOne) {
+    if (!max) amountIn = getAmount0Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, true);
+    amountOut = getAmount1Delta(sqrtRatioNextX96, sqrtRatioCurrentX96, liquidity, false);
+  } else {
+    if (!max) amountIn = getAmount1Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, true);
+    amountOut = getAmount0Delta(sqrtRatioCurrentX96, sqrtRatioNextX96, liquidity, false);
+  }
+
+  const feeAmount = !max
+    ? amountRemaining - amountIn
+    : mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips);
+
+  return { sqrtRatioNextX96, amountIn, amountOut, feeAmount };
+}
+
+// ============ TickBitmap ============
+
+/**
+ * Same search as TickBitmap.nextInitializedTickWithinOneWord, over a sorted list
+ * of initialized (compressed) ticks instead of the on-chain bitmap
+ */
+function nextInitializedTickWithinOneWord(
+  initializedCompressed: number[],
+  tick: number,
+  tickSpacing: number,
+  lte: boolean
+): { next: number; initialized: boolean } {
+  let compressed = Math.trunc(tick / tickSpacing);
+  if (tick < 0 && tick % tickSpacing !== 0) compressed--;
+
+  if (lte) {
+    const wordStart = compressed - (compressed & 255);
+    for (let i = initializedCompressed.length - 1; i >= 0; i--) {
+      const candidate = initializedCompressed[i];
+      if (candidate > compressed) continue;
+      if (candidate >= wordStart) return { next: candidate * tickSpacing, initialized: true };
+      break;
+    }
+    return { next: wordStart * tickSpacing, initialized: false };
+  }
+
+  const start = compressed + 1;
+  const wordEnd = start + (255 - (start & 255));
+  for (const candidate of initializedCompressed) {
+    if (candidate < start) continue;
+    if (candidate <= wordEnd) return { next: candidate * tickSpacing, initialized: true };
+    break;
+  }
+  return { next: wordEnd * tickSpacing, initialized: false };
+}
+
+class AmmSimulator {
+  /**
+   * Constant-product output with fee, matching UniswapV2Library.getAmountOut
+   * (fee in hundredths of a bip; 3000 reproduces the 997/1000 formula exactly)
+   */
+  getAmountOutV2(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, fee: number = 3000): bigint {
+    if (amountIn <= ZERO) return ZERO;
+    if (reserveIn <= ZERO || reserveOut <= ZERO) throw new Error("Insufficient liquidity");
+
+    const amountInWithFee = amountIn * (FEE_DENOMINATOR - BigInt(fee));
+    const numerator = amountInWithFee * reserveOut;
+    const denominator = reserveIn * FEE_DENOMINATOR + amountInWithFee;
+    return numerator / denominator;
+  }
+
+  /**
+   * Exact-input swap through a V3 pool, crossing initialized ticks the same way
+   * UniswapV3Pool.swap does. Ticks outside the supplied tick data are treated as
+   * uninitialized, so liquidity is assumed constant beyond the loaded range.
+   */
+  swapExactInputV3(pool: PoolSnapshot, zeroForOne: boolean, amountIn: bigint): SwapResult {
+    if (pool.sqrtPriceX96 === undefined || pool.liquidity === undefined) {
+      throw new Error(`Pool ${pool.address} has no V3 state`);
+    }
+
+    const tickSpacing = pool.tickSpacing ?? DEFAULT_TICK_SPACING[pool.fee];
+    if (!tickSpacing) throw new Error(`Unknown tick spacing for fee ${pool.fee}`);
+
+    const liquidityNet = new Map<number, bigint>();
+    for (const t of pool.ticks ?? []) liquidityNet.set(t.tick, t.liquidityNet);
+    const initializedCompressed = [...liquidityNet.keys()]
+      .map((t) => t / tickSpacing)
+      .sort((a, b) => a - b);
+
+    const feePips = BigInt(pool.fee);
+    const sqrtPriceLimitX96 = zeroForOne ? MIN_SQRT_RATIO + ONE : MAX_SQRT_RATIO - ONE;
+
+    let amountRemaining = amountIn;
+    let amountOut = ZERO;
+    let sqrtPriceX96 = pool.sqrtPriceX96;
+    let tick = pool.tick ?? getTickAtSqrtRatio(sqrtPriceX96);
+    let liquidity = pool.liquidity;
+    let ticksCrossed = 0;
+
+    while (amountRemaining !== ZERO && sqrtPriceX96 !== sqrtPriceLimitX96) {
+      const sqrtPriceStartX96 = sqrtPriceX96;
+      let { next, initialized } = nextInitializedTickWithinOneWord(
+        initializedCompressed,
+        tick,
+        tickSpacing,
+        zeroForOne
+      );
+      next = Math.min(MAX_TICK, Math.max(MIN_TICK, next));
+
+      const sqrtPriceNextX96 = getSqrtRatioAtTick(next);
+      const sqrtPriceTargetX96 = (zeroForOne
+        ? sqrtPriceNextX96 < sqrtPriceLimitX96
+        : sqrtPriceNextX96 > sqrtPriceLimitX96)
+        ? sqrtPriceLimitX96
+        : sqrtPriceNextX96;
+
+      const step = computeSwapStep(sqrtPriceX96, sqrtPriceTargetX96, liquidity, amountRemaining, feePips);
+      sqrtPriceX96 = step.sqrtRatioNextX96;
+      amountRemaining -= step.amountIn + step.feeAmount;
+      amountOut += step.amountOut;
+
+      if (sqrtPriceX96 === sqrtPriceNextX96) {
+        if (initialized) {
+          const net = liquidityNet.get(next) ?? ZERO;
+          liquidity += zeroForOne ? -net : net;
+          ticksCrossed++;
+        }
+        tick = zeroForOne ? next - 1 : next;
+      } else if (sqrtPriceX96 !== sqrtPriceStartX96) {
+        tick = getTickAtSqrtRatio(sqrtPriceX96);
+      }
+    }
+
+    return {
+      amountIn: amountIn - amountRemaining,
+      amountOut,
+      sqrtPriceX96After: sqrtPriceX96,
+      tickAfter: tick,
+      liquidityAfter: liquidity,
+      ticksCrossed,
+    };
+  }
+
+  /**
+   * Exact-input swap of tokenIn through any supported pool snapshot
+   */
+  quoteExactInput(pool: PoolSnapshot, tokenIn: string, amountIn: bigint): SwapResult {
+    const zeroForOne = this.isToken0(pool, tokenIn);
+
+    if (pool.poolType === "uniswap-v3") {
+      return this.swapExactInputV3(pool, zeroForOne, amountIn);
+    }
+
+    const [reserveIn, reserveOut] = zeroForOne
+      ? [pool.reserve0, pool.reserve1]
+      : [pool.reserve1, pool.reserve0];
+    return {
+      amountIn,
+      amountOut: this.getAmountOutV2(amountIn, reserveIn, reserveOut, pool.fee),
+      ticksCrossed: 0,
+    };
+  }
+
+  /**
+   * Simulate both legs of a two-pool route: borrowToken -> other token on leg1Pool,
+   * then back to borrowToken on leg2Pool
+   */
+  simulateRoute(
+    borrowToken: string,
+    borrowAmount: bigint,
+    leg1Pool: PoolSnapshot,
+    leg2Pool: PoolSnapshot
+  ): RouteSimulation {
+    const intermediateToken = this.isToken0(leg1Pool, borrowToken) ? leg1Pool.token1 : leg1Pool.token0;
+    const leg1 = this.quoteExactInput(leg1Pool, borrowToken, borrowAmount);
+    const leg2 = this.quoteExactInput(leg2Pool, intermediateToken, leg1.amountOut);
+
+    return {
+      borrowAmount,
+      intermediateToken,
+      leg1AmountOut: leg1.amountOut,
+      leg2AmountOut: leg2.amountOut,
+      leg1,
+      leg2,
+    };
+  }
+
+  private isToken0(pool: PoolSnapshot, token: string): boolean {
+    const normalized = token.toLowerCase();
+    if (normalized === pool.token0.toLowerCase()) return true;
+    if (normalized === pool.token1.toLowerCase()) return false;
+    throw new Error(`Token ${token} is not in pool ${pool.address}`);
+  }
+}
+
+export type { SwapResult, RouteSimulation };
+export default AmmSimulator;
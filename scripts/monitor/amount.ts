@@ -0,0 +1,128 @@
+// amount.ts
+import { ethers } from "ethers";
+
+// Ratios are taken on values scaled by 1e18 so only the final result becomes a float
+const RATIO_SCALE = BigInt(10) ** BigInt(18);
+
+/**
+ * Fixed-point token amount: an integer count of base units and the token's decimals.
+ * Arithmetic stays in bigint; only ratios and prices are returned as numbers.
+ */
+export class Amount {
+  readonly raw: bigint;
+  readonly decimals: number;
+
+  constructor(raw: bigint, decimals: number) {
+    if (!Number.isInteger(decimals) || decimals < 0 || decimals > 77) {
+      throw new Error(`Invalid decimals: ${decimals}`);
+    }
+    this.raw = raw;
+    this.decimals = decimals;
+  }
+
+  /**
+   * Wrap a base-unit amount (wei for 18-decimal tokens)
+   */
+  static from(raw: bigint | string, decimals: number): Amount {
+    return new Amount(BigInt(raw), decimals);
+  }
+
+  /**
+   * Parse a human-readable decimal string, e.g. "1.5" USDC -> 1500000
+   */
+  static parse(value: string, decimals: number): Amount {
+    return new Amount(ethers.parseUnits(value, decimals), decimals);
+  }
+
+  static zero(decimals: number): Amount {
+    return new Amount(BigInt(0), decimals);
+  }
+
+  plus(other: Amount): Amount {
+    this.assertSameUnits(other);
+    return new Amount(this.raw + other.raw, this.decimals);
+  }
+
+  minus(other: Amount): Amount {
+    this.assertSameUnits(other);
+    return new Amount(this.raw - other.raw, this.decimals);
+  }
+
+  /**
+   * Proportional share, rounded down (e.g. a 9 bps flash-loan premium)
+   */
+  mulBps(bps: number): Amount {
+    if (!Number.isInteger(bps)) throw new Error(`bps must be an integer, got ${bps}`);
+    return new Amount((this.raw * BigInt(bps)) / BigInt(10000), this.decimals);
+  }
+
+  /**
+   * Convert into another token given `rate`, the price of one whole unit of this
+   * token in the other token (as a fixed-point amount of any precision)
+   */
+  convert(rate: Amount, decimals: number): Amount {
+    const numerator = this.raw * rate.raw * BigInt(10) ** BigInt(decimals);
+    const denominator = BigInt(10) ** BigInt(this.decimals + rate.decimals);
+    return new Amount(numerator / denominator, decimals);
+  }
+
+  /**
+   * this / other for amounts of the same token; 0 when other is zero
+   */
+  ratio(other: Amount): number {
+    this.assertSameUnits(other);
+    if (other.raw === BigInt(0)) return 0;
+    return Number((this.raw * RATIO_SCALE) / other.raw) / Number(RATIO_SCALE);
+  }
+
+  /**
+   * Whole units of this token per whole unit of `base`, e.g. USDC out per WETH in
+   */
+  per(base: Amount): number {
+    if (base.raw === BigInt(0)) return 0;
+    const numerator = this.raw * BigInt(10) ** BigInt(base.decimals) * RATIO_SCALE;
+    const denominator = base.raw * BigInt(10) ** BigInt(this.decimals);
+    return Number(numerator / denominator) / Number(RATIO_SCALE);
+  }
+
+  isZero(): boolean {
+    return this.raw === BigInt(0);
+  }
+
+  isPositive(): boolean {
+    return this.raw > BigInt(0);
+  }
+
+  compare(other: Amount): number {
+    this.assertSameUnits(other);
+    return this.raw < other.raw ? -1 : this.raw > other.raw ? 1 : 0;
+  }
+
+  /**
+   * Clamp negative amounts to zero
+   */
+  floorAtZero(): Amount {
+    return this.raw < BigInt(0) ? Amount.zero(this.decimals) : this;
+  }
+
+  /**
+   * Human-readable decimal string
+   */
+  format(): string {
+    return ethers.formatUnits(this.raw, this.decimals);
+  }
+
+  toString(): string {
+    return this.raw.toString();
+  }
+
+  toJSON(): { raw: string; decimals: number; formatted: string } {
+    return { raw: this.raw.toString(), decimals: this.decimals, formatted: this.format() };
+  }
+
+  private assertSameUnits(other: Amount): void {
+    if (other.decimals !== this.decimals) {
+      throw new Error(`Amount unit mismatch: ${this.decimals} vs ${other.decimals} decimals`);
+    }
+  }
+}
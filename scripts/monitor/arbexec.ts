@@ -0,0 +1,899 @@
+// arbexec.ts
+import { parseArgs } from "util";
+import { ethers } from "ethers";
+import ArbitrageOrchestrator, { ExecutionPlan } from "./orchestrator";
+import BlockWatcher from "./block-watcher";
+import { BundleRelay } from "./bundle-relay";
+import TradeExecutor from "./trade-executor";
+import TradeLedger from "./trade-ledger";
+import type { BacktestParameters, BacktestResult } from "./backtester";
+import RunReporter, { REPORT_FORMATS, ReportFormat } from "./run-report";
+import { loadArtifactAbi, loadArtifactBytecode, loadArtifactInterface } from "./artifacts";
+import { generateBindings } from "./bindings-generator";
+import { connectArbOptimizer } from "./bindings/ArbOptimizer";
+import { deployArbitrageAnalyzer } from "./bindings/ArbitrageAnalyzer";
+import ProfitabilityParity from "./profitability-parity";
+import Treasury, { ETH, SweepPlan } from "./treasury";
+import RouteRegistry, { RouteSyncReport } from "./route-registry";
+import EventIndexer from "./event-indexer";
+import { connectArbExecutor } from "./bindings/ArbExecutor";
+import { sendCalls, writeSafeBatch } from "./safe-batch";
+import { Amount } from "./amount";
+import {
+  AlchemyBackend,
+  LocalForkBackend,
+  SimulationBackend,
+  TenderlyBackend,
+} from "./simulation-backend";
+import { ConfigValidationError } from "./config-schema";
+import { assertValidConfig, CONFIG } from "./config";
+
+// Process exit codes, stable for scripts and schedulers
+const EXIT = {
+  OK: 0,
+  ERROR: 1, // Unexpected failure (RPC, I/O, ...)
+  USAGE: 2, // Unknown command or bad flags
+  CONFIG: 3, // Configuration failed validation
+  FAILED: 4, // The command ran but its action did not succeed (revert, failed pre-check, ...)
+} as const;
+
+/**
+ * Raised for unknown commands, missing arguments and flags a command does not take
+ */
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+// Shared by every command; --network, --config and --set are read by config.ts
+const FLAGS = {
+  help: { type: "boolean", short: "h" },
+  json: { type: "boolean" },
+  network: { type: "string" },
+  config: { type: "string" },
+  set: { type: "string", multiple: true },
+  block: { type: "string" },
+  output: { type: "string" },
+  formats: { type: "string" },
+  data: { type: "string" },
+  record: { type: "boolean" },
+  execute: { type: "boolean" },
+  from: { type: "string" },
+  "dry-run": { type: "boolean" },
+  runs: { type: "string" },
+  seed: { type: "string" },
+  to: { type: "string" },
+  multisig: { type: "boolean" },
+  refresh: { type: "boolean" },
+} as const;
+
+type Flags = { [K in keyof typeof FLAGS]?: (typeof FLAGS)[K] extends { multiple: true }
+  ? string[]
+  : (typeof FLAGS)[K] extends { type: "boolean" } ? boolean : string };
+
+const GLOBAL_FLAGS: Array<keyof Flags> = ["help", "json", "network", "config", "set"];
+
+interface CommandContext {
+  args: string[]; // Positionals after the command name
+  flags: Flags;
+}
+
+interface CommandResult {
+  data: unknown; // Printed with --json
+  lines: string[]; // Printed otherwise
+  exitCode?: number;
+}
+
+interface Command {
+  usage: string;
+  summary: string;
+  flags: Array<keyof Flags>;
+  offline?: boolean; // Needs no RPC, so an incomplete network config is fine
+  run(ctx: CommandContext): Promise<CommandResult>;
+}
+
+const COMMANDS: Record<string, Command> = {
+  monitor: {
+    usage: "monitor [--execute]",
+    summary: "Watch every block and plan (and with --execute, submit) arbitrage until SIGINT",
+    flags: ["execute"],
+    async run({ flags }) {
+      const orchestrator = createOrchestrator();
+      const executor = flags.execute ? createExecutor() : null;
+      const watcher = new BlockWatcher(orchestrator, CONFIG.TOKEN_PAIRS, {
+        rpcUrl: CONFIG.RPC_URL,
+        wsUrl: CONFIG.WS_URL,
+        pollIntervalMs: CONFIG.BLOCK_POLL_INTERVAL_MS,
+        opportunityMaxAgeBlocks: CONFIG.OPPORTUNITY_MAX_AGE_BLOCKS,
+        actedOnCooldownBlocks: CONFIG.ACTED_ON_COOLDOWN_BLOCKS,
+        minProfitBps: CONFIG.MIN_PROFIT_BPS,
+      }, async (plans) => {
+        if (!executor) return;
+        // One at a time in ranked order: each trade moves the pools the next plan was
+        // quoted on, and a send that fails must not leave a gap in the nonces behind it
+        for (const plan of plans) await executor.execute(plan);
+      });
+      await watcher.run();
+      return { data: watcher.getLatencyStats(), lines: [] };
+    },
+  },
+
+  plan: {
+    usage: "plan [--block N] [--output FILE] [--formats json,csv,md,html]",
+    summary: "Find opportunities, size them and write the run report",
+    flags: ["block", "output", "formats"],
+    async run({ flags }) {
+      const orchestrator = createOrchestrator();
+      const plans = await orchestrator.analyzeAndPlan(CONFIG.TOKEN_PAIRS, CONFIG.MIN_PROFIT_BPS, blockFlag(flags));
+      const reportFiles = orchestrator.exportReport(
+        plans,
+        flags.output ?? CONFIG.REPORT_OUTPUT_PATH,
+        formatsFlag(flags) ?? CONFIG.REPORT_FORMATS
+      );
+      return { data: { plans, reportFiles }, lines: describePlans(plans) };
+    },
+  },
+
+  routes: {
+    usage: "routes [--block N] | routes sync [--block N] [--execute | --multisig [--output FILE]]",
+    summary: "Search multi-hop cycles across the configured tokens, or sync ArbExec's registered routes to them",
+    flags: ["block", "execute", "multisig", "output"],
+    async run({ args, flags }) {
+      const [action] = args;
+      if (action === "sync") return syncRoutes(flags);
+      if (action !== undefined) throw new UsageError(`routes: unknown action "${action}"`);
+      if (flags.execute || flags.multisig || flags.output) throw new UsageError("--execute, --multisig and --output need routes sync");
+
+      const routes = await createOrchestrator().discoverRoutes(
+        CONFIG.TOKEN_PAIRS,
+        CONFIG.MAX_ROUTE_HOPS,
+        blockFlag(flags)
+      );
+      const lines = ["🧭 Multi-hop Routes:"];
+      routes.forEach((route, idx) => {
+        lines.push(
+          ``,
+          `Route ${idx + 1}:`,
+          `  Path: ${[...route.path, route.path[0]].join(" → ")}`,
+          `  DEXes: ${route.dexes.join(", ")}`,
+          `  Simulated Profit: ${route.profit} Wei (${route.profitBps} bps)`
+        );
+      });
+      return { data: routes, lines };
+    },
+  },
+
+  pools: {
+    usage: "pools [--block N] [--refresh]",
+    summary: "Catalogue every pool between the configured tokens from factory events and list their liquidity",
+    flags: ["block", "refresh"],
+    async run({ flags }) {
+      const { added, pools } = await createOrchestrator().syncPools(blockFlag(flags), flags.refresh ?? false);
+      const usd = (value: number | null) =>
+        value === null ? "unpriced" : `$${Math.round(value).toLocaleString("en-US")}`;
+      const lines = [
+        `🧭 Pool Catalogue: ${pools.length} pools, ${pools.filter((p) => p.eligible).length} eligible, ${added.length} new`,
+      ];
+      for (const pool of pools) {
+        lines.push(
+          `  ${pool.eligible ? "✅" : "⛔"} ${pool.symbol0}/${pool.symbol1} ${pool.dex} ${pool.fee / 10000}% ${pool.address}` +
+            ` (liquidity ${usd(pool.liquidityUsd)}, TVL ${usd(pool.tvlUsd)})`
+        );
+      }
+      return { data: pools, lines };
+    },
+  },
+
+  backtest: {
+    usage: "backtest [--record] [--data FILE]",
+    summary: "Record pool state over BACKTEST_WINDOW (--record), or replay parameter sets over it",
+    flags: ["record", "data"],
+    async run({ flags }) {
+      const orchestrator = createOrchestrator();
+      const filePath = flags.data ?? CONFIG.BACKTEST_DATA_PATH;
+      if (flags.record) {
+        await orchestrator.recordBacktestData(CONFIG.TOKEN_PAIRS, filePath);
+        return { data: { filePath }, lines: [] };
+      }
+      const results = orchestrator.runBacktest(backtestParameterSets(), filePath);
+      return { data: results, lines: describeBacktest(results) };
+    },
+  },
+
+  simulate: {
+    usage: "simulate [--from ADDRESS] [--block N]",
+    summary: "Plan, then dry-run each plan's transaction through SIMULATION_BACKEND",
+    flags: ["from", "block"],
+    async run({ flags }) {
+      const from = flags.from ?? (process.env.PRIVATE_KEY ? new ethers.Wallet(process.env.PRIVATE_KEY).address : null);
+      if (!from) throw new UsageError("simulate needs --from <owner address> or PRIVATE_KEY");
+      if (!ethers.isAddress(from)) throw new UsageError(`--from: "${from}" is not an address`);
+
+      const orchestrator = createOrchestrator();
+      const plans = await orchestrator.analyzeAndPlan(CONFIG.TOKEN_PAIRS, CONFIG.MIN_PROFIT_BPS, blockFlag(flags));
+      const provider = new ethers.JsonRpcProvider(CONFIG.RPC_URL);
+      const executor = createExecutor(new ethers.VoidSigner(from, provider));
+
+      const results = [];
+      for (const plan of plans) {
+        try {
+          const call = executor.buildCall(plan);
+          results.push({ plan, method: call.method, ...(await executor.precheck(call)) });
+        } catch (error) {
+          results.push({ plan, method: "none", ok: false, revertReason: (error as Error).message });
+        }
+      }
+
+      const lines = [`🧪 Simulated ${results.length} plans via ${CONFIG.SIMULATION_BACKEND}:`];
+      results.forEach((result, idx) => {
+        lines.push(
+          `  Plan ${idx + 1} (${result.plan.dexA}/${result.plan.dexB}, ${result.method}): ` +
+            (result.ok ? "✅ ok" : `⛔ ${result.revertReason ?? "reverted"}`)
+        );
+      });
+      return { data: results, lines, exitCode: results.every((r) => r.ok) ? EXIT.OK : EXIT.FAILED };
+    },
+  },
+
+  execute: {
+    usage: "execute [--block N]",
+    summary: "Plan, then pre-check and submit every plan (needs PRIVATE_KEY)",
+    flags: ["block"],
+    async run({ flags }) {
+      const executor = createExecutor();
+      const orchestrator = createOrchestrator();
+      const plans = await orchestrator.analyzeAndPlan(CONFIG.TOKEN_PAIRS, CONFIG.MIN_PROFIT_BPS, blockFlag(flags));
+      orchestrator.exportReport(plans, CONFIG.REPORT_OUTPUT_PATH);
+
+      const outcomes = [];
+      for (const plan of plans) {
+        outcomes.push({ plan, outcome: await executor.execute(plan) });
+      }
+
+      const lines = describePlans(plans);
+      outcomes.forEach(({ outcome }, idx) => {
+        const route = outcome.executedRouteId !== undefined ? ` (route #${outcome.executedRouteId})` : "";
+        lines.push(`Plan ${idx + 1} execution: ${outcome.status} ${outcome.txHash ?? outcome.revertReason ?? ""}${route}`);
+      });
+      const allMined = outcomes.every(({ outcome }) => outcome.status === "mined");
+      return { data: outcomes, lines, exitCode: allMined ? EXIT.OK : EXIT.FAILED };
+    },
+  },
+
+  withdraw: {
+    usage: "withdraw <TOKEN_ADDRESS|eth|all> [--dry-run]",
+    summary: "Sweep profits from ArbOptimizer (and ArbExec) to the owner (needs PRIVATE_KEY)",
+    flags: ["dry-run"],
+    async run({ args, flags }) {
+      const [target] = args;
+      if (!target) throw new UsageError("withdraw needs a token address, eth or all");
+      if (!CONFIG.ARB_OPTIMIZER_ADDRESS) throw new UsageError("withdraw needs ARB_OPTIMIZER_ADDRESS");
+
+      const optimizer = connectArbOptimizer(CONFIG.ARB_OPTIMIZER_ADDRESS, ownerWallet());
+      let method: string;
+      let withdrawal: { staticCall: () => Promise<void>; send: () => Promise<ethers.ContractTransactionResponse> };
+      if (target === "eth") {
+        method = "withdrawETH";
+        withdrawal = { staticCall: () => optimizer.withdrawETH.staticCall(), send: () => optimizer.withdrawETH() };
+      } else if (target === "all") {
+        method = "withdrawAll";
+        withdrawal = { staticCall: () => optimizer.withdrawAll.staticCall(), send: () => optimizer.withdrawAll() };
+      } else if (ethers.isAddress(target)) {
+        method = "withdrawToken";
+        withdrawal = {
+          staticCall: () => optimizer.withdrawToken.staticCall(target),
+          send: () => optimizer.withdrawToken(target),
+        };
+      } else throw new UsageError(`withdraw: "${target}" is not a token address, eth or all`);
+
+      // Every withdrawal is owner-only; a static call surfaces that before paying gas
+      try {
+        await withdrawal.staticCall();
+      } catch (error) {
+        const reason = (error as { shortMessage?: string }).shortMessage ?? (error as Error).message;
+        return { data: { method, ok: false, reason }, lines: [`⛔ ${method} would revert: ${reason}`], exitCode: EXIT.FAILED };
+      }
+      if (flags["dry-run"]) {
+        return { data: { method, ok: true, dryRun: true }, lines: [`✅ ${method} pre-check passed (dry run, not sent)`] };
+      }
+
+      const tx = await withdrawal.send();
+      const receipt = await tx.wait();
+      const ok = receipt?.status === 1;
+      return {
+        data: { method, ok, txHash: tx.hash, gasUsed: receipt?.gasUsed },
+        lines: [`${ok ? "✅" : "⛔"} ${method} ${ok ? "mined" : "reverted"}: ${tx.hash}`],
+        exitCode: ok ? EXIT.OK : EXIT.FAILED,
+      };
+    },
+  },
+
+  treasury: {
+    usage: "treasury balances | treasury sweep [--to ETH|TOKEN_ADDRESS] [--multisig] [--dry-run] [--output FILE] | treasury audit",
+    summary: "Record ArbOptimizer balances, sweep those past TREASURY_SWEEP_THRESHOLDS, or list past withdrawals",
+    flags: ["to", "multisig", "dry-run", "output"],
+    async run({ args, flags }) {
+      const [action] = args;
+      if (!CONFIG.ARB_OPTIMIZER_ADDRESS) throw new UsageError("treasury needs ARB_OPTIMIZER_ADDRESS");
+      const treasury = createTreasury();
+
+      if (action === "balances") {
+        const snapshot = await treasury.snapshot();
+        const lines = [`💰 ArbOptimizer balances at block ${snapshot.blockNumber}:`];
+        for (const [asset, balance] of Object.entries(snapshot.balances)) {
+          if (balance === "0") continue;
+          const { symbol, decimals } = await treasury.assetInfo(asset);
+          const threshold = CONFIG.TREASURY_SWEEP_THRESHOLDS[asset];
+          lines.push(`  ${Amount.from(balance, decimals).format()} ${symbol}${threshold ? ` (sweeps at ${threshold})` : ""}`);
+        }
+        if (lines.length === 1) lines.push("  (empty)");
+        return { data: snapshot, lines };
+      }
+
+      if (action === "audit") {
+        const withdrawals = await treasury.auditLog();
+        const lines = [`📋 ${withdrawals.length} withdrawals:`];
+        for (const w of withdrawals) {
+          lines.push(`  Block ${w.blockNumber}: ${w.formatted} ${w.symbol} → ${w.recipient} (${w.transactionHash})`);
+        }
+        return { data: withdrawals, lines };
+      }
+
+      if (action !== "sweep") throw new UsageError("treasury needs balances, sweep or audit");
+
+      const target = targetFlag(flags) ?? (CONFIG.TREASURY_TARGET_ASSET || null);
+      const snapshot = await treasury.snapshot();
+      const sweeps = await treasury.dueSweeps(snapshot);
+      if (sweeps.length === 0) {
+        return { data: { sweeps }, lines: ["✅ No balance has reached its sweep threshold"] };
+      }
+
+      if (flags.multisig) {
+        if (!CONFIG.OWNER_MULTISIG_ADDRESS) throw new UsageError("treasury sweep --multisig needs OWNER_MULTISIG_ADDRESS");
+        const plan = await treasury.planSweep(
+          sweeps,
+          CONFIG.OWNER_MULTISIG_ADDRESS,
+          target,
+          snapshot.timestamp + CONFIG.TREASURY_MULTISIG_DEADLINE_SECONDS,
+          snapshot.blockNumber
+        );
+        if (flags["dry-run"]) return { data: plan, lines: describeSweep(plan) };
+        const file = treasury.writeMultisigBatch(
+          plan,
+          CONFIG.OWNER_MULTISIG_ADDRESS,
+          CONFIG.CHAIN_ID,
+          flags.output ?? CONFIG.TREASURY_BATCH_PATH
+        );
+        return { data: { plan, file }, lines: [...describeSweep(plan), ``, `📄 Safe batch written to ${file}`] };
+      }
+
+      const wallet = ownerWallet();
+      const plan = await treasury.planSweep(
+        sweeps,
+        wallet.address,
+        target,
+        snapshot.timestamp + CONFIG.DEADLINE_SECONDS,
+        snapshot.blockNumber
+      );
+      if (flags["dry-run"]) return { data: plan, lines: describeSweep(plan) };
+
+      const results = await treasury.execute(plan, wallet);
+      const ok = results.length === plan.calls.length && results.every((r) => r.status === "mined");
+      return {
+        data: { plan, results },
+        lines: [
+          ...describeSweep(plan),
+          ``,
+          ...results.map((r) => `${r.status === "mined" ? "✅" : "⛔"} ${r.description}: ${r.txHash}`),
+        ],
+        exitCode: ok ? EXIT.OK : EXIT.FAILED,
+      };
+    },
+  },
+
+  report: {
+    usage: "report compare <BEFORE.json> <AFTER.json> | report render <REPORT.json> [--formats md,html] [--output FILE]",
+    summary: "Compare two JSON run reports, or re-render one in other formats",
+    flags: ["formats", "output"],
+    offline: true,
+    async run({ args, flags }) {
+      const [action, ...files] = args;
+      const reporter = new RunReporter();
+      if (action === "compare") {
+        if (files.length !== 2) throw new UsageError("report compare needs <before.json> <after.json>");
+        const diff = RunReporter.diff(RunReporter.load(files[0]), RunReporter.load(files[1]));
+        return { data: diff, lines: [reporter.renderDiff(diff)] };
+      }
+      if (action === "render") {
+        if (files.length !== 1) throw new UsageError("report render needs <report.json>");
+        const written = reporter.write(
+          RunReporter.load(files[0]),
+          flags.output ?? files[0],
+          formatsFlag(flags) ?? ["md", "html"]
+        );
+        return { data: { files: written }, lines: [`📄 Report rendered to ${written.join(", ")}`] };
+      }
+      throw new UsageError("report needs compare or render");
+    },
+  },
+
+  bindings: {
+    usage: "bindings",
+    summary: "Regenerate the typed contract bindings in bindings/ from artifacts/",
+    flags: [],
+    offline: true,
+    async run() {
+      const files = generateBindings();
+      return { data: { files }, lines: [`✅ Wrote ${files.length} binding files`, ...files.map((f) => `  ${f}`)] };
+    },
+  },
+
+  parity: {
+    usage: "parity [--runs N] [--seed N]",
+    summary: "Deploy ArbitrageAnalyzer to LOCAL_FORK_RPC_URL and fuzz it against ProfitabilityCalculator",
+    flags: ["runs", "seed"],
+    async run({ flags }) {
+      const runs = integerFlag(flags, "runs") ?? 500;
+      const seed = integerFlag(flags, "seed");
+
+      // Hardhat/anvil nodes unlock their dev accounts, so no key is needed locally
+      const provider = new ethers.JsonRpcProvider(CONFIG.LOCAL_FORK_RPC_URL);
+      const signer = process.env.PRIVATE_KEY
+        ? new ethers.Wallet(process.env.PRIVATE_KEY, provider)
+        : await provider.getSigner();
+      console.log(`🚀 Deploying ArbitrageAnalyzer to ${CONFIG.LOCAL_FORK_RPC_URL}...`);
+      const analyzer = await deployArbitrageAnalyzer(signer);
+
+      console.log(`🎲 Fuzzing ${runs} cases...`);
+      const report = await new ProfitabilityParity(analyzer).run(runs, seed);
+      provider.destroy();
+
+      const lines = [
+        `🧪 Parity: ${report.matched}/${report.runs} cases matched (seed ${report.seed})`,
+        ...report.mismatches.slice(0, 20).map(
+          (m) => `  ⛔ ${m.field}: TS ${m.typescript} vs Solidity ${m.solidity} for ${JSON.stringify(m.input)}`
+        ),
+      ];
+      if (report.mismatches.length > 20) lines.push(`  ... ${report.mismatches.length - 20} more`);
+      return { data: report, lines, exitCode: report.mismatches.length === 0 ? EXIT.OK : EXIT.FAILED };
+    },
+  },
+
+  analyzer: {
+    usage: "analyzer deploy | analyzer analyze | analyzer optimize",
+    summary: "Deploy the on-chain ArbitrageAnalyzer, or run its example analyses (ANALYZER_* addresses)",
+    flags: [],
+    async run({ args }) {
+      const [action] = args;
+      switch (action) {
+        case "deploy":
+          return deployAnalyzer();
+        case "analyze":
+          return runAnalyzerExample(["runCompleteAnalysis"]);
+        case "optimize":
+          return runAnalyzerExample(["findOptimalAmount", "runSensitivityAnalysis", "runBacktest", "analyzeGasUsage"]);
+        default:
+          throw new UsageError("analyzer needs deploy, analyze or optimize");
+      }
+    },
+  },
+};
+
+/**
+ * Parse argv, run one command and return the process exit code
+ */
+async function main(argv: string[]): Promise<number> {
+  let parsed: { values: Flags; positionals: string[] };
+  try {
+    parsed = parseArgs({ args: argv, options: FLAGS, allowPositionals: true, strict: true }) as typeof parsed;
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${usage()}`);
+    return EXIT.USAGE;
+  }
+
+  const [name, ...args] = parsed.positionals;
+  const flags = parsed.values;
+  if (!name || name === "help" || (flags.help && !COMMANDS[name])) {
+    console.log(usage());
+    return name || flags.help ? EXIT.OK : EXIT.USAGE;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(`Unknown command "${name}"\n\n${usage()}`);
+    return EXIT.USAGE;
+  }
+  if (flags.help) {
+    console.log(`arbexec ${command.usage}\n\n${command.summary}`);
+    return EXIT.OK;
+  }
+
+  const unsupported = (Object.keys(flags) as Array<keyof Flags>).filter(
+    (flag) => !GLOBAL_FLAGS.includes(flag) && !command.flags.includes(flag)
+  );
+  if (unsupported.length > 0) {
+    console.error(`${name} does not take --${unsupported.join(", --")}\n\nUsage: arbexec ${command.usage}`);
+    return EXIT.USAGE;
+  }
+
+  // Progress logs go to stderr so stdout stays parseable
+  if (flags.json) console.log = console.error;
+
+  try {
+    // Report every invalid setting at once instead of failing on the first RPC call
+    if (!command.offline) {
+      assertValidConfig();
+      console.log(`🌐 Network: ${CONFIG.NETWORK} (chain ${CONFIG.CHAIN_ID})`);
+    }
+
+    const result = await command.run({ args, flags });
+    if (flags.json) {
+      process.stdout.write(JSON.stringify(result.data, jsonReplacer, 2) + "\n");
+    } else if (result.lines.length > 0) {
+      console.log(`\n${result.lines.join("\n")}`);
+    }
+    return result.exitCode ?? EXIT.OK;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`${error.message}\n\nUsage: arbexec ${command.usage}`);
+      return EXIT.USAGE;
+    }
+    if (error instanceof ConfigValidationError) {
+      console.error(error.message);
+      return EXIT.CONFIG;
+    }
+    console.error(`❌ ${name} failed:`, error);
+    return EXIT.ERROR;
+  }
+}
+
+function usage(): string {
+  const width = Math.max(...Object.keys(COMMANDS).map((name) => name.length));
+  return [
+    "Usage: arbexec <command> [options]",
+    "",
+    "Commands:",
+    ...Object.entries(COMMANDS).map(([name, command]) => `  ${name.padEnd(width)}  ${command.summary}`),
+    "",
+    "Global options:",
+    "  --network NAME       Network profile (mainnet, sepolia, ...)",
+    "  --config FILE        JSON/YAML config file",
+    "  --set KEY=VALUE      Override one config key (repeatable)",
+    "  --json               Print the result as JSON on stdout; logs go to stderr",
+    "  -h, --help           Show help (arbexec <command> --help for one command)",
+    "",
+    `Exit codes: ${EXIT.OK} ok, ${EXIT.ERROR} error, ${EXIT.USAGE} usage, ${EXIT.CONFIG} invalid config, ${EXIT.FAILED} action failed`,
+  ].join("\n");
+}
+
+function createOrchestrator(): ArbitrageOrchestrator {
+  return new ArbitrageOrchestrator(CONFIG.RPC_URL, CONFIG.ALCHEMY_API_KEY);
+}
+
+function ownerWallet(): ethers.Wallet {
+  if (!process.env.PRIVATE_KEY) throw new UsageError("PRIVATE_KEY is required");
+  return new ethers.Wallet(process.env.PRIVATE_KEY, new ethers.JsonRpcProvider(CONFIG.RPC_URL));
+}
+
+/**
+ * Executor wired to the configured ledger, simulation backend and relay. Signs with
+ * PRIVATE_KEY unless a signer is given (a VoidSigner is enough for pre-checks).
+ */
+function createExecutor(signer: ethers.Signer = ownerWallet()): TradeExecutor {
+  const provider = signer.provider ?? new ethers.JsonRpcProvider(CONFIG.RPC_URL);
+  return new TradeExecutor(provider, signer, {
+    arbOptimizerAddress: CONFIG.ARB_OPTIMIZER_ADDRESS,
+    arbExecAddress: CONFIG.ARBEXEC_ADDRESS,
+    ledger: new TradeLedger(CONFIG.TRADE_LEDGER_PATH),
+    simulator: createSimulationBackend(),
+    // Relay requests are signed with a reputation key that never holds funds
+    relay: CONFIG.BUNDLE_RELAY_URL
+      ? new BundleRelay(
+          provider,
+          CONFIG.BUNDLE_RELAY_URL,
+          process.env.BUNDLE_AUTH_KEY
+            ? new ethers.Wallet(process.env.BUNDLE_AUTH_KEY)
+            : new ethers.Wallet(ethers.Wallet.createRandom().privateKey)
+        )
+      : undefined,
+    bundleTargetBlocks: CONFIG.BUNDLE_TARGET_BLOCKS,
+    builderTipBps: CONFIG.BUILDER_TIP_BPS,
+    profitRecipient: CONFIG.BENEFICIARY_ADDRESS,
+    priorityFeeGwei: CONFIG.PRIORITY_FEE_GWEI,
+    stuckTimeoutMs: CONFIG.STUCK_TX_TIMEOUT_MS,
+    feeBumpPercent: CONFIG.FEE_BUMP_PERCENT,
+    maxReplacements: CONFIG.MAX_REPLACEMENTS,
+  });
+}
+
+function createTreasury(): Treasury {
+  const provider = new ethers.JsonRpcProvider(CONFIG.RPC_URL);
+  return new Treasury(provider, connectArbOptimizer(CONFIG.ARB_OPTIMIZER_ADDRESS, provider), {
+    wethAddress: CONFIG.WETH_ADDRESS,
+    routerAddress: CONFIG.SUSHISWAP_ROUTER,
+    thresholds: CONFIG.TREASURY_SWEEP_THRESHOLDS,
+    maxSlippageBps: CONFIG.MAX_SLIPPAGE_BPS,
+    balancesPath: CONFIG.TREASURY_BALANCES_PATH,
+    auditPath: CONFIG.TREASURY_AUDIT_PATH,
+    auditStartBlock: CONFIG.INDEXER_START_BLOCK,
+    auditBatchSize: CONFIG.INDEXER_BATCH_SIZE,
+    auditReorgDepth: CONFIG.INDEXER_REORG_DEPTH,
+  });
+}
+
+function createSimulationBackend(): SimulationBackend | undefined {
+  switch (CONFIG.SIMULATION_BACKEND) {
+    case "local-fork":
+      return new LocalForkBackend(CONFIG.LOCAL_FORK_RPC_URL, CONFIG.LOCAL_FORK_UPSTREAM_URL || null);
+    case "tenderly":
+      return new TenderlyBackend(CONFIG.TENDERLY_ACCOUNT, CONFIG.TENDERLY_PROJECT, CONFIG.TENDERLY_ACCESS_KEY);
+    case "alchemy":
+      return new AlchemyBackend(CONFIG.RPC_URL);
+    default:
+      return undefined; // Plain eth_call pre-check
+  }
+}
+
+function blockFlag(flags: Flags): number | undefined {
+  if (flags.block === undefined) return undefined;
+  const block = Number(flags.block);
+  if (!Number.isInteger(block) || block < 0) throw new UsageError(`--block: "${flags.block}" is not a block number`);
+  return block;
+}
+
+function integerFlag(flags: Flags, name: "runs" | "seed"): number | undefined {
+  if (flags[name] === undefined) return undefined;
+  const value = Number(flags[name]);
+  if (!Number.isInteger(value) || value < 0) throw new UsageError(`--${name}: "${flags[name]}" is not a non-negative integer`);
+  return value;
+}
+
+function targetFlag(flags: Flags): string | undefined {
+  if (flags.to === undefined) return undefined;
+  if (flags.to.toUpperCase() === ETH) return ETH;
+  if (!ethers.isAddress(flags.to)) throw new UsageError(`--to: "${flags.to}" is not ETH or a token address`);
+  return ethers.getAddress(flags.to);
+}
+
+function formatsFlag(flags: Flags): ReportFormat[] | undefined {
+  if (flags.formats === undefined) return undefined;
+  const formats = flags.formats.split(",").map((f) => f.trim());
+  const unknown = formats.filter((f) => !REPORT_FORMATS.includes(f as ReportFormat));
+  if (unknown.length > 0) throw new UsageError(`--formats: unknown ${unknown.join(", ")} (use ${REPORT_FORMATS.join(", ")})`);
+  return formats as ReportFormat[];
+}
+
+/**
+ * Configured parameter sets, or a MIN_PROFIT_BPS sweep around the current settings
+ */
+function backtestParameterSets(): BacktestParameters[] {
+  if (CONFIG.BACKTEST_PARAMETER_SETS.length > 0) return CONFIG.BACKTEST_PARAMETER_SETS;
+  return [0.5, 1, 2].map((factor) => ({
+    name: `minProfit x${factor}`,
+    minProfitBps: Math.round(CONFIG.MIN_PROFIT_BPS * factor),
+    maxSlippageBps: CONFIG.MAX_SLIPPAGE_BPS,
+    gasUnitsEstimate: CONFIG.GAS_UNITS_ESTIMATE,
+    priorityFeeGwei: CONFIG.PRIORITY_FEE_GWEI,
+    latencyBlocks: CONFIG.BACKTEST_LATENCY_BLOCKS,
+  }));
+}
+
+function describePlans(plans: ExecutionPlan[]): string[] {
+  const lines = ["📋 Execution Plans:"];
+  plans.forEach((plan, idx) => {
+    lines.push(
+      ``,
+      `Plan ${idx + 1}:`,
+      `  Tokens: ${plan.tokenPath.join(" → ")}`,
+      `  ArbExec Route: ${plan.routeId !== undefined ? `#${plan.routeId}` : "none registered"}`,
+      `  Flash Loan: ${plan.flashLoan.source} at ${plan.flashLoan.premiumBps} bps`,
+      ...plan.flashLoanAlternatives
+        .filter((a) => BigInt(a.savings) > BigInt(0))
+        .map(
+          (a) =>
+            `    ${a.flashLoan.source} at ${a.flashLoan.premiumBps} bps would net ` +
+            `${ethers.formatUnits(a.savings, plan.borrowToken.decimals)} ${plan.borrowToken.symbol} more (not executable)`
+        ),
+      `  Net Profit: ${ethers.formatUnits(plan.profitability.netProfit, plan.borrowToken.decimals)} ${plan.borrowToken.symbol}`,
+      `  ROI: ${(plan.profitability.roi * 100).toFixed(2)}%`
+    );
+    if (plan.risk) {
+      lines.push(
+        `  Expected Value: ${plan.risk.expectedValue.format()} ${plan.borrowToken.symbol}`,
+        `  P(loss): ${(plan.risk.probabilityOfLoss * 100).toFixed(1)}%`,
+        `  VaR/CVaR (${CONFIG.RISK_CONFIDENCE * 100}%): ${plan.risk.valueAtRisk.format()} / ${plan.risk.conditionalValueAtRisk.format()}`,
+        `  Suggested safetyBufferBps: ${plan.risk.suggestedSafetyBufferBps}`
+      );
+    }
+    lines.push(`  Recommended minProfitBps: ${plan.recommendedParams.minProfitBps}`);
+  });
+  return lines;
+}
+
+/**
+ * Diff ArbExec's routes against the configured and discovered ones, then print,
+ * send (--execute) or write as a Safe batch (--multisig) the calls that fix them
+ */
+async function syncRoutes(flags: Flags): Promise<CommandResult> {
+  if (!CONFIG.ARB_OPTIMIZER_ADDRESS) throw new UsageError("routes sync needs ARB_OPTIMIZER_ADDRESS");
+  if (flags.execute && flags.multisig) throw new UsageError("use either --execute or --multisig");
+  if (flags.multisig && !CONFIG.OWNER_MULTISIG_ADDRESS) throw new UsageError("routes sync --multisig needs OWNER_MULTISIG_ADDRESS");
+
+  const block = blockFlag(flags);
+  const provider = new ethers.JsonRpcProvider(CONFIG.RPC_URL);
+  const arbExec = connectArbExecutor(CONFIG.ARBEXEC_ADDRESS, provider);
+  const indexer = new EventIndexer(
+    provider,
+    [
+      { name: "ArbOptimizer", address: CONFIG.ARB_OPTIMIZER_ADDRESS },
+      { name: "ArbExecutor", address: CONFIG.ARBEXEC_ADDRESS },
+    ],
+    CONFIG.INDEXER_STATE_PATH,
+    CONFIG.INDEXER_START_BLOCK,
+    { batchSize: CONFIG.INDEXER_BATCH_SIZE, reorgDepth: CONFIG.INDEXER_REORG_DEPTH }
+  );
+  const registry = new RouteRegistry(arbExec, indexer, {
+    pageSize: CONFIG.ROUTE_SYNC_PAGE_SIZE,
+    minAnalyses: CONFIG.ROUTE_SYNC_MIN_ANALYSES,
+  });
+
+  const discovered = await createOrchestrator().discoverRoutes(CONFIG.TOKEN_PAIRS, CONFIG.MAX_ROUTE_HOPS, block);
+  const report = await registry.sync(registry.wantedRoutes(CONFIG.TOKEN_PAIRS, discovered), block);
+  const lines = describeRouteSync(report);
+  if (report.calls.length === 0) return { data: report, lines };
+
+  if (flags.multisig) {
+    const file = writeSafeBatch(
+      report.calls,
+      "ArbExec route sync",
+      CONFIG.OWNER_MULTISIG_ADDRESS,
+      CONFIG.CHAIN_ID,
+      flags.output ?? CONFIG.ROUTE_SYNC_BATCH_PATH
+    );
+    return { data: { report, file }, lines: [...lines, ``, `📄 Safe batch written to ${file}`] };
+  }
+  if (!flags.execute) return { data: report, lines };
+
+  const wallet = ownerWallet();
+  const owner = await arbExec.owner();
+  if (ethers.getAddress(owner) !== wallet.address) throw new UsageError(`PRIVATE_KEY is not the ArbExec owner (${owner})`);
+  const results = await sendCalls(wallet, report.calls);
+  const ok = results.length === report.calls.length && results.every((r) => r.status === "mined");
+  return {
+    data: { report, results },
+    lines: [...lines, ``, ...results.map((r) => `${r.status === "mined" ? "✅" : "⛔"} ${r.description}: ${r.txHash}`)],
+    exitCode: ok ? EXIT.OK : EXIT.FAILED,
+  };
+}
+
+function describeRouteSync(report: RouteSyncReport): string[] {
+  const describe = (route: { path: string[]; dexA: string; dexB: string }) =>
+    `${route.path.join(" → ")} (${route.dexA}/${route.dexB})`;
+  const lines = [
+    `🧭 ArbExec routes: ${report.registered.length} registered, ${report.freeSlots.length} deleted slots`,
+    `  Missing (${report.missing.length}):`,
+    ...report.missing.map((route) => `    ${describe(route)} [${route.source}]`),
+    `  Stale (${report.stale.length}):`,
+    ...report.stale.map((route) => `    #${route.routeId} ${describe(route)}`),
+    `  Never profitable (${report.neverProfitable.length}):`,
+    ...report.neverProfitable.map(
+      (route) => `    #${route.routeId} ${describe(route)}: 0/${route.activity.analyses} analyses profitable`
+    ),
+  ];
+  if (report.calls.length === 0) {
+    lines.push(``, `✅ Registry matches the monitor's routes`);
+    return lines;
+  }
+  lines.push(``, `Calls (to ${report.calls[0].to}):`);
+  report.calls.forEach((call, idx) => lines.push(`  ${idx + 1}. ${call.description}`, `     ${call.data}`));
+  return lines;
+}
+
+function describeSweep(plan: SweepPlan): string[] {
+  const lines = [`🧹 Sweep to ${plan.recipient}${plan.target ? `, converting to ${plan.target}` : ""}:`];
+  for (const sweep of plan.sweeps) {
+    const amount = Amount.from(sweep.amount, sweep.decimals).format();
+    lines.push(`  ${amount} ${sweep.symbol} (threshold ${Amount.from(sweep.threshold, sweep.decimals).format()})`);
+  }
+  lines.push(`Calls:`, ...plan.calls.map((call, idx) => `  ${idx + 1}. ${call.description}`));
+  return lines;
+}
+
+function describeBacktest(results: BacktestResult[]): string[] {
+  const lines = ["🧪 Backtest Results:"];
+  for (const result of results) {
+    lines.push(
+      ``,
+      `${result.params.name}:`,
+      `  Opportunities: ${result.opportunities}, Trades: ${result.trades}, Reverts: ${result.reverts}`,
+      `  Hit Rate: ${result.hitRate.toFixed(2)}%`
+    );
+    for (const token of result.byToken) {
+      lines.push(`  PnL: ${token.pnl.format()} ${token.symbol} (max drawdown ${token.maxDrawdown.format()})`);
+    }
+  }
+  return lines;
+}
+
+/**
+ * Deploy ArbitrageAnalyzer and the AnalyzerUsageExample wired to it
+ */
+async function deployAnalyzer(): Promise<CommandResult> {
+  const signer = ownerWallet();
+  const deploy = async (name: string, args: unknown[]) => {
+    console.log(`🚀 Deploying ${name}...`);
+    const factory = new ethers.ContractFactory(loadArtifactAbi(name), loadArtifactBytecode(name), signer);
+    const contract = await factory.deploy(...args);
+    await contract.waitForDeployment();
+    return contract.getAddress();
+  };
+
+  const analyzerAddress = await deploy("ArbitrageAnalyzer", []);
+  const exampleAddress = await deploy("AnalyzerUsageExample", [analyzerAddress]);
+  return {
+    data: { analyzerAddress, exampleAddress },
+    lines: [
+      "✅ Deployment complete",
+      `  ArbitrageAnalyzer: ${analyzerAddress}`,
+      `  AnalyzerUsageExample: ${exampleAddress}`,
+      "Set ANALYZER_EXAMPLE_ADDRESS to run analyzer analyze/optimize against it",
+    ],
+  };
+}
+
+/**
+ * Call AnalyzerUsageExample view functions and return their decoded results
+ */
+async function runAnalyzerExample(methods: string[]): Promise<CommandResult> {
+  if (!CONFIG.ANALYZER_EXAMPLE_ADDRESS) throw new UsageError("analyzer needs ANALYZER_EXAMPLE_ADDRESS");
+  const iface = loadArtifactInterface("AnalyzerUsageExample");
+  const example = new ethers.Contract(
+    CONFIG.ANALYZER_EXAMPLE_ADDRESS,
+    iface,
+    new ethers.JsonRpcProvider(CONFIG.RPC_URL)
+  );
+
+  const data: Record<string, unknown> = {};
+  const lines: string[] = [];
+  for (const method of methods) {
+    console.log(`📊 ${method}...`);
+    const result: ethers.Result = await example[method].staticCall();
+    data[method] = result.toObject(true);
+    lines.push(`${method}:`, ...formatResult(result, iface.getFunction(method)!.outputs, "  "));
+  }
+  return { data, lines };
+}
+
+/**
+ * Indented name: value lines for a decoded ABI result
+ */
+function formatResult(value: unknown, params: readonly ethers.ParamType[], indent: string): string[] {
+  const lines: string[] = [];
+  params.forEach((param, idx) => {
+    const item = (value as ethers.Result)[idx];
+    const name = param.name || `[${idx}]`;
+    if (param.isTuple()) {
+      lines.push(`${indent}${name}:`, ...formatResult(item, param.components, `${indent}  `));
+    } else if (param.isArray()) {
+      lines.push(`${indent}${name}: ${(item as ethers.Result).length} entries`);
+    } else {
+      lines.push(`${indent}${name}: ${item}`);
+    }
+  });
+  return lines;
+}
+
+function jsonReplacer(_key: string, value: unknown): unknown {
+  return typeof value === "bigint" ? value.toString() : value;
+}
+
+main(process.argv.slice(2))
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = EXIT.ERROR;
+  });
@@ -1,44 +1,116 @@
 // arbitrage-monitor.ts
+import { writeFileSync } from "fs";
 import { ethers } from "ethers";
-import axios from "axios";
+import { Amount } from "./amount";
+import { CONFIG } from "./config";
+import { DexQuote, DexQuoter, SushiswapQuoter, UniswapV3Quoter } from "./dex-quoters";
+import {
+  PoolEvent,
+  V2_SWAP_TOPIC,
+  V2_SYNC_TOPIC,
+  V3_SWAP_TOPIC,
+  decodePoolEvent,
+  priceFromReserves,
+  priceFromSqrtPriceX96,
+  virtualReservesFromV3,
+} from "./pool-events";
+import type PoolCatalogue from "./pool-catalogue";
+import TokenRegistry from "./token-registry";
+
+const LOG_RANGE_BLOCKS = 100;
+const LOG_RANGE_ATTEMPTS = 3;
+const LOG_RANGE_RETRY_DELAY_MS = 1000;
+
+interface QuoteSource {
+  dex: string;
+  adapter: string;
+  blockNumber: number;
+  amountIn: string; // Wei
+  amountOut: string; // Wei
+  pool?: string; // Catalogued pool quoted, unset when the DEX's default pool was used
+  fee?: number; // V3 fee tier of that pool
+}
 
 interface ArbitrageOpportunity {
   tokenA: string;
   tokenB: string;
   dexA: string;
   dexB: string;
-  priceA: number;
-  priceB: number;
+  priceA: number; // tokenB per tokenA on dexA
+  priceB: number; // tokenB per tokenA on dexB
   priceDifference: number;
-  estimatedProfit: number;
+  estimatedProfit: Amount; // tokenB, quote-size difference between the two venues
   profitabilityBps: number;
   timestamp: number;
   blockNumber: number;
+  quoteA: QuoteSource;
+  quoteB: QuoteSource;
+  flaggedReason?: string; // Set when the opportunity failed a pre-plan check
 }
 
-interface PoolSnapshot {
+export interface PoolSnapshot {
   address: string;
+  poolType: "uniswap-v3" | "uniswap-v2";
   token0: string;
   token1: string;
-  reserve0: bigint;
+  reserve0: bigint; // V3: virtual reserves at the current price
   reserve1: bigint;
+  fee: number; // Hundredths of a bip (3000 = 0.3%)
+  sqrtPriceX96?: bigint; // V3 only
+  liquidity?: bigint; // V3 only
+  tick?: number; // V3 only
+  tickSpacing?: number; // V3 only
+  ticks?: Array<{ tick: number; liquidityNet: bigint }>; // V3 initialized ticks near the price
+  amount0: bigint; // Signed pool delta of the swap (0 for V2 mint/burn syncs)
+  amount1: bigint;
+  price: number; // token0 priced in token1, decimal adjusted
+  timestamp: number; // Block timestamp
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+interface PoolMetadata {
+  token0: string;
+  token1: string;
   fee: number;
-  timestamp: number;
+  decimals0: number;
+  decimals1: number;
 }
 
 class ArbitrageMonitor {
   private provider: ethers.JsonRpcProvider;
   private alchemyApiKey: string;
   private opportunities: ArbitrageOpportunity[] = [];
+  private quoters: DexQuoter[];
+  private registry: TokenRegistry;
+  private catalogue?: PoolCatalogue;
+  private poolCache = new Map<string, PoolMetadata>();
+  private blockTimestampCache = new Map<number, number>();
 
-  constructor(rpcUrl: string, alchemyKey: string) {
+  constructor(
+    rpcUrl: string,
+    alchemyKey: string,
+    quoters?: DexQuoter[],
+    registry?: TokenRegistry,
+    catalogue?: PoolCatalogue // Venues per pair; without one each DEX's default pool is used
+  ) {
     this.provider = new ethers.JsonRpcProvider(rpcUrl);
     this.alchemyApiKey = alchemyKey;
+    this.registry = registry ?? new TokenRegistry(this.provider, CONFIG.PRICE_FEEDS);
+    this.catalogue = catalogue;
+    this.quoters = quoters ?? [
+      new UniswapV3Quoter(this.provider, CONFIG.UNISWAP_V3_QUOTER, CONFIG.UNISWAP_V3_FEE),
+      new SushiswapQuoter(this.provider, CONFIG.SUSHISWAP_ROUTER),
+    ];
   }
 
   /**
-   * Fetch historical pool data from Alchemy
-   * Uses Alchemy's getAssetTransfers to track liquidity changes
+   * Fetch historical pool state from V3 Swap and V2 Sync/Swap logs.
+   * One snapshot is produced per state-changing event (V3 Swap or V2 Sync);
+   * V2 Swap amounts are folded into the Sync emitted in the same transaction.
+   * Throws when a log range still fails after retrying: a gap would leave
+   * callers carrying stale state across blocks that changed the pool.
    */
   async fetchPoolSnapshots(
     poolAddress: string,
@@ -46,38 +118,27 @@ class ArbitrageMonitor {
     toBlock: number
   ): Promise<PoolSnapshot[]> {
     const snapshots: PoolSnapshot[] = [];
+    const pool = await this.getPoolMetadata(poolAddress);
 
-    for (let block = fromBlock; block <= toBlock; block += 100) {
-      const endBlock = Math.min(block + 100, toBlock);
+    for (let block = fromBlock; block <= toBlock; block += LOG_RANGE_BLOCKS) {
+      const endBlock = Math.min(block + LOG_RANGE_BLOCKS - 1, toBlock);
+      const logs = await this.getPoolLogs(poolAddress, block, endBlock);
 
-      try {
-        const response = await axios.post(
-          `https://eth-mainnet.g.alchemy.com/v2/${this.alchemyApiKey}`,
-          {
-            jsonrpc: "2.0",
-            method: "eth_getLogs",
-            params: [
-              {
-                address: poolAddress,
-                fromBlock: `0x${block.toString(16)}`,
-                toBlock: `0x${endBlock.toString(16)}`,
-                topics: [
-                  "0x1f1ff1f5fb41346850b2f5c04e6c767e2f1c8a525c5c0c5e4d3c2b1a09080706", // Swap event
-                ],
-              },
-            ],
-            id: 1,
-          }
-        );
+      for (const log of logs) {
+        const event = decodePoolEvent(log);
+        if (!event) continue;
 
-        if (response.data.result) {
-          for (const log of response.data.result) {
-            const snapshot = this.parseSwapLog(log, block);
-            if (snapshot) snapshots.push(snapshot);
+        if (event.kind === "v2-swap") {
+          const last = snapshots[snapshots.length - 1];
+          if (last && last.transactionHash === log.transactionHash) {
+            last.amount0 = event.amount0;
+            last.amount1 = event.amount1;
           }
+          continue;
         }
-      } catch (error) {
-        console.error(`Error fetching block ${block}:`, error);
+
+        const timestamp = await this.getBlockTimestamp(log.blockNumber);
+        snapshots.push(this.parsePoolLog(log, event, pool, timestamp));
       }
     }
 
@@ -85,99 +146,456 @@ class ArbitrageMonitor {
   }
 
   /**
-   * Parse Uniswap V3 Swap event logs
+   * Pool state-change logs for one block range, retried with backoff
    */
-  private parseSwapLog(log: any, blockNumber: number): PoolSnapshot | null {
-    try {
-      // Uniswap V3 Swap event: (sender, recipient, amount0, amount1, sqrtPriceX96, liquidity, tick)
-      const iface = new ethers.Interface([
-        "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
-      ]);
+  private async getPoolLogs(poolAddress: string, fromBlock: number, toBlock: number): Promise<ethers.Log[]> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.provider.getLogs({
+          address: poolAddress,
+          fromBlock,
+          toBlock,
+          topics: [[V3_SWAP_TOPIC, V2_SYNC_TOPIC, V2_SWAP_TOPIC]],
+        });
+      } catch (error) {
+        if (attempt === LOG_RANGE_ATTEMPTS) {
+          throw new Error(
+            `Logs for pool ${poolAddress} blocks ${fromBlock}-${toBlock} unavailable after ${attempt} attempts: ${(error as Error).message}`
+          );
+        }
+        console.error(`Error fetching blocks ${fromBlock}-${toBlock} (attempt ${attempt}/${LOG_RANGE_ATTEMPTS}):`, error);
+        await new Promise((resolve) => setTimeout(resolve, LOG_RANGE_RETRY_DELAY_MS * 2 ** (attempt - 1)));
+      }
+    }
+  }
 
-      // In production, decode the log properly
+  /**
+   * Read the current state of the pool a DEX uses for a pair at a given block
+   */
+  async getPoolSnapshot(
+    tokenA: string,
+    tokenB: string,
+    dex: string,
+    blockNumber: number,
+    tickWords: number = 2
+  ): Promise<PoolSnapshot | null> {
+    const poolAddress = await this.getPoolAddress(tokenA, tokenB, dex, blockNumber);
+    if (!poolAddress) return null;
+    return this.getPoolSnapshotAt(poolAddress, dex, blockNumber, tickWords);
+  }
+
+  /**
+   * Read a pool's state at a given block. For Uniswap V3 the initialized ticks within
+   * `tickWords` bitmap words either side of the current tick are loaded so swaps can
+   * be simulated across them.
+   */
+  async getPoolSnapshotAt(
+    poolAddress: string,
+    dex: string,
+    blockNumber: number,
+    tickWords: number = 2
+  ): Promise<PoolSnapshot> {
+    const blockTag = { blockTag: blockNumber };
+    const metadata = await this.getPoolMetadata(poolAddress);
+    const timestamp = await this.getBlockTimestamp(blockNumber);
+    const base = {
+      address: poolAddress,
+      token0: metadata.token0,
+      token1: metadata.token1,
+      fee: metadata.fee,
+      timestamp,
+      blockNumber,
+      transactionHash: ethers.ZeroHash,
+      logIndex: -1,
+      amount0: BigInt(0),
+      amount1: BigInt(0),
+    };
+
+    if (dex === "sushiswap") {
+      const pair = new ethers.Contract(
+        poolAddress,
+        ["function getReserves() view returns (uint112, uint112, uint32)"],
+        this.provider
+      );
+      const [reserve0, reserve1] = await pair.getReserves(blockTag);
       return {
-        address: log.address,
-        token0: "0x0000000000000000000000000000000000000000",
-        token1: "0x0000000000000000000000000000000000000000",
-        reserve0: BigInt(0),
-        reserve1: BigInt(0),
-        fee: 3000,
-        timestamp: Math.floor(Date.now() / 1000),
+        ...base,
+        poolType: "uniswap-v2",
+        reserve0,
+        reserve1,
+        price: priceFromReserves(reserve0, reserve1, metadata.decimals0, metadata.decimals1),
       };
-    } catch (error) {
+    }
+
+    const pool = new ethers.Contract(
+      poolAddress,
+      [
+        "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16, uint16, uint16, uint8, bool)",
+        "function liquidity() view returns (uint128)",
+        "function tickSpacing() view returns (int24)",
+        "function tickBitmap(int16) view returns (uint256)",
+        "function ticks(int24) view returns (uint128 liquidityGross, int128 liquidityNet, uint256, uint256, int56, uint160, uint32, bool)",
+      ],
+      this.provider
+    );
+    const slot0 = await pool.slot0(blockTag);
+    const sqrtPriceX96: bigint = slot0.sqrtPriceX96;
+    const tick = Number(slot0.tick);
+    const liquidity: bigint = await pool.liquidity(blockTag);
+    const tickSpacing = Number(await pool.tickSpacing());
+
+    // Walk the bitmap words around the current tick and read liquidityNet for every set bit
+    const ticks: Array<{ tick: number; liquidityNet: bigint }> = [];
+    const compressed = Math.floor(tick / tickSpacing);
+    const currentWord = compressed >> 8;
+    for (let word = currentWord - tickWords; word <= currentWord + tickWords; word++) {
+      const bitmap: bigint = await pool.tickBitmap(word, blockTag);
+      if (bitmap === BigInt(0)) continue;
+      for (let bit = 0; bit < 256; bit++) {
+        if (((bitmap >> BigInt(bit)) & BigInt(1)) === BigInt(0)) continue;
+        const initializedTick = (word * 256 + bit) * tickSpacing;
+        const info = await pool.ticks(initializedTick, blockTag);
+        ticks.push({ tick: initializedTick, liquidityNet: info.liquidityNet });
+      }
+    }
+
+    const { reserve0, reserve1 } = virtualReservesFromV3(sqrtPriceX96, liquidity);
+    return {
+      ...base,
+      poolType: "uniswap-v3",
+      reserve0,
+      reserve1,
+      sqrtPriceX96,
+      liquidity,
+      tick,
+      tickSpacing,
+      ticks,
+      price: priceFromSqrtPriceX96(sqrtPriceX96, metadata.decimals0, metadata.decimals1),
+    };
+  }
+
+  /**
+   * Snapshot every pool on every quoted DEX between any two of the given tokens,
+   * which also picks up cross pairs (e.g. USDC/DAI) not listed in TOKEN_PAIRS.
+   * Pairs the catalogue knows contribute all their eligible executable pools.
+   */
+  async getVenuePools(
+    tokens: string[],
+    blockNumber: number
+  ): Promise<Array<{ dex: string; pool: PoolSnapshot }>> {
+    const venues: Array<{ dex: string; pool: PoolSnapshot }> = [];
+    const unique = [...new Set(tokens.map((t) => ethers.getAddress(t)))];
+
+    for (let i = 0; i < unique.length; i++) {
+      for (let j = i + 1; j < unique.length; j++) {
+        for (const venue of this.getVenues(unique[i], unique[j])) {
+          try {
+            const pool = venue.pool
+              ? await this.getPoolSnapshotAt(venue.pool, venue.dex, blockNumber)
+              : await this.getPoolSnapshot(unique[i], unique[j], venue.dex, blockNumber);
+            if (pool) venues.push({ dex: venue.dex, pool });
+          } catch (error) {
+            console.error(`Error loading ${venue.dex} pool ${venue.pool ?? `${unique[i]}-${unique[j]}`}:`, error);
+          }
+        }
+      }
+    }
+
+    return venues;
+  }
+
+  /**
+   * Venues to quote a pair on: the catalogue's eligible pools on quoted DEXes, or
+   * each quoted DEX's default pool when the catalogue has none for the pair. ArbExec
+   * swaps V3 legs on its defaultUniV3Fee tier (mirrored by UNISWAP_V3_FEE), so pools
+   * on other tiers are never quoted: a plan sized on them would execute elsewhere.
+   */
+  private getVenues(tokenA: string, tokenB: string): Array<{ dex: string; pool?: string; fee?: number }> {
+    const dexes = new Set(this.quoters.map((q) => q.dex));
+    const catalogued = (this.catalogue?.venues(tokenA, tokenB) ?? [])
+      .filter((p) => dexes.has(p.dex) && (p.dex !== "uniswap-v3" || p.fee === CONFIG.UNISWAP_V3_FEE))
+      .map((p) => ({ dex: p.dex, pool: p.address, fee: p.fee }));
+    return catalogued.length > 0 ? catalogued : [...dexes].map((dex) => ({ dex }));
+  }
+
+  /**
+   * Resolve the pool a DEX uses for a pair through its factory
+   */
+  private async getPoolAddress(
+    tokenA: string,
+    tokenB: string,
+    dex: string,
+    blockNumber: number
+  ): Promise<string | null> {
+    let poolAddress: string;
+    if (dex === "uniswap-v3") {
+      const factory = new ethers.Contract(
+        CONFIG.UNISWAP_V3_FACTORY,
+        ["function getPool(address, address, uint24) view returns (address)"],
+        this.provider
+      );
+      poolAddress = await factory.getPool(tokenA, tokenB, CONFIG.UNISWAP_V3_FEE, {
+        blockTag: blockNumber,
+      });
+    } else if (dex === "sushiswap") {
+      const factory = new ethers.Contract(
+        CONFIG.SUSHISWAP_FACTORY,
+        ["function getPair(address, address) view returns (address)"],
+        this.provider
+      );
+      poolAddress = await factory.getPair(tokenA, tokenB, { blockTag: blockNumber });
+    } else {
       return null;
     }
+
+    return poolAddress === ethers.ZeroAddress ? null : poolAddress;
+  }
+
+  /**
+   * Rebuild end-of-block pool state for every block in a range,
+   * carrying the last known state forward through blocks without events.
+   * Fails rather than carrying state across a range whose logs could not be read.
+   */
+  async reconstructPoolState(
+    poolAddress: string,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<Map<number, PoolSnapshot>> {
+    const snapshots = await this.fetchPoolSnapshots(poolAddress, fromBlock, toBlock);
+    const stateByBlock = new Map<number, PoolSnapshot>();
+
+    let index = 0;
+    let current: PoolSnapshot | undefined;
+    for (let block = fromBlock; block <= toBlock; block++) {
+      while (index < snapshots.length && snapshots[index].blockNumber === block) {
+        current = snapshots[index++];
+      }
+      if (current) stateByBlock.set(block, current);
+    }
+
+    return stateByBlock;
   }
 
   /**
-   * Identify arbitrage opportunities by comparing DEX prices
+   * Build a snapshot from a decoded V3 Swap or V2 Sync event
+   */
+  private parsePoolLog(
+    log: ethers.Log,
+    event: Exclude<PoolEvent, { kind: "v2-swap" }>,
+    pool: PoolMetadata,
+    timestamp: number
+  ): PoolSnapshot {
+    const base = {
+      address: log.address,
+      token0: pool.token0,
+      token1: pool.token1,
+      fee: pool.fee,
+      timestamp,
+      blockNumber: log.blockNumber,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+    };
+
+    if (event.kind === "v3-swap") {
+      const { reserve0, reserve1 } = virtualReservesFromV3(event.sqrtPriceX96, event.liquidity);
+      return {
+        ...base,
+        poolType: "uniswap-v3",
+        reserve0,
+        reserve1,
+        sqrtPriceX96: event.sqrtPriceX96,
+        liquidity: event.liquidity,
+        tick: event.tick,
+        amount0: event.amount0,
+        amount1: event.amount1,
+        price: priceFromSqrtPriceX96(event.sqrtPriceX96, pool.decimals0, pool.decimals1),
+      };
+    }
+
+    return {
+      ...base,
+      poolType: "uniswap-v2",
+      reserve0: event.reserve0,
+      reserve1: event.reserve1,
+      amount0: BigInt(0),
+      amount1: BigInt(0),
+      price: priceFromReserves(event.reserve0, event.reserve1, pool.decimals0, pool.decimals1),
+    };
+  }
+
+  /**
+   * Read (and cache) a pool's tokens and fee. V2 pairs have no fee() getter
+   * and always charge 0.3%, expressed in V3 hundredths of a bip.
+   */
+  private async getPoolMetadata(poolAddress: string): Promise<PoolMetadata> {
+    const cached = this.poolCache.get(poolAddress);
+    if (cached) return cached;
+
+    const pool = new ethers.Contract(
+      poolAddress,
+      [
+        "function token0() view returns (address)",
+        "function token1() view returns (address)",
+        "function fee() view returns (uint24)",
+      ],
+      this.provider
+    );
+
+    const token0: string = await pool.token0();
+    const token1: string = await pool.token1();
+    let fee = 3000;
+    try {
+      fee = Number(await pool.fee());
+    } catch {
+      // Uniswap V2 / Sushiswap pair
+    }
+
+    const metadata: PoolMetadata = {
+      token0,
+      token1,
+      fee,
+      decimals0: await this.registry.decimals(token0),
+      decimals1: await this.registry.decimals(token1),
+    };
+    this.poolCache.set(poolAddress, metadata);
+    return metadata;
+  }
+
+  private async getBlockTimestamp(blockNumber: number): Promise<number> {
+    const cached = this.blockTimestampCache.get(blockNumber);
+    if (cached !== undefined) return cached;
+
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) throw new Error(`Block ${blockNumber} not found`);
+    this.blockTimestampCache.set(blockNumber, block.timestamp);
+    return block.timestamp;
+  }
+
+  /**
+   * Identify arbitrage opportunities by comparing venue quotes for the same input size.
+   * Pairs that fail to quote keep their previous opportunity until it goes stale.
    */
   async identifyOpportunities(
     tokenPairs: Array<{ token0: string; token1: string }>,
-    minProfitBps: number = 100
+    minProfitBps: number = 100,
+    quoteAmount: string = CONFIG.QUOTE_AMOUNT,
+    atBlock?: number
   ): Promise<ArbitrageOpportunity[]> {
     const opportunities: ArbitrageOpportunity[] = [];
+    const failedPairs = new Set<string>();
 
     for (const pair of tokenPairs) {
       try {
-        // Get prices from multiple DEXs
-        const uniswapPrice = await this.getPriceFromDex(
-          pair.token0,
-          pair.token1,
-          "uniswap-v3"
-        );
-        const sushiswapPrice = await this.getPriceFromDex(
-          pair.token0,
-          pair.token1,
-          "sushiswap"
-        );
-
-        if (!uniswapPrice || !sushiswapPrice) continue;
-
-        const priceDiff = Math.abs(uniswapPrice - sushiswapPrice);
-        const profitBps = (priceDiff / Math.max(uniswapPrice, sushiswapPrice)) * 10000;
+        // Pin every quote for this pair to the same block
+        const blockNumber = atBlock ?? (await this.provider.getBlockNumber());
+        const decimals1 = await this.registry.decimals(pair.token1);
+        const amountIn = await this.registry.parse(pair.token0, quoteAmount);
+
+        const quotes: Array<{ dex: string; quote: DexQuote; pool?: string; amountOut: Amount; price: number }> = [];
+        for (const venue of this.getVenues(pair.token0, pair.token1)) {
+          const quote = await this.getPriceFromDex(
+            pair.token0,
+            pair.token1,
+            venue.dex,
+            amountIn.raw,
+            blockNumber,
+            venue.fee
+          );
+          if (!quote) continue;
+
+          const amountOut = Amount.from(quote.amountOut, decimals1);
+          quotes.push({ dex: venue.dex, quote, pool: venue.pool, amountOut, price: amountOut.per(amountIn) });
+        }
+
+        // Same input size on every venue, so outputs compare exactly in tokenB units
+        const spread = crossDexSpread(quotes);
+        if (!spread) continue;
+        const { high, low } = spread;
+
+        const outputDiff = high.amountOut.minus(low.amountOut);
+        const priceDiff = high.price - low.price;
+        const profitBps = outputDiff.ratio(high.amountOut) * 10000;
 
         if (profitBps >= minProfitBps) {
+          // Leg 1 sells tokenA where it fetches the most tokenB, leg 2 buys it back where it is cheapest
           opportunities.push({
             tokenA: pair.token0,
             tokenB: pair.token1,
-            dexA: uniswapPrice > sushiswapPrice ? "sushiswap" : "uniswap-v3",
-            dexB: uniswapPrice > sushiswapPrice ? "uniswap-v3" : "sushiswap",
-            priceA: Math.min(uniswapPrice, sushiswapPrice),
-            priceB: Math.max(uniswapPrice, sushiswapPrice),
+            dexA: high.quote.dex,
+            dexB: low.quote.dex,
+            priceA: high.price,
+            priceB: low.price,
             priceDifference: priceDiff,
-            estimatedProfit: priceDiff * 1, // Simplified
+            estimatedProfit: outputDiff,
             profitabilityBps: profitBps,
             timestamp: Math.floor(Date.now() / 1000),
-            blockNumber: await this.provider.getBlockNumber(),
+            blockNumber,
+            quoteA: this.toQuoteSource(high.quote, high.pool),
+            quoteB: this.toQuoteSource(low.quote, low.pool),
           });
         }
       } catch (error) {
+        failedPairs.add(this.pairKey(pair.token0, pair.token1));
         console.error(`Error analyzing pair ${pair.token0}-${pair.token1}:`, error);
       }
     }
 
-    this.opportunities = opportunities;
+    this.opportunities = [
+      ...this.opportunities.filter((o) => failedPairs.has(this.pairKey(o.tokenA, o.tokenB))),
+      ...opportunities,
+    ];
     return opportunities;
   }
 
   /**
-   * Get price from DEX via quote
+   * Drop opportunities quoted more than maxAgeBlocks before the current block
+   */
+  pruneStaleOpportunities(currentBlock: number, maxAgeBlocks: number): number {
+    const before = this.opportunities.length;
+    this.opportunities = this.opportunities.filter(
+      (o) => currentBlock - o.blockNumber <= maxAgeBlocks
+    );
+    return before - this.opportunities.length;
+  }
+
+  private pairKey(token0: string, token1: string): string {
+    return `${token0.toLowerCase()}-${token1.toLowerCase()}`;
+  }
+
+  /**
+   * Get an exact-input quote from a DEX via its registered adapter
    */
   private async getPriceFromDex(
     tokenIn: string,
     tokenOut: string,
-    dex: string
-  ): Promise<number | null> {
+    dex: string,
+    amountIn: bigint,
+    blockNumber: number,
+    fee?: number // V3 fee tier; unset = the quoter's default
+  ): Promise<DexQuote | null> {
+    const quoter = this.quoters.find((q) => q.dex === dex);
+    if (!quoter) return null;
+
     try {
-      // Placeholder - implement actual DEX quote logic
-      // In production, use Uniswap V3 Quoter or SushiSwap router
-      return Math.random() * 1000; // Mock price
+      return await quoter.quoteExactInput(tokenIn, tokenOut, amountIn, blockNumber, fee);
     } catch (error) {
+      console.error(`Quote failed on ${quoter.name} at block ${blockNumber}:`, error);
       return null;
     }
   }
 
+  private toQuoteSource(quote: DexQuote, pool?: string): QuoteSource {
+    return {
+      dex: quote.dex,
+      adapter: quote.adapter,
+      blockNumber: quote.blockNumber,
+      amountIn: quote.amountIn.toString(),
+      amountOut: quote.amountOut.toString(),
+      pool,
+      fee: quote.fee,
+    };
+  }
+
   /**
    * Get opportunities sorted by profitability
    */
@@ -191,10 +609,29 @@ class ArbitrageMonitor {
    * Export opportunities for analysis
    */
   exportOpportunities(filePath: string): void {
-    const fs = require("fs");
-    fs.writeFileSync(filePath, JSON.stringify(this.opportunities, null, 2));
+    writeFileSync(filePath, JSON.stringify(this.opportunities, null, 2));
     console.log(`Exported ${this.opportunities.length} opportunities to ${filePath}`);
   }
 }
 
+/**
+ * Widest spread between two venues on different DEXes for the same input size, with
+ * `high` the venue paying the most. ArbExec routes name one DEX per leg, so two fee
+ * tiers of the same DEX cannot form an executable pair.
+ */
+export function crossDexSpread<T extends { dex: string; amountOut: Amount }>(
+  quotes: T[]
+): { high: T; low: T } | null {
+  let best: { high: T; low: T } | null = null;
+  for (const high of quotes) {
+    for (const low of quotes) {
+      if (high.dex === low.dex) continue;
+      if (!best || high.amountOut.minus(low.amountOut).compare(best.high.amountOut.minus(best.low.amountOut)) > 0) {
+        best = { high, low };
+      }
+    }
+  }
+  return best;
+}
+
 export default ArbitrageMonitor;
\ No newline at end of file
@@ -0,0 +1,42 @@
+// artifacts.ts
+import { readFileSync } from "fs";
+import { ethers } from "ethers";
+
+const abiCache = new Map<string, ethers.InterfaceAbi>();
+
+/**
+ * Load a contract ABI from the compiled artifacts/ directory
+ */
+export function loadArtifactAbi(contractName: string): ethers.InterfaceAbi {
+  const cached = abiCache.get(contractName);
+  if (cached) return cached;
+
+  const artifactUrl = new URL(`../../artifacts/${contractName}.json`, import.meta.url);
+  const artifact = JSON.parse(readFileSync(artifactUrl, "utf8"));
+  if (!Array.isArray(artifact.abi)) {
+    throw new Error(`Artifact ${contractName} has no ABI`);
+  }
+
+  abiCache.set(contractName, artifact.abi);
+  return artifact.abi;
+}
+
+/**
+ * Build an ethers Interface from a compiled artifact
+ */
+export function loadArtifactInterface(contractName: string): ethers.Interface {
+  return new ethers.Interface(loadArtifactAbi(contractName));
+}
+
+/**
+ * Creation bytecode from a compiled artifact, for deployments
+ */
+export function loadArtifactBytecode(contractName: string): string {
+  const artifactUrl = new URL(`../../artifacts/${contractName}.json`, import.meta.url);
+  const artifact = JSON.parse(readFileSync(artifactUrl, "utf8"));
+  const bytecode: string | undefined = artifact.data?.bytecode?.object;
+  if (!bytecode) {
+    throw new Error(`Artifact ${contractName} has no bytecode`);
+  }
+  return bytecode.startsWith("0x") ? bytecode : `0x${bytecode}`;
+}
@@ -0,0 +1,513 @@
+// backtester.ts
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { ethers } from "ethers";
+import { Amount } from "./amount";
+import AmmSimulator from "./amm-simulator";
+import type ArbitrageMonitor from "./arbitrage-monitor";
+import { crossDexSpread } from "./arbitrage-monitor";
+import type { PoolSnapshot } from "./arbitrage-monitor";
+import ProfitabilityCalculator from "./profitability-calculator";
+import type TokenRegistry from "./token-registry";
+import type { TokenInfo } from "./token-registry";
+
+interface BacktestParameters {
+  name: string;
+  minProfitBps: number;
+  maxSlippageBps: number; // Executions whose output falls short of the plan by more revert
+  gasUnitsEstimate: number;
+  priorityFeeGwei: string;
+  latencyBlocks: number; // Blocks between detection and inclusion
+}
+
+interface BacktestOptions {
+  quoteAmount: string; // Detector probe size, in units of token0
+  flashLoanPremiumBps: number;
+  builderTipBps: number;
+  safetyBufferBps: number;
+  minFlashLoanAmount: string; // ETH
+  maxFlashLoanAmount: string; // ETH
+  cooldownBlocks: number; // Blocks a pair is left alone after a simulated trade
+  wethAddress: string;
+}
+
+interface BacktestDataset {
+  fromBlock: number;
+  toBlock: number;
+  tokenPairs: Array<{ token0: string; token1: string }>;
+  tokens: TokenInfo[];
+  pools: Array<{ dex: string; address: string; token0: string; token1: string }>;
+  baseFees: Map<number, bigint>; // Block -> base fee per gas
+  history: Map<string, PoolSnapshot[]>; // Pool address -> snapshots in chain order
+}
+
+interface BacktestTrade {
+  detectedBlock: number;
+  executedBlock: number;
+  tokenA: string;
+  tokenB: string;
+  dexA: string;
+  dexB: string;
+  borrowAmount: string; // Borrow-token base units
+  quotedProfit: string; // Net profit the plan expected
+  realisedProfit: string; // Signed, after gas, fees and tip
+  status: "success" | "reverted";
+}
+
+interface BacktestResult {
+  params: BacktestParameters;
+  opportunities: number; // Detector hits, including ones skipped by cooldown or sizing
+  trades: number;
+  wins: number;
+  reverts: number;
+  hitRate: number; // % of trades with positive realised profit
+  byToken: Array<{
+    token: string;
+    symbol: string;
+    pnl: Amount;
+    maxDrawdown: Amount; // Largest peak-to-trough fall of cumulative PnL
+  }>;
+  log: BacktestTrade[];
+}
+
+type DatasetRecord =
+  | { type: "header"; fromBlock: number; toBlock: number; tokenPairs: Array<{ token0: string; token1: string }> }
+  | { type: "token"; token: TokenInfo }
+  | { type: "pool"; dex: string; address: string; token0: string; token1: string }
+  | { type: "block"; blockNumber: number; baseFeePerGas: string }
+  | { type: "snapshot"; snapshot: SerializedSnapshot };
+
+// PoolSnapshot as stored in a dataset, with bigints as decimal strings
+type SerializedSnapshot = Omit<
+  PoolSnapshot,
+  "reserve0" | "reserve1" | "sqrtPriceX96" | "liquidity" | "ticks" | "amount0" | "amount1"
+> & {
+  reserve0: string;
+  reserve1: string;
+  sqrtPriceX96?: string;
+  liquidity?: string;
+  ticks?: Array<{ tick: number; liquidityNet: string }>;
+  amount0: string;
+  amount1: string;
+};
+
+// Approximate block time used to turn BACKTEST_WINDOW into a block range
+const SECONDS_PER_BLOCK = 12;
+const FEE_HISTORY_MAX_BLOCKS = 1024;
+
+/**
+ * Replays the opportunity detector and profitability calculator block by block over
+ * recorded pool state, simulating each trade at a later block to model latency.
+ * Recording needs an RPC; replaying reads only the local dataset file.
+ */
+class Backtester {
+  private dataset: BacktestDataset;
+  private options: BacktestOptions;
+  private simulator = new AmmSimulator();
+  private calculator = new ProfitabilityCalculator(this.simulator);
+  private tokens: Map<string, TokenInfo>;
+
+  constructor(dataset: BacktestDataset, options: BacktestOptions) {
+    this.dataset = dataset;
+    this.options = options;
+    this.tokens = new Map(dataset.tokens.map((t) => [t.address.toLowerCase(), t]));
+  }
+
+  /**
+   * Record pool state for every venue between the pair tokens over the last
+   * `windowSeconds`, plus per-block base fees, as a JSONL dataset
+   */
+  static async record(
+    monitor: ArbitrageMonitor,
+    registry: TokenRegistry,
+    provider: ethers.JsonRpcProvider,
+    tokenPairs: Array<{ token0: string; token1: string }>,
+    windowSeconds: number,
+    filePath: string
+  ): Promise<{ fromBlock: number; toBlock: number; snapshots: number }> {
+    const toBlock = await provider.getBlockNumber();
+    const fromBlock = Math.max(0, toBlock - Math.ceil(windowSeconds / SECONDS_PER_BLOCK));
+    const records: DatasetRecord[] = [{ type: "header", fromBlock, toBlock, tokenPairs }];
+
+    const tokens = [...new Set(tokenPairs.flatMap((p) => [p.token0, p.token1]).map((t) => ethers.getAddress(t)))];
+    for (const token of tokens) {
+      records.push({ type: "token", token: await registry.resolve(token) });
+    }
+
+    // Opening state (with V3 ticks), then every state change through toBlock
+    let snapshots = 0;
+    for (const { dex, pool } of await monitor.getVenuePools(tokens, fromBlock)) {
+      records.push({ type: "pool", dex, address: pool.address, token0: pool.token0, token1: pool.token1 });
+      records.push({ type: "snapshot", snapshot: serializeSnapshot(pool) });
+      for (const snapshot of await monitor.fetchPoolSnapshots(pool.address, fromBlock + 1, toBlock)) {
+        records.push({ type: "snapshot", snapshot: serializeSnapshot(snapshot) });
+        snapshots++;
+      }
+      console.log(`📼 Recorded ${dex} pool ${pool.address}`);
+    }
+
+    for (let newest = toBlock; newest >= fromBlock; newest -= FEE_HISTORY_MAX_BLOCKS) {
+      const count = Math.min(FEE_HISTORY_MAX_BLOCKS, newest - fromBlock + 1);
+      const history = await provider.send("eth_feeHistory", [
+        ethers.toQuantity(count),
+        ethers.toQuantity(newest),
+        [],
+      ]);
+      const oldest = Number(history.oldestBlock);
+      for (let i = 0; i < count; i++) {
+        records.push({ type: "block", blockNumber: oldest + i, baseFeePerGas: BigInt(history.baseFeePerGas[i]).toString() });
+      }
+    }
+
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(filePath, records.map((r) => JSON.stringify(r)).join("\n") + "\n");
+    return { fromBlock, toBlock, snapshots };
+  }
+
+  /**
+   * Read a recorded dataset. V3 snapshots rebuilt from Swap events carry no tick data,
+   * so each inherits the ticks of the pool's previous snapshot (swaps do not move
+   * liquidityNet).
+   */
+  static load(filePath: string): BacktestDataset {
+    if (!existsSync(filePath)) throw new Error(`Backtest dataset ${filePath} not found`);
+
+    const dataset: BacktestDataset = {
+      fromBlock: 0,
+      toBlock: 0,
+      tokenPairs: [],
+      tokens: [],
+      pools: [],
+      baseFees: new Map(),
+      history: new Map(),
+    };
+
+    const lines = readFileSync(filePath, "utf8").split("\n").filter((line) => line.trim().length > 0);
+    for (const line of lines) {
+      const record: DatasetRecord = JSON.parse(line);
+      if (record.type === "header") {
+        dataset.fromBlock = record.fromBlock;
+        dataset.toBlock = record.toBlock;
+        dataset.tokenPairs = record.tokenPairs;
+      } else if (record.type === "token") {
+        dataset.tokens.push(record.token);
+      } else if (record.type === "pool") {
+        dataset.pools.push({ dex: record.dex, address: record.address, token0: record.token0, token1: record.token1 });
+      } else if (record.type === "block") {
+        dataset.baseFees.set(record.blockNumber, BigInt(record.baseFeePerGas));
+      } else if (record.type === "snapshot") {
+        const snapshot = deserializeSnapshot(record.snapshot);
+        const key = snapshot.address.toLowerCase();
+        const history = dataset.history.get(key) ?? [];
+        const previous = history[history.length - 1];
+        if (previous && snapshot.poolType === "uniswap-v3" && !snapshot.ticks) {
+          snapshot.ticks = previous.ticks;
+          snapshot.tickSpacing = previous.tickSpacing;
+        }
+        history.push(snapshot);
+        dataset.history.set(key, history);
+      }
+    }
+
+    return dataset;
+  }
+
+  /**
+   * Replay every parameter set over the dataset
+   */
+  run(parameterSets: BacktestParameters[]): BacktestResult[] {
+    return parameterSets.map((params) => this.replay(params));
+  }
+
+  private replay(params: BacktestParameters): BacktestResult {
+    const log: BacktestTrade[] = [];
+    let opportunities = 0;
+    const cooldownUntil = new Map<string, number>();
+
+    for (const blockNumber of this.evaluationBlocks()) {
+      for (const pair of this.dataset.tokenPairs) {
+        const opportunity = this.detect(pair, blockNumber, params.minProfitBps);
+        if (!opportunity) continue;
+        opportunities++;
+
+        const key = `${pair.token0}-${pair.token1}`.toLowerCase();
+        if ((cooldownUntil.get(key) ?? -1) >= blockNumber) continue;
+
+        const trade = this.simulateTrade(opportunity, blockNumber, params);
+        if (!trade) continue;
+        log.push(trade);
+        cooldownUntil.set(key, blockNumber + this.options.cooldownBlocks);
+      }
+    }
+
+    const wins = log.filter((t) => BigInt(t.realisedProfit) > BigInt(0)).length;
+    return {
+      params,
+      opportunities,
+      trades: log.length,
+      wins,
+      reverts: log.filter((t) => t.status === "reverted").length,
+      hitRate: log.length > 0 ? (wins / log.length) * 100 : 0,
+      byToken: this.equityByToken(log),
+      log,
+    };
+  }
+
+  /**
+   * Compare every venue's output for the probe size, as the live detector does
+   */
+  private detect(
+    pair: { token0: string; token1: string },
+    blockNumber: number,
+    minProfitBps: number
+  ): { tokenA: string; tokenB: string; high: { dex: string; pool: PoolSnapshot }; low: { dex: string; pool: PoolSnapshot } } | null {
+    const tokenIn = this.token(pair.token0);
+    const tokenOut = this.token(pair.token1);
+    const amountIn = Amount.parse(this.options.quoteAmount, tokenIn.decimals);
+
+    const quotes: Array<{ dex: string; pool: PoolSnapshot; amountOut: Amount }> = [];
+    for (const venue of this.venues(pair.token0, pair.token1)) {
+      const pool = this.stateAt(venue.address, blockNumber);
+      if (!pool) continue;
+      try {
+        const { amountOut } = this.simulator.quoteExactInput(pool, tokenIn.address, amountIn.raw);
+        quotes.push({ dex: venue.dex, pool, amountOut: Amount.from(amountOut, tokenOut.decimals) });
+      } catch {
+        // Pool cannot fill the probe at this block
+      }
+    }
+    const spread = crossDexSpread(quotes);
+    if (!spread) return null;
+
+    const { high, low } = spread;
+    const profitBps = high.amountOut.minus(low.amountOut).ratio(high.amountOut) * 10000;
+    if (profitBps < minProfitBps) return null;
+
+    return { tokenA: tokenIn.address, tokenB: tokenOut.address, high, low };
+  }
+
+  /**
+   * Size the trade on detection-block state, then execute it against the state
+   * `latencyBlocks` later. A shortfall beyond maxSlippageBps reverts and only gas is lost.
+   */
+  private simulateTrade(
+    opportunity: NonNullable<ReturnType<Backtester["detect"]>>,
+    detectedBlock: number,
+    params: BacktestParameters
+  ): BacktestTrade | null {
+    const executedBlock = detectedBlock + params.latencyBlocks;
+    if (executedBlock > this.dataset.toBlock) return null;
+
+    const borrowToken = this.token(opportunity.tokenA);
+    const gasTokenRate = this.gasTokenRate(borrowToken, detectedBlock);
+    if (gasTokenRate === null) return null;
+
+    const costs = {
+      borrowDecimals: borrowToken.decimals,
+      flashLoanPremiumBps: this.options.flashLoanPremiumBps,
+      gasTokenRate: gasTokenRate?.toString(),
+      gasUnitsEstimate: params.gasUnitsEstimate,
+      builderTipBps: this.options.builderTipBps,
+      safetyBufferBps: this.options.safetyBufferBps,
+    };
+    const toBorrowUnits = (eth: string) => {
+      const amount = Amount.parse(eth, 18);
+      return (gasTokenRate ? amount.convert(gasTokenRate, borrowToken.decimals) : amount).toString();
+    };
+
+    let optimal: ReturnType<ProfitabilityCalculator["findOptimalBorrowAmount"]>;
+    try {
+      optimal = this.calculator.findOptimalBorrowAmount(
+        { borrowToken: borrowToken.address, leg1Pool: opportunity.high.pool, leg2Pool: opportunity.low.pool },
+        {
+          minBorrowAmount: toBorrowUnits(this.options.minFlashLoanAmount),
+          maxBorrowAmount: toBorrowUnits(this.options.maxFlashLoanAmount),
+        },
+        { ...costs, gasPrice: this.gasPrice(detectedBlock, params).toString() }
+      );
+    } catch {
+      return null;
+    }
+    if (!optimal.profitability.isProfitable) return null;
+
+    const borrowAmount = BigInt(optimal.optimalAmount);
+    const plannedOut = BigInt(
+      optimal.curve.find((point) => point.borrowAmount === optimal.optimalAmount)?.leg2AmountOut ?? 0
+    );
+
+    const leg1Pool = this.stateAt(opportunity.high.pool.address, executedBlock)!;
+    const leg2Pool = this.stateAt(opportunity.low.pool.address, executedBlock)!;
+    let realisedOut = BigInt(0);
+    try {
+      realisedOut = this.simulator.simulateRoute(borrowToken.address, borrowAmount, leg1Pool, leg2Pool).leg2AmountOut;
+    } catch {
+      // Liquidity moved away; treated as a revert below
+    }
+
+    // Actual costs at the inclusion block; the safety buffer is a margin, not a payment
+    const executionCosts = this.calculator.calculateCosts({
+      ...costs,
+      safetyBufferBps: 0,
+      gasPrice: this.gasPrice(executedBlock, params).toString(),
+      borrowAmount: borrowAmount.toString(),
+    });
+
+    const minOut = (plannedOut * BigInt(10000 - params.maxSlippageBps)) / BigInt(10000);
+    const reverted = realisedOut < minOut || realisedOut === BigInt(0);
+    const realisedProfit = reverted
+      ? -BigInt(executionCosts.gasCost)
+      : realisedOut - borrowAmount - BigInt(executionCosts.totalCosts);
+
+    return {
+      detectedBlock,
+      executedBlock,
+      tokenA: opportunity.tokenA,
+      tokenB: opportunity.tokenB,
+      dexA: opportunity.high.dex,
+      dexB: opportunity.low.dex,
+      borrowAmount: borrowAmount.toString(),
+      quotedProfit: optimal.profitability.netProfit,
+      realisedProfit: realisedProfit.toString(),
+      status: reverted ? "reverted" : "success",
+    };
+  }
+
+  /**
+   * Cumulative PnL and max drawdown per borrow token, in trade order
+   */
+  private equityByToken(log: BacktestTrade[]): BacktestResult["byToken"] {
+    const curves = new Map<string, { pnl: Amount; peak: Amount; maxDrawdown: Amount }>();
+    for (const trade of log) {
+      const token = this.token(trade.tokenA);
+      const key = token.address.toLowerCase();
+      const zero = Amount.zero(token.decimals);
+      const curve = curves.get(key) ?? { pnl: zero, peak: zero, maxDrawdown: zero };
+
+      curve.pnl = curve.pnl.plus(Amount.from(trade.realisedProfit, token.decimals));
+      if (curve.pnl.compare(curve.peak) > 0) curve.peak = curve.pnl;
+      const drawdown = curve.peak.minus(curve.pnl);
+      if (drawdown.compare(curve.maxDrawdown) > 0) curve.maxDrawdown = drawdown;
+      curves.set(key, curve);
+    }
+
+    return [...curves.entries()].map(([key, curve]) => ({
+      token: this.token(key).address,
+      symbol: this.token(key).symbol,
+      pnl: curve.pnl,
+      maxDrawdown: curve.maxDrawdown,
+    }));
+  }
+
+  /**
+   * Blocks where at least one pool changed state; the detector's inputs are
+   * unchanged everywhere else
+   */
+  private evaluationBlocks(): number[] {
+    const blocks = new Set<number>();
+    for (const history of this.dataset.history.values()) {
+      for (const snapshot of history) blocks.add(snapshot.blockNumber);
+    }
+    return [...blocks].filter((b) => b <= this.dataset.toBlock).sort((a, b) => a - b);
+  }
+
+  /**
+   * Latest recorded state of a pool at the end of `blockNumber`
+   */
+  private stateAt(address: string, blockNumber: number): PoolSnapshot | null {
+    const history = this.dataset.history.get(address.toLowerCase());
+    if (!history || history.length === 0 || history[0].blockNumber > blockNumber) return null;
+
+    let lo = 0;
+    let hi = history.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (history[mid].blockNumber <= blockNumber) lo = mid;
+      else hi = mid - 1;
+    }
+    return history[lo];
+  }
+
+  private venues(tokenA: string, tokenB: string): Array<{ dex: string; address: string }> {
+    const pair = [tokenA.toLowerCase(), tokenB.toLowerCase()];
+    return this.dataset.pools.filter(
+      (p) => pair.includes(p.token0.toLowerCase()) && pair.includes(p.token1.toLowerCase())
+    );
+  }
+
+  /**
+   * Base fee recorded for the block plus the assumed priority fee, in wei
+   */
+  private gasPrice(blockNumber: number, params: BacktestParameters): bigint {
+    const baseFee = this.dataset.baseFees.get(blockNumber) ?? BigInt(0);
+    return baseFee + ethers.parseUnits(params.priorityFeeGwei, "gwei");
+  }
+
+  /**
+   * Borrow-token base units per ETH from a recorded WETH pool (undefined for WETH
+   * itself, null when no recorded pool prices the token)
+   */
+  private gasTokenRate(borrowToken: TokenInfo, blockNumber: number): Amount | undefined | null {
+    const weth = this.options.wethAddress;
+    if (borrowToken.address.toLowerCase() === weth.toLowerCase()) return undefined;
+
+    for (const venue of this.venues(weth, borrowToken.address)) {
+      const pool = this.stateAt(venue.address, blockNumber);
+      if (!pool) continue;
+      try {
+        const { amountOut } = this.simulator.quoteExactInput(pool, weth, ethers.parseEther("1"));
+        return Amount.from(amountOut, borrowToken.decimals);
+      } catch {
+        // Try the next venue
+      }
+    }
+    return null;
+  }
+
+  private token(address: string): TokenInfo {
+    const token = this.tokens.get(address.toLowerCase());
+    if (!token) throw new Error(`Token ${address} is missing from the backtest dataset`);
+    return token;
+  }
+}
+
+function serializeSnapshot(snapshot: PoolSnapshot): SerializedSnapshot {
+  return {
+    ...snapshot,
+    reserve0: snapshot.reserve0.toString(),
+    reserve1: snapshot.reserve1.toString(),
+    sqrtPriceX96: snapshot.sqrtPriceX96?.toString(),
+    liquidity: snapshot.liquidity?.toString(),
+    ticks: snapshot.ticks?.map((t) => ({ tick: t.tick, liquidityNet: t.liquidityNet.toString() })),
+    amount0: snapshot.amount0.toString(),
+    amount1: snapshot.amount1.toString(),
+  };
+}
+
+function deserializeSnapshot(serialized: SerializedSnapshot): PoolSnapshot {
+  const optional = (value: string | undefined) => (value === undefined ? undefined : BigInt(value));
+  return {
+    address: serialized.address,
+    poolType: serialized.poolType,
+    token0: serialized.token0,
+    token1: serialized.token1,
+    reserve0: BigInt(serialized.reserve0),
+    reserve1: BigInt(serialized.reserve1),
+    fee: serialized.fee,
+    sqrtPriceX96: optional(serialized.sqrtPriceX96),
+    liquidity: optional(serialized.liquidity),
+    tick: serialized.tick,
+    tickSpacing: serialized.tickSpacing,
+    ticks: serialized.ticks?.map((t) => ({ tick: t.tick, liquidityNet: BigInt(t.liquidityNet) })),
+    amount0: BigInt(serialized.amount0),
+    amount1: BigInt(serialized.amount1),
+    price: serialized.price,
+    timestamp: serialized.timestamp,
+    blockNumber: serialized.blockNumber,
+    transactionHash: serialized.transactionHash,
+    logIndex: serialized.logIndex,
+  };
+}
+
+export type { BacktestParameters, BacktestOptions, BacktestDataset, BacktestTrade, BacktestResult };
+export default Backtester;
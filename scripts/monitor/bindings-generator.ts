@@ -0,0 +1,175 @@
+// bindings-generator.ts
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+
+// Contracts the monitor talks to; regenerate with `arbexec bindings`
+export const BOUND_CONTRACTS = ["ArbExecutor", "ArbOptimizer", "ArbitrageAnalyzer", "IArbExec"];
+
+interface AbiParam {
+  name: string;
+  type: string;
+  internalType?: string;
+  components?: AbiParam[];
+}
+
+interface AbiFragment {
+  type: string;
+  name?: string;
+  inputs?: AbiParam[];
+  outputs?: AbiParam[];
+  stateMutability?: string;
+}
+
+type Direction = "input" | "output";
+
+// Names ethers.BaseContract already defines; functions with these names stay reachable via getFunction()
+const RESERVED = new Set([
+  "target", "interface", "runner", "filters", "fallback", "connect", "attach", "getAddress",
+  "getDeployedCode", "waitForDeployment", "deploymentTransaction", "getFunction", "getEvent",
+  "queryTransaction", "queryFilter", "on", "once", "emit", "listenerCount", "listeners",
+  "off", "removeAllListeners", "addListener", "removeListener",
+]);
+
+/**
+ * Write one typed binding module per contract (plus the shared helper types) into
+ * `outDir`, from the ABIs in `artifactsDir`. Returns the written paths.
+ */
+export function generateBindings(
+  contracts: string[] = BOUND_CONTRACTS,
+  artifactsDir: string = new URL("../../artifacts", import.meta.url).pathname,
+  outDir: string = new URL("./bindings", import.meta.url).pathname
+): string[] {
+  if (!existsSync(outDir)) mkdirSync(outDir, { recursive: true });
+
+  const written = [join(outDir, "common.ts")];
+  writeFileSync(written[0], COMMON);
+  for (const name of contracts) {
+    const artifact = JSON.parse(readFileSync(join(artifactsDir, `${name}.json`), "utf8"));
+    if (!Array.isArray(artifact.abi)) throw new Error(`Artifact ${name} has no ABI`);
+    const path = join(outDir, `${name}.ts`);
+    writeFileSync(path, renderBinding(name, artifact.abi, Boolean(artifact.data?.bytecode?.object)));
+    written.push(path);
+  }
+  return written;
+}
+
+function renderBinding(contract: string, abi: AbiFragment[], deployable: boolean): string {
+  const structs = new Map<string, string>(); // Interface name -> declaration
+  const functions = abi.filter((f) => f.type === "function" && f.name);
+  const counts = new Map<string, number>();
+  for (const fn of functions) counts.set(fn.name!, (counts.get(fn.name!) ?? 0) + 1);
+
+  const members: string[] = [];
+  for (const fn of functions) {
+    const overloaded = counts.get(fn.name!)! > 1;
+    if (!overloaded && RESERVED.has(fn.name!)) continue;
+
+    const key = overloaded ? JSON.stringify(`${fn.name}(${(fn.inputs ?? []).map(signatureType).join(",")})`) : fn.name!;
+    const args = (fn.inputs ?? []).map((p, i) => `${p.name || `arg${i}`}: ${tsType(p, "input", structs)}`);
+    const outputs = fn.outputs ?? [];
+    const result =
+      outputs.length === 0
+        ? "void"
+        : outputs.length === 1
+          ? tsType(outputs[0], "output", structs)
+          : `[${outputs.map((p, i) => `${p.name || `ret${i}`}: ${tsType(p, "output", structs)}`).join(", ")}]`;
+    const mutability = fn.stateMutability ?? "nonpayable";
+    members.push(`  ${key}: ContractMethod<[${args.join(", ")}], ${result}, "${mutability}">;`);
+  }
+
+  const lines = [
+    `// ${contract}.ts`,
+    `// Generated by bindings-generator.ts from artifacts/${contract}.json; do not edit`,
+    `import { ethers } from "ethers";`,
+    deployable
+      ? `import { loadArtifactAbi, loadArtifactBytecode } from "../artifacts";`
+      : `import { loadArtifactAbi } from "../artifacts";`,
+    `import type { ContractMethod } from "./common";`,
+    ``,
+    ...[...structs.values()].flatMap((declaration) => [declaration, ``]),
+    `export interface ${contract}Contract extends ethers.BaseContract {`,
+    ...members,
+    `}`,
+    ``,
+    `export function connect${contract}(address: string, runner?: ethers.ContractRunner | null): ${contract}Contract {`,
+    `  return new ethers.Contract(address, loadArtifactAbi("${contract}"), runner) as unknown as ${contract}Contract;`,
+    `}`,
+  ];
+
+  if (deployable) {
+    const constructor = abi.find((f) => f.type === "constructor");
+    const args = (constructor?.inputs ?? []).map((p, i) => `${p.name || `arg${i}`}: ${tsType(p, "input", structs)}`);
+    lines.push(
+      ``,
+      `export async function deploy${contract}(`,
+      `  signer: ethers.Signer${args.length > 0 ? "," : ""}`,
+      ...args.map((arg, i) => `  ${arg}${i < args.length - 1 ? "," : ""}`),
+      `): Promise<${contract}Contract> {`,
+      `  const factory = new ethers.ContractFactory(loadArtifactAbi("${contract}"), loadArtifactBytecode("${contract}"), signer);`,
+      `  const contract = await factory.deploy(${(constructor?.inputs ?? []).map((p, i) => p.name || `arg${i}`).join(", ")});`,
+      `  await contract.waitForDeployment();`,
+      `  return contract as unknown as ${contract}Contract;`,
+      `}`
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * TypeScript type for an ABI parameter. Inputs accept anything ethers can encode;
+ * outputs are what ethers v6 decodes to (every integer width is a bigint).
+ */
+function tsType(param: AbiParam, direction: Direction, structs: Map<string, string>): string {
+  const array = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    const element = { ...param, type: array[1], internalType: param.internalType?.replace(/\[\d*\]$/, "") };
+    return `Array<${tsType(element, direction, structs)}>`;
+  }
+
+  if (param.type === "tuple") {
+    const base = param.internalType?.match(/struct (?:\w+\.)?(\w+)/)?.[1] ?? "Tuple";
+    const name = `${base}${direction === "input" ? "Struct" : "Output"}`;
+    if (!structs.has(name)) {
+      structs.set(name, ""); // Reserve before recursing, components may reference other structs
+      const fields = (param.components ?? []).map((c) => `  ${c.name}: ${tsType(c, direction, structs)};`);
+      structs.set(name, [`export interface ${name} {`, ...fields, `}`].join("\n"));
+    }
+    return name;
+  }
+
+  if (/^u?int\d*$/.test(param.type)) {
+    const type = direction === "input" ? "ethers.BigNumberish" : "bigint";
+    return param.internalType?.startsWith("enum ") ? `${type} /* ${param.internalType.slice(5)} */` : type;
+  }
+  if (param.type === "address" || param.type === "string") return "string";
+  if (param.type === "bool") return "boolean";
+  if (param.type.startsWith("bytes")) return direction === "input" ? "ethers.BytesLike" : "string";
+  throw new Error(`Unsupported ABI type: ${param.type}`);
+}
+
+function signatureType(param: AbiParam): string {
+  if (!param.type.startsWith("tuple")) return param.type;
+  return `(${(param.components ?? []).map(signatureType).join(",")})${param.type.slice("tuple".length)}`;
+}
+
+const COMMON = `// common.ts
+// Generated by bindings-generator.ts; do not edit
+import type { ethers } from "ethers";
+
+type StateMutability = "view" | "pure" | "nonpayable" | "payable";
+
+type MethodArgs<Args extends unknown[]> = Args | [...Args, ethers.Overrides];
+
+/**
+ * A contract function typed from its ABI. Calling a view or pure function returns its
+ * result; calling a state-changing one sends a transaction (use staticCall to read it).
+ */
+export interface ContractMethod<Args extends unknown[], Result, Mutability extends StateMutability> {
+  (...args: MethodArgs<Args>): Promise<
+    Mutability extends "view" | "pure" ? Result : ethers.ContractTransactionResponse
+  >;
+  staticCall(...args: MethodArgs<Args>): Promise<Result>;
+  estimateGas(...args: MethodArgs<Args>): Promise<bigint>;
+  populateTransaction(...args: MethodArgs<Args>): Promise<ethers.ContractTransaction>;
+}
+`;
@@ -0,0 +1,123 @@
+// ArbExecutor.ts
+// Generated by bindings-generator.ts from artifacts/ArbExecutor.json; do not edit
+import { ethers } from "ethers";
+import { loadArtifactAbi, loadArtifactBytecode } from "../artifacts";
+import type { ContractMethod } from "./common";
+
+export interface ProfitabilityQuoteOutput {
+  leg1AmountOut: bigint;
+  leg2AmountOut: bigint;
+  flashLoanPremium: bigint;
+  gasCostEstimate: bigint;
+  builderTip: bigint;
+  safetyBuffer: bigint;
+  expectedGrossProfit: bigint;
+  totalCosts: bigint;
+  expectedNetProfit: bigint;
+  isProfitable: boolean;
+}
+
+export interface ArbitrageRouteOutput {
+  routeId: bigint;
+  path: Array<string>;
+  minProfit: bigint;
+  dexA: bigint /* ArbExecutor.DEXType */;
+  dexB: bigint /* ArbExecutor.DEXType */;
+}
+
+export interface ArbExecutorContract extends ethers.BaseContract {
+  ADDRESSES_PROVIDER: ContractMethod<[], string, "view">;
+  POOL: ContractMethod<[], string, "view">;
+  aaveV3AddressesProvider: ContractMethod<[], string, "view">;
+  aaveV3Pool: ContractMethod<[], string, "view">;
+  addRoute: ContractMethod<[path: Array<string>, minProfit: ethers.BigNumberish, dexA: ethers.BigNumberish /* ArbExecutor.DEXType */, dexB: ethers.BigNumberish /* ArbExecutor.DEXType */], void, "nonpayable">;
+  addRoutesBatch: ContractMethod<[paths: Array<Array<string>>, minProfits: Array<ethers.BigNumberish>, dexAs: Array<ethers.BigNumberish /* ArbExecutor.DEXType */>, dexBs: Array<ethers.BigNumberish /* ArbExecutor.DEXType */>], void, "nonpayable">;
+  autoUnwrapWETH: ContractMethod<[], boolean, "view">;
+  beneficiary: ContractMethod<[], string, "view">;
+  beneficiaryShareBps: ContractMethod<[], bigint, "view">;
+  builderTipBps: ContractMethod<[], bigint, "view">;
+  calculateProfitability: ContractMethod<[path: Array<string>, borrowAmount: ethers.BigNumberish, dexA: ethers.BigNumberish /* ArbExecutor.DEXType */, dexB: ethers.BigNumberish /* ArbExecutor.DEXType */], ProfitabilityQuoteOutput, "nonpayable">;
+  deadlineSeconds: ContractMethod<[], bigint, "view">;
+  defaultUniV3Fee: ContractMethod<[], bigint, "view">;
+  deleteRoute: ContractMethod<[routeId: ethers.BigNumberish], void, "nonpayable">;
+  dexQuoters: ContractMethod<[arg0: ethers.BigNumberish /* ArbExecutor.DEXType */], string, "view">;
+  dexRouters: ContractMethod<[arg0: ethers.BigNumberish /* ArbExecutor.DEXType */], string, "view">;
+  emergencyCleanup: ContractMethod<[tokens: Array<string>], void, "nonpayable">;
+  emergencyWithdraw: ContractMethod<[token: string], void, "nonpayable">;
+  enforceProfitabilityCheck: ContractMethod<[], boolean, "view">;
+  enforceSecondaryOracle: ContractMethod<[], boolean, "view">;
+  executeOperation: ContractMethod<[asset: string, amount: ethers.BigNumberish, premium: ethers.BigNumberish, initiator: string, params: ethers.BytesLike], boolean, "nonpayable">;
+  flashLoanPremiumBps: ContractMethod<[], bigint, "view">;
+  gasPrice: ContractMethod<[], bigint, "view">;
+  gasUnitsEstimate: ContractMethod<[], bigint, "view">;
+  getAllRoutes: ContractMethod<[offset: ethers.BigNumberish, limit: ethers.BigNumberish], Array<ArbitrageRouteOutput>, "view">;
+  getDEXQuoter: ContractMethod<[dexType: ethers.BigNumberish /* ArbExecutor.DEXType */], string, "view">;
+  getDEXRouter: ContractMethod<[dexType: ethers.BigNumberish /* ArbExecutor.DEXType */], string, "view">;
+  getPriceFeed: ContractMethod<[token: string], string, "view">;
+  getRoute: ContractMethod<[routeId: ethers.BigNumberish], ArbitrageRouteOutput, "view">;
+  getRouteCount: ContractMethod<[], bigint, "view">;
+  getTokenDecimals: ContractMethod<[token: string], bigint, "view">;
+  initiateArbitrage: ContractMethod<[asset: string, amount: ethers.BigNumberish, routeId: ethers.BigNumberish, quietEvents: boolean], void, "nonpayable">;
+  isPaused: ContractMethod<[], boolean, "view">;
+  isRouterWhitelisted: ContractMethod<[router: string], boolean, "view">;
+  isTokenSupported: ContractMethod<[token: string], boolean, "view">;
+  maxLoanAmount: ContractMethod<[], bigint, "view">;
+  maxPriceFeedAge: ContractMethod<[], bigint, "view">;
+  maxSlippageBps: ContractMethod<[], bigint, "view">;
+  minProfitAbsolute: ContractMethod<[], bigint, "view">;
+  minProfitBps: ContractMethod<[], bigint, "view">;
+  oracleDeviationBps: ContractMethod<[], bigint, "view">;
+  owner: ContractMethod<[], string, "view">;
+  paused: ContractMethod<[], boolean, "view">;
+  priceFeeds: ContractMethod<[arg0: string], string, "view">;
+  renounceOwnership: ContractMethod<[], void, "nonpayable">;
+  routeCount: ContractMethod<[], bigint, "view">;
+  routes: ContractMethod<[arg0: ethers.BigNumberish], [routeId: bigint, minProfit: bigint, dexA: bigint /* ArbExecutor.DEXType */, dexB: bigint /* ArbExecutor.DEXType */], "view">;
+  safetyBufferBps: ContractMethod<[], bigint, "view">;
+  secondaryOracleDeviationBps: ContractMethod<[], bigint, "view">;
+  secondaryPriceFeeds: ContractMethod<[arg0: string], string, "view">;
+  setAutoUnwrapWETH: ContractMethod<[enabled: boolean], void, "nonpayable">;
+  setBeneficiary: ContractMethod<[_beneficiary: string], void, "nonpayable">;
+  setBeneficiaryShare: ContractMethod<[_beneficiaryShareBps: ethers.BigNumberish], void, "nonpayable">;
+  setDEXQuoter: ContractMethod<[dexType: ethers.BigNumberish /* ArbExecutor.DEXType */, quoter: string], void, "nonpayable">;
+  setDEXRouter: ContractMethod<[dexType: ethers.BigNumberish /* ArbExecutor.DEXType */, router: string], void, "nonpayable">;
+  setDefaultUniV3Fee: ContractMethod<[fee: ethers.BigNumberish], void, "nonpayable">;
+  setEnforceProfitabilityCheck: ContractMethod<[enabled: boolean], void, "nonpayable">;
+  setEnforceSecondaryOracle: ContractMethod<[enabled: boolean], void, "nonpayable">;
+  setMaxLoanAmount: ContractMethod<[_maxLoanAmount: ethers.BigNumberish], void, "nonpayable">;
+  setMinProfitAbsolute: ContractMethod<[_minProfitAbsolute: ethers.BigNumberish], void, "nonpayable">;
+  setPaused: ContractMethod<[_paused: boolean], void, "nonpayable">;
+  setPriceFeed: ContractMethod<[token: string, feed: string], void, "nonpayable">;
+  setPriceFeedsBatch: ContractMethod<[tokens: Array<string>, feeds: Array<string>], void, "nonpayable">;
+  setProtocolAddresses: ContractMethod<[_aaveV3Provider: string, _weth: string], void, "nonpayable">;
+  setSecondaryPriceFeed: ContractMethod<[token: string, feed: string], void, "nonpayable">;
+  setTokenDecimals: ContractMethod<[token: string, decimals: ethers.BigNumberish], void, "nonpayable">;
+  setTokenSupported: ContractMethod<[token: string, supported: boolean], void, "nonpayable">;
+  setTokensSupportedBatch: ContractMethod<[tokens: Array<string>, supported: Array<boolean>], void, "nonpayable">;
+  supportedTokens: ContractMethod<[arg0: string], boolean, "view">;
+  tokenDecimals: ContractMethod<[arg0: string], bigint, "view">;
+  transferOwnership: ContractMethod<[newOwner: string], void, "nonpayable">;
+  updateAaveV3Pool: ContractMethod<[_newPool: string], void, "nonpayable">;
+  updateAddressesProvider: ContractMethod<[_newProvider: string], void, "nonpayable">;
+  updateOracleParams: ContractMethod<[_maxPriceFeedAge: ethers.BigNumberish, _oracleDeviationBps: ethers.BigNumberish, _secondaryOracleDeviationBps: ethers.BigNumberish], void, "nonpayable">;
+  updateProfitabilityParams: ContractMethod<[_builderTipBps: ethers.BigNumberish, _safetyBufferBps: ethers.BigNumberish, _flashLoanPremiumBps: ethers.BigNumberish, _gasPrice: ethers.BigNumberish], void, "nonpayable">;
+  updateRiskParams: ContractMethod<[_minProfitBps: ethers.BigNumberish, _maxSlippageBps: ethers.BigNumberish, _deadlineSeconds: ethers.BigNumberish, _gasUnitsEstimate: ethers.BigNumberish], void, "nonpayable">;
+  updateRoute: ContractMethod<[routeId: ethers.BigNumberish, path: Array<string>, minProfit: ethers.BigNumberish, dexA: ethers.BigNumberish /* ArbExecutor.DEXType */, dexB: ethers.BigNumberish /* ArbExecutor.DEXType */], void, "nonpayable">;
+  weth: ContractMethod<[], string, "view">;
+  whitelistRouter: ContractMethod<[router: string, whitelisted: boolean], void, "nonpayable">;
+  whitelistedRouters: ContractMethod<[arg0: string], boolean, "view">;
+  withdrawETH: ContractMethod<[], void, "nonpayable">;
+}
+
+export function connectArbExecutor(address: string, runner?: ethers.ContractRunner | null): ArbExecutorContract {
+  return new ethers.Contract(address, loadArtifactAbi("ArbExecutor"), runner) as unknown as ArbExecutorContract;
+}
+
+export async function deployArbExecutor(
+  signer: ethers.Signer
+): Promise<ArbExecutorContract> {
+  const factory = new ethers.ContractFactory(loadArtifactAbi("ArbExecutor"), loadArtifactBytecode("ArbExecutor"), signer);
+  const contract = await factory.deploy();
+  await contract.waitForDeployment();
+  return contract as unknown as ArbExecutorContract;
+}
@@ -0,0 +1,70 @@
+// ArbOptimizer.ts
+// Generated by bindings-generator.ts from artifacts/ArbOptimizer.json; do not edit
+import { ethers } from "ethers";
+import { loadArtifactAbi, loadArtifactBytecode } from "../artifacts";
+import type { ContractMethod } from "./common";
+
+export interface ArbOptimizerContract extends ethers.BaseContract {
+  analyzeAllRoutes: ContractMethod<[flashLoanAmount: ethers.BigNumberish], [routeProfits: Array<bigint>, routesProfitable: Array<boolean>], "nonpayable">;
+  analyzeRoute: ContractMethod<[routeIndex: ethers.BigNumberish, flashLoanAmount: ethers.BigNumberish], [estimatedProfit: bigint, isProfitable: boolean], "nonpayable">;
+  arbExec: ContractMethod<[], string, "view">;
+  autoExecute: ContractMethod<[], boolean, "view">;
+  calculatePremiumAmount: ContractMethod<[], bigint, "view">;
+  executeOptimalArbitrage: ContractMethod<[flashLoanAmount: ethers.BigNumberish], boolean, "nonpayable">;
+  executeOptimalArbitrageWithUserParams: ContractMethod<[], boolean, "nonpayable">;
+  executionCooldown: ContractMethod<[], bigint, "view">;
+  findOptimalRoute: ContractMethod<[flashLoanAmount: ethers.BigNumberish], [bestRouteIndex: bigint, highestProfit: bigint, isProfitable: boolean], "nonpayable">;
+  getAllBalances: ContractMethod<[], [wethBalance: bigint, usdcBalance: bigint, usdtBalance: bigint, daiBalance: bigint, fraxBalance: bigint, lusdBalance: bigint, usdpBalance: bigint, tusdBalance: bigint, gusdBalance: bigint, busdBalance: bigint, usdcEBalance: bigint, eursBalance: bigint, ethBalance: bigint], "view">;
+  getAllUSDCAddresses: ContractMethod<[], [ethereumUsdc: string, baseUsdc: string, arbitrumUsdc: string], "pure">;
+  getArbExecAddress: ContractMethod<[], string, "pure">;
+  getETHBalance: ContractMethod<[], bigint, "view">;
+  getSupportedTokens: ContractMethod<[], Array<string>, "pure">;
+  getTokenBalance: ContractMethod<[token: string], bigint, "view">;
+  getUSDCAddressByChain: ContractMethod<[chain: ethers.BigNumberish /* ArbOptimizer.Chain */], string, "pure">;
+  getUserParameters: ContractMethod<[], [flashLoanAmount: bigint, premiumPercentage: bigint, _minProfitBps: bigint, _minProfitAmount: bigint], "view">;
+  getWETHAddress: ContractMethod<[], string, "pure">;
+  getWethValueInUsd: ContractMethod<[], bigint, "view">;
+  lastExecutionTime: ContractMethod<[], bigint, "view">;
+  maxFlashLoanAmount: ContractMethod<[], bigint, "view">;
+  minFlashLoanAmount: ContractMethod<[], bigint, "view">;
+  minProfitAmount: ContractMethod<[], bigint, "view">;
+  minProfitBpsThreshold: ContractMethod<[], bigint, "view">;
+  owner: ContractMethod<[], string, "view">;
+  pause: ContractMethod<[], void, "nonpayable">;
+  paused: ContractMethod<[], boolean, "view">;
+  renounceOwnership: ContractMethod<[], void, "nonpayable">;
+  setAutoExecute: ContractMethod<[_enabled: boolean], void, "nonpayable">;
+  setExecutionCooldown: ContractMethod<[_cooldown: ethers.BigNumberish], void, "nonpayable">;
+  setFlashLoanAmount: ContractMethod<[_amount: ethers.BigNumberish], void, "nonpayable">;
+  setFlashLoanLimits: ContractMethod<[_min: ethers.BigNumberish, _max: ethers.BigNumberish], void, "nonpayable">;
+  setFlashLoanPremium: ContractMethod<[_premiumPercentage: ethers.BigNumberish], void, "nonpayable">;
+  setMinProfitThresholds: ContractMethod<[_bps: ethers.BigNumberish, _amount: ethers.BigNumberish], void, "nonpayable">;
+  setUserMinProfitAmount: ContractMethod<[_minProfitAmount: ethers.BigNumberish], void, "nonpayable">;
+  setUserMinProfitBps: ContractMethod<[_minProfitBps: ethers.BigNumberish], void, "nonpayable">;
+  transferOwnership: ContractMethod<[newOwner: string], void, "nonpayable">;
+  unpause: ContractMethod<[], void, "nonpayable">;
+  userFlashLoanAmount: ContractMethod<[], bigint, "view">;
+  userMinProfitAmount: ContractMethod<[], bigint, "view">;
+  userMinProfitBps: ContractMethod<[], bigint, "view">;
+  userPremiumPercentage: ContractMethod<[], bigint, "view">;
+  withdrawAll: ContractMethod<[], void, "nonpayable">;
+  withdrawDAI: ContractMethod<[], void, "nonpayable">;
+  withdrawETH: ContractMethod<[], void, "nonpayable">;
+  withdrawToken: ContractMethod<[token: string], void, "nonpayable">;
+  withdrawUSDC: ContractMethod<[], void, "nonpayable">;
+  withdrawUSDT: ContractMethod<[], void, "nonpayable">;
+  withdrawWETH: ContractMethod<[], void, "nonpayable">;
+}
+
+export function connectArbOptimizer(address: string, runner?: ethers.ContractRunner | null): ArbOptimizerContract {
+  return new ethers.Contract(address, loadArtifactAbi("ArbOptimizer"), runner) as unknown as ArbOptimizerContract;
+}
+
+export async function deployArbOptimizer(
+  signer: ethers.Signer
+): Promise<ArbOptimizerContract> {
+  const factory = new ethers.ContractFactory(loadArtifactAbi("ArbOptimizer"), loadArtifactBytecode("ArbOptimizer"), signer);
+  const contract = await factory.deploy();
+  await contract.waitForDeployment();
+  return contract as unknown as ArbOptimizerContract;
+}
@@ -0,0 +1,108 @@
+// ArbitrageAnalyzer.ts
+// Generated by bindings-generator.ts from artifacts/ArbitrageAnalyzer.json; do not edit
+import { ethers } from "ethers";
+import { loadArtifactAbi, loadArtifactBytecode } from "../artifacts";
+import type { ContractMethod } from "./common";
+
+export interface TradeDataStruct {
+  profit: ethers.BigNumberish;
+  gasUsed: ethers.BigNumberish;
+  slippage: ethers.BigNumberish;
+  executionTime: ethers.BigNumberish;
+}
+
+export interface StatisticalAnalysisOutput {
+  meanProfit: bigint;
+  medianProfit: bigint;
+  stdDeviation: bigint;
+  minProfit: bigint;
+  maxProfit: bigint;
+  successRate: bigint;
+  averageGasUsed: bigint;
+  totalTrades: bigint;
+}
+
+export interface BacktestResultOutput {
+  minProfitBps: bigint;
+  maxSlippageBps: bigint;
+  successCount: bigint;
+  totalProfit: bigint;
+  roi: bigint;
+}
+
+export interface ProfitabilityBreakdownOutput {
+  borrowAmount: bigint;
+  flashLoanFee: bigint;
+  gasCost: bigint;
+  builderTip: bigint;
+  safetyBuffer: bigint;
+  totalCosts: bigint;
+  grossProfit: bigint;
+  netProfit: bigint;
+  roi: bigint;
+  isProfitable: boolean;
+  costBreakdown: CostPercentagesOutput;
+}
+
+export interface CostPercentagesOutput {
+  flashLoanFeePercent: bigint;
+  gasCostPercent: bigint;
+  builderTipPercent: bigint;
+  safetyBufferPercent: bigint;
+}
+
+export interface OptimalBorrowResultOutput {
+  optimalAmount: bigint;
+  maxProfit: bigint;
+  profitability: ProfitabilityBreakdownOutput;
+}
+
+export interface StatisticalAnalysisStruct {
+  meanProfit: ethers.BigNumberish;
+  medianProfit: ethers.BigNumberish;
+  stdDeviation: ethers.BigNumberish;
+  minProfit: ethers.BigNumberish;
+  maxProfit: ethers.BigNumberish;
+  successRate: ethers.BigNumberish;
+  averageGasUsed: ethers.BigNumberish;
+  totalTrades: ethers.BigNumberish;
+}
+
+export interface ParameterRecommendationOutput {
+  minProfitBps: bigint;
+  maxSlippageBps: bigint;
+  deadlineSeconds: bigint;
+  gasUnitsEstimate: bigint;
+  confidence: bigint;
+  reasoning: string;
+}
+
+export interface SensitivityResultOutput {
+  gasPrice: bigint;
+  flashLoanPremiumBps: bigint;
+  netProfit: bigint;
+  roi: bigint;
+}
+
+export interface ArbitrageAnalyzerContract extends ethers.BaseContract {
+  analyzeGasEfficiency: ContractMethod<[trades: Array<TradeDataStruct>, gasPrices: Array<ethers.BigNumberish>], [meanGasCost: bigint, profitPerGasUnit: bigint, recommendation: string], "pure">;
+  analyzeHistoricalTrades: ContractMethod<[trades: Array<TradeDataStruct>], StatisticalAnalysisOutput, "nonpayable">;
+  backtestParameters: ContractMethod<[trades: Array<TradeDataStruct>, minProfitBpsArray: Array<ethers.BigNumberish>, maxSlippageBpsArray: Array<ethers.BigNumberish>], Array<BacktestResultOutput>, "nonpayable">;
+  calculateProfitability: ContractMethod<[borrowAmount: ethers.BigNumberish, flashLoanPremiumBps: ethers.BigNumberish, gasPrice: ethers.BigNumberish, gasUnitsEstimate: ethers.BigNumberish, leg1AmountOut: ethers.BigNumberish, leg2AmountOut: ethers.BigNumberish, builderTipBps: ethers.BigNumberish, safetyBufferBps: ethers.BigNumberish], ProfitabilityBreakdownOutput, "nonpayable">;
+  findOptimalBorrowAmount: ContractMethod<[minBorrowAmount: ethers.BigNumberish, maxBorrowAmount: ethers.BigNumberish, step: ethers.BigNumberish, priceRatio: ethers.BigNumberish, flashLoanPremiumBps: ethers.BigNumberish, gasPrice: ethers.BigNumberish, gasUnitsEstimate: ethers.BigNumberish, builderTipBps: ethers.BigNumberish, safetyBufferBps: ethers.BigNumberish], OptimalBorrowResultOutput, "nonpayable">;
+  generateParameterRecommendations: ContractMethod<[analysis: StatisticalAnalysisStruct, trades: Array<TradeDataStruct>], ParameterRecommendationOutput, "nonpayable">;
+  sensitivityAnalysis: ContractMethod<[baseProfit: ethers.BigNumberish, baseBorrowAmount: ethers.BigNumberish, gasPrices: Array<ethers.BigNumberish>, flashLoanPremiums: Array<ethers.BigNumberish>, gasUnitsEstimate: ethers.BigNumberish, builderTipBps: ethers.BigNumberish, safetyBufferBps: ethers.BigNumberish], Array<SensitivityResultOutput>, "nonpayable">;
+}
+
+export function connectArbitrageAnalyzer(address: string, runner?: ethers.ContractRunner | null): ArbitrageAnalyzerContract {
+  return new ethers.Contract(address, loadArtifactAbi("ArbitrageAnalyzer"), runner) as unknown as ArbitrageAnalyzerContract;
+}
+
+export async function deployArbitrageAnalyzer(
+  signer: ethers.Signer
+): Promise<ArbitrageAnalyzerContract> {
+  const factory = new ethers.ContractFactory(loadArtifactAbi("ArbitrageAnalyzer"), loadArtifactBytecode("ArbitrageAnalyzer"), signer);
+  const contract = await factory.deploy();
+  await contract.waitForDeployment();
+  return contract as unknown as ArbitrageAnalyzerContract;
+}
@@ -0,0 +1,40 @@
+// IArbExec.ts
+// Generated by bindings-generator.ts from artifacts/IArbExec.json; do not edit
+import { ethers } from "ethers";
+import { loadArtifactAbi } from "../artifacts";
+import type { ContractMethod } from "./common";
+
+export interface ProfitabilityQuoteOutput {
+  leg1AmountOut: bigint;
+  leg2AmountOut: bigint;
+  flashLoanPremium: bigint;
+  gasCostEstimate: bigint;
+  builderTip: bigint;
+  safetyBuffer: bigint;
+  expectedGrossProfit: bigint;
+  totalCosts: bigint;
+  expectedNetProfit: bigint;
+  isProfitable: boolean;
+}
+
+export interface ArbitrageRouteOutput {
+  routeId: bigint;
+  path: Array<string>;
+  minProfit: bigint;
+  dexA: bigint /* IArbExec.DEXType */;
+  dexB: bigint /* IArbExec.DEXType */;
+}
+
+export interface IArbExecContract extends ethers.BaseContract {
+  calculateProfitability: ContractMethod<[path: Array<string>, borrowAmount: ethers.BigNumberish, dexA: ethers.BigNumberish /* IArbExec.DEXType */, dexB: ethers.BigNumberish /* IArbExec.DEXType */], ProfitabilityQuoteOutput, "nonpayable">;
+  emergencyWithdraw: ContractMethod<[token: string], void, "nonpayable">;
+  getAllRoutes: ContractMethod<[offset: ethers.BigNumberish, limit: ethers.BigNumberish], Array<ArbitrageRouteOutput>, "view">;
+  getRoute: ContractMethod<[routeId: ethers.BigNumberish], ArbitrageRouteOutput, "view">;
+  getRouteCount: ContractMethod<[], bigint, "view">;
+  initiateArbitrage: ContractMethod<[asset: string, amount: ethers.BigNumberish, routeId: ethers.BigNumberish, quietEvents: boolean], void, "nonpayable">;
+  withdrawETH: ContractMethod<[], void, "nonpayable">;
+}
+
+export function connectIArbExec(address: string, runner?: ethers.ContractRunner | null): IArbExecContract {
+  return new ethers.Contract(address, loadArtifactAbi("IArbExec"), runner) as unknown as IArbExecContract;
+}
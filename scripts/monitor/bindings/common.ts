@@ -0,0 +1,20 @@
+// common.ts
+// Generated by bindings-generator.ts; do not edit
+import type { ethers } from "ethers";
+
+type StateMutability = "view" | "pure" | "nonpayable" | "payable";
+
+type MethodArgs<Args extends unknown[]> = Args | [...Args, ethers.Overrides];
+
+/**
+ * A contract function typed from its ABI. Calling a view or pure function returns its
+ * result; calling a state-changing one sends a transaction (use staticCall to read it).
+ */
+export interface ContractMethod<Args extends unknown[], Result, Mutability extends StateMutability> {
+  (...args: MethodArgs<Args>): Promise<
+    Mutability extends "view" | "pure" ? Result : ethers.ContractTransactionResponse
+  >;
+  staticCall(...args: MethodArgs<Args>): Promise<Result>;
+  estimateGas(...args: MethodArgs<Args>): Promise<bigint>;
+  populateTransaction(...args: MethodArgs<Args>): Promise<ethers.ContractTransaction>;
+}
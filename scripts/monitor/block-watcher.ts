@@ -0,0 +1,304 @@
+// block-watcher.ts
+import { ethers } from "ethers";
+import ArbitrageOrchestrator, { ExecutionPlan } from "./orchestrator";
+
+interface WatcherOptions {
+  rpcUrl: string;
+  wsUrl?: string;
+  pollIntervalMs: number;
+  opportunityMaxAgeBlocks: number;
+  actedOnCooldownBlocks: number;
+  minProfitBps: number;
+}
+
+interface BlockLatency {
+  blockNumber: number;
+  evaluationMs: number;
+  headLag: number; // Blocks the chain head had advanced by when evaluation finished
+}
+
+// WebSocket reconnects back off 1s, 2s, 4s, ... before falling back to polling
+const RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const CONNECT_TIMEOUT_MS = 10000;
+
+// ethers leaves onclose unset, so WebSocketLike does not declare it
+type WatchedSocket = ethers.WebSocketLike & { onclose: null | ((...args: unknown[]) => unknown) };
+
+/**
+ * Long-running watcher that re-evaluates every configured pair on each new block
+ */
+class BlockWatcher {
+  private orchestrator: ArbitrageOrchestrator;
+  private tokenPairs: Array<{ token0: string; token1: string }>;
+  private options: WatcherOptions;
+  private onPlans: (plans: ExecutionPlan[], blockNumber: number) => Promise<void>;
+
+  private provider: ethers.Provider | null = null;
+  private latestHead = 0;
+  private pendingBlock: number | null = null;
+  private evaluating: Promise<void> | null = null;
+  private actedOn = new Map<string, number>(); // plan key -> block it was acted on
+  private latencies: BlockLatency[] = [];
+  private skippedBlocks = 0;
+  private stopping = false;
+  private resolveStopped: (() => void) | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    orchestrator: ArbitrageOrchestrator,
+    tokenPairs: Array<{ token0: string; token1: string }>,
+    options: WatcherOptions,
+    onPlans: (plans: ExecutionPlan[], blockNumber: number) => Promise<void> = async () => {}
+  ) {
+    this.orchestrator = orchestrator;
+    this.tokenPairs = tokenPairs;
+    this.options = options;
+    this.onPlans = onPlans;
+  }
+
+  /**
+   * Subscribe to new heads and run until SIGINT/SIGTERM
+   */
+  async run(): Promise<void> {
+    await this.attach(await this.connect());
+
+    const shutdown = (signal: string) => {
+      console.log(`\n🛑 ${signal} received, finishing current block...`);
+      void this.stop();
+    };
+    process.once("SIGINT", () => shutdown("SIGINT"));
+    process.once("SIGTERM", () => shutdown("SIGTERM"));
+
+    console.log("👀 Watching for new blocks...");
+    await new Promise<void>((resolve) => {
+      this.resolveStopped = resolve;
+    });
+  }
+
+  /**
+   * Stop listening, wait for the in-flight evaluation and release the provider
+   */
+  async stop(): Promise<void> {
+    if (this.stopping) return;
+    this.stopping = true;
+
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    if (this.provider) await this.provider.removeAllListeners("block");
+    if (this.evaluating) await this.evaluating;
+    if (this.provider && "destroy" in this.provider) {
+      (this.provider as ethers.JsonRpcProvider | ethers.WebSocketProvider).destroy();
+    }
+
+    const stats = this.getLatencyStats();
+    console.log(
+      `📈 Evaluated ${stats.blocks} blocks, avg ${stats.averageMs.toFixed(0)}ms, ` +
+        `p95 ${stats.p95Ms.toFixed(0)}ms, skipped ${stats.skippedBlocks}`
+    );
+    this.resolveStopped?.();
+  }
+
+  /**
+   * Evaluation latency summary
+   */
+  getLatencyStats(): {
+    blocks: number;
+    averageMs: number;
+    p95Ms: number;
+    maxMs: number;
+    maxHeadLag: number;
+    skippedBlocks: number;
+  } {
+    const durations = this.latencies.map((l) => l.evaluationMs).sort((a, b) => a - b);
+    const count = durations.length;
+    return {
+      blocks: count,
+      averageMs: count > 0 ? durations.reduce((sum, d) => sum + d, 0) / count : 0,
+      p95Ms: count > 0 ? durations[Math.min(count - 1, Math.floor(count * 0.95))] : 0,
+      maxMs: count > 0 ? durations[count - 1] : 0,
+      maxHeadLag: Math.max(0, ...this.latencies.map((l) => l.headLag)),
+      skippedBlocks: this.skippedBlocks,
+    };
+  }
+
+  /**
+   * WebSocket newHeads when a WS URL is configured, HTTP polling otherwise
+   */
+  private async connect(): Promise<ethers.Provider> {
+    if (this.options.wsUrl) {
+      try {
+        const ws = await this.openWebSocket(this.options.wsUrl);
+        console.log("🔌 Subscribed to newHeads over WebSocket");
+        return ws;
+      } catch (error) {
+        console.error("WebSocket connection failed, falling back to polling:", error);
+      }
+    }
+    return this.poll();
+  }
+
+  private poll(): ethers.JsonRpcProvider {
+    const http = new ethers.JsonRpcProvider(this.options.rpcUrl);
+    http.pollingInterval = this.options.pollIntervalMs;
+    console.log(`🔁 Polling for blocks every ${this.options.pollIntervalMs}ms`);
+    return http;
+  }
+
+  /**
+   * Open a WebSocket provider once it answers a request. ethers neither handles socket
+   * errors nor reconnects, so both handlers are installed here.
+   */
+  private async openWebSocket(url: string): Promise<ethers.WebSocketProvider> {
+    const ws = new ethers.WebSocketProvider(url);
+    const socket = ws.websocket as WatchedSocket;
+    try {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(
+          () => reject(new Error(`No response within ${CONNECT_TIMEOUT_MS}ms`)),
+          CONNECT_TIMEOUT_MS
+        );
+        socket.onerror = (event: { message?: string }) => {
+          clearTimeout(timer);
+          reject(new Error(event?.message ?? "WebSocket error"));
+        };
+        ws.getBlockNumber().then(
+          () => {
+            clearTimeout(timer);
+            resolve();
+          },
+          (error) => {
+            clearTimeout(timer);
+            reject(error);
+          }
+        );
+      });
+    } catch (error) {
+      await ws.destroy();
+      throw error;
+    }
+
+    // A close always follows an error once connected; reconnecting is left to onclose
+    socket.onerror = (event: { message?: string }) => console.error("WebSocket error:", event?.message ?? event);
+    socket.onclose = () => void this.reconnect(ws);
+    return ws;
+  }
+
+  private async attach(provider: ethers.Provider): Promise<void> {
+    this.provider = provider;
+    await provider.on("block", (blockNumber: number) => this.handleBlock(blockNumber));
+  }
+
+  /**
+   * Replace a closed WebSocket: retry with exponential backoff, then poll over HTTP.
+   * Blocks missed while disconnected collapse into the head read on reconnect.
+   */
+  private async reconnect(closed: ethers.WebSocketProvider): Promise<void> {
+    if (this.stopping || this.provider !== closed) return;
+    this.provider = null;
+    console.error("🔌 WebSocket closed, reconnecting...");
+    void closed.destroy();
+
+    let replacement: ethers.Provider | null = null;
+    for (let attempt = 1; attempt <= RECONNECT_ATTEMPTS && !replacement; attempt++) {
+      const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+      await new Promise((resolve) => (this.reconnectTimer = setTimeout(resolve, delay)));
+      if (this.stopping) return;
+      try {
+        replacement = await this.openWebSocket(this.options.wsUrl!);
+        console.log(`🔌 Reconnected to newHeads after ${attempt} attempt(s)`);
+      } catch (error) {
+        console.error(`WebSocket reconnect ${attempt}/${RECONNECT_ATTEMPTS} failed:`, (error as Error).message);
+      }
+    }
+    if (!replacement) replacement = this.poll();
+
+    if (this.stopping) {
+      void replacement.destroy();
+      return;
+    }
+    await this.attach(replacement);
+    try {
+      this.handleBlock(await replacement.getBlockNumber());
+    } catch (error) {
+      console.error("Failed to read the head after reconnecting:", error);
+    }
+  }
+
+  /**
+   * Only one evaluation runs at a time; blocks arriving meanwhile collapse into
+   * the newest one so the watcher always catches up to the head
+   */
+  private handleBlock(blockNumber: number): void {
+    if (this.stopping) return;
+    this.latestHead = Math.max(this.latestHead, blockNumber);
+
+    if (this.evaluating) {
+      if (this.pendingBlock !== null) this.skippedBlocks++;
+      this.pendingBlock = blockNumber;
+      return;
+    }
+
+    this.evaluating = this.evaluate(blockNumber).finally(() => {
+      this.evaluating = null;
+      const next = this.pendingBlock;
+      this.pendingBlock = null;
+      if (next !== null && !this.stopping) this.handleBlock(next);
+    });
+  }
+
+  private async evaluate(blockNumber: number): Promise<void> {
+    const started = Date.now();
+
+    try {
+      const dropped = this.orchestrator.pruneStaleOpportunities(
+        blockNumber,
+        this.options.opportunityMaxAgeBlocks
+      );
+      if (dropped > 0) console.log(`🗑️  Dropped ${dropped} stale opportunities`);
+
+      const plans = await this.orchestrator.analyzeAndPlan(
+        this.tokenPairs,
+        this.options.minProfitBps,
+        blockNumber
+      );
+
+      const fresh = plans.filter((plan) => !this.wasActedOn(plan, blockNumber));
+      if (fresh.length > 0) {
+        await this.onPlans(fresh, blockNumber);
+        for (const plan of fresh) this.actedOn.set(this.planKey(plan), blockNumber);
+      }
+    } catch (error) {
+      console.error(`Error evaluating block ${blockNumber}:`, error);
+    }
+
+    const latency: BlockLatency = {
+      blockNumber,
+      evaluationMs: Date.now() - started,
+      headLag: this.latestHead - blockNumber,
+    };
+    this.latencies.push(latency);
+    if (this.latencies.length > 1000) this.latencies.shift();
+
+    const behind = latency.headLag > 0 ? ` ⚠️  ${latency.headLag} block(s) behind head` : "";
+    console.log(`⏱️  Block ${blockNumber} evaluated in ${latency.evaluationMs}ms${behind}`);
+  }
+
+  private wasActedOn(plan: ExecutionPlan, blockNumber: number): boolean {
+    const key = this.planKey(plan);
+    const actedAt = this.actedOn.get(key);
+    if (actedAt === undefined) return false;
+    if (blockNumber - actedAt > this.options.actedOnCooldownBlocks) {
+      this.actedOn.delete(key);
+      return false;
+    }
+    return true;
+  }
+
+  private planKey(plan: ExecutionPlan): string {
+    return [...plan.tokenPath.map((t) => t.toLowerCase()), plan.dexA, plan.dexB].join("-");
+  }
+}
+
+export type { WatcherOptions, BlockLatency };
+export default BlockWatcher;
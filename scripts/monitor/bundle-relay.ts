@@ -0,0 +1,226 @@
+// bundle-relay.ts
+import { ethers } from "ethers";
+
+export interface CallBundleResult {
+  bundleHash: string;
+  coinbaseDiff: string; // Wei paid to the block builder
+  totalGasUsed: number;
+  results: Array<{
+    txHash: string;
+    gasUsed: number;
+    error?: string;
+    revert?: string;
+  }>;
+}
+
+export interface BundleStatus {
+  bundleHash: string;
+  txHashes: string[];
+  targetBlock: number;
+  state: "pending" | "included" | "not-included" | "simulation-failed" | "rejected";
+  includedBlock?: number;
+  simulation?: CallBundleResult;
+  error?: string;
+  submittedAt: number; // ms
+}
+
+// Relay responses as sent; numeric fields may be JSON numbers or (hex) strings
+interface RawCallBundleResult {
+  bundleHash: string;
+  coinbaseDiff?: string | number;
+  totalGasUsed?: string | number;
+  results?: Array<{ txHash: string; gasUsed: number | string; error?: string; revert?: string }>;
+}
+
+interface RawSendBundleResult {
+  bundleHash: string;
+}
+
+/**
+ * Client for relays and builders speaking the eth_sendBundle / eth_callBundle dialect.
+ * Requests are signed with a reputation key (X-Flashbots-Signature), which does not
+ * need to hold funds.
+ */
+export class BundleRelay {
+  private provider: ethers.Provider;
+  private relayUrl: string;
+  private authSigner: ethers.Wallet;
+  private statuses = new Map<string, BundleStatus>();
+  private requestId = 1;
+
+  constructor(provider: ethers.Provider, relayUrl: string, authSigner: ethers.Wallet) {
+    this.provider = provider;
+    this.relayUrl = relayUrl;
+    this.authSigner = authSigner;
+  }
+
+  /**
+   * Simulate a bundle on top of `stateBlock` as if it were included in `blockNumber`
+   */
+  async callBundle(
+    signedTxs: string[],
+    blockNumber: number,
+    stateBlock: number | "latest" = "latest"
+  ): Promise<CallBundleResult> {
+    const result = (await this.rpc("eth_callBundle", [
+      {
+        txs: signedTxs,
+        blockNumber: ethers.toQuantity(blockNumber),
+        stateBlockNumber: stateBlock === "latest" ? "latest" : ethers.toQuantity(stateBlock),
+      },
+    ])) as RawCallBundleResult;
+
+    return {
+      bundleHash: result.bundleHash,
+      coinbaseDiff: BigInt(result.coinbaseDiff ?? 0).toString(),
+      totalGasUsed: Number(result.totalGasUsed ?? 0),
+      results: (result.results ?? []).map((r) => ({
+        txHash: r.txHash,
+        gasUsed: Number(r.gasUsed),
+        error: r.error,
+        revert: r.revert,
+      })),
+    };
+  }
+
+  /**
+   * Submit a bundle for inclusion in exactly `blockNumber`
+   */
+  async sendBundle(signedTxs: string[], blockNumber: number): Promise<string> {
+    const result = (await this.rpc("eth_sendBundle", [
+      { txs: signedTxs, blockNumber: ethers.toQuantity(blockNumber) },
+    ])) as RawSendBundleResult;
+    return result.bundleHash;
+  }
+
+  /**
+   * Simulate then send a bundle for each of the next `maxBlocks` blocks until it lands.
+   * Transactions are rebuilt per target so fees follow the base fee.
+   */
+  async submit(
+    buildTxs: (targetBlock: number) => Promise<string[]>,
+    maxBlocks: number,
+    pollMs: number = 1000
+  ): Promise<BundleStatus> {
+    const head = await this.provider.getBlockNumber();
+    let status: BundleStatus | null = null;
+
+    for (let targetBlock = head + 1; targetBlock <= head + maxBlocks; targetBlock++) {
+      const signedTxs = await buildTxs(targetBlock);
+      const txHashes = signedTxs.map((tx) => ethers.keccak256(tx));
+
+      let simulation: CallBundleResult;
+      try {
+        simulation = await this.callBundle(signedTxs, targetBlock);
+      } catch (error) {
+        return this.track({
+          bundleHash: "",
+          txHashes,
+          targetBlock,
+          state: "rejected",
+          error: (error as Error).message,
+          submittedAt: Date.now(),
+        });
+      }
+
+      const failed = simulation.results.find((r) => r.error || r.revert);
+      if (failed) {
+        return this.track({
+          bundleHash: simulation.bundleHash,
+          txHashes,
+          targetBlock,
+          state: "simulation-failed",
+          simulation,
+          error: failed.revert ?? failed.error,
+          submittedAt: Date.now(),
+        });
+      }
+
+      let bundleHash: string;
+      try {
+        bundleHash = await this.sendBundle(signedTxs, targetBlock);
+      } catch (error) {
+        return this.track({
+          bundleHash: simulation.bundleHash,
+          txHashes,
+          targetBlock,
+          state: "rejected",
+          simulation,
+          error: (error as Error).message,
+          submittedAt: Date.now(),
+        });
+      }
+
+      status = this.track({
+        bundleHash,
+        txHashes,
+        targetBlock,
+        state: "pending",
+        simulation,
+        submittedAt: Date.now(),
+      });
+      console.log(`📦 Bundle ${status.bundleHash} targeting block ${targetBlock}`);
+
+      await this.waitForBlock(targetBlock, pollMs);
+      const receipt = await this.provider.getTransactionReceipt(txHashes[0]);
+      if (receipt) {
+        status.state = "included";
+        status.includedBlock = receipt.blockNumber;
+        return status;
+      }
+      status.state = "not-included";
+    }
+
+    return (
+      status ?? {
+        bundleHash: "",
+        txHashes: [],
+        targetBlock: head,
+        state: "not-included",
+        submittedAt: Date.now(),
+      }
+    );
+  }
+
+  getBundleStatus(bundleHash: string): BundleStatus | undefined {
+    return this.statuses.get(bundleHash);
+  }
+
+  getBundleStatuses(): BundleStatus[] {
+    return [...this.statuses.values()];
+  }
+
+  private track(status: BundleStatus): BundleStatus {
+    this.statuses.set(status.bundleHash || `${status.targetBlock}:${status.txHashes[0]}`, status);
+    return status;
+  }
+
+  private async waitForBlock(blockNumber: number, pollMs: number): Promise<void> {
+    while ((await this.provider.getBlockNumber()) < blockNumber) {
+      await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
+  }
+
+  private async rpc(method: string, params: unknown[]): Promise<unknown> {
+    const body = JSON.stringify({ jsonrpc: "2.0", id: this.requestId++, method, params });
+    const signature = await this.authSigner.signMessage(ethers.id(body));
+
+    const response = await fetch(this.relayUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "X-Flashbots-Signature": `${this.authSigner.address}:${signature}`,
+      },
+      body,
+    });
+    if (!response.ok) {
+      throw new Error(`${method} failed: ${response.status} ${await response.text()}`);
+    }
+
+    const payload = (await response.json()) as { result?: unknown; error?: { message?: string } };
+    if (payload.error) {
+      throw new Error(`${method} failed: ${payload.error.message ?? JSON.stringify(payload.error)}`);
+    }
+    return payload.result;
+  }
+}
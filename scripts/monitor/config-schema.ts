@@ -0,0 +1,283 @@
+// config-schema.ts
+import { ethers } from "ethers";
+import type { MonitorConfig } from "./config";
+import { FLASH_LOAN_SOURCES } from "./flash-loan-sources";
+import { REPORT_FORMATS } from "./run-report";
+
+/**
+ * Raised at startup when the loaded configuration has invalid fields
+ */
+export class ConfigValidationError extends Error {
+  readonly errors: string[];
+
+  constructor(errors: string[]) {
+    super(`Invalid configuration:\n${errors.map((e) => `  - ${e}`).join("\n")}`);
+    this.name = "ConfigValidationError";
+    this.errors = errors;
+  }
+}
+
+type Check = (value: unknown) => string | null;
+
+const UNISWAP_V3_FEE_TIERS = [100, 500, 3000, 10000];
+const SIMULATION_BACKENDS = ["eth_call", "local-fork", "tenderly", "alchemy"];
+
+// JSON.stringify prints NaN and Infinity (e.g. a YAML .nan) as null
+const show = (value: unknown): string =>
+  typeof value === "number" && !Number.isFinite(value) ? String(value) : JSON.stringify(value);
+
+const address = (optional: boolean = false): Check => (value) => {
+  if (typeof value !== "string") return "expected an address string";
+  if (value === "") return optional ? null : "is required";
+  if (!ethers.isAddress(value)) return `"${value}" is not an address`;
+  if (value !== ethers.getAddress(value)) return `"${value}" is not checksummed (${ethers.getAddress(value)})`;
+  return null;
+};
+
+const url = (schemes: string[], optional: boolean = false): Check => (value) => {
+  if (typeof value !== "string") return "expected a URL string";
+  if (value === "") return optional ? null : "is required";
+  try {
+    const parsed = new URL(value);
+    if (!schemes.includes(parsed.protocol.replace(":", ""))) {
+      return `"${value}" must use ${schemes.join(" or ")}`;
+    }
+  } catch {
+    return `"${value}" is not a URL`;
+  }
+  return null;
+};
+
+const integer = (min: number, max: number = Number.MAX_SAFE_INTEGER): Check => (value) => {
+  if (typeof value !== "number" || !Number.isInteger(value)) return `expected an integer, got ${show(value)}`;
+  if (value < min || value > max) return `${value} is outside ${min}..${max}`;
+  return null;
+};
+
+const bps = integer(0, 10000);
+
+const fraction: Check = (value) =>
+  typeof value === "number" && value > 0 && value < 1 ? null : `expected a number between 0 and 1, got ${show(value)}`;
+
+const decimal: Check = (value) =>
+  typeof value === "string" && /^\d+(\.\d+)?$/.test(value) && Number(value) > 0
+    ? null
+    : `expected a positive decimal string, got ${show(value)}`;
+
+const oneOf = (options: Array<string | number>): Check => (value) =>
+  options.includes(value as string | number) ? null : `${show(value)} is not one of ${options.join(", ")}`;
+
+const text: Check = (value) => (typeof value === "string" ? null : "expected a string");
+
+const feedMap: Check = (value) => {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) {
+    return "expected a token -> { feed, maxAge } map";
+  }
+  for (const [token, entry] of Object.entries(value)) {
+    const problem = address()(token) ?? address()(entry?.feed) ?? integer(1)(entry?.maxAge);
+    if (problem) return `${token}: ${problem}`;
+  }
+  return null;
+};
+
+const sweepThresholds: Check = (value) => {
+  if (value === null || typeof value !== "object" || Array.isArray(value)) return "expected a token -> amount map";
+  for (const [asset, amount] of Object.entries(value)) {
+    const problem = (asset === "ETH" ? null : address()(asset)) ?? decimal(amount);
+    if (problem) return `${asset}: ${problem}`;
+  }
+  return null;
+};
+
+const assetOrEth = (optional: boolean = false): Check => (value) =>
+  value === "ETH" ? null : address(optional)(value);
+
+const tokenPairs: Check = (value) => {
+  if (!Array.isArray(value) || value.length === 0) return "expected a non-empty list of { token0, token1 }";
+  for (const [i, pair] of value.entries()) {
+    const problem = address()(pair?.token0) ?? address()(pair?.token1);
+    if (problem) return `[${i}] ${problem}`;
+    if (pair.token0 === pair.token1) return `[${i}] token0 and token1 are the same token`;
+  }
+  return null;
+};
+
+const parameterSets: Check = (value) => {
+  if (!Array.isArray(value)) return "expected a list of parameter sets";
+  for (const [i, set] of value.entries()) {
+    const problem =
+      text(set?.name) ??
+      bps(set?.minProfitBps) ??
+      bps(set?.maxSlippageBps) ??
+      integer(21000)(set?.gasUnitsEstimate) ??
+      decimal(set?.priorityFeeGwei) ??
+      integer(0)(set?.latencyBlocks);
+    if (problem) return `[${i}] ${problem}`;
+  }
+  return null;
+};
+
+const reportFormats: Check = (value) => {
+  if (!Array.isArray(value) || value.length === 0) return `expected a non-empty list of ${REPORT_FORMATS.join(", ")}`;
+  for (const [i, format] of value.entries()) {
+    const problem = oneOf(REPORT_FORMATS)(format);
+    if (problem) return `[${i}] ${problem}`;
+  }
+  return null;
+};
+
+const flashLoanSources: Check = (value) => {
+  if (!Array.isArray(value) || value.length === 0) return `expected a non-empty list of ${FLASH_LOAN_SOURCES.join(", ")}`;
+  for (const [i, source] of value.entries()) {
+    const problem = oneOf(FLASH_LOAN_SOURCES)(source);
+    if (problem) return `[${i}] ${problem}`;
+  }
+  return null;
+};
+
+const SCHEMA: Record<keyof MonitorConfig, Check> = {
+  NETWORK: text,
+  CHAIN_ID: integer(1),
+
+  RPC_URL: url(["http", "https"]),
+  ALCHEMY_API_KEY: text,
+  WS_URL: url(["ws", "wss"], true),
+
+  ARBEXEC_ADDRESS: address(),
+  ARB_OPTIMIZER_ADDRESS: address(true),
+  ANALYZER_EXAMPLE_ADDRESS: address(true),
+  WETH_ADDRESS: address(),
+  AAVE_V3_POOL: address(),
+  BALANCER_VAULT: address(true),
+  BENEFICIARY_ADDRESS: address(),
+  OWNER_MULTISIG_ADDRESS: address(true),
+
+  UNISWAP_V3_QUOTER: address(),
+  UNISWAP_V3_FEE: oneOf(UNISWAP_V3_FEE_TIERS),
+  UNISWAP_V3_FACTORY: address(),
+  SUSHISWAP_ROUTER: address(),
+  SUSHISWAP_FACTORY: address(),
+  QUOTE_AMOUNT: decimal,
+
+  POOL_CATALOGUE_PATH: text,
+  POOL_DISCOVERY_START_BLOCK: integer(0),
+  POOL_DISCOVERY_BATCH_SIZE: integer(1),
+  POOL_MIN_LIQUIDITY_USD: decimal,
+  POOL_MIN_TVL_USD: decimal,
+  POOL_REFRESH_BLOCKS: integer(1),
+
+  MIN_PROFIT_BPS: bps,
+  MAX_SLIPPAGE_BPS: bps,
+  DEADLINE_SECONDS: integer(1),
+  GAS_UNITS_ESTIMATE: integer(21000),
+
+  PRICE_FEED_GRACE_SECONDS: integer(0),
+  ORACLE_DEVIATION_BPS: bps,
+  SECONDARY_ORACLE_DEVIATION_BPS: bps,
+  PRICE_FEEDS: feedMap,
+  SECONDARY_PRICE_FEEDS: feedMap,
+
+  BUILDER_TIP_BPS: bps,
+  SAFETY_BUFFER_BPS: bps,
+  FLASH_LOAN_PREMIUM_BPS: bps,
+  FLASH_LOAN_SOURCES: flashLoanSources,
+  GAS_PRICE: decimal,
+
+  GAS_ORACLE_BLOCK_COUNT: integer(1, 1024),
+  GAS_PRIORITY_PERCENTILE: integer(1, 99),
+  GAS_BASE_FEE_HEADROOM_BLOCKS: integer(0),
+  GAS_MIN_LEDGER_SAMPLES: integer(1),
+
+  MIN_FLASH_LOAN_AMOUNT: decimal,
+  MAX_FLASH_LOAN_AMOUNT: decimal,
+
+  TOP_OPPORTUNITIES: integer(1),
+  MAX_ROUTE_HOPS: integer(2, 8),
+  ROUTE_SYNC_PAGE_SIZE: integer(1, 1000),
+  ROUTE_SYNC_MIN_ANALYSES: integer(1),
+  ROUTE_SYNC_BATCH_PATH: text,
+
+  ANALYTICS_MIN_SEGMENT_TRADES: integer(2),
+  ANALYTICS_WINDOW: integer(2),
+  ANALYTICS_EWMA_ALPHA: fraction,
+
+  RISK_TRIALS: integer(100, 1_000_000),
+  RISK_CONFIDENCE: fraction,
+  RISK_MIN_LEDGER_SAMPLES: integer(1),
+
+  TOKEN_PAIRS: tokenPairs,
+
+  PRIORITY_FEE_GWEI: decimal,
+  STUCK_TX_TIMEOUT_MS: integer(1000),
+  FEE_BUMP_PERCENT: integer(10, 1000), // Nodes reject replacements bumped by less than 10%
+  MAX_REPLACEMENTS: integer(0),
+
+  BUNDLE_RELAY_URL: url(["http", "https"], true),
+  BUNDLE_TARGET_BLOCKS: integer(1),
+
+  SIMULATION_BACKEND: oneOf(SIMULATION_BACKENDS),
+  LOCAL_FORK_RPC_URL: url(["http", "https"]),
+  LOCAL_FORK_UPSTREAM_URL: url(["http", "https"], true),
+  TENDERLY_ACCOUNT: text,
+  TENDERLY_PROJECT: text,
+  TENDERLY_ACCESS_KEY: text,
+
+  BLOCK_POLL_INTERVAL_MS: integer(100),
+  OPPORTUNITY_MAX_AGE_BLOCKS: integer(0),
+  ACTED_ON_COOLDOWN_BLOCKS: integer(0),
+
+  BACKTEST_WINDOW: integer(1),
+  BACKTEST_DATA_PATH: text,
+  BACKTEST_LATENCY_BLOCKS: integer(0),
+  BACKTEST_PARAMETER_SETS: parameterSets,
+  REPORT_OUTPUT_PATH: text,
+  REPORT_FORMATS: reportFormats,
+  TRADE_LEDGER_PATH: text,
+
+  INDEXER_STATE_PATH: text,
+  INDEXER_START_BLOCK: integer(0),
+  INDEXER_BATCH_SIZE: integer(1),
+  INDEXER_REORG_DEPTH: integer(0),
+
+  TREASURY_SWEEP_THRESHOLDS: sweepThresholds,
+  TREASURY_TARGET_ASSET: assetOrEth(true),
+  TREASURY_MULTISIG_DEADLINE_SECONDS: integer(60),
+  TREASURY_BALANCES_PATH: text,
+  TREASURY_AUDIT_PATH: text,
+  TREASURY_BATCH_PATH: text,
+};
+
+/**
+ * Check every field and cross-field rule, returning one message per problem
+ */
+export function validateConfig(config: MonitorConfig): string[] {
+  const errors: string[] = [];
+
+  for (const [key, check] of Object.entries(SCHEMA)) {
+    const problem = check(config[key as keyof MonitorConfig]);
+    if (problem) errors.push(`${key}: ${problem}`);
+  }
+  for (const key of Object.keys(config)) {
+    if (!(key in SCHEMA)) errors.push(`${key}: unknown setting`);
+  }
+
+  if (
+    decimal(config.MIN_FLASH_LOAN_AMOUNT) === null &&
+    decimal(config.MAX_FLASH_LOAN_AMOUNT) === null &&
+    Number(config.MIN_FLASH_LOAN_AMOUNT) > Number(config.MAX_FLASH_LOAN_AMOUNT)
+  ) {
+    errors.push("MIN_FLASH_LOAN_AMOUNT: must not exceed MAX_FLASH_LOAN_AMOUNT");
+  }
+
+  if (config.FLASH_LOAN_SOURCES?.includes("balancer") && !config.BALANCER_VAULT) {
+    errors.push("BALANCER_VAULT: is required when FLASH_LOAN_SOURCES includes balancer");
+  }
+
+  if (config.SIMULATION_BACKEND === "tenderly") {
+    for (const key of ["TENDERLY_ACCOUNT", "TENDERLY_PROJECT", "TENDERLY_ACCESS_KEY"] as const) {
+      if (!config[key]) errors.push(`${key}: is required when SIMULATION_BACKEND is tenderly`);
+    }
+  }
+
+  return errors;
+}
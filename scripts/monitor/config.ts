@@ -1,32 +1,295 @@
 // config.ts
-export const CONFIG = {
+import { existsSync, readFileSync } from "fs";
+import { extname } from "path";
+import type { BacktestParameters } from "./backtester";
+import type { FlashLoanSourceName } from "./flash-loan-sources";
+import type { ReportFormat } from "./run-report";
+import dotenv from "dotenv";
+import yaml from "js-yaml";
+import { ConfigValidationError, validateConfig } from "./config-schema";
+
+export interface TokenPair {
+  token0: string;
+  token1: string;
+}
+
+export interface PriceFeed {
+  feed: string; // Chainlink USD feed
+  maxAge: number; // Seconds, the feed's heartbeat
+}
+
+export type SimulationBackendName = "eth_call" | "local-fork" | "tenderly" | "alchemy";
+
+export interface MonitorConfig {
+  // Network
+  NETWORK: string;
+  CHAIN_ID: number;
+
   // RPC & API
-  RPC_URL: "https://eth-mainnet.g.alchemy.com/v2/YOUR_ALCHEMY_KEY",
-  ALCHEMY_API_KEY: "YOUR_ALCHEMY_KEY",
+  RPC_URL: string;
+  ALCHEMY_API_KEY: string;
+  WS_URL: string; // e.g. wss://eth-mainnet.g.alchemy.com/v2/KEY; empty = poll RPC_URL
 
   // Contract Addresses
-  ARBEXEC_ADDRESS: "0x...", // Your ArbExec deployment
-  WETH_ADDRESS: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
-  AAVE_V3_POOL: "0x794a61358D6845594F94dc1DB02A252b5b4814aD",
+  ARBEXEC_ADDRESS: string; // Your ArbExec deployment
+  ARB_OPTIMIZER_ADDRESS: string; // Empty = use the flash-loan defaults below
+  ANALYZER_EXAMPLE_ADDRESS: string; // AnalyzerUsageExample for `arbexec analyzer`; empty = not deployed
+  WETH_ADDRESS: string;
+  AAVE_V3_POOL: string;
+  BALANCER_VAULT: string; // Empty = no Balancer flash loans
+  BENEFICIARY_ADDRESS: string; // Receives realised profit
+  OWNER_MULTISIG_ADDRESS: string; // Safe owning ArbOptimizer/ArbExec; --multisig writes batches for it
+
+  // DEX Quoting
+  UNISWAP_V3_QUOTER: string;
+  UNISWAP_V3_FEE: number;
+  UNISWAP_V3_FACTORY: string;
+  SUSHISWAP_ROUTER: string;
+  SUSHISWAP_FACTORY: string;
+  QUOTE_AMOUNT: string; // In units of token0
+
+  // Pool Discovery
+  POOL_CATALOGUE_PATH: string;
+  POOL_DISCOVERY_START_BLOCK: number; // Earliest factory deployment block
+  POOL_DISCOVERY_BATCH_SIZE: number; // Blocks per factory eth_getLogs call
+  POOL_MIN_LIQUIDITY_USD: string; // In-range depth at the current price
+  POOL_MIN_TVL_USD: string;
+  POOL_REFRESH_BLOCKS: number; // Blocks between liquidity/TVL re-reads of a pool
 
   // Risk Parameters
+  MIN_PROFIT_BPS: number;
+  MAX_SLIPPAGE_BPS: number;
+  DEADLINE_SECONDS: number;
+  GAS_UNITS_ESTIMATE: number;
+
+  // Oracle Parameters
+  PRICE_FEED_GRACE_SECONDS: number; // Allowed past a feed's heartbeat before it counts as stale
+  ORACLE_DEVIATION_BPS: number;
+  SECONDARY_ORACLE_DEVIATION_BPS: number;
+  PRICE_FEEDS: Record<string, PriceFeed>; // token -> Chainlink USD feed
+  SECONDARY_PRICE_FEEDS: Record<string, PriceFeed>; // Mirrors ArbExecutor.secondaryPriceFeeds
+
+  // Profitability Parameters
+  BUILDER_TIP_BPS: number;
+  SAFETY_BUFFER_BPS: number;
+  FLASH_LOAN_PREMIUM_BPS: number; // Backtests only; live plans read each lender's premium
+  FLASH_LOAN_SOURCES: FlashLoanSourceName[]; // Lenders to quote; plans borrow from aave-v3, the rest are reported only
+  GAS_PRICE: string; // gwei, fallback when eth_feeHistory is unavailable
+
+  // Gas Oracle
+  GAS_ORACLE_BLOCK_COUNT: number; // Blocks of eth_feeHistory to sample
+  GAS_PRIORITY_PERCENTILE: number; // Reward percentile for the priority fee
+  GAS_BASE_FEE_HEADROOM_BLOCKS: number; // Full blocks of base-fee growth maxFeePerGas must cover
+  GAS_MIN_LEDGER_SAMPLES: number; // Executions of a route type before its gas usage is trusted
+
+  // Borrow Sizing (ArbOptimizer defaults, used when ARB_OPTIMIZER_ADDRESS is unset)
+  MIN_FLASH_LOAN_AMOUNT: string; // ETH
+  MAX_FLASH_LOAN_AMOUNT: string; // ETH
+
+  // Planning
+  TOP_OPPORTUNITIES: number; // Opportunities sized and planned per evaluation
+  MAX_ROUTE_HOPS: number;
+  ROUTE_SYNC_PAGE_SIZE: number; // Routes per ArbExec.getAllRoutes call
+  ROUTE_SYNC_MIN_ANALYSES: number; // RouteAnalyzed events before a never-profitable route is reported
+  ROUTE_SYNC_BATCH_PATH: string;
+
+  // Ledger Analytics
+  ANALYTICS_MIN_SEGMENT_TRADES: number; // Trades before a pair/route/hour segment gets its own recommendation
+  ANALYTICS_WINDOW: number; // Trades per rolling window and regime-change comparison
+  ANALYTICS_EWMA_ALPHA: number; // Weight of the newest trade in the EWMA
+
+  // Monte Carlo Risk
+  RISK_TRIALS: number;
+  RISK_CONFIDENCE: number; // VaR/CVaR level
+  RISK_MIN_LEDGER_SAMPLES: number; // Executions before ledger distributions replace the priors
+
+  // Token Pairs to Monitor
+  TOKEN_PAIRS: TokenPair[];
+
+  // Execution
+  PRIORITY_FEE_GWEI: string;
+  STUCK_TX_TIMEOUT_MS: number;
+  FEE_BUMP_PERCENT: number;
+  MAX_REPLACEMENTS: number;
+
+  // Private Orderflow
+  BUNDLE_RELAY_URL: string; // e.g. https://relay.flashbots.net; empty = public mempool
+  BUNDLE_TARGET_BLOCKS: number;
+
+  // Pre-trade Simulation
+  SIMULATION_BACKEND: SimulationBackendName;
+  LOCAL_FORK_RPC_URL: string; // hardhat node / anvil
+  LOCAL_FORK_UPSTREAM_URL: string; // Re-fork from this RPC per block; empty = use the node's state
+  TENDERLY_ACCOUNT: string;
+  TENDERLY_PROJECT: string;
+  TENDERLY_ACCESS_KEY: string;
+
+  // Watch Mode
+  BLOCK_POLL_INTERVAL_MS: number;
+  OPPORTUNITY_MAX_AGE_BLOCKS: number;
+  ACTED_ON_COOLDOWN_BLOCKS: number;
+
+  // Analysis
+  BACKTEST_WINDOW: number; // Seconds
+  BACKTEST_DATA_PATH: string; // Recorded pool state replayed by the backtester
+  BACKTEST_LATENCY_BLOCKS: number; // Blocks between detection and inclusion
+  BACKTEST_PARAMETER_SETS: BacktestParameters[]; // Empty = sweep MIN_PROFIT_BPS around the configured value
+  REPORT_OUTPUT_PATH: string; // Other formats replace its extension
+  REPORT_FORMATS: ReportFormat[];
+  TRADE_LEDGER_PATH: string;
+
+  // Event Indexer
+  INDEXER_STATE_PATH: string;
+  INDEXER_START_BLOCK: number; // ArbOptimizer/ArbExec deployment block
+  INDEXER_BATCH_SIZE: number;
+  INDEXER_REORG_DEPTH: number;
+
+  // Treasury
+  TREASURY_SWEEP_THRESHOLDS: Record<string, string>; // Token address or ETH -> human-readable amount that triggers a sweep
+  TREASURY_TARGET_ASSET: string; // ETH or a token address to convert sweeps to; empty = keep as withdrawn
+  TREASURY_MULTISIG_DEADLINE_SECONDS: number; // Swap deadline in multisig batches, which wait for signatures
+  TREASURY_BALANCES_PATH: string;
+  TREASURY_AUDIT_PATH: string;
+  TREASURY_BATCH_PATH: string;
+}
+
+/**
+ * Network-independent defaults. Chain-specific addresses live in NETWORK_PROFILES.
+ */
+export const DEFAULTS: MonitorConfig = {
+  NETWORK: "mainnet",
+  CHAIN_ID: 1,
+
+  RPC_URL: "",
+  ALCHEMY_API_KEY: "",
+  WS_URL: "",
+
+  ARBEXEC_ADDRESS: "",
+  ARB_OPTIMIZER_ADDRESS: "",
+  ANALYZER_EXAMPLE_ADDRESS: "",
+  WETH_ADDRESS: "",
+  AAVE_V3_POOL: "",
+  BALANCER_VAULT: "",
+  BENEFICIARY_ADDRESS: "",
+  OWNER_MULTISIG_ADDRESS: "",
+
+  UNISWAP_V3_QUOTER: "",
+  UNISWAP_V3_FEE: 3000,
+  UNISWAP_V3_FACTORY: "",
+  SUSHISWAP_ROUTER: "",
+  SUSHISWAP_FACTORY: "",
+  QUOTE_AMOUNT: "1",
+
+  POOL_CATALOGUE_PATH: "./data/pool-catalogue.json",
+  POOL_DISCOVERY_START_BLOCK: 0,
+  POOL_DISCOVERY_BATCH_SIZE: 10000,
+  POOL_MIN_LIQUIDITY_USD: "10000",
+  POOL_MIN_TVL_USD: "50000",
+  POOL_REFRESH_BLOCKS: 300, // ~1 hour
+
   MIN_PROFIT_BPS: 100, // 1%
   MAX_SLIPPAGE_BPS: 300, // 3%
   DEADLINE_SECONDS: 90,
   GAS_UNITS_ESTIMATE: 500000,
 
-  // Oracle Parameters
-  MAX_PRICE_FEED_AGE: 300, // 5 minutes
+  PRICE_FEED_GRACE_SECONDS: 120, // ~10 blocks
   ORACLE_DEVIATION_BPS: 800, // 8%
   SECONDARY_ORACLE_DEVIATION_BPS: 1200, // 12%
+  PRICE_FEEDS: {},
+  SECONDARY_PRICE_FEEDS: {},
 
-  // Profitability Parameters
   BUILDER_TIP_BPS: 10,
   SAFETY_BUFFER_BPS: 50,
   FLASH_LOAN_PREMIUM_BPS: 9,
-  GAS_PRICE: "50", // gwei
+  FLASH_LOAN_SOURCES: ["aave-v3"],
+  GAS_PRICE: "50",
+
+  GAS_ORACLE_BLOCK_COUNT: 20,
+  GAS_PRIORITY_PERCENTILE: 50,
+  GAS_BASE_FEE_HEADROOM_BLOCKS: 3,
+  GAS_MIN_LEDGER_SAMPLES: 5,
+
+  MIN_FLASH_LOAN_AMOUNT: "1",
+  MAX_FLASH_LOAN_AMOUNT: "1000",
+
+  TOP_OPPORTUNITIES: 5,
+  MAX_ROUTE_HOPS: 4,
+  ROUTE_SYNC_PAGE_SIZE: 50,
+  ROUTE_SYNC_MIN_ANALYSES: 20,
+  ROUTE_SYNC_BATCH_PATH: "./reports/route-sync-batch.json",
+
+  ANALYTICS_MIN_SEGMENT_TRADES: 5,
+  ANALYTICS_WINDOW: 20,
+  ANALYTICS_EWMA_ALPHA: 0.1,
+
+  RISK_TRIALS: 5000,
+  RISK_CONFIDENCE: 0.95,
+  RISK_MIN_LEDGER_SAMPLES: 20,
+
+  TOKEN_PAIRS: [],
+
+  PRIORITY_FEE_GWEI: "2",
+  STUCK_TX_TIMEOUT_MS: 36000, // ~3 blocks
+  FEE_BUMP_PERCENT: 15,
+  MAX_REPLACEMENTS: 3,
+
+  BUNDLE_RELAY_URL: "",
+  BUNDLE_TARGET_BLOCKS: 3,
+
+  SIMULATION_BACKEND: "eth_call",
+  LOCAL_FORK_RPC_URL: "http://127.0.0.1:8545",
+  LOCAL_FORK_UPSTREAM_URL: "",
+  TENDERLY_ACCOUNT: "",
+  TENDERLY_PROJECT: "",
+  TENDERLY_ACCESS_KEY: "",
+
+  BLOCK_POLL_INTERVAL_MS: 4000,
+  OPPORTUNITY_MAX_AGE_BLOCKS: 2,
+  ACTED_ON_COOLDOWN_BLOCKS: 5,
+
+  BACKTEST_WINDOW: 7 * 24 * 60 * 60, // 7 days
+  BACKTEST_DATA_PATH: "./data/backtest-pools.jsonl",
+  BACKTEST_LATENCY_BLOCKS: 1,
+  BACKTEST_PARAMETER_SETS: [],
+  REPORT_OUTPUT_PATH: "./reports/arbitrage-analysis.json",
+  REPORT_FORMATS: ["json"],
+  TRADE_LEDGER_PATH: "./data/trade-ledger.jsonl",
+
+  INDEXER_STATE_PATH: "./data/event-index.json",
+  INDEXER_START_BLOCK: 0,
+  INDEXER_BATCH_SIZE: 2000,
+  INDEXER_REORG_DEPTH: 64,
+
+  TREASURY_SWEEP_THRESHOLDS: {},
+  TREASURY_TARGET_ASSET: "",
+  TREASURY_MULTISIG_DEADLINE_SECONDS: 24 * 60 * 60,
+  TREASURY_BALANCES_PATH: "./data/treasury-balances.jsonl",
+  TREASURY_AUDIT_PATH: "./data/treasury-audit.json",
+  TREASURY_BATCH_PATH: "./reports/treasury-batch.json",
+};
+
+const MAINNET: Partial<MonitorConfig> = {
+  CHAIN_ID: 1,
+  ARBEXEC_ADDRESS: "0xEfac88d8e212ca21d4FE670F715c4fE12CFbEF05",
+  WETH_ADDRESS: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2",
+  AAVE_V3_POOL: "0x794a61358D6845594F94dc1DB02A252b5b4814aD",
+  BALANCER_VAULT: "0xBA12222222228d8Ba445958a75a0704d566BF2C8",
+  BENEFICIARY_ADDRESS: "0xCf714f4C2932ff5148651FF8A3a91Af69cf9ade3",
+
+  UNISWAP_V3_QUOTER: "0x61FFE014bA17989e8A2D3BCCdA57b7A7FCD78f74", // QuoterV2
+  UNISWAP_V3_FACTORY: "0x1F98431c8aD98523631AE4a59f267346ea31F984",
+  SUSHISWAP_ROUTER: "0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F",
+  SUSHISWAP_FACTORY: "0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac",
+  POOL_DISCOVERY_START_BLOCK: 10794229, // Sushiswap factory; the V3 factory came later
+
+  // Chainlink USD feeds hardcoded in ArbOptimizer, with their published heartbeats
+  PRICE_FEEDS: {
+    "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2": { feed: "0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419", maxAge: 3600 }, // WETH: ETH/USD
+    "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48": { feed: "0x8fFfFFd4afB6115b954Bd29BfD33EfF20d6E1E94", maxAge: 86400 }, // USDC/USD
+    "0xdAC17F958D2ee523a2206206994597C13D831ec7": { feed: "0x3E7d1eAB13ad0104d2750B8863b489D65364e32D", maxAge: 86400 }, // USDT/USD
+    "0x6B175474E89094C44Da98b954EedeAC495271d0F": { feed: "0xAEd0C38402A5d19DF6e4c03F4e2DCeD6E29c1235", maxAge: 3600 }, // DAI/USD
+  },
 
-  // Token Pairs to Monitor
   TOKEN_PAIRS: [
     {
       token0: "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2", // WETH
@@ -37,8 +300,180 @@ export const CONFIG = {
       token1: "0x6B175474E89094C44Da98b954EedeAC495271d0F", // DAI
     },
   ],
+};
 
-  // Analysis
-  BACKTEST_WINDOW: 7 * 24 * 60 * 60, // 7 days in seconds
-  REPORT_OUTPUT_PATH: "./reports/arbitrage-analysis.json",
-};
\ No newline at end of file
+/**
+ * Named network profiles, applied on top of DEFAULTS
+ */
+export const NETWORK_PROFILES: Record<string, Partial<MonitorConfig>> = {
+  mainnet: MAINNET,
+  // Mainnet fork served by a local hardhat node / anvil
+  local: {
+    ...MAINNET,
+    CHAIN_ID: 31337,
+    RPC_URL: "http://127.0.0.1:8545",
+    SIMULATION_BACKEND: "local-fork",
+    BLOCK_POLL_INTERVAL_MS: 1000,
+  },
+};
+
+interface ConfigFile extends Partial<MonitorConfig> {
+  networks?: Record<string, Partial<MonitorConfig>>;
+}
+
+/**
+ * Build the configuration from, in increasing priority: DEFAULTS, the network profile,
+ * a JSON/YAML config file (top level, then its `networks.<name>` section), environment
+ * variables (including .env) and CLI overrides.
+ *
+ * CLI: --network <name>, --config <file>, --set KEY=VALUE (repeatable).
+ * Environment: any config key by name, CONFIG_FILE, NETWORK and <NETWORK>_RPC_URL.
+ */
+export function loadConfig(
+  argv: string[] = process.argv.slice(2),
+  env: NodeJS.ProcessEnv = process.env
+): { config: MonitorConfig; errors: string[] } {
+  const errors: string[] = [];
+  const cli = parseCliOverrides(argv, errors);
+
+  const filePath = cli.configFile ?? env.CONFIG_FILE;
+  let file: ConfigFile = {};
+  if (filePath) {
+    try {
+      file = readConfigFile(filePath);
+    } catch (error) {
+      errors.push(`CONFIG_FILE: ${(error as Error).message}`);
+    }
+  }
+
+  const network = cli.network ?? env.NETWORK ?? file.NETWORK ?? DEFAULTS.NETWORK;
+  const profile = NETWORK_PROFILES[network];
+  const fileNetwork = file.networks?.[network];
+  if (!profile && !fileNetwork) {
+    errors.push(
+      `NETWORK: unknown network "${network}" (known: ${[
+        ...Object.keys(NETWORK_PROFILES),
+        ...Object.keys(file.networks ?? {}),
+      ].join(", ")})`
+    );
+  }
+
+  const { networks: _networks, ...fileSettings } = file;
+  const config: MonitorConfig = {
+    ...DEFAULTS,
+    ...(profile ?? {}),
+    ...fileSettings,
+    ...(fileNetwork ?? {}),
+    ...envOverrides(env, network, errors),
+    ...coerceOverrides(cli.set, "--set", errors),
+    NETWORK: network,
+  };
+
+  return { config, errors: [...errors, ...validateConfig(config)] };
+}
+
+function parseCliOverrides(
+  argv: string[],
+  errors: string[]
+): { network?: string; configFile?: string; set: Record<string, string> } {
+  const result: { network?: string; configFile?: string; set: Record<string, string> } = { set: {} };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--network") result.network = argv[++i];
+    else if (arg.startsWith("--network=")) result.network = arg.slice("--network=".length);
+    else if (arg === "--config") result.configFile = argv[++i];
+    else if (arg.startsWith("--config=")) result.configFile = arg.slice("--config=".length);
+    else if (arg === "--set" || arg.startsWith("--set=")) {
+      const assignment = arg === "--set" ? argv[++i] ?? "" : arg.slice("--set=".length);
+      const eq = assignment.indexOf("=");
+      if (eq <= 0) {
+        errors.push(`--set: expected KEY=VALUE, got "${assignment}"`);
+        continue;
+      }
+      result.set[assignment.slice(0, eq)] = assignment.slice(eq + 1);
+    }
+  }
+  return result;
+}
+
+function readConfigFile(filePath: string): ConfigFile {
+  if (!existsSync(filePath)) throw new Error(`${filePath} does not exist`);
+  const text = readFileSync(filePath, "utf8");
+  const ext = extname(filePath).toLowerCase();
+  const parsed = ext === ".yaml" || ext === ".yml" ? yaml.load(text) : JSON.parse(text);
+  if (parsed === null || typeof parsed !== "object" || Array.isArray(parsed)) {
+    throw new Error(`${filePath} must contain an object`);
+  }
+  return parsed as ConfigFile;
+}
+
+function envOverrides(
+  env: NodeJS.ProcessEnv,
+  network: string,
+  errors: string[]
+): Partial<MonitorConfig> {
+  const raw: Record<string, string> = {};
+  for (const key of Object.keys(DEFAULTS)) {
+    if (key !== "NETWORK" && env[key] !== undefined && env[key] !== "") raw[key] = env[key]!;
+  }
+  // e.g. MAINNET_RPC_URL, as used by the hardhat setup
+  const networkRpc = env[`${network.toUpperCase()}_RPC_URL`];
+  if (networkRpc) raw.RPC_URL = networkRpc;
+
+  return coerceOverrides(raw, "env", errors);
+}
+
+/**
+ * Convert string overrides to the type of the matching default
+ */
+function coerceOverrides(
+  raw: Record<string, string>,
+  source: string,
+  errors: string[]
+): Partial<MonitorConfig> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    if (!(key in DEFAULTS)) {
+      errors.push(`${key}: unknown setting (from ${source})`);
+      continue;
+    }
+
+    const fallback = DEFAULTS[key as keyof MonitorConfig];
+    if (typeof fallback === "number") {
+      // Report the raw text: Number("abc") is NaN, which validation could only print as NaN
+      if (value.trim() === "" || Number.isNaN(Number(value))) {
+        errors.push(`${key}: expected a number, got "${value}" (from ${source})`);
+        continue;
+      }
+      result[key] = Number(value);
+    } else if (typeof fallback === "object") {
+      try {
+        result[key] = JSON.parse(value);
+      } catch {
+        errors.push(`${key}: expected JSON (from ${source})`);
+      }
+    } else {
+      result[key] = value;
+    }
+  }
+  return result as Partial<MonitorConfig>;
+}
+
+dotenv.config({ quiet: true });
+
+const loaded = loadConfig();
+
+export const CONFIG: MonitorConfig = loaded.config;
+
+/**
+ * Every invalid field found while loading CONFIG
+ */
+export const CONFIG_ERRORS: readonly string[] = loaded.errors;
+
+/**
+ * Throw one error listing every invalid field, so startup reports them all at once
+ */
+export function assertValidConfig(errors: readonly string[] = CONFIG_ERRORS): void {
+  if (errors.length > 0) throw new ConfigValidationError([...errors]);
+}
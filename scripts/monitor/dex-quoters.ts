@@ -0,0 +1,118 @@
+// dex-quoters.ts
+import { ethers } from "ethers";
+import { loadArtifactAbi } from "./artifacts";
+
+export interface DexQuote {
+  dex: string;
+  adapter: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  blockNumber: number;
+  gasEstimate: bigint | null;
+  fee?: number; // V3 fee tier quoted
+}
+
+/**
+ * Adapter that quotes an exact-input swap on a single DEX
+ */
+export interface DexQuoter {
+  readonly dex: string;
+  readonly name: string;
+  quoteExactInput(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockNumber: number,
+    fee?: number // Pool fee tier, for DEXes with several pools per pair
+  ): Promise<DexQuote>;
+}
+
+/**
+ * Uniswap V3 quotes via QuoterV2.quoteExactInputSingle, on the configured fee tier
+ * unless another one is requested
+ */
+export class UniswapV3Quoter implements DexQuoter {
+  readonly dex = "uniswap-v3";
+  readonly name: string;
+  private quoter: ethers.Contract;
+  private fee: number;
+
+  constructor(provider: ethers.Provider, quoterAddress: string, fee: number = 3000) {
+    this.quoter = new ethers.Contract(quoterAddress, loadArtifactAbi("IQuoterV2"), provider);
+    this.fee = fee;
+    this.name = `uniswap-v3-quoterv2-${fee}`;
+  }
+
+  async quoteExactInput(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockNumber: number,
+    fee: number = this.fee
+  ): Promise<DexQuote> {
+    // QuoterV2 is non-view (it reverts internally), so it must be called statically
+    const [amountOut, , , gasEstimate] = await this.quoter.quoteExactInputSingle.staticCall(
+      {
+        tokenIn,
+        tokenOut,
+        amountIn,
+        fee,
+        sqrtPriceLimitX96: 0,
+      },
+      { blockTag: blockNumber }
+    );
+
+    return {
+      dex: this.dex,
+      adapter: `uniswap-v3-quoterv2-${fee}`,
+      tokenIn,
+      tokenOut,
+      amountIn,
+      amountOut,
+      blockNumber,
+      gasEstimate,
+      fee,
+    };
+  }
+}
+
+/**
+ * Sushiswap (Uniswap V2 style) quotes via IUniswapV2Router02.getAmountsOut
+ */
+export class SushiswapQuoter implements DexQuoter {
+  readonly dex = "sushiswap";
+  readonly name = "sushiswap-router02";
+  private router: ethers.Contract;
+
+  constructor(provider: ethers.Provider, routerAddress: string) {
+    this.router = new ethers.Contract(
+      routerAddress,
+      loadArtifactAbi("IUniswapV2Router02"),
+      provider
+    );
+  }
+
+  async quoteExactInput(
+    tokenIn: string,
+    tokenOut: string,
+    amountIn: bigint,
+    blockNumber: number
+  ): Promise<DexQuote> {
+    const amounts: bigint[] = await this.router.getAmountsOut(amountIn, [tokenIn, tokenOut], {
+      blockTag: blockNumber,
+    });
+
+    return {
+      dex: this.dex,
+      adapter: this.name,
+      tokenIn,
+      tokenOut,
+      amountIn,
+      amountOut: amounts[amounts.length - 1],
+      blockNumber,
+      gasEstimate: null,
+    };
+  }
+}
@@ -0,0 +1,296 @@
+// event-indexer.ts
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { ethers } from "ethers";
+import { loadArtifactInterface } from "./artifacts";
+
+interface IndexedContract {
+  name: string; // Artifact name, e.g. "ArbOptimizer"
+  address: string;
+}
+
+interface IndexedEvent {
+  contract: string;
+  address: string;
+  event: string;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  args: Record<string, string | boolean>; // uint/int values as decimal strings
+}
+
+interface IndexerState {
+  startBlock: number;
+  lastBlock: number; // Last fully indexed block
+  contracts: string[]; // Indexed contracts as "name@address" (sorted) the events were collected for
+  blockHashes: Record<string, string>; // Recent canonical hashes used for reorg detection
+  events: IndexedEvent[];
+}
+
+interface EventQuery {
+  contract?: string;
+  event?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  transactionHash?: string;
+}
+
+class EventIndexer {
+  private provider: ethers.Provider;
+  private contracts: Array<IndexedContract & { iface: ethers.Interface }>;
+  private statePath: string;
+  private state: IndexerState;
+  private batchSize: number;
+  private reorgDepth: number;
+  private running = false;
+
+  constructor(
+    provider: ethers.Provider,
+    contracts: IndexedContract[],
+    statePath: string,
+    startBlock: number,
+    options: { batchSize?: number; reorgDepth?: number } = {}
+  ) {
+    this.provider = provider;
+    this.contracts = contracts.map((c) => ({
+      ...c,
+      address: ethers.getAddress(c.address),
+      iface: loadArtifactInterface(c.name),
+    }));
+    this.statePath = statePath;
+    this.batchSize = options.batchSize ?? 2000;
+    this.reorgDepth = options.reorgDepth ?? 64;
+    this.state = this.loadState(startBlock);
+  }
+
+  /**
+   * Index every block up to `toBlock` (default: current head) in batches,
+   * checkpointing after each batch
+   */
+  async backfill(toBlock?: number): Promise<number> {
+    const head = toBlock ?? (await this.provider.getBlockNumber());
+    await this.handleReorg();
+
+    let indexed = 0;
+    for (let from = this.state.lastBlock + 1; from <= head; from += this.batchSize) {
+      const to = Math.min(from + this.batchSize - 1, head);
+      indexed += await this.indexRange(from, to, head);
+    }
+    return indexed;
+  }
+
+  /**
+   * Keep following new blocks until stop() is called
+   */
+  async follow(pollIntervalMs: number = 12000): Promise<void> {
+    this.running = true;
+    while (this.running) {
+      try {
+        const indexed = await this.backfill();
+        if (indexed > 0) console.log(`📥 Indexed ${indexed} events up to block ${this.state.lastBlock}`);
+      } catch (error) {
+        console.error("Indexer error:", error);
+      }
+      if (this.running) await new Promise((resolve) => setTimeout(resolve, pollIntervalMs));
+    }
+  }
+
+  stop(): void {
+    this.running = false;
+  }
+
+  /**
+   * Query indexed events
+   */
+  query(filter: EventQuery = {}): IndexedEvent[] {
+    return this.state.events.filter(
+      (e) =>
+        (filter.contract === undefined || e.contract === filter.contract) &&
+        (filter.event === undefined || e.event === filter.event) &&
+        (filter.fromBlock === undefined || e.blockNumber >= filter.fromBlock) &&
+        (filter.toBlock === undefined || e.blockNumber <= filter.toBlock) &&
+        (filter.transactionHash === undefined || e.transactionHash === filter.transactionHash)
+    );
+  }
+
+  /**
+   * Compare the routes ArbOptimizer selected with what the off-chain monitor predicted
+   * for the same block: matching route, and on-chain vs predicted profit
+   */
+  reconcile(
+    predictions: Array<{ blockNumber: number; routeIndex: number; estimatedProfit: string }>
+  ): Array<{
+    transactionHash: string;
+    blockNumber: number;
+    selectedRoute: number;
+    predictedRoute: number | null;
+    routeMatches: boolean;
+    onChainProfit: string;
+    predictedProfit: string | null;
+    profitDelta: string | null; // on-chain - predicted
+    executed: boolean;
+  }> {
+    const sorted = [...predictions].sort((a, b) => a.blockNumber - b.blockNumber);
+
+    return this.query({ event: "OptimalRouteSelected" }).map((selection) => {
+      // Latest prediction made at or before the selection block
+      let prediction: (typeof sorted)[number] | undefined;
+      for (const p of sorted) {
+        if (p.blockNumber > selection.blockNumber) break;
+        prediction = p;
+      }
+
+      const selectedRoute = Number(selection.args.bestRouteIndex);
+      const onChainProfit = String(selection.args.highestProfit);
+      const executed = this.query({
+        event: "ArbitrageExecuted",
+        transactionHash: selection.transactionHash,
+      }).length > 0;
+
+      return {
+        transactionHash: selection.transactionHash,
+        blockNumber: selection.blockNumber,
+        selectedRoute,
+        predictedRoute: prediction ? prediction.routeIndex : null,
+        routeMatches: prediction ? prediction.routeIndex === selectedRoute : false,
+        onChainProfit,
+        predictedProfit: prediction ? prediction.estimatedProfit : null,
+        profitDelta: prediction
+          ? (BigInt(onChainProfit) - BigInt(prediction.estimatedProfit)).toString()
+          : null,
+        executed,
+      };
+    });
+  }
+
+  getLastIndexedBlock(): number {
+    return this.state.lastBlock;
+  }
+
+  private async indexRange(from: number, to: number, head: number): Promise<number> {
+    const logs = await this.provider.getLogs({
+      address: this.contracts.map((c) => c.address),
+      fromBlock: from,
+      toBlock: to,
+    });
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const decoded = this.decodeLog(log);
+      if (decoded) events.push(decoded);
+      this.state.blockHashes[log.blockNumber] = log.blockHash;
+    }
+
+    // Hashes for every block close to the head, so any reorg within reorgDepth is visible
+    for (let block = Math.max(from, head - this.reorgDepth); block <= to; block++) {
+      if (this.state.blockHashes[block]) continue;
+      const header = await this.provider.getBlock(block);
+      if (header?.hash) this.state.blockHashes[block] = header.hash;
+    }
+    if (!this.state.blockHashes[to]) {
+      const header = await this.provider.getBlock(to);
+      if (header?.hash) this.state.blockHashes[to] = header.hash;
+    }
+
+    this.state.events.push(...events);
+    this.state.lastBlock = to;
+    this.pruneBlockHashes();
+    this.saveState();
+    return events.length;
+  }
+
+  /**
+   * Walk back from the checkpoint until a stored hash matches the chain,
+   * then drop everything indexed after that common ancestor
+   */
+  private async handleReorg(): Promise<void> {
+    const stored = Object.keys(this.state.blockHashes)
+      .map(Number)
+      .filter((n) => n <= this.state.lastBlock)
+      .sort((a, b) => b - a);
+    if (stored.length === 0) return;
+
+    let ancestor: number | null = null;
+    for (const blockNumber of stored) {
+      const header = await this.provider.getBlock(blockNumber);
+      if (header?.hash === this.state.blockHashes[blockNumber]) {
+        ancestor = blockNumber;
+        break;
+      }
+    }
+
+    const rollbackTo = ancestor ?? Math.max(this.state.startBlock - 1, stored[stored.length - 1] - 1);
+    if (rollbackTo >= this.state.lastBlock) return;
+
+    const dropped = this.state.events.filter((e) => e.blockNumber > rollbackTo).length;
+    console.log(
+      `⚠️  Reorg detected: rolling back from block ${this.state.lastBlock} to ${rollbackTo} (${dropped} events dropped)`
+    );
+
+    this.state.events = this.state.events.filter((e) => e.blockNumber <= rollbackTo);
+    for (const key of Object.keys(this.state.blockHashes)) {
+      if (Number(key) > rollbackTo) delete this.state.blockHashes[key];
+    }
+    this.state.lastBlock = rollbackTo;
+    this.saveState();
+  }
+
+  private decodeLog(log: ethers.Log): IndexedEvent | null {
+    const contract = this.contracts.find((c) => c.address === ethers.getAddress(log.address));
+    if (!contract) return null;
+
+    const parsed = contract.iface.parseLog(log);
+    if (!parsed) return null;
+
+    const args: Record<string, string | boolean> = {};
+    parsed.fragment.inputs.forEach((input, i) => {
+      const value = parsed.args[i];
+      args[input.name] = typeof value === "boolean" ? value : value.toString();
+    });
+
+    return {
+      contract: contract.name,
+      address: contract.address,
+      event: parsed.name,
+      blockNumber: log.blockNumber,
+      blockHash: log.blockHash,
+      transactionHash: log.transactionHash,
+      logIndex: log.index,
+      args,
+    };
+  }
+
+  /**
+   * Keep only the hashes inside the reorg window plus the checkpoint itself
+   */
+  private pruneBlockHashes(): void {
+    const floor = this.state.lastBlock - this.reorgDepth;
+    for (const key of Object.keys(this.state.blockHashes)) {
+      if (Number(key) < floor) delete this.state.blockHashes[key];
+    }
+  }
+
+  private loadState(startBlock: number): IndexerState {
+    const contracts = this.contracts.map((c) => `${c.name}@${c.address}`).sort();
+    const empty = { startBlock, lastBlock: startBlock - 1, contracts, blockHashes: {}, events: [] };
+    if (!existsSync(this.statePath)) return empty;
+
+    const saved: IndexerState = JSON.parse(readFileSync(this.statePath, "utf8"));
+    // State written before the contract set was recorded has none; rebuild it too
+    if (saved.contracts?.join() !== contracts.join() || saved.startBlock !== startBlock) {
+      console.log("🗂️  Indexed contracts or start block changed, rebuilding the event index");
+      return empty;
+    }
+    return saved;
+  }
+
+  private saveState(): void {
+    const dir = dirname(this.statePath);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(this.statePath, JSON.stringify(this.state, null, 2));
+  }
+}
+
+export type { IndexedContract, IndexedEvent, EventQuery };
+export default EventIndexer;
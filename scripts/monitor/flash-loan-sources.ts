@@ -0,0 +1,174 @@
+// flash-loan-sources.ts
+import { ethers } from "ethers";
+import type PoolCatalogue from "./pool-catalogue";
+
+export type FlashLoanSourceName = "aave-v3" | "balancer" | "uniswap-v3";
+
+export const FLASH_LOAN_SOURCES: FlashLoanSourceName[] = ["aave-v3", "balancer", "uniswap-v3"];
+
+// The only lender ArbExec implements a receiver for (executeOperation)
+export const EXECUTABLE_FLASH_LOAN_SOURCE: FlashLoanSourceName = "aave-v3";
+
+export interface FlashLoanQuote {
+  source: FlashLoanSourceName;
+  lender: string; // Aave pool, Balancer vault or Uniswap V3 pool lending the asset
+  asset: string;
+  premiumBps: number; // Rounded up to whole bps
+  availableLiquidity: string; // Asset base units the lender holds
+  blockNumber: number;
+}
+
+/**
+ * Adapter that reads what a lender charges for, and can lend of, an asset
+ */
+export interface FlashLoanSource {
+  readonly name: FlashLoanSourceName;
+  quote(
+    asset: string,
+    blockNumber: number,
+    excludePools: string[] // Pools the trade swaps through, which cannot also lend
+  ): Promise<FlashLoanQuote[]>;
+}
+
+const ERC20_BALANCE = ["function balanceOf(address) view returns (uint256)"];
+
+// ReserveConfiguration bits: active (56), paused (60), flash loans enabled (63)
+const RESERVE_ACTIVE = BigInt(1) << BigInt(56);
+const RESERVE_PAUSED = BigInt(1) << BigInt(60);
+const RESERVE_FLASHLOAN_ENABLED = BigInt(1) << BigInt(63);
+
+/**
+ * Aave V3 flash loans: the pool's live FLASHLOAN_PREMIUM_TOTAL and the underlying
+ * balance of the reserve's aToken. Reserves that are inactive, paused or have flash
+ * loans disabled cannot lend.
+ */
+export class AaveV3FlashLoanSource implements FlashLoanSource {
+  readonly name = "aave-v3";
+  private provider: ethers.Provider;
+  private pool: ethers.Contract;
+
+  constructor(provider: ethers.Provider, poolAddress: string) {
+    this.provider = provider;
+    this.pool = new ethers.Contract(
+      poolAddress,
+      [
+        "function FLASHLOAN_PREMIUM_TOTAL() view returns (uint128)",
+        "function getReserveData(address) view returns (tuple(uint256 configuration, uint128 liquidityIndex, uint128 currentLiquidityRate, uint128 variableBorrowIndex, uint128 currentVariableBorrowRate, uint128 currentStableBorrowRate, uint40 lastUpdateTimestamp, uint16 id, address aTokenAddress, address stableDebtTokenAddress, address variableDebtTokenAddress, address interestRateStrategyAddress, uint128 accruedToTreasury, uint128 unbacked, uint128 isolationModeTotalDebt))",
+      ],
+      provider
+    );
+  }
+
+  async quote(asset: string, blockNumber: number): Promise<FlashLoanQuote[]> {
+    const blockTag = { blockTag: blockNumber };
+    const reserve = await this.pool.getReserveData(asset, blockTag);
+    if (reserve.aTokenAddress === ethers.ZeroAddress) return [];
+
+    const configuration: bigint = reserve.configuration;
+    const canLend =
+      (configuration & RESERVE_ACTIVE) !== BigInt(0) &&
+      (configuration & RESERVE_PAUSED) === BigInt(0) &&
+      (configuration & RESERVE_FLASHLOAN_ENABLED) !== BigInt(0);
+    if (!canLend) return [];
+
+    const token = new ethers.Contract(asset, ERC20_BALANCE, this.provider);
+    return [
+      {
+        source: this.name,
+        lender: this.pool.target as string,
+        asset,
+        premiumBps: Number(await this.pool.FLASHLOAN_PREMIUM_TOTAL(blockTag)),
+        availableLiquidity: (await token.balanceOf(reserve.aTokenAddress, blockTag)).toString(),
+        blockNumber,
+      },
+    ];
+  }
+}
+
+/**
+ * Balancer V2 vault flash loans: the protocol fees collector's flash-loan fee
+ * (currently zero) and the vault's balance of the asset
+ */
+export class BalancerFlashLoanSource implements FlashLoanSource {
+  readonly name = "balancer";
+  private provider: ethers.Provider;
+  private vault: ethers.Contract;
+
+  constructor(provider: ethers.Provider, vaultAddress: string) {
+    this.provider = provider;
+    this.vault = new ethers.Contract(
+      vaultAddress,
+      ["function getProtocolFeesCollector() view returns (address)"],
+      provider
+    );
+  }
+
+  async quote(asset: string, blockNumber: number): Promise<FlashLoanQuote[]> {
+    const blockTag = { blockTag: blockNumber };
+    const collector = new ethers.Contract(
+      await this.vault.getProtocolFeesCollector(blockTag),
+      ["function getFlashLoanFeePercentage() view returns (uint256)"],
+      this.provider
+    );
+    const feePercentage: bigint = await collector.getFlashLoanFeePercentage(blockTag); // 1e18 = 100%
+    const balance: bigint = await new ethers.Contract(asset, ERC20_BALANCE, this.provider).balanceOf(
+      this.vault.target,
+      blockTag
+    );
+    if (balance === BigInt(0)) return [];
+
+    return [
+      {
+        source: this.name,
+        lender: this.vault.target as string,
+        asset,
+        premiumBps: Number(ceilDiv(feePercentage * BigInt(10000), ethers.WeiPerEther)),
+        availableLiquidity: balance.toString(),
+        blockNumber,
+      },
+    ];
+  }
+}
+
+/**
+ * Uniswap V3 flash swaps: every catalogued pool holding the asset, charging its swap
+ * fee. Pools the trade itself swaps through are skipped, since a pool is locked
+ * while its flash callback runs.
+ */
+export class UniswapV3FlashSource implements FlashLoanSource {
+  readonly name = "uniswap-v3";
+  private provider: ethers.Provider;
+  private catalogue: PoolCatalogue;
+
+  constructor(provider: ethers.Provider, catalogue: PoolCatalogue) {
+    this.provider = provider;
+    this.catalogue = catalogue;
+  }
+
+  async quote(asset: string, blockNumber: number, excludePools: string[]): Promise<FlashLoanQuote[]> {
+    const excluded = new Set(excludePools.map((p) => p.toLowerCase()));
+    const token = new ethers.Contract(asset, ERC20_BALANCE, this.provider);
+
+    const quotes: FlashLoanQuote[] = [];
+    for (const pool of this.catalogue.pools()) {
+      if (pool.dex !== "uniswap-v3" || !pool.eligible || excluded.has(pool.address.toLowerCase())) continue;
+      if (![pool.token0, pool.token1].some((t) => t.toLowerCase() === asset.toLowerCase())) continue;
+
+      const balance: bigint = await token.balanceOf(pool.address, { blockTag: blockNumber });
+      if (balance === BigInt(0)) continue;
+      quotes.push({
+        source: this.name,
+        lender: pool.address,
+        asset,
+        premiumBps: Math.ceil(pool.fee / 100), // Hundredths of a bip to bps
+        availableLiquidity: balance.toString(),
+        blockNumber,
+      });
+    }
+    return quotes;
+  }
+}
+
+function ceilDiv(a: bigint, b: bigint): bigint {
+  return (a + b - BigInt(1)) / b;
+}
@@ -0,0 +1,199 @@
+// gas-oracle.ts
+import { ethers } from "ethers";
+import type TradeLedger from "./trade-ledger";
+
+interface FeeHistory {
+  oldestBlock: number;
+  baseFeePerGas: bigint[]; // One per block plus the node's next-block base fee when provided
+  gasUsedRatio: number[];
+  reward: bigint[][]; // Per block, one entry per requested percentile
+  rewardPercentiles: number[];
+}
+
+interface GasForecast {
+  blockNumber: number; // Block the forecast is for
+  baseFeePerGas: string; // Wei, predicted for blockNumber
+  maxPriorityFeePerGas: string; // Wei
+  maxFeePerGas: string; // Wei, with base-fee headroom
+  gasPrice: string; // Wei, expected effective price: base fee + priority fee
+  scenarios: {
+    low: string; // Base fee + low percentile tip
+    expected: string;
+    high: string; // One full block of base-fee growth + high percentile tip
+  };
+}
+
+interface GasOracleOptions {
+  blockCount: number; // Blocks of fee history to sample
+  priorityPercentile: number; // Reward percentile used for the priority fee
+  baseFeeHeadroomBlocks: number; // Full blocks of base-fee growth maxFee must survive
+  minLedgerSamples: number; // Executions needed before ledger gas usage is trusted
+}
+
+// EIP-1559: base fee moves by at most 1/8 per block
+const BASE_FEE_MAX_CHANGE_DENOMINATOR = BigInt(8);
+const ELASTICITY_MULTIPLIER = 2;
+const RATIO_SCALE = 1_000_000_000_000; // gasUsedRatio carries ~15 significant digits
+
+/**
+ * Next-block base fee from the parent's base fee and gas used / gas limit
+ */
+export function predictNextBaseFee(parentBaseFee: bigint, gasUsedRatio: number): bigint {
+  // gasUsed - target over target, where target = limit / ELASTICITY_MULTIPLIER
+  const deviation = BigInt(Math.round((gasUsedRatio * ELASTICITY_MULTIPLIER - 1) * RATIO_SCALE));
+  const magnitude = deviation < BigInt(0) ? -deviation : deviation;
+  const delta = (parentBaseFee * magnitude) / BigInt(RATIO_SCALE) / BASE_FEE_MAX_CHANGE_DENOMINATOR;
+  if (deviation > BigInt(0)) return parentBaseFee + (delta > BigInt(0) ? delta : BigInt(1));
+  return parentBaseFee - delta;
+}
+
+class GasOracle {
+  private provider: ethers.Provider;
+  private options: GasOracleOptions;
+  private ledger: TradeLedger | null;
+  private defaultGasUnits: number;
+
+  constructor(
+    provider: ethers.Provider,
+    options: GasOracleOptions,
+    ledger: TradeLedger | null = null,
+    defaultGasUnits: number = 500000
+  ) {
+    this.provider = provider;
+    this.options = options;
+    this.ledger = ledger;
+    this.defaultGasUnits = defaultGasUnits;
+  }
+
+  /**
+   * Fetch and parse eth_feeHistory for the last `blockCount` blocks
+   */
+  async fetchFeeHistory(
+    blockCount: number = this.options.blockCount,
+    newestBlock: number | "latest" = "latest"
+  ): Promise<FeeHistory> {
+    const percentiles = this.rewardPercentiles();
+    const raw = await (this.provider as ethers.JsonRpcProvider).send("eth_feeHistory", [
+      ethers.toQuantity(blockCount),
+      newestBlock === "latest" ? "latest" : ethers.toQuantity(newestBlock),
+      percentiles,
+    ]);
+    return GasOracle.parseFeeHistory(raw, percentiles);
+  }
+
+  /**
+   * Convert a raw eth_feeHistory response (e.g. a recorded fixture) into bigint form
+   */
+  static parseFeeHistory(
+    raw: { oldestBlock: string; baseFeePerGas: string[]; gasUsedRatio: number[]; reward?: string[][] },
+    rewardPercentiles: number[]
+  ): FeeHistory {
+    return {
+      oldestBlock: Number(raw.oldestBlock),
+      baseFeePerGas: raw.baseFeePerGas.map((fee) => BigInt(fee)),
+      gasUsedRatio: raw.gasUsedRatio,
+      reward: (raw.reward ?? []).map((row) => row.map((r) => BigInt(r))),
+      rewardPercentiles,
+    };
+  }
+
+  /**
+   * Forecast fees for the block after the newest one in `history`
+   */
+  forecast(history: FeeHistory): GasForecast {
+    const blocks = history.gasUsedRatio.length;
+    if (blocks === 0) throw new Error("Fee history is empty");
+
+    const lastBaseFee = history.baseFeePerGas[blocks - 1];
+    // Nodes append the next block's base fee; derive it ourselves if they did not
+    const baseFee =
+      history.baseFeePerGas.length > blocks
+        ? history.baseFeePerGas[blocks]
+        : predictNextBaseFee(lastBaseFee, history.gasUsedRatio[blocks - 1]);
+
+    // Reward columns follow rewardPercentiles(): low, chosen, high
+    const low = this.medianReward(history, 0);
+    const priorityFee = this.medianReward(history, 1);
+    const high = this.medianReward(history, 2);
+
+    let headroomBaseFee = baseFee;
+    for (let i = 0; i < this.options.baseFeeHeadroomBlocks; i++) {
+      headroomBaseFee = predictNextBaseFee(headroomBaseFee, 1);
+    }
+
+    return {
+      blockNumber: history.oldestBlock + blocks,
+      baseFeePerGas: baseFee.toString(),
+      maxPriorityFeePerGas: priorityFee.toString(),
+      maxFeePerGas: (headroomBaseFee + priorityFee).toString(),
+      gasPrice: (baseFee + priorityFee).toString(),
+      scenarios: {
+        low: (baseFee + low).toString(),
+        expected: (baseFee + priorityFee).toString(),
+        high: (predictNextBaseFee(baseFee, 1) + high).toString(),
+      },
+    };
+  }
+
+  /**
+   * Fetch fee history and forecast the next block
+   */
+  async getForecast(): Promise<GasForecast> {
+    return this.forecast(await this.fetchFeeHistory());
+  }
+
+  /**
+   * Gas units for a route type: median of recorded executions of the same DEX pair and
+   * hop count, else the configured default. Plans are costed before their borrow size
+   * is known, so there is no call to estimate yet; TradeExecutor runs eth_estimateGas
+   * on the prepared call before sending it.
+   */
+  estimateGasUnits(route: { dexA: string; dexB: string; hops?: number }): {
+    gasUnits: number;
+    source: "ledger" | "default";
+  } {
+    if (this.ledger) {
+      const hops = route.hops ?? 2;
+      const samples = this.ledger
+        .query({})
+        .filter(
+          (t) =>
+            t.status === "success" &&
+            t.dexA === route.dexA &&
+            t.dexB === route.dexB &&
+            t.tokenPath.length === hops
+        )
+        .map((t) => t.gasUsed)
+        .sort((a, b) => a - b);
+      if (samples.length >= this.options.minLedgerSamples) {
+        return { gasUnits: samples[Math.floor(samples.length / 2)], source: "ledger" };
+      }
+    }
+
+    return { gasUnits: this.defaultGasUnits, source: "default" };
+  }
+
+  /**
+   * Low / chosen / high reward percentiles requested from eth_feeHistory
+   */
+  private rewardPercentiles(): number[] {
+    const p = this.options.priorityPercentile;
+    return [Math.max(1, Math.floor(p / 2)), p, Math.min(99, p + Math.ceil((100 - p) / 2))];
+  }
+
+  /**
+   * Median across blocks of one reward percentile, skipping empty blocks whose reward is 0
+   */
+  private medianReward(history: FeeHistory, column: number): bigint {
+    const rewards = history.reward
+      .filter((_, i) => history.gasUsedRatio[i] > 0)
+      .map((row) => row[Math.min(column, row.length - 1)])
+      .filter((r): r is bigint => r !== undefined)
+      .sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    if (rewards.length === 0) return BigInt(0);
+    return rewards[Math.floor(rewards.length / 2)];
+  }
+}
+
+export type { FeeHistory, GasForecast, GasOracleOptions };
+export default GasOracle;
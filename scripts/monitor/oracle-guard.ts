@@ -0,0 +1,232 @@
+// oracle-guard.ts
+import { ethers } from "ethers";
+import { Amount } from "./amount";
+import { loadArtifactAbi } from "./artifacts";
+import type { PriceFeed } from "./config";
+
+interface OracleGuardOptions {
+  feedGraceSeconds: number; // Allowed past a feed's heartbeat before it counts as stale
+  deviationBps: number; // Allowed DEX vs primary reference deviation
+  secondaryDeviationBps: number; // Allowed DEX vs secondary reference deviation
+  primaryFeeds: Record<string, PriceFeed>; // token -> Chainlink USD feed
+  secondaryFeeds: Record<string, PriceFeed>; // token -> secondary USD feed
+}
+
+interface FeedRound {
+  feed: string;
+  price: number; // USD
+  answer: Amount; // Raw answer at the feed's decimals
+  updatedAt: number;
+  roundId: bigint;
+}
+
+// Reasons mirror ArbExecutor's oracle errors so off-chain and on-chain rejections line up
+type OracleRejection =
+  | "NoPriceFeed"
+  | "InvalidOraclePrice"
+  | "StalePriceFeed"
+  | "StaleSecondaryFeed"
+  | "PriceDeviationTooHigh"
+  | "SecondaryPriceDeviationTooHigh";
+
+interface OracleCheck {
+  ok: boolean;
+  reason?: OracleRejection;
+  detail?: string;
+  referencePrice: number | null; // tokenB per tokenA from the primary feeds
+  secondaryReferencePrice: number | null; // null when no secondary feed covers the pair
+  maxDeviationBps: number | null;
+  maxSecondaryDeviationBps: number | null;
+}
+
+class OracleGuard {
+  private provider: ethers.Provider;
+  private options: OracleGuardOptions;
+  private feedAbi = loadArtifactAbi("AggregatorV3Interface");
+  private decimalsCache = new Map<string, number>();
+  private roundCache = new Map<string, FeedRound>(); // feed:block -> round
+
+  constructor(provider: ethers.Provider, options: OracleGuardOptions) {
+    this.provider = provider;
+    this.options = {
+      ...options,
+      primaryFeeds: this.normalize(options.primaryFeeds),
+      secondaryFeeds: this.normalize(options.secondaryFeeds),
+    };
+  }
+
+  /**
+   * Check DEX-implied prices (tokenB per tokenA) against the Chainlink references
+   * as of `blockNumber`
+   */
+  async validatePrices(
+    tokenA: string,
+    tokenB: string,
+    dexPrices: number[],
+    blockNumber: number
+  ): Promise<OracleCheck> {
+    const check: OracleCheck = {
+      ok: false,
+      referencePrice: null,
+      secondaryReferencePrice: null,
+      maxDeviationBps: null,
+      maxSecondaryDeviationBps: null,
+    };
+
+    const block = await this.provider.getBlock(blockNumber);
+    if (!block) throw new Error(`Block ${blockNumber} not found`);
+
+    const feedA = this.options.primaryFeeds[tokenA.toLowerCase()];
+    const feedB = this.options.primaryFeeds[tokenB.toLowerCase()];
+    if (!feedA || !feedB) {
+      return { ...check, reason: "NoPriceFeed", detail: `No primary feed for ${feedA ? tokenB : tokenA}` };
+    }
+
+    let roundA: FeedRound;
+    let roundB: FeedRound;
+    try {
+      roundA = await this.readFeed(feedA.feed, blockNumber);
+      roundB = await this.readFeed(feedB.feed, blockNumber);
+    } catch (error) {
+      return { ...check, reason: "InvalidOraclePrice", detail: (error as Error).message };
+    }
+
+    const stale = this.staleness([roundA, feedA], [roundB, feedB], block.timestamp, blockNumber);
+    if (stale) return { ...check, reason: "StalePriceFeed", detail: stale };
+
+    check.referencePrice = roundA.price / roundB.price;
+    check.maxDeviationBps = this.maxDeviationBps(dexPrices, check.referencePrice);
+    if (check.maxDeviationBps > this.options.deviationBps) {
+      return {
+        ...check,
+        reason: "PriceDeviationTooHigh",
+        detail: `DEX price deviates ${check.maxDeviationBps.toFixed(0)} bps from Chainlink (limit ${this.options.deviationBps})`,
+      };
+    }
+
+    // Secondary reference: secondary feed where one exists, primary otherwise
+    const secondaryA = this.options.secondaryFeeds[tokenA.toLowerCase()];
+    const secondaryB = this.options.secondaryFeeds[tokenB.toLowerCase()];
+    if (secondaryA || secondaryB) {
+      let secondaryRoundA = roundA;
+      let secondaryRoundB = roundB;
+      try {
+        if (secondaryA) secondaryRoundA = await this.readFeed(secondaryA.feed, blockNumber);
+        if (secondaryB) secondaryRoundB = await this.readFeed(secondaryB.feed, blockNumber);
+      } catch (error) {
+        return { ...check, reason: "InvalidOraclePrice", detail: (error as Error).message };
+      }
+
+      const staleSecondary = this.staleness(
+        [secondaryRoundA, secondaryA ?? feedA],
+        [secondaryRoundB, secondaryB ?? feedB],
+        block.timestamp,
+        blockNumber
+      );
+      if (staleSecondary) return { ...check, reason: "StaleSecondaryFeed", detail: staleSecondary };
+
+      check.secondaryReferencePrice = secondaryRoundA.price / secondaryRoundB.price;
+      check.maxSecondaryDeviationBps = this.maxDeviationBps(dexPrices, check.secondaryReferencePrice);
+      if (check.maxSecondaryDeviationBps > this.options.secondaryDeviationBps) {
+        return {
+          ...check,
+          reason: "SecondaryPriceDeviationTooHigh",
+          detail: `DEX price deviates ${check.maxSecondaryDeviationBps.toFixed(0)} bps from the secondary feed (limit ${this.options.secondaryDeviationBps})`,
+        };
+      }
+    }
+
+    return { ...check, ok: true };
+  }
+
+  /**
+   * Read latestRoundData at a block, rejecting non-positive answers and
+   * rounds that were carried over from an earlier round
+   */
+  async readFeed(feed: string, blockNumber: number): Promise<FeedRound> {
+    const key = `${feed}:${blockNumber}`;
+    const cached = this.roundCache.get(key);
+    if (cached) return cached;
+
+    const aggregator = new ethers.Contract(feed, this.feedAbi, this.provider);
+    let decimals = this.decimalsCache.get(feed);
+    if (decimals === undefined) {
+      decimals = Number(await aggregator.decimals());
+      this.decimalsCache.set(feed, decimals);
+    }
+
+    const [roundId, answer, , updatedAt, answeredInRound] = await aggregator.latestRoundData({
+      blockTag: blockNumber,
+    });
+    if (answer <= BigInt(0)) throw new Error(`${feed} returned a non-positive answer`);
+    if (answeredInRound < roundId) throw new Error(`${feed} round ${roundId} is incomplete`);
+    if (updatedAt === BigInt(0)) throw new Error(`${feed} round ${roundId} has no timestamp`);
+
+    const round: FeedRound = {
+      feed,
+      price: Number(ethers.formatUnits(answer, decimals)),
+      answer: Amount.from(answer, decimals),
+      updatedAt: Number(updatedAt),
+      roundId,
+    };
+    if (this.roundCache.size > 1000) this.roundCache.clear();
+    this.roundCache.set(key, round);
+    return round;
+  }
+
+  /**
+   * Price of one whole `base` token in `quote` from the primary feeds at a block, as a
+   * fixed-point amount with `decimals` decimals (e.g. USDC per ETH for gas costs)
+   */
+  async crossRate(
+    base: string,
+    quote: string,
+    blockNumber: number,
+    decimals: number = 18
+  ): Promise<Amount> {
+    const baseFeed = this.options.primaryFeeds[base.toLowerCase()];
+    const quoteFeed = this.options.primaryFeeds[quote.toLowerCase()];
+    if (!baseFeed || !quoteFeed) throw new Error(`No primary feed for ${baseFeed ? quote : base}`);
+
+    const baseRound = await this.readFeed(baseFeed.feed, blockNumber);
+    const quoteRound = await this.readFeed(quoteFeed.feed, blockNumber);
+    // (baseAnswer / 10^baseDecimals) / (quoteAnswer / 10^quoteDecimals), kept in bigint
+    const numerator =
+      baseRound.answer.raw * BigInt(10) ** BigInt(quoteRound.answer.decimals + decimals);
+    const denominator = quoteRound.answer.raw * BigInt(10) ** BigInt(baseRound.answer.decimals);
+    return Amount.from(numerator / denominator, decimals);
+  }
+
+  /**
+   * Describe the first round older than its feed's heartbeat plus the grace period,
+   * or null when both are fresh. Heartbeats differ per feed (e.g. 1 h for ETH/USD,
+   * 24 h for USDC/USD), so one age limit would reject or admit the wrong feeds.
+   */
+  private staleness(
+    a: [FeedRound, PriceFeed],
+    b: [FeedRound, PriceFeed],
+    timestamp: number,
+    blockNumber: number
+  ): string | null {
+    for (const [round, { maxAge }] of [a, b]) {
+      const age = timestamp - round.updatedAt;
+      if (age > maxAge + this.options.feedGraceSeconds) {
+        return `${round.feed} last updated ${age}s before block ${blockNumber} (heartbeat ${maxAge}s)`;
+      }
+    }
+    return null;
+  }
+
+  private maxDeviationBps(prices: number[], reference: number): number {
+    return Math.max(0, ...prices.map((p) => (Math.abs(p - reference) / reference) * 10000));
+  }
+
+  private normalize(feeds: Record<string, PriceFeed>): Record<string, PriceFeed> {
+    return Object.fromEntries(
+      Object.entries(feeds).map(([token, feed]) => [token.toLowerCase(), feed])
+    );
+  }
+}
+
+export type { OracleGuardOptions, OracleCheck, OracleRejection, FeedRound };
+export default OracleGuard;
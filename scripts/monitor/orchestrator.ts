@@ -1,29 +1,130 @@
 // orchestrator.ts
+import { Amount } from "./amount";
 import ArbitrageMonitor from "./arbitrage-monitor";
-import StatisticalAnalyzer from "./statistical-analyzer";
-import ProfitabilityCalculator from "./profitability-calculator";
+import Backtester, { BacktestParameters, BacktestResult } from "./backtester";
+import StatisticalAnalyzer, { ParameterRecommendation, SegmentedAnalysis } from "./statistical-analyzer";
+import ProfitabilityCalculator, { OptimalBorrowResult } from "./profitability-calculator";
+import RouteDiscovery, { CandidateRoute } from "./route-discovery";
+import {
+  AaveV3FlashLoanSource,
+  BalancerFlashLoanSource,
+  EXECUTABLE_FLASH_LOAN_SOURCE,
+  FlashLoanQuote,
+  FlashLoanSource,
+  UniswapV3FlashSource,
+} from "./flash-loan-sources";
+import GasOracle, { GasForecast } from "./gas-oracle";
+import OracleGuard from "./oracle-guard";
+import PoolCatalogue, { CataloguedPool } from "./pool-catalogue";
+import RiskSimulator, { PlanRisk } from "./risk-simulator";
+import RouteRegistry, { RegisteredRoute } from "./route-registry";
+import RunReporter, { RejectedCandidate, ReportFormat, ReportedOpportunity, RunReport } from "./run-report";
+import TokenRegistry, { TokenInfo } from "./token-registry";
+import TradeLedger from "./trade-ledger";
+import { connectArbExecutor } from "./bindings/ArbExecutor";
+import { connectArbOptimizer } from "./bindings/ArbOptimizer";
 import { ethers } from "ethers";
+import { CONFIG } from "./config";
 
-interface ExecutionPlan {
+export interface ExecutionPlan {
   tokenPath: string[];
+  routeId?: number; // Registered ArbExec route with this path and DEX order; unset when no ArbExec is configured
+  borrowToken: TokenInfo; // Unit of borrowAmount and every profitability figure
   borrowAmount: string;
+  flashLoan: FlashLoanQuote; // Executable lender whose premium leaves the most net profit
+  // Lenders ArbExec cannot borrow from, for information: net profit at their own optimum
+  // and how much more (or less, when negative) that is than the plan's
+  flashLoanAlternatives: Array<{ flashLoan: FlashLoanQuote; netProfit: string; savings: string }>;
   dexA: string;
   dexB: string;
   profitability: any;
   recommendedParams: any;
+  risk?: PlanRisk; // Monte Carlo outcome distribution
+  sensitivity?: ReturnType<ProfitabilityCalculator["sensitivityAnalysis"]>;
+  sizing: {
+    method: string;
+    bounds: { minBorrowAmount: string; maxBorrowAmount: string };
+    curve: Array<{ borrowAmount: string; leg2AmountOut: string; netProfit: string }>;
+  };
 }
 
 class ArbitrageOrchestrator {
   private monitor: ArbitrageMonitor;
   private analyzer: StatisticalAnalyzer;
   private calculator: ProfitabilityCalculator;
+  private routeDiscovery: RouteDiscovery;
+  private ledger: TradeLedger;
+  private gasOracle: GasOracle;
+  private oracleGuard: OracleGuard;
+  private registry: TokenRegistry;
+  private catalogue: PoolCatalogue;
+  private flashLoanSources: FlashLoanSource[];
+  private riskSimulator: RiskSimulator;
+  private reporter: RunReporter;
   private provider: ethers.JsonRpcProvider;
+  // Candidates seen by the latest analyzeAndPlan, for the run report
+  private lastRun: { opportunities: ReportedOpportunity[]; rejected: RejectedCandidate[] } = {
+    opportunities: [],
+    rejected: [],
+  };
 
-  constructor(rpcUrl: string, alchemyKey: string) {
-    this.monitor = new ArbitrageMonitor(rpcUrl, alchemyKey);
+  constructor(rpcUrl: string, alchemyKey: string, ledger?: TradeLedger) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.registry = new TokenRegistry(this.provider, CONFIG.PRICE_FEEDS);
     this.analyzer = new StatisticalAnalyzer();
     this.calculator = new ProfitabilityCalculator();
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.routeDiscovery = new RouteDiscovery();
+    this.ledger = ledger ?? new TradeLedger(CONFIG.TRADE_LEDGER_PATH);
+    this.gasOracle = new GasOracle(
+      this.provider,
+      {
+        blockCount: CONFIG.GAS_ORACLE_BLOCK_COUNT,
+        priorityPercentile: CONFIG.GAS_PRIORITY_PERCENTILE,
+        baseFeeHeadroomBlocks: CONFIG.GAS_BASE_FEE_HEADROOM_BLOCKS,
+        minLedgerSamples: CONFIG.GAS_MIN_LEDGER_SAMPLES,
+      },
+      this.ledger,
+      CONFIG.GAS_UNITS_ESTIMATE
+    );
+    this.oracleGuard = new OracleGuard(this.provider, {
+      feedGraceSeconds: CONFIG.PRICE_FEED_GRACE_SECONDS,
+      deviationBps: CONFIG.ORACLE_DEVIATION_BPS,
+      secondaryDeviationBps: CONFIG.SECONDARY_ORACLE_DEVIATION_BPS,
+      primaryFeeds: CONFIG.PRICE_FEEDS,
+      secondaryFeeds: CONFIG.SECONDARY_PRICE_FEEDS,
+    });
+    this.catalogue = new PoolCatalogue(
+      this.provider,
+      this.registry,
+      this.oracleGuard,
+      CONFIG.TOKEN_PAIRS.flatMap((p) => [p.token0, p.token1]),
+      {
+        uniswapV3Factory: CONFIG.UNISWAP_V3_FACTORY,
+        sushiswapFactory: CONFIG.SUSHISWAP_FACTORY,
+        statePath: CONFIG.POOL_CATALOGUE_PATH,
+        startBlock: CONFIG.POOL_DISCOVERY_START_BLOCK,
+        minLiquidityUsd: Number(CONFIG.POOL_MIN_LIQUIDITY_USD),
+        minTvlUsd: Number(CONFIG.POOL_MIN_TVL_USD),
+        refreshBlocks: CONFIG.POOL_REFRESH_BLOCKS,
+        batchSize: CONFIG.POOL_DISCOVERY_BATCH_SIZE,
+        reorgDepth: CONFIG.INDEXER_REORG_DEPTH,
+      }
+    );
+    this.monitor = new ArbitrageMonitor(rpcUrl, alchemyKey, undefined, this.registry, this.catalogue);
+    this.flashLoanSources = CONFIG.FLASH_LOAN_SOURCES.map((name) =>
+      name === "aave-v3"
+        ? new AaveV3FlashLoanSource(this.provider, CONFIG.AAVE_V3_POOL)
+        : name === "balancer"
+          ? new BalancerFlashLoanSource(this.provider, CONFIG.BALANCER_VAULT)
+          : new UniswapV3FlashSource(this.provider, this.catalogue)
+    );
+    this.riskSimulator = new RiskSimulator(this.ledger, {
+      trials: CONFIG.RISK_TRIALS,
+      confidence: CONFIG.RISK_CONFIDENCE,
+      deadlineSeconds: CONFIG.DEADLINE_SECONDS,
+      minLedgerSamples: CONFIG.RISK_MIN_LEDGER_SAMPLES,
+    });
+    this.reporter = new RunReporter();
   }
 
   /**
@@ -31,51 +132,224 @@ class ArbitrageOrchestrator {
    */
   async analyzeAndPlan(
     tokenPairs: Array<{ token0: string; token1: string }>,
-    historicalTrades: Array<{
-      profit: number;
-      gasUsed: number;
-      slippage: number;
-      executionTime: number;
-    }>,
-    minProfitBps: number = 100
+    minProfitBps: number = CONFIG.MIN_PROFIT_BPS,
+    blockNumber?: number
   ): Promise<ExecutionPlan[]> {
+    await this.syncPools(blockNumber);
+
     console.log("🔍 Identifying arbitrage opportunities...");
-    const opportunities = await this.monitor.identifyOpportunities(tokenPairs, minProfitBps);
+    const opportunities = await this.monitor.identifyOpportunities(
+      tokenPairs,
+      minProfitBps,
+      CONFIG.QUOTE_AMOUNT,
+      blockNumber
+    );
 
     console.log(`✅ Found ${opportunities.length} opportunities`);
 
     console.log("📊 Analyzing historical data...");
-    const analysis = this.analyzer.analyzeHistoricalTrades(historicalTrades);
+    const { recommendations, segments } = this.analyzeLedger();
 
-    console.log(`Mean Profit: ${analysis.meanProfit.toFixed(6)} ETH`);
-    console.log(`Success Rate: ${analysis.successRate.toFixed(2)}%`);
-    console.log(`Recommended minProfitBps: ${analysis.recommendations.minProfitBps}`);
-    console.log(`Recommended maxSlippageBps: ${analysis.recommendations.maxSlippageBps}`);
+    let gasForecast: GasForecast | undefined;
+    try {
+      gasForecast = await this.gasOracle.getForecast();
+      console.log(
+        `⛽ Block ${gasForecast.blockNumber} forecast: base ${ethers.formatUnits(gasForecast.baseFeePerGas, "gwei")} gwei, ` +
+          `tip ${ethers.formatUnits(gasForecast.maxPriorityFeePerGas, "gwei")} gwei`
+      );
+    } catch (error) {
+      console.log(`⚠️  Gas forecast unavailable, using ${CONFIG.GAS_PRICE} gwei: ${(error as Error).message}`);
+    }
 
     console.log("💰 Calculating profitability for top opportunities...");
     const executionPlans: ExecutionPlan[] = [];
+    const topOpportunities = this.monitor.getTopOpportunities(CONFIG.TOP_OPPORTUNITIES);
+    const registeredRoutes = topOpportunities.length > 0 ? await this.getRegisteredRoutes(blockNumber) : null;
+    this.lastRun = {
+      opportunities: topOpportunities.map((opp) => ({
+        tokenA: opp.tokenA,
+        tokenB: opp.tokenB,
+        dexA: opp.dexA,
+        dexB: opp.dexB,
+        priceA: opp.priceA,
+        priceB: opp.priceB,
+        profitabilityBps: opp.profitabilityBps,
+        estimatedProfit: opp.estimatedProfit.format(),
+        blockNumber: opp.blockNumber,
+      })),
+      rejected: [],
+    };
 
-    for (const opp of this.monitor.getTopOpportunities(5)) {
-      const profitability = this.calculator.calculateProfitability({
-        borrowAmount: ethers.parseEther("10").toString(),
-        flashLoanPremiumBps: 9,
-        gasPrice: ethers.parseUnits("50", "gwei").toString(),
-        gasUnitsEstimate: 500000,
-        leg1AmountOut: ethers.parseEther("10.5").toString(),
-        leg2AmountOut: ethers.parseEther("10.8").toString(),
-        builderTipBps: 10,
-        safetyBufferBps: 50,
-      });
+    for (const opp of topOpportunities) {
+      const reject = (stage: RejectedCandidate["stage"], reason: string) =>
+        this.lastRun.rejected.push({
+          tokenA: opp.tokenA,
+          tokenB: opp.tokenB,
+          dexA: opp.dexA,
+          dexB: opp.dexB,
+          blockNumber: opp.blockNumber,
+          profitabilityBps: opp.profitabilityBps,
+          stage,
+          reason,
+        });
+
+      // ArbExec only executes registered routes, so a plan must name one
+      const route = registeredRoutes
+        ? RouteRegistry.findRoute(registeredRoutes, { path: [opp.tokenA, opp.tokenB], dexA: opp.dexA, dexB: opp.dexB })
+        : undefined;
+      if (registeredRoutes && !route) {
+        reject("route", `no ArbExec route registered for ${opp.tokenA} → ${opp.tokenB} on ${opp.dexA}/${opp.dexB}`);
+        continue;
+      }
+
+      // Both venues' prices must agree with Chainlink before anything is sized
+      const oracleCheck = await this.oracleGuard.validatePrices(
+        opp.tokenA,
+        opp.tokenB,
+        [opp.priceA, opp.priceB],
+        opp.blockNumber
+      );
+      if (!oracleCheck.ok) {
+        opp.flaggedReason = `${oracleCheck.reason}: ${oracleCheck.detail}`;
+        console.log(`🚩 ${opp.dexA}/${opp.dexB} flagged: ${opp.flaggedReason}`);
+        reject("oracle", opp.flaggedReason);
+        continue;
+      }
+
+      // Size against the exact pools that were quoted (catalogued pair or the DEX's default pool)
+      const leg1Pool = opp.quoteA.pool
+        ? await this.monitor.getPoolSnapshotAt(opp.quoteA.pool, opp.dexA, opp.blockNumber)
+        : await this.monitor.getPoolSnapshot(opp.tokenA, opp.tokenB, opp.dexA, opp.blockNumber);
+      const leg2Pool = opp.quoteB.pool
+        ? await this.monitor.getPoolSnapshotAt(opp.quoteB.pool, opp.dexB, opp.blockNumber)
+        : await this.monitor.getPoolSnapshot(opp.tokenA, opp.tokenB, opp.dexB, opp.blockNumber);
+      if (!leg1Pool || !leg2Pool) {
+        console.log(`⚠️  Missing pool state for ${opp.dexA}/${opp.dexB}, skipping`);
+        reject("pool-state", "missing pool state");
+        continue;
+      }
+
+      // Gas is paid in ETH; price it in the borrow token so all costs share one unit
+      const borrowToken = await this.registry.resolve(opp.tokenA);
+      let gasTokenRate: Amount | undefined;
+      try {
+        gasTokenRate = await this.getGasTokenRate(borrowToken, opp.blockNumber);
+      } catch (error) {
+        console.log(`⚠️  Cannot price gas in ${borrowToken.symbol}, skipping: ${(error as Error).message}`);
+        reject("gas-pricing", (error as Error).message);
+        continue;
+      }
+
+      const flashLoans = await this.quoteFlashLoans(borrowToken, opp.blockNumber, [
+        leg1Pool.address,
+        leg2Pool.address,
+      ]);
+      if (flashLoans.length === 0) {
+        console.log(`⚠️  No flash-loan source can lend ${borrowToken.symbol}, skipping`);
+        reject("flash-loan", `no source in ${CONFIG.FLASH_LOAN_SOURCES.join(", ")} can lend ${borrowToken.symbol}`);
+        continue;
+      }
+      if (!flashLoans.some((quote) => quote.source === EXECUTABLE_FLASH_LOAN_SOURCE)) {
+        const lenders = [...new Set(flashLoans.map((quote) => quote.source))].join(", ");
+        console.log(`⚠️  Only ${lenders} can lend ${borrowToken.symbol}, ArbExec borrows from ${EXECUTABLE_FLASH_LOAN_SOURCE}`);
+        reject("flash-loan", `${EXECUTABLE_FLASH_LOAN_SOURCE} cannot lend ${borrowToken.symbol}; only ${lenders} can`);
+        continue;
+      }
+
+      const bounds = await this.getBorrowBounds(borrowToken, gasTokenRate);
+      const { gasUnits } = this.gasOracle.estimateGasUnits({ dexA: opp.dexA, dexB: opp.dexB });
+      const baseCosts = {
+        borrowDecimals: borrowToken.decimals,
+        gasTokenRate: gasTokenRate?.toString(),
+        gasPrice: ethers.parseUnits(CONFIG.GAS_PRICE, "gwei").toString(),
+        gasForecast,
+        gasUnitsEstimate: gasUnits,
+        builderTipBps: CONFIG.BUILDER_TIP_BPS,
+        safetyBufferBps: CONFIG.SAFETY_BUFFER_BPS,
+      };
+
+      // Size against every lender, each capped at what it can lend and charging its own
+      // premium. Only ArbExec's lender can be executed, so the plan takes the best of its
+      // quotes and the other lenders are kept to show what they would have saved.
+      let best: { optimal: OptimalBorrowResult; flashLoan: FlashLoanQuote } | undefined;
+      const alternatives: Array<{ optimal: OptimalBorrowResult; flashLoan: FlashLoanQuote }> = [];
+      let sizingError: Error | undefined;
+      for (const flashLoan of flashLoans) {
+        try {
+          const optimal = this.calculator.findOptimalBorrowAmount(
+            { borrowToken: opp.tokenA, leg1Pool, leg2Pool },
+            { ...bounds, availableLiquidity: flashLoan.availableLiquidity },
+            { ...baseCosts, flashLoanPremiumBps: flashLoan.premiumBps }
+          );
+          if (flashLoan.source !== EXECUTABLE_FLASH_LOAN_SOURCE) {
+            alternatives.push({ optimal, flashLoan });
+            continue;
+          }
+          const profit = BigInt(optimal.maxProfit);
+          const bestProfit = best ? BigInt(best.optimal.maxProfit) : BigInt(-1);
+          if (profit > bestProfit || (profit === bestProfit && flashLoan.premiumBps < best!.flashLoan.premiumBps)) {
+            best = { optimal, flashLoan };
+          }
+        } catch (error) {
+          sizingError = error as Error;
+        }
+      }
+      if (!best) {
+        console.log(`⚠️  Could not size ${opp.dexA}/${opp.dexB}: ${sizingError?.message}`);
+        reject("sizing", sizingError?.message ?? "no borrowable amount");
+        continue;
+      }
+      const { optimal, flashLoan } = best;
+      const costs = { ...baseCosts, flashLoanPremiumBps: flashLoan.premiumBps };
+      const profitability = optimal.profitability;
 
-      if (profitability.isProfitable) {
-        executionPlans.push({
+      if (!profitability.isProfitable) {
+        reject("unprofitable", `costs ${profitability.totalCosts} exceed gross profit ${profitability.grossProfit}`);
+      } else {
+        const plan: ExecutionPlan = {
           tokenPath: [opp.tokenA, opp.tokenB],
-          borrowAmount: ethers.parseEther("10").toString(),
+          routeId: route?.routeId,
+          borrowToken,
+          borrowAmount: optimal.optimalAmount,
+          flashLoan,
+          flashLoanAlternatives: alternatives.map((alternative) => ({
+            flashLoan: alternative.flashLoan,
+            netProfit: alternative.optimal.maxProfit,
+            savings: (BigInt(alternative.optimal.maxProfit) - BigInt(optimal.maxProfit)).toString(),
+          })),
           dexA: opp.dexA,
           dexB: opp.dexB,
           profitability,
-          recommendedParams: analysis.recommendations,
-        });
+          recommendedParams: this.segmentRecommendations(opp, segments) ?? recommendations,
+          sizing: {
+            method: optimal.method,
+            bounds: optimal.bounds,
+            curve: optimal.curve,
+          },
+        };
+
+        // Profit at the chosen size under cheaper/dearer gas and flash-loan premiums
+        const chosen = optimal.curve.find((point) => point.borrowAmount === optimal.optimalAmount)!;
+        plan.sensitivity = this.calculator.sensitivityAnalysis(
+          {
+            ...costs,
+            borrowAmount: optimal.optimalAmount,
+            leg1AmountOut: chosen.leg1AmountOut,
+            leg2AmountOut: chosen.leg2AmountOut,
+          },
+          {
+            gasPrice: [0.5, 1, 1.5, 2],
+            flashLoanPremium: [0, flashLoan.premiumBps, flashLoan.premiumBps * 2],
+          }
+        );
+
+        plan.risk = this.riskSimulator.analyze(plan);
+        console.log(
+          `🎲 ${opp.dexA}/${opp.dexB}: EV ${plan.risk.expectedValue.format()} ${borrowToken.symbol}, ` +
+            `P(loss) ${(plan.risk.probabilityOfLoss * 100).toFixed(1)}%, ` +
+            `suggested safetyBufferBps ${plan.risk.suggestedSafetyBufferBps}`
+        );
+        executionPlans.push(plan);
       }
     }
 
@@ -83,27 +357,300 @@ class ArbitrageOrchestrator {
   }
 
   /**
-   * Export analysis report
+   * Analyze ledger trades inside the backtest window per borrow token and segment.
+   * The configured risk parameters stand in wherever a borrow token has too few trades.
+   */
+  private analyzeLedger(): {
+    recommendations: ParameterRecommendation;
+    segments: SegmentedAnalysis[];
+  } {
+    const recommendations: ParameterRecommendation = {
+      minProfitBps: CONFIG.MIN_PROFIT_BPS,
+      maxSlippageBps: CONFIG.MAX_SLIPPAGE_BPS,
+      deadlineSeconds: CONFIG.DEADLINE_SECONDS,
+      gasUnitsEstimate: CONFIG.GAS_UNITS_ESTIMATE,
+      confidence: 0,
+      reasoning: "Too few executed trades of the borrow token in the backtest window; configured defaults",
+    };
+    const since = Math.floor(Date.now() / 1000) - CONFIG.BACKTEST_WINDOW;
+    const trades = this.ledger.query({ since });
+
+    if (trades.length === 0) {
+      console.log("No trades in the ledger window, using configured parameters");
+      return { recommendations, segments: [] };
+    }
+
+    console.log(`Trades in window: ${trades.length}`);
+    const segments = this.analyzer.analyzeSegments(trades, CONFIG.ANALYTICS_MIN_SEGMENT_TRADES);
+    for (const borrowed of segments) {
+      if (borrowed.global) {
+        console.log(
+          `Borrowing ${borrowed.borrowToken}: ${borrowed.trades} trades, mean profit ${borrowed.global.meanProfit.toFixed(6)}, ` +
+            `success rate ${borrowed.global.successRate.toFixed(2)}%, ` +
+            `recommended minProfitBps ${borrowed.global.recommendations.minProfitBps}, ` +
+            `maxSlippageBps ${borrowed.global.recommendations.maxSlippageBps}`
+        );
+      }
+      for (const pair of borrowed.byPair) {
+        const pairTrades = trades.filter(
+          (t) =>
+            t.tokenPath[0].toLowerCase() === borrowed.borrowToken &&
+            StatisticalAnalyzer.pairKey(t.tokenPath[0], t.tokenPath[1]) === pair.key
+        );
+        const series = this.analyzer.timeSeries(pairTrades, CONFIG.ANALYTICS_WINDOW, CONFIG.ANALYTICS_EWMA_ALPHA);
+        for (const change of this.analyzer.detectRegimeChanges(series, CONFIG.ANALYTICS_WINDOW)) {
+          console.log(
+            `📉 ${pair.key} borrowing ${borrowed.borrowToken}: ${change.kind} at ${new Date(change.timestamp * 1000).toISOString()} ` +
+              `(${change.before.toFixed(6)} → ${change.after.toFixed(6)})`
+          );
+        }
+      }
+    }
+
+    return { recommendations, segments };
+  }
+
+  /**
+   * Most specific recommendation for an opportunity among trades borrowing its token0:
+   * its pair's segment, then its DEX route's, then the borrow token's overall, or
+   * undefined when none has enough trades
+   */
+  private segmentRecommendations(
+    opp: { tokenA: string; tokenB: string; dexA: string; dexB: string },
+    segments: SegmentedAnalysis[]
+  ): ParameterRecommendation | undefined {
+    const borrowed = segments.find((s) => s.borrowToken === opp.tokenA.toLowerCase());
+    if (!borrowed) return undefined;
+    const pairKey = StatisticalAnalyzer.pairKey(opp.tokenA, opp.tokenB);
+    return (
+      borrowed.byPair.find((s) => s.key === pairKey)?.analysis?.recommendations ??
+      borrowed.byDexRoute.find((s) => s.key === `${opp.dexA}>${opp.dexB}`)?.analysis?.recommendations ??
+      borrowed.global?.recommendations
+    );
+  }
+
+  /**
+   * Discover profitable 2-4 hop cycles across every pool between the configured tokens.
+   * Cycles start from each pair's token0 (the borrowable asset).
+   */
+  async discoverRoutes(
+    tokenPairs: Array<{ token0: string; token1: string }>,
+    maxLength: number = CONFIG.MAX_ROUTE_HOPS,
+    atBlock?: number
+  ): Promise<CandidateRoute[]> {
+    console.log("🧭 Discovering multi-hop routes...");
+    const blockNumber = atBlock ?? (await this.provider.getBlockNumber());
+    await this.syncPools(blockNumber);
+    const tokens = tokenPairs.flatMap((p) => [p.token0, p.token1]);
+    const venues = await this.monitor.getVenuePools(tokens, blockNumber);
+
+    const probeAmounts: Record<string, bigint> = {};
+    for (const token of new Set(tokenPairs.map((p) => p.token0))) {
+      probeAmounts[token] = (await this.registry.parse(token, CONFIG.QUOTE_AMOUNT)).raw;
+    }
+
+    const routes = this.routeDiscovery.discoverRoutes(venues, probeAmounts, maxLength);
+    console.log(`✅ Found ${routes.length} profitable cycles across ${venues.length} pools`);
+    return routes;
+  }
+
+  /**
+   * Catalogue pools created since the last sync and re-read liquidity/TVL of pools
+   * due for a refresh, so opportunity detection sees every eligible venue
+   */
+  async syncPools(
+    atBlock?: number,
+    force: boolean = false
+  ): Promise<{ added: CataloguedPool[]; refreshed: number; pools: CataloguedPool[] }> {
+    const blockNumber = atBlock ?? (await this.provider.getBlockNumber());
+    const added = await this.catalogue.sync(blockNumber);
+    const refreshed = await this.catalogue.refresh(blockNumber, force);
+    if (added.length > 0 || refreshed > 0) {
+      const eligible = this.catalogue.pools().filter((p) => p.eligible).length;
+      console.log(
+        `🧭 Pool catalogue at block ${blockNumber}: ${added.length} new, ${refreshed} refreshed, ` +
+          `${eligible}/${this.catalogue.pools().length} eligible`
+      );
+    }
+    return { added, refreshed, pools: this.catalogue.pools() };
+  }
+
+  /**
+   * Borrow-token base units per ETH, or undefined when the borrow token is WETH itself
+   */
+  private async getGasTokenRate(borrowToken: TokenInfo, blockNumber: number): Promise<Amount | undefined> {
+    if (borrowToken.address.toLowerCase() === CONFIG.WETH_ADDRESS.toLowerCase()) return undefined;
+    return this.oracleGuard.crossRate(CONFIG.WETH_ADDRESS, borrowToken.address, blockNumber, borrowToken.decimals);
+  }
+
+  /**
+   * ArbExec's registered routes at a block, or null when no ArbExec is configured
+   */
+  private async getRegisteredRoutes(blockNumber?: number): Promise<RegisteredRoute[] | null> {
+    if (!CONFIG.ARBEXEC_ADDRESS) return null;
+    return new RouteRegistry(connectArbExecutor(CONFIG.ARBEXEC_ADDRESS, this.provider), undefined, {
+      pageSize: CONFIG.ROUTE_SYNC_PAGE_SIZE,
+    }).fetchRoutes(blockNumber);
+  }
+
+  /**
+   * Borrow limits from ArbOptimizer's flash-loan bounds, denominated in ETH and
+   * converted into the borrow token. What each lender can lend is capped per source.
+   */
+  private async getBorrowBounds(borrowToken: TokenInfo, gasTokenRate?: Amount): Promise<{
+    minBorrowAmount: string;
+    maxBorrowAmount: string;
+  }> {
+    let minBorrowAmount = ethers.parseEther(CONFIG.MIN_FLASH_LOAN_AMOUNT);
+    let maxBorrowAmount = ethers.parseEther(CONFIG.MAX_FLASH_LOAN_AMOUNT);
+
+    if (CONFIG.ARB_OPTIMIZER_ADDRESS) {
+      const optimizer = connectArbOptimizer(CONFIG.ARB_OPTIMIZER_ADDRESS, this.provider);
+      minBorrowAmount = await optimizer.minFlashLoanAmount();
+      maxBorrowAmount = await optimizer.maxFlashLoanAmount();
+    }
+    if (gasTokenRate) {
+      minBorrowAmount = Amount.from(minBorrowAmount, 18).convert(gasTokenRate, borrowToken.decimals).raw;
+      maxBorrowAmount = Amount.from(maxBorrowAmount, 18).convert(gasTokenRate, borrowToken.decimals).raw;
+    }
+
+    return {
+      minBorrowAmount: minBorrowAmount.toString(),
+      maxBorrowAmount: maxBorrowAmount.toString(),
+    };
+  }
+
+  /**
+   * Live premium and lendable liquidity of the borrow token from every configured
+   * source. A source that cannot be read is left out rather than assumed to lend.
+   */
+  private async quoteFlashLoans(
+    borrowToken: TokenInfo,
+    blockNumber: number,
+    routePools: string[]
+  ): Promise<FlashLoanQuote[]> {
+    const quotes: FlashLoanQuote[] = [];
+    for (const source of this.flashLoanSources) {
+      try {
+        quotes.push(...(await source.quote(borrowToken.address, blockNumber, routePools)));
+      } catch (error) {
+        console.log(
+          `⚠️  Cannot read ${source.name} flash loans of ${borrowToken.symbol}: ${(error as Error).message}`
+        );
+      }
+    }
+    return quotes;
+  }
+
+  /**
+   * Record pool state and base fees over the backtest window for offline replay
+   */
+  async recordBacktestData(
+    tokenPairs: Array<{ token0: string; token1: string }>,
+    filePath: string = CONFIG.BACKTEST_DATA_PATH
+  ): Promise<void> {
+    console.log(`📼 Recording ${CONFIG.BACKTEST_WINDOW}s of pool state...`);
+    const { fromBlock, toBlock, snapshots } = await Backtester.record(
+      this.monitor,
+      this.registry,
+      this.provider,
+      tokenPairs,
+      CONFIG.BACKTEST_WINDOW,
+      filePath
+    );
+    console.log(`✅ Recorded blocks ${fromBlock}-${toBlock} (${snapshots} state changes) to ${filePath}`);
+  }
+
+  /**
+   * Replay parameter sets over a recorded dataset; needs no RPC access
+   */
+  runBacktest(
+    parameterSets: BacktestParameters[],
+    filePath: string = CONFIG.BACKTEST_DATA_PATH
+  ): BacktestResult[] {
+    const backtester = new Backtester(Backtester.load(filePath), {
+      quoteAmount: CONFIG.QUOTE_AMOUNT,
+      flashLoanPremiumBps: CONFIG.FLASH_LOAN_PREMIUM_BPS,
+      builderTipBps: CONFIG.BUILDER_TIP_BPS,
+      safetyBufferBps: CONFIG.SAFETY_BUFFER_BPS,
+      minFlashLoanAmount: CONFIG.MIN_FLASH_LOAN_AMOUNT,
+      maxFlashLoanAmount: CONFIG.MAX_FLASH_LOAN_AMOUNT,
+      cooldownBlocks: CONFIG.ACTED_ON_COOLDOWN_BLOCKS,
+      wethAddress: CONFIG.WETH_ADDRESS,
+    });
+    return backtester.run(parameterSets);
+  }
+
+  /**
+   * Drop opportunities older than maxAgeBlocks from the monitor
+   */
+  pruneStaleOpportunities(currentBlock: number, maxAgeBlocks: number): number {
+    return this.monitor.pruneStaleOpportunities(currentBlock, maxAgeBlocks);
+  }
+
+  /**
+   * Export the run report in each requested format (see RunReporter)
    */
   exportReport(
     plans: ExecutionPlan[],
-    filePath: string
-  ): void {
-    const fs = require("fs");
-    const report = {
+    filePath: string,
+    formats: ReportFormat[] = CONFIG.REPORT_FORMATS
+  ): string[] {
+    // Profits in different borrow tokens cannot be summed, so total per token
+    const totals = new Map<string, { token: TokenInfo; netProfit: Amount }>();
+    for (const plan of plans) {
+      const key = plan.borrowToken.address;
+      const netProfit = Amount.from(plan.profitability.netProfit, plan.borrowToken.decimals);
+      const total = totals.get(key);
+      totals.set(key, {
+        token: plan.borrowToken,
+        netProfit: total ? total.netProfit.plus(netProfit) : netProfit,
+      });
+    }
+
+    // Settings that change which candidates become plans, compared by report diffs
+    const parameters: RunReport["parameters"] = {};
+    for (const key of [
+      "MIN_PROFIT_BPS",
+      "MAX_SLIPPAGE_BPS",
+      "QUOTE_AMOUNT",
+      "UNISWAP_V3_FEE",
+      "ORACLE_DEVIATION_BPS",
+      "FLASH_LOAN_PREMIUM_BPS",
+      "BUILDER_TIP_BPS",
+      "SAFETY_BUFFER_BPS",
+      "GAS_PRICE",
+      "GAS_UNITS_ESTIMATE",
+      "MIN_FLASH_LOAN_AMOUNT",
+      "MAX_FLASH_LOAN_AMOUNT",
+      "TOP_OPPORTUNITIES",
+    ] as const) {
+      parameters[key] = CONFIG[key];
+    }
+
+    const report: RunReport = {
       timestamp: new Date().toISOString(),
+      network: CONFIG.NETWORK,
+      chainId: CONFIG.CHAIN_ID,
+      parameters,
+      opportunities: this.lastRun.opportunities,
       executionPlans: plans,
+      rejected: this.lastRun.rejected,
       summary: {
-        totalOpportunities: plans.length,
-        totalPotentialProfit: plans.reduce(
-          (sum, p) => sum + Number(p.profitability.netProfit),
-          0
-        ),
+        totalOpportunities: this.lastRun.opportunities.length,
+        totalPlans: plans.length,
+        totalRejected: this.lastRun.rejected.length,
+        totalPotentialProfit: [...totals.values()].map(({ token, netProfit }) => ({
+          token: token.address,
+          symbol: token.symbol,
+          ...netProfit.toJSON(),
+        })),
       },
     };
 
-    fs.writeFileSync(filePath, JSON.stringify(report, null, 2));
-    console.log(`📄 Report exported to ${filePath}`);
+    const written = this.reporter.write(report, filePath, formats);
+    console.log(`📄 Report exported to ${written.join(", ")}`);
+    return written;
   }
 }
 
@@ -0,0 +1,310 @@
+// pool-catalogue.ts
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { ethers } from "ethers";
+import type OracleGuard from "./oracle-guard";
+import { virtualReservesFromV3 } from "./pool-events";
+import type TokenRegistry from "./token-registry";
+
+interface CataloguedPool {
+  address: string;
+  dex: "uniswap-v3" | "sushiswap";
+  token0: string;
+  token1: string;
+  symbol0: string;
+  symbol1: string;
+  decimals0: number;
+  decimals1: number;
+  fee: number; // Hundredths of a bip; V2 pairs always charge 3000
+  tickSpacing: number | null; // V3 only
+  createdBlock: number;
+  refreshedBlock: number | null; // Block liquidity and TVL were last read at
+  liquidityUsd: number | null; // In-range depth at the current price; null when neither token has a feed
+  tvlUsd: number | null; // Token balances held by the pool; null when neither token has a feed
+  eligible: boolean; // Has liquidity and passes the USD minimums
+}
+
+interface CatalogueState {
+  startBlock: number;
+  lastBlock: number; // Last block scanned for factory events
+  tokens: string[]; // Watched tokens (lowercase, sorted) the catalogue was built for
+  pools: CataloguedPool[];
+}
+
+interface PoolCatalogueOptions {
+  uniswapV3Factory: string; // Empty = venue not catalogued
+  sushiswapFactory: string;
+  statePath: string;
+  startBlock: number;
+  minLiquidityUsd: number;
+  minTvlUsd: number;
+  refreshBlocks: number; // Blocks before a pool's liquidity and TVL are read again
+  batchSize?: number;
+  reorgDepth?: number;
+}
+
+const FACTORY_EVENTS = new ethers.Interface([
+  "event PoolCreated(address indexed token0, address indexed token1, uint24 indexed fee, int24 tickSpacing, address pool)",
+  "event PairCreated(address indexed token0, address indexed token1, address pair, uint256)",
+]);
+const POOL_STATE = [
+  "function getReserves() view returns (uint112, uint112, uint32)",
+  "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16, uint16, uint16, uint8, bool)",
+  "function liquidity() view returns (uint128)",
+];
+const ERC20_BALANCE = ["function balanceOf(address) view returns (uint256)"];
+
+/**
+ * Local catalogue of every Uniswap V3 pool (all fee tiers) and Sushiswap pair between
+ * the watched tokens, built from factory PoolCreated/PairCreated events. Pools are
+ * periodically re-read and only those above the liquidity and TVL minimums are offered
+ * as venues.
+ */
+class PoolCatalogue {
+  private provider: ethers.Provider;
+  private registry: TokenRegistry;
+  private oracleGuard: OracleGuard;
+  private tokens: string[];
+  private options: PoolCatalogueOptions;
+  private batchSize: number;
+  private reorgDepth: number;
+  private state: CatalogueState;
+
+  constructor(
+    provider: ethers.Provider,
+    registry: TokenRegistry, // Resolves token metadata and the USD feed of each token
+    oracleGuard: OracleGuard,
+    tokens: string[],
+    options: PoolCatalogueOptions
+  ) {
+    this.provider = provider;
+    this.registry = registry;
+    this.oracleGuard = oracleGuard;
+    this.tokens = [...new Set(tokens.map((t) => t.toLowerCase()))].sort();
+    this.options = options;
+    this.batchSize = options.batchSize ?? 10000;
+    this.reorgDepth = options.reorgDepth ?? 64;
+    this.state = this.loadState();
+  }
+
+  /**
+   * Scan the factories up to `toBlock` (default: current head) for pools between watched
+   * tokens, checkpointing after each batch. The last reorgDepth blocks are scanned again
+   * and pools created there that the chain no longer has are dropped. Returns the pools
+   * added.
+   */
+  async sync(toBlock?: number): Promise<CataloguedPool[]> {
+    const head = toBlock ?? (await this.provider.getBlockNumber());
+    if (head <= this.state.lastBlock) return [];
+
+    const rescanFrom = Math.max(this.state.startBlock, this.state.lastBlock + 1 - this.reorgDepth);
+    const seen = new Set<string>();
+    const added: CataloguedPool[] = [];
+    for (let from = rescanFrom; from <= head; from += this.batchSize) {
+      const to = Math.min(from + this.batchSize - 1, head);
+      for (const pool of await this.scanRange(from, to)) {
+        seen.add(pool.address);
+        const existing = this.state.pools.find((p) => p.address === pool.address);
+        if (existing) {
+          existing.createdBlock = pool.createdBlock;
+        } else {
+          this.state.pools.push(pool);
+          added.push(pool);
+        }
+      }
+      this.state.lastBlock = Math.max(this.state.lastBlock, to);
+      this.saveState();
+    }
+
+    this.state.pools = this.state.pools.filter((p) => p.createdBlock < rescanFrom || seen.has(p.address));
+    this.saveState();
+    return added;
+  }
+
+  /**
+   * Re-read liquidity and TVL of pools last read more than refreshBlocks ago (every
+   * pool when `force` is set) and update their eligibility. Returns the pools read.
+   */
+  async refresh(blockNumber: number, force: boolean = false): Promise<number> {
+    let refreshed = 0;
+    for (const pool of this.state.pools) {
+      if (!force && pool.refreshedBlock !== null && blockNumber - pool.refreshedBlock < this.options.refreshBlocks) {
+        continue;
+      }
+      try {
+        const depth = await this.readDepth(pool, blockNumber);
+        pool.liquidityUsd = depth.liquidityUsd;
+        pool.tvlUsd = depth.tvlUsd;
+        pool.eligible =
+          depth.hasLiquidity &&
+          (depth.liquidityUsd === null || depth.liquidityUsd >= this.options.minLiquidityUsd) &&
+          (depth.tvlUsd === null || depth.tvlUsd >= this.options.minTvlUsd);
+      } catch (error) {
+        console.log(`⚠️  Cannot read ${pool.dex} pool ${pool.address}: ${(error as Error).message}`);
+        pool.eligible = false;
+      }
+      pool.refreshedBlock = blockNumber;
+      refreshed++;
+    }
+    if (refreshed > 0) this.saveState();
+    return refreshed;
+  }
+
+  /**
+   * Eligible pools between two tokens, across every DEX and fee tier
+   */
+  venues(tokenA: string, tokenB: string): CataloguedPool[] {
+    const pair = [tokenA.toLowerCase(), tokenB.toLowerCase()];
+    return this.state.pools.filter(
+      (p) => p.eligible && pair.includes(p.token0.toLowerCase()) && pair.includes(p.token1.toLowerCase())
+    );
+  }
+
+  /**
+   * Every catalogued pool, eligible or not
+   */
+  pools(): CataloguedPool[] {
+    return this.state.pools;
+  }
+
+  getLastScannedBlock(): number {
+    return this.state.lastBlock;
+  }
+
+  private async scanRange(from: number, to: number): Promise<CataloguedPool[]> {
+    if (this.tokens.length < 2) return [];
+    // Indexed token0/token1 topics restrict the logs to pools between watched tokens
+    const watched = this.tokens.map((t) => ethers.zeroPadValue(t, 32));
+    const factories = [
+      { dex: "uniswap-v3" as const, address: this.options.uniswapV3Factory, event: "PoolCreated" },
+      { dex: "sushiswap" as const, address: this.options.sushiswapFactory, event: "PairCreated" },
+    ].filter((f) => f.address !== "");
+
+    const pools: CataloguedPool[] = [];
+    for (const factory of factories) {
+      const logs = await this.provider.getLogs({
+        address: factory.address,
+        topics: [FACTORY_EVENTS.getEvent(factory.event)!.topicHash, watched, watched],
+        fromBlock: from,
+        toBlock: to,
+      });
+
+      for (const log of logs) {
+        const parsed = FACTORY_EVENTS.parseLog(log);
+        if (!parsed) continue;
+        const token0 = await this.registry.resolve(parsed.args.token0);
+        const token1 = await this.registry.resolve(parsed.args.token1);
+        const v3 = factory.dex === "uniswap-v3";
+        pools.push({
+          address: ethers.getAddress(v3 ? parsed.args.pool : parsed.args.pair),
+          dex: factory.dex,
+          token0: token0.address,
+          token1: token1.address,
+          symbol0: token0.symbol,
+          symbol1: token1.symbol,
+          decimals0: token0.decimals,
+          decimals1: token1.decimals,
+          fee: v3 ? Number(parsed.args.fee) : 3000,
+          tickSpacing: v3 ? Number(parsed.args.tickSpacing) : null,
+          createdBlock: log.blockNumber,
+          refreshedBlock: null,
+          liquidityUsd: null,
+          tvlUsd: null,
+          eligible: false,
+        });
+      }
+    }
+    return pools;
+  }
+
+  /**
+   * In-range depth and TVL in USD. V2 reserves are both; V3 depth is the virtual
+   * reserves of the active liquidity and TVL the pool's token balances.
+   */
+  private async readDepth(
+    pool: CataloguedPool,
+    blockNumber: number
+  ): Promise<{ hasLiquidity: boolean; liquidityUsd: number | null; tvlUsd: number | null }> {
+    const blockTag = { blockTag: blockNumber };
+    const contract = new ethers.Contract(pool.address, POOL_STATE, this.provider);
+
+    let depth: [bigint, bigint];
+    let balances: [bigint, bigint];
+    if (pool.dex === "sushiswap") {
+      const [reserve0, reserve1] = await contract.getReserves(blockTag);
+      depth = [reserve0, reserve1];
+      balances = depth;
+    } else {
+      const slot0 = await contract.slot0(blockTag);
+      const { reserve0, reserve1 } = virtualReservesFromV3(slot0.sqrtPriceX96, await contract.liquidity(blockTag));
+      depth = [reserve0, reserve1];
+      balances = [
+        await new ethers.Contract(pool.token0, ERC20_BALANCE, this.provider).balanceOf(pool.address, blockTag),
+        await new ethers.Contract(pool.token1, ERC20_BALANCE, this.provider).balanceOf(pool.address, blockTag),
+      ];
+    }
+
+    const hasLiquidity = depth[0] > BigInt(0) && depth[1] > BigInt(0);
+    return {
+      hasLiquidity,
+      liquidityUsd: await this.usdValue(pool, depth, blockNumber),
+      tvlUsd: await this.usdValue(pool, balances, blockNumber),
+    };
+  }
+
+  /**
+   * USD value of token amounts from the primary feeds. With only one side priced the
+   * pool is assumed balanced and that side doubled; null when neither side is priced.
+   */
+  private async usdValue(pool: CataloguedPool, amounts: [bigint, bigint], blockNumber: number): Promise<number | null> {
+    const price0 = await this.usdPrice(pool.token0, blockNumber);
+    const price1 = await this.usdPrice(pool.token1, blockNumber);
+    const value0 = price0 === null ? null : Number(ethers.formatUnits(amounts[0], pool.decimals0)) * price0;
+    const value1 = price1 === null ? null : Number(ethers.formatUnits(amounts[1], pool.decimals1)) * price1;
+
+    if (value0 !== null && value1 !== null) return value0 + value1;
+    if (value0 !== null) return value0 * 2;
+    if (value1 !== null) return value1 * 2;
+    return null;
+  }
+
+  private async usdPrice(token: string, blockNumber: number): Promise<number | null> {
+    const feed = this.registry.feedFor(token);
+    if (!feed) return null;
+    try {
+      return (await this.oracleGuard.readFeed(feed, blockNumber)).price;
+    } catch {
+      // Unusable round: leave the side unpriced rather than failing the pool
+      return null;
+    }
+  }
+
+  /**
+   * Load the saved catalogue, starting over when the watched token set has changed
+   */
+  private loadState(): CatalogueState {
+    const empty = {
+      startBlock: this.options.startBlock,
+      lastBlock: this.options.startBlock - 1,
+      tokens: this.tokens,
+      pools: [],
+    };
+    if (!existsSync(this.options.statePath)) return empty;
+
+    const saved: CatalogueState = JSON.parse(readFileSync(this.options.statePath, "utf8"));
+    if (saved.tokens.join() !== this.tokens.join() || saved.startBlock !== this.options.startBlock) {
+      console.log("🧭 Watched tokens or start block changed, rebuilding the pool catalogue");
+      return empty;
+    }
+    return saved;
+  }
+
+  private saveState(): void {
+    const dir = dirname(this.options.statePath);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    writeFileSync(this.options.statePath, JSON.stringify(this.state, null, 2));
+  }
+}
+
+export type { CataloguedPool, PoolCatalogueOptions };
+export default PoolCatalogue;
@@ -0,0 +1,108 @@
+// pool-events.ts
+import { ethers } from "ethers";
+
+export const POOL_EVENTS = new ethers.Interface([
+  // Uniswap V3 pool
+  "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+  // Uniswap V2 / Sushiswap pair
+  "event Sync(uint112 reserve0, uint112 reserve1)",
+  "event Swap(address indexed sender, uint256 amount0In, uint256 amount1In, uint256 amount0Out, uint256 amount1Out, address indexed to)",
+]);
+
+export const V3_SWAP_TOPIC = ethers.id(
+  "Swap(address,address,int256,int256,uint160,uint128,int24)"
+);
+export const V2_SYNC_TOPIC = ethers.id("Sync(uint112,uint112)");
+export const V2_SWAP_TOPIC = ethers.id("Swap(address,uint256,uint256,uint256,uint256,address)");
+
+export const Q96 = BigInt(2) ** BigInt(96);
+
+export type PoolEvent =
+  | {
+      kind: "v3-swap";
+      amount0: bigint;
+      amount1: bigint;
+      sqrtPriceX96: bigint;
+      liquidity: bigint;
+      tick: number;
+    }
+  | { kind: "v2-sync"; reserve0: bigint; reserve1: bigint }
+  | { kind: "v2-swap"; amount0: bigint; amount1: bigint };
+
+/**
+ * Decode a Uniswap V3 Swap or V2 Sync/Swap log. Returns null for any other topic.
+ * V2 swap amounts are converted to signed pool deltas (positive = into the pool)
+ * to match the V3 convention.
+ */
+export function decodePoolEvent(log: { topics: readonly string[]; data: string }): PoolEvent | null {
+  const topic = log.topics[0];
+
+  if (topic === V3_SWAP_TOPIC) {
+    const args = POOL_EVENTS.decodeEventLog(V3_SWAP_TOPIC, log.data, log.topics);
+    return {
+      kind: "v3-swap",
+      amount0: args.amount0,
+      amount1: args.amount1,
+      sqrtPriceX96: args.sqrtPriceX96,
+      liquidity: args.liquidity,
+      tick: Number(args.tick),
+    };
+  }
+
+  if (topic === V2_SYNC_TOPIC) {
+    const args = POOL_EVENTS.decodeEventLog(V2_SYNC_TOPIC, log.data, log.topics);
+    return { kind: "v2-sync", reserve0: args.reserve0, reserve1: args.reserve1 };
+  }
+
+  if (topic === V2_SWAP_TOPIC) {
+    const args = POOL_EVENTS.decodeEventLog(V2_SWAP_TOPIC, log.data, log.topics);
+    return {
+      kind: "v2-swap",
+      amount0: (args.amount0In as bigint) - (args.amount0Out as bigint),
+      amount1: (args.amount1In as bigint) - (args.amount1Out as bigint),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Price of token0 in token1 from a V3 sqrtPriceX96, adjusted for token decimals
+ */
+export function priceFromSqrtPriceX96(
+  sqrtPriceX96: bigint,
+  decimals0: number,
+  decimals1: number
+): number {
+  const sqrtPrice = Number(sqrtPriceX96) / Number(Q96);
+  return sqrtPrice * sqrtPrice * 10 ** (decimals0 - decimals1);
+}
+
+/**
+ * Price of token0 in token1 from V2 reserves, adjusted for token decimals
+ */
+export function priceFromReserves(
+  reserve0: bigint,
+  reserve1: bigint,
+  decimals0: number,
+  decimals1: number
+): number {
+  if (reserve0 === BigInt(0)) return 0;
+  return (
+    Number(ethers.formatUnits(reserve1, decimals1)) / Number(ethers.formatUnits(reserve0, decimals0))
+  );
+}
+
+/**
+ * Virtual reserves of a V3 pool at the current price: x = L / sqrtP, y = L * sqrtP
+ */
+export function virtualReservesFromV3(
+  sqrtPriceX96: bigint,
+  liquidity: bigint
+): { reserve0: bigint; reserve1: bigint } {
+  if (sqrtPriceX96 === BigInt(0)) return { reserve0: BigInt(0), reserve1: BigInt(0) };
+  return {
+    reserve0: (liquidity * Q96) / sqrtPriceX96,
+    reserve1: (liquidity * sqrtPriceX96) / Q96,
+  };
+}
@@ -1,27 +1,49 @@
 // profitability-calculator.ts
-import { ethers } from "ethers";
+import { Amount } from "./amount";
+import AmmSimulator from "./amm-simulator";
+import type { PoolSnapshot } from "./arbitrage-monitor";
+import type { GasForecast } from "./gas-oracle";
 
 interface ProfitabilityInput {
-  borrowAmount: string; // Wei
+  borrowAmount: string; // Borrow-token base units
+  borrowDecimals?: number; // Borrow-token decimals, default 18
   flashLoanPremiumBps: number;
-  gasPrice: string; // Wei
+  gasPrice: string; // Wei, used when no forecast is given
+  gasForecast?: GasForecast; // Next-block fee forecast; its expected gas price overrides gasPrice
+  gasTokenRate?: string; // Borrow-token base units per 1 ETH; unset = the borrow token is WETH
   gasUnitsEstimate: number;
-  leg1AmountOut: string; // Wei
-  leg2AmountOut: string; // Wei
+  leg1AmountOut: string; // Intermediate-token base units
+  leg2AmountOut: string; // Borrow-token base units
   builderTipBps: number;
   safetyBufferBps: number;
 }
 
+type CostInput = Omit<ProfitabilityInput, "leg1AmountOut" | "leg2AmountOut">;
+
+// Borrow-token base units unless noted
+interface ExecutionCosts {
+  flashLoanFee: string;
+  gasCost: string; // Converted into the borrow token
+  gasCostWei: string;
+  builderTip: string;
+  safetyBuffer: string;
+  totalCosts: string;
+}
+
+// Amounts are borrow-token base units unless noted
 interface DetailedProfitability {
   borrowAmount: string;
+  decimals: number; // Borrow-token decimals
   flashLoanFee: string;
-  gasCost: string;
+  gasCost: string; // Converted into the borrow token
+  gasCostWei: string;
   builderTip: string;
   safetyBuffer: string;
   totalCosts: string;
   grossProfit: string;
   netProfit: string;
   roi: number;
+  roiBps: number; // netProfit / borrowAmount in bps truncated toward zero, as ArbitrageAnalyzer reports it
   isProfitable: boolean;
   breakdownPercentages: {
     flashLoanFee: number;
@@ -29,114 +51,353 @@ interface DetailedProfitability {
     builderTip: number;
     safetyBuffer: number;
   };
+  breakdownBps: {
+    // Each cost / totalCosts in bps, truncated toward zero; all zero when there are no costs
+    flashLoanFee: number;
+    gasCost: number;
+    builderTip: number;
+    safetyBuffer: number;
+  };
+}
+
+interface RouteProfitabilityInput
+  extends Omit<ProfitabilityInput, "leg1AmountOut" | "leg2AmountOut"> {
+  borrowToken: string;
+  leg1Pool: PoolSnapshot;
+  leg2Pool: PoolSnapshot;
+}
+
+interface BorrowBounds {
+  minBorrowAmount: string; // Wei
+  maxBorrowAmount: string; // Wei
+  availableLiquidity?: string; // Wei the flash-loan pool can lend
+}
+
+interface OptimalBorrowResult {
+  optimalAmount: string;
+  maxProfit: string;
+  method: "closed-form" | "golden-section";
+  bounds: { minBorrowAmount: string; maxBorrowAmount: string };
+  profitability: DetailedProfitability;
+  curve: Array<{
+    borrowAmount: string;
+    leg1AmountOut: string;
+    leg2AmountOut: string;
+    netProfit: string; // Signed: negative when the size loses money
+  }>;
 }
 
 class ProfitabilityCalculator {
+  private simulator: AmmSimulator;
+
+  constructor(simulator: AmmSimulator = new AmmSimulator()) {
+    this.simulator = simulator;
+  }
+
   /**
-   * Calculate detailed profitability
+   * Calculate detailed profitability. Like ArbitrageAnalyzer, a zero borrow amount or
+   * leg output is rejected; use calculateCosts when only the cost side is needed.
    */
   calculateProfitability(input: ProfitabilityInput): DetailedProfitability {
-    const borrowAmount = BigInt(input.borrowAmount);
-    const leg1Out = BigInt(input.leg1AmountOut);
-    const leg2Out = BigInt(input.leg2AmountOut);
-    const gasPrice = BigInt(input.gasPrice);
-
-    // Calculate costs
-    const flashLoanFee = (borrowAmount * BigInt(input.flashLoanPremiumBps)) / BigInt(10000);
-    const gasCost = gasPrice * BigInt(input.gasUnitsEstimate);
-    const builderTip = (borrowAmount * BigInt(input.builderTipBps)) / BigInt(10000);
-    const safetyBuffer = (borrowAmount * BigInt(input.safetyBufferBps)) / BigInt(10000);
+    if (BigInt(input.borrowAmount) === BigInt(0)) throw new Error("InvalidInput: borrowAmount is zero");
+    if (BigInt(input.leg1AmountOut) === BigInt(0) || BigInt(input.leg2AmountOut) === BigInt(0)) {
+      throw new Error("InvalidInput: leg output is zero");
+    }
 
-    const totalCosts = flashLoanFee + gasCost + builderTip + safetyBuffer;
+    const decimals = input.borrowDecimals ?? 18;
+    const borrowAmount = Amount.from(input.borrowAmount, decimals);
+    const leg2Out = Amount.from(input.leg2AmountOut, decimals);
+    const { flashLoanFee, gasCostWei, gasCost, builderTip, safetyBuffer, totalCosts } = this.costAmounts(input);
 
     // Calculate profit
-    const grossProfit = leg2Out > borrowAmount ? leg2Out - borrowAmount : BigInt(0);
-    const netProfit = grossProfit > totalCosts ? grossProfit - totalCosts : BigInt(0);
-
-    // Calculate ROI
-    const roi = borrowAmount > BigInt(0) ? Number(netProfit) / Number(borrowAmount) : 0;
+    const grossProfit = leg2Out.minus(borrowAmount).floorAtZero();
+    const netProfit = grossProfit.minus(totalCosts).floorAtZero();
 
-    // Calculate percentages
-    const totalCostsNum = Number(totalCosts);
+    // Calculate ROI and cost shares on the fixed-point amounts
+    const roi = netProfit.ratio(borrowAmount);
     const breakdownPercentages = {
-      flashLoanFee: (Number(flashLoanFee) / totalCostsNum) * 100,
-      gasCost: (Number(gasCost) / totalCostsNum) * 100,
-      builderTip: (Number(builderTip) / totalCostsNum) * 100,
-      safetyBuffer: (Number(safetyBuffer) / totalCostsNum) * 100,
+      flashLoanFee: flashLoanFee.ratio(totalCosts) * 100,
+      gasCost: gasCost.ratio(totalCosts) * 100,
+      builderTip: builderTip.ratio(totalCosts) * 100,
+      safetyBuffer: safetyBuffer.ratio(totalCosts) * 100,
     };
 
+    // Integer bps, truncated toward zero like Solidity division in ArbitrageAnalyzer
+    const bpsOf = (part: Amount, whole: Amount): number =>
+      whole.isZero() ? 0 : Number((part.raw * BigInt(10000)) / whole.raw);
+
     return {
       borrowAmount: borrowAmount.toString(),
+      decimals,
       flashLoanFee: flashLoanFee.toString(),
       gasCost: gasCost.toString(),
+      gasCostWei: gasCostWei.toString(),
       builderTip: builderTip.toString(),
       safetyBuffer: safetyBuffer.toString(),
       totalCosts: totalCosts.toString(),
       grossProfit: grossProfit.toString(),
       netProfit: netProfit.toString(),
       roi,
-      isProfitable: netProfit > BigInt(0),
+      roiBps: bpsOf(netProfit, borrowAmount),
+      isProfitable: netProfit.isPositive(),
       breakdownPercentages,
+      breakdownBps: {
+        flashLoanFee: bpsOf(flashLoanFee, totalCosts),
+        gasCost: bpsOf(gasCost, totalCosts),
+        builderTip: bpsOf(builderTip, totalCosts),
+        safetyBuffer: bpsOf(safetyBuffer, totalCosts),
+      },
     };
   }
 
   /**
-   * Find optimal borrow amount for maximum profit
+   * Flash-loan fee, gas, builder tip and safety buffer of a borrow size, without the route
+   */
+  calculateCosts(input: CostInput): ExecutionCosts {
+    const costs = this.costAmounts(input);
+    return {
+      flashLoanFee: costs.flashLoanFee.toString(),
+      gasCost: costs.gasCost.toString(),
+      gasCostWei: costs.gasCostWei.toString(),
+      builderTip: costs.builderTip.toString(),
+      safetyBuffer: costs.safetyBuffer.toString(),
+      totalCosts: costs.totalCosts.toString(),
+    };
+  }
+
+  private costAmounts(input: CostInput): Record<keyof ExecutionCosts, Amount> {
+    const decimals = input.borrowDecimals ?? 18;
+    const borrowAmount = Amount.from(input.borrowAmount, decimals);
+    const gasPrice = BigInt(input.gasForecast?.gasPrice ?? input.gasPrice);
+
+    const flashLoanFee = borrowAmount.mulBps(input.flashLoanPremiumBps);
+    const gasCostWei = Amount.from(gasPrice * BigInt(input.gasUnitsEstimate), 18);
+    if (!input.gasTokenRate && decimals !== 18) {
+      throw new Error(`gasTokenRate is required to price gas in a ${decimals}-decimal borrow token`);
+    }
+    const gasCost = input.gasTokenRate
+      ? gasCostWei.convert(Amount.from(input.gasTokenRate, decimals), decimals)
+      : gasCostWei;
+    const builderTip = borrowAmount.mulBps(input.builderTipBps);
+    const safetyBuffer = borrowAmount.mulBps(input.safetyBufferBps);
+
+    return {
+      flashLoanFee,
+      gasCost,
+      gasCostWei,
+      builderTip,
+      safetyBuffer,
+      totalCosts: flashLoanFee.plus(gasCost).plus(builderTip).plus(safetyBuffer),
+    };
+  }
+
+  /**
+   * Calculate profitability with leg outputs simulated against pool state
+   */
+  calculateRouteProfitability(input: RouteProfitabilityInput): DetailedProfitability {
+    const { borrowToken, leg1Pool, leg2Pool, ...costs } = input;
+    const simulation = this.simulator.simulateRoute(
+      borrowToken,
+      BigInt(input.borrowAmount),
+      leg1Pool,
+      leg2Pool
+    );
+
+    return this.calculateProfitability({
+      ...costs,
+      leg1AmountOut: simulation.leg1AmountOut.toString(),
+      leg2AmountOut: simulation.leg2AmountOut.toString(),
+    });
+  }
+
+  /**
+   * Find the borrow amount that maximises net profit along the real price-impact
+   * curves of both pools. Two constant-product pools are solved in closed form;
+   * anything involving V3 uses a golden-section search over the exact simulation
+   * (net profit is concave in the borrow amount, so the search is bracketed).
    */
   findOptimalBorrowAmount(
-    minBorrowAmount: string,
-    maxBorrowAmount: string,
-    step: string,
-    priceRatio: number, // leg2Out / leg1Out expected ratio
-    input: Omit<ProfitabilityInput, "borrowAmount" | "leg1AmountOut" | "leg2AmountOut">
-  ): {
-    optimalAmount: string;
-    maxProfit: string;
-    profitability: DetailedProfitability;
-  } {
-    let maxProfit = BigInt(0);
-    let optimalAmount = BigInt(minBorrowAmount);
-
-    let current = BigInt(minBorrowAmount);
-    const max = BigInt(maxBorrowAmount);
-    const stepSize = BigInt(step);
-
-    while (current <= max) {
-      const leg1Out = current; // Assume 1:1 for simplicity
-      const leg2Out = BigInt(Math.floor(Number(leg1Out) * priceRatio));
-
-      const profitability = this.calculateProfitability({
-        ...input,
-        borrowAmount: current.toString(),
-        leg1AmountOut: leg1Out.toString(),
-        leg2AmountOut: leg2Out.toString(),
-      });
+    route: { borrowToken: string; leg1Pool: PoolSnapshot; leg2Pool: PoolSnapshot },
+    bounds: BorrowBounds,
+    input: Omit<ProfitabilityInput, "borrowAmount" | "leg1AmountOut" | "leg2AmountOut">,
+    curvePoints: number = 20
+  ): OptimalBorrowResult {
+    const min = BigInt(bounds.minBorrowAmount);
+    let max = BigInt(bounds.maxBorrowAmount);
+    if (bounds.availableLiquidity !== undefined && BigInt(bounds.availableLiquidity) < max) {
+      max = BigInt(bounds.availableLiquidity);
+    }
+    if (max < min) {
+      throw new Error(`No borrowable amount: max ${max} is below min ${min}`);
+    }
 
-      const netProfit = BigInt(profitability.netProfit);
-      if (netProfit > maxProfit) {
-        maxProfit = netProfit;
-        optimalAmount = current;
-      }
+    const objective = (amount: bigint): bigint => this.signedNetProfit(route, amount, input);
 
-      current += stepSize;
+    let optimalAmount: bigint;
+    let method: OptimalBorrowResult["method"];
+    if (route.leg1Pool.poolType === "uniswap-v2" && route.leg2Pool.poolType === "uniswap-v2") {
+      method = "closed-form";
+      optimalAmount = this.constantProductOptimum(route, input);
+    } else {
+      method = "golden-section";
+      optimalAmount = this.goldenSectionSearch(objective, min, max);
     }
+    if (optimalAmount < min) optimalAmount = min;
+    if (optimalAmount > max) optimalAmount = max;
 
-    const finalProfitability = this.calculateProfitability({
+    const profitability = this.calculateRouteProfitability({
+      ...route,
       ...input,
       borrowAmount: optimalAmount.toString(),
-      leg1AmountOut: optimalAmount.toString(),
-      leg2AmountOut: BigInt(Math.floor(Number(optimalAmount) * priceRatio)).toString(),
     });
 
+    // Profit-vs-size curve for reporting, evenly spaced across the bounds
+    const curve: OptimalBorrowResult["curve"] = [];
+    const samples = new Set<bigint>([optimalAmount]);
+    for (let i = 0; i <= curvePoints; i++) {
+      samples.add(min + ((max - min) * BigInt(i)) / BigInt(Math.max(curvePoints, 1)));
+    }
+    for (const amount of [...samples].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0))) {
+      const simulation = this.simulator.simulateRoute(
+        route.borrowToken,
+        amount,
+        route.leg1Pool,
+        route.leg2Pool
+      );
+      curve.push({
+        borrowAmount: amount.toString(),
+        leg1AmountOut: simulation.leg1AmountOut.toString(),
+        leg2AmountOut: simulation.leg2AmountOut.toString(),
+        netProfit: objective(amount).toString(),
+      });
+    }
+
     return {
       optimalAmount: optimalAmount.toString(),
-      maxProfit: maxProfit.toString(),
-      profitability: finalProfitability,
+      maxProfit: profitability.netProfit,
+      method,
+      bounds: { minBorrowAmount: min.toString(), maxBorrowAmount: max.toString() },
+      profitability,
+      curve,
     };
   }
 
   /**
-   * Sensitivity analysis: how profit changes with parameter variations
+   * Net profit without the zero floor, so the optimiser can see how unprofitable a size is
+   */
+  private signedNetProfit(
+    route: { borrowToken: string; leg1Pool: PoolSnapshot; leg2Pool: PoolSnapshot },
+    amount: bigint,
+    input: Omit<ProfitabilityInput, "borrowAmount" | "leg1AmountOut" | "leg2AmountOut">
+  ): bigint {
+    let leg2Out: bigint;
+    try {
+      leg2Out = this.simulator.simulateRoute(
+        route.borrowToken,
+        amount,
+        route.leg1Pool,
+        route.leg2Pool
+      ).leg2AmountOut;
+    } catch {
+      leg2Out = BigInt(0);
+    }
+
+    const costs = this.calculateCosts({ ...input, borrowAmount: amount.toString() });
+    return leg2Out - amount - BigInt(costs.totalCosts);
+  }
+
+  /**
+   * Closed-form optimum for two constant-product pools.
+   * out(x) = K·x / (C + D·x) with K = γ1·γ2·b1·a2, C = a1·b2, D = γ1·(b2 + γ2·b1);
+   * maximising out(x) - x·(1 + c), where c is the bps-proportional cost rate, gives
+   * x* = (sqrt(K·C / (1 + c)) - C) / D.
+   */
+  private constantProductOptimum(
+    route: { borrowToken: string; leg1Pool: PoolSnapshot; leg2Pool: PoolSnapshot },
+    input: Omit<ProfitabilityInput, "borrowAmount" | "leg1AmountOut" | "leg2AmountOut">
+  ): bigint {
+    const { leg1Pool, leg2Pool } = route;
+    const borrowIsToken0 = route.borrowToken.toLowerCase() === leg1Pool.token0.toLowerCase();
+    const [a1, b1] = borrowIsToken0
+      ? [leg1Pool.reserve0, leg1Pool.reserve1]
+      : [leg1Pool.reserve1, leg1Pool.reserve0];
+    const leg2InIsToken0 = (borrowIsToken0 ? leg1Pool.token1 : leg1Pool.token0).toLowerCase() ===
+      leg2Pool.token0.toLowerCase();
+    const [b2, a2] = leg2InIsToken0
+      ? [leg2Pool.reserve0, leg2Pool.reserve1]
+      : [leg2Pool.reserve1, leg2Pool.reserve0];
+
+    const F = BigInt(1_000_000);
+    const g1 = F - BigInt(leg1Pool.fee);
+    const g2 = F - BigInt(leg2Pool.fee);
+    const costBps = BigInt(input.flashLoanPremiumBps + input.builderTipBps + input.safetyBufferBps);
+
+    const radicand = (g1 * g2 * a1 * b1 * a2 * b2 * BigInt(10000)) / (BigInt(10000) + costBps);
+    const numerator = (this.sqrt(radicand) - F * a1 * b2) * F;
+    if (numerator <= BigInt(0)) return BigInt(0);
+    return numerator / (g1 * (F * b2 + g2 * b1));
+  }
+
+  /**
+   * Golden-section search for the maximum of a concave objective on [lo, hi]
+   */
+  private goldenSectionSearch(objective: (x: bigint) => bigint, lo: bigint, hi: bigint): bigint {
+    const INV_PHI = BigInt(618034); // 1/φ scaled by 1e6
+    const SCALE = BigInt(1_000_000);
+    const tolerance = hi / BigInt(1_000_000) > BigInt(1) ? hi / BigInt(1_000_000) : BigInt(1);
+
+    let c = hi - ((hi - lo) * INV_PHI) / SCALE;
+    let d = lo + ((hi - lo) * INV_PHI) / SCALE;
+    let fc = objective(c);
+    let fd = objective(d);
+
+    while (hi - lo > tolerance) {
+      if (fc >= fd) {
+        hi = d;
+        d = c;
+        fd = fc;
+        c = hi - ((hi - lo) * INV_PHI) / SCALE;
+        fc = objective(c);
+      } else {
+        lo = c;
+        c = d;
+        fc = fd;
+        d = lo + ((hi - lo) * INV_PHI) / SCALE;
+        fd = objective(d);
+      }
+    }
+
+    // Endpoints can win when the optimum lies on a bound
+    let best = lo;
+    let bestProfit = objective(lo);
+    for (const candidate of [c, d, hi]) {
+      const profit = objective(candidate);
+      if (profit > bestProfit) {
+        best = candidate;
+        bestProfit = profit;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Integer square root (floor)
+   */
+  private sqrt(value: bigint): bigint {
+    if (value < BigInt(2)) return value;
+    let x = value;
+    let y = (x + BigInt(1)) / BigInt(2);
+    while (y < x) {
+      x = y;
+      y = (x + value / x) / BigInt(2);
+    }
+    return x;
+  }
+
+  /**
+   * Sensitivity analysis: how profit changes with parameter variations. With a gas
+   * forecast, multipliers apply to its expected price and its low/high scenarios are
+   * evaluated too.
    */
   sensitivityAnalysis(
     baseInput: ProfitabilityInput,
@@ -145,24 +406,40 @@ class ProfitabilityCalculator {
       flashLoanPremium: number[];
     }
   ): Array<{
+    gasScenario: string;
     gasPrice: string;
     flashLoanPremium: number;
     netProfit: string;
     roi: number;
   }> {
     const results = [];
+    const forecast = baseInput.gasForecast;
+    const baseGasPrice = BigInt(forecast?.gasPrice ?? baseInput.gasPrice);
+
+    const gasPoints = variations.gasPrice.map((multiplier) => ({
+      gasScenario: `x${multiplier}`,
+      gasPrice: (baseGasPrice * BigInt(Math.floor(multiplier * 100)) / BigInt(100)).toString(),
+    }));
+    if (forecast) {
+      gasPoints.push(
+        { gasScenario: "forecast-low", gasPrice: forecast.scenarios.low },
+        { gasScenario: "forecast-high", gasPrice: forecast.scenarios.high }
+      );
+    }
 
-    for (const gasPriceMultiplier of variations.gasPrice) {
+    for (const { gasScenario, gasPrice } of gasPoints) {
       for (const flashLoanPremium of variations.flashLoanPremium) {
         const adjustedInput: ProfitabilityInput = {
           ...baseInput,
-          gasPrice: (BigInt(baseInput.gasPrice) * BigInt(Math.floor(gasPriceMultiplier * 100)) / BigInt(100)).toString(),
+          gasForecast: undefined,
+          gasPrice,
           flashLoanPremiumBps: flashLoanPremium,
         };
 
         const profitability = this.calculateProfitability(adjustedInput);
 
         results.push({
+          gasScenario,
           gasPrice: adjustedInput.gasPrice,
           flashLoanPremium,
           netProfit: profitability.netProfit,
@@ -175,4 +452,5 @@ class ProfitabilityCalculator {
   }
 }
 
+export type { ProfitabilityInput, DetailedProfitability, ExecutionCosts, OptimalBorrowResult };
 export default ProfitabilityCalculator;
\ No newline at end of file
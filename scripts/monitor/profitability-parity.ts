@@ -0,0 +1,230 @@
+// profitability-parity.ts
+import ProfitabilityCalculator, { DetailedProfitability, ProfitabilityInput } from "./profitability-calculator";
+import { mulberry32 } from "./risk-simulator";
+import type { ArbitrageAnalyzerContract, ProfitabilityBreakdownOutput } from "./bindings/ArbitrageAnalyzer";
+
+// One fuzz case, in the units both implementations share (18-decimal borrow token, wei gas)
+interface ParityCase {
+  borrowAmount: bigint;
+  flashLoanPremiumBps: number;
+  gasPrice: bigint;
+  gasUnitsEstimate: number;
+  leg1AmountOut: bigint;
+  leg2AmountOut: bigint;
+  builderTipBps: number;
+  safetyBufferBps: number;
+}
+
+interface ParityMismatch {
+  input: Record<keyof ParityCase, string>;
+  field: string;
+  typescript: string;
+  solidity: string;
+}
+
+interface ParityReport {
+  runs: number;
+  seed: number;
+  matched: number;
+  mismatches: ParityMismatch[];
+}
+
+// Fields compared exactly; TS floats (roi, breakdownPercentages) are checked through their bps twins
+const COMPARED_FIELDS = [
+  "flashLoanFee",
+  "gasCost",
+  "builderTip",
+  "safetyBuffer",
+  "totalCosts",
+  "grossProfit",
+  "netProfit",
+  "isProfitable",
+  "roiBps",
+  "breakdownBps.flashLoanFee",
+  "breakdownBps.gasCost",
+  "breakdownBps.builderTip",
+  "breakdownBps.safetyBuffer",
+] as const;
+
+const E18 = BigInt(10) ** BigInt(18);
+
+/**
+ * Fuzzes ProfitabilityCalculator against a deployed ArbitrageAnalyzer with identical
+ * inputs and reports every field on which the two cost models disagree, including
+ * inputs one side rejects and the other accepts.
+ */
+class ProfitabilityParity {
+  private analyzer: ArbitrageAnalyzerContract;
+  private calculator: ProfitabilityCalculator;
+
+  constructor(analyzer: ArbitrageAnalyzerContract, calculator: ProfitabilityCalculator = new ProfitabilityCalculator()) {
+    this.analyzer = analyzer;
+    this.calculator = calculator;
+  }
+
+  /**
+   * Run `runs` seeded cases; the same seed replays the same inputs
+   */
+  async run(runs: number, seed: number = Date.now() >>> 0): Promise<ParityReport> {
+    const random = mulberry32(seed);
+    const mismatches: ParityMismatch[] = [];
+    let matched = 0;
+
+    for (let i = 0; i < runs; i++) {
+      const found = await this.compare(this.generateCase(random));
+      if (found.length === 0) matched++;
+      mismatches.push(...found);
+    }
+    return { runs, seed, matched, mismatches };
+  }
+
+  /**
+   * Evaluate one case on both sides and list the fields that differ
+   */
+  async compare(input: ParityCase): Promise<ParityMismatch[]> {
+    const printable = Object.fromEntries(
+      Object.entries(input).map(([key, value]) => [key, value.toString()])
+    ) as ParityMismatch["input"];
+
+    let typescript: DetailedProfitability | Error;
+    try {
+      typescript = this.calculator.calculateProfitability(this.toCalculatorInput(input));
+    } catch (error) {
+      typescript = error as Error;
+    }
+
+    let solidity: ProfitabilityBreakdownOutput | Error;
+    try {
+      solidity = await this.analyzer.calculateProfitability.staticCall(
+        input.borrowAmount,
+        input.flashLoanPremiumBps,
+        input.gasPrice,
+        input.gasUnitsEstimate,
+        input.leg1AmountOut,
+        input.leg2AmountOut,
+        input.builderTipBps,
+        input.safetyBufferBps
+      );
+    } catch (error) {
+      solidity = error as Error;
+    }
+
+    if (typescript instanceof Error || solidity instanceof Error) {
+      if (typescript instanceof Error && solidity instanceof Error) return [];
+      return [
+        {
+          input: printable,
+          field: "outcome",
+          typescript: typescript instanceof Error ? `threw: ${typescript.message}` : "ok",
+          solidity: solidity instanceof Error ? `reverted: ${revertName(solidity)}` : "ok",
+        },
+      ];
+    }
+
+    const ts = this.normalizeTypescript(typescript);
+    const sol = this.normalizeSolidity(solidity);
+    return COMPARED_FIELDS.filter((field) => ts[field] !== sol[field]).map((field) => ({
+      input: printable,
+      field,
+      typescript: ts[field],
+      solidity: sol[field],
+    }));
+  }
+
+  /**
+   * Mostly realistic trades, with a share of edge cases: zero fees and gas (no costs),
+   * losing routes, zero inputs the contract rejects and very large outputs
+   */
+  private generateCase(random: () => number): ParityCase {
+    const pick = <T>(values: T[]): T => values[Math.floor(random() * values.length)];
+    const between = (min: number, max: number) => Math.floor(min + random() * (max - min + 1));
+    const ether = (max: number) => (BigInt(Math.floor(random() * max * 1e6)) * E18) / BigInt(1e6);
+
+    const borrowAmount = pick([ether(1000), ether(1000), ether(1000), BigInt(between(1, 10000)), BigInt(0)]);
+    // Output within about +-2% of the borrow amount, so both profitable and losing routes appear
+    const drift = BigInt(between(-200, 200));
+    const leg2AmountOut = pick([
+      borrowAmount + (borrowAmount * drift) / BigInt(10000),
+      borrowAmount + (borrowAmount * drift) / BigInt(10000),
+      borrowAmount,
+      BigInt(0),
+      E18 ** BigInt(3),
+    ]);
+
+    return {
+      borrowAmount,
+      flashLoanPremiumBps: pick([0, 5, 9, between(0, 100)]),
+      gasPrice: pick([BigInt(0), BigInt(between(1, 500)) * BigInt(1e9), BigInt(between(1, 1000))]),
+      gasUnitsEstimate: pick([0, 21000, between(150000, 1500000)]),
+      leg1AmountOut: pick([
+        BigInt(between(1, 1e9)) * BigInt(1e12),
+        BigInt(between(1, 1e9)) * BigInt(1e12),
+        BigInt(between(1, 1e9)) * BigInt(1e12),
+        BigInt(0),
+      ]),
+      leg2AmountOut,
+      builderTipBps: pick([0, between(0, 500)]),
+      safetyBufferBps: pick([0, between(0, 200)]),
+    };
+  }
+
+  private toCalculatorInput(input: ParityCase): ProfitabilityInput {
+    return {
+      borrowAmount: input.borrowAmount.toString(),
+      flashLoanPremiumBps: input.flashLoanPremiumBps,
+      gasPrice: input.gasPrice.toString(),
+      gasUnitsEstimate: input.gasUnitsEstimate,
+      leg1AmountOut: input.leg1AmountOut.toString(),
+      leg2AmountOut: input.leg2AmountOut.toString(),
+      builderTipBps: input.builderTipBps,
+      safetyBufferBps: input.safetyBufferBps,
+    };
+  }
+
+  private normalizeTypescript(p: DetailedProfitability): Record<(typeof COMPARED_FIELDS)[number], string> {
+    return {
+      flashLoanFee: p.flashLoanFee,
+      gasCost: p.gasCost,
+      builderTip: p.builderTip,
+      safetyBuffer: p.safetyBuffer,
+      totalCosts: p.totalCosts,
+      grossProfit: p.grossProfit,
+      netProfit: p.netProfit,
+      isProfitable: String(p.isProfitable),
+      roiBps: String(p.roiBps),
+      "breakdownBps.flashLoanFee": String(p.breakdownBps.flashLoanFee),
+      "breakdownBps.gasCost": String(p.breakdownBps.gasCost),
+      "breakdownBps.builderTip": String(p.breakdownBps.builderTip),
+      "breakdownBps.safetyBuffer": String(p.breakdownBps.safetyBuffer),
+    };
+  }
+
+  private normalizeSolidity(p: ProfitabilityBreakdownOutput): Record<(typeof COMPARED_FIELDS)[number], string> {
+    return {
+      flashLoanFee: p.flashLoanFee.toString(),
+      gasCost: p.gasCost.toString(),
+      builderTip: p.builderTip.toString(),
+      safetyBuffer: p.safetyBuffer.toString(),
+      totalCosts: p.totalCosts.toString(),
+      grossProfit: p.grossProfit.toString(),
+      netProfit: p.netProfit.toString(),
+      isProfitable: String(p.isProfitable),
+      roiBps: String(Number(p.roi)), // roiBps is a JS number on the TS side, exact below 2^53 bps
+      "breakdownBps.flashLoanFee": p.costBreakdown.flashLoanFeePercent.toString(),
+      "breakdownBps.gasCost": p.costBreakdown.gasCostPercent.toString(),
+      "breakdownBps.builderTip": p.costBreakdown.builderTipPercent.toString(),
+      "breakdownBps.safetyBuffer": p.costBreakdown.safetyBufferPercent.toString(),
+    };
+  }
+}
+
+/**
+ * Custom error name (e.g. InvalidInput) or the shortest message ethers gives
+ */
+function revertName(error: Error): string {
+  const e = error as Error & { revert?: { name: string }; shortMessage?: string };
+  return e.revert?.name ?? e.shortMessage ?? e.message;
+}
+
+export type { ParityCase, ParityMismatch, ParityReport };
+export default ProfitabilityParity;
@@ -0,0 +1,189 @@
+// risk-simulator.ts
+import { Amount } from "./amount";
+import type { ExecutionPlan } from "./orchestrator";
+import type TradeLedger from "./trade-ledger";
+import type { TradeRecord } from "./trade-ledger";
+
+interface RiskOptions {
+  trials: number;
+  confidence: number; // VaR/CVaR level, e.g. 0.95
+  deadlineSeconds: number; // Inclusions later than this revert
+  minLedgerSamples: number; // Trades needed before ledger distributions replace the priors
+  seed?: number; // Fixes the sample stream for reproducible reports
+}
+
+// Used until the ledger holds enough executions
+interface RiskPriors {
+  gasPriceVolatility: number; // Std dev of log(gas price / forecast)
+  revertProbability: number;
+  slippageBps: { mean: number; stdDev: number }; // Shortfall vs quoted profit
+  inclusionSeconds: { mean: number; stdDev: number };
+}
+
+interface PlanRisk {
+  trials: number;
+  source: "ledger" | "priors";
+  expectedValue: Amount; // Borrow token
+  probabilityOfLoss: number; // 0..1
+  valueAtRisk: Amount; // Loss not exceeded at `confidence` (positive = loss)
+  conditionalValueAtRisk: Amount; // Mean loss beyond the VaR
+  revertProbability: number; // Share of trials that reverted (fees lost, gas paid)
+  suggestedSafetyBufferBps: number; // Buffer covering the gap to the VaR outcome
+}
+
+const DEFAULT_PRIORS: RiskPriors = {
+  gasPriceVolatility: 0.25,
+  revertProbability: 0.1,
+  slippageBps: { mean: 0, stdDev: 1500 },
+  inclusionSeconds: { mean: 12, stdDev: 6 },
+};
+
+const SCALE = BigInt(1_000_000);
+
+/**
+ * Monte Carlo model of what an execution plan returns once it meets the chain.
+ * Each trial samples the gas price, inclusion delay and outcome (revert, or
+ * profit shortfall from price movement and front-running) from the trade
+ * ledger's history, or from priors while the ledger is thin.
+ */
+class RiskSimulator {
+  private ledger: TradeLedger | null;
+  private options: RiskOptions;
+  private priors: RiskPriors;
+  private random: () => number;
+
+  constructor(ledger: TradeLedger | null, options: RiskOptions, priors: RiskPriors = DEFAULT_PRIORS) {
+    this.ledger = ledger;
+    this.options = options;
+    this.priors = priors;
+    this.random = options.seed !== undefined ? mulberry32(options.seed) : Math.random;
+  }
+
+  /**
+   * Simulate one plan. Gas is scaled around the plan's own gas cost, so the forecast
+   * it was priced with stays the centre of the distribution.
+   */
+  analyze(plan: ExecutionPlan): PlanRisk {
+    const decimals = plan.borrowToken.decimals;
+    const p = plan.profitability;
+    const gasCost = BigInt(p.gasCost);
+    const feesAndTip = BigInt(p.flashLoanFee) + BigInt(p.builderTip);
+    const quotedNet = BigInt(p.netProfit);
+    // Profit before the safety buffer: what a trade that lands exactly as quoted returns
+    const quotedBeforeBuffer = BigInt(p.grossProfit) - feesAndTip - gasCost;
+
+    const trades = this.ledger?.query({}) ?? [];
+    const source = trades.length >= this.options.minLedgerSamples ? "ledger" : "priors";
+    const sampler = source === "ledger" ? this.ledgerSampler(trades) : this.priorSampler();
+
+    const outcomes: bigint[] = [];
+    let reverts = 0;
+    for (let i = 0; i < this.options.trials; i++) {
+      const gasMultiplier = BigInt(Math.round(sampler.gasMultiplier() * Number(SCALE)));
+      const sampledGas = (gasCost * gasMultiplier) / SCALE;
+
+      if (sampler.reverts() || sampler.inclusionSeconds() > this.options.deadlineSeconds) {
+        reverts++;
+        outcomes.push(-sampledGas);
+        continue;
+      }
+
+      // Ledger slippage is the shortfall of realised against quoted net profit
+      const shortfall = (quotedNet * BigInt(Math.round(sampler.slippageBps()))) / BigInt(10000);
+      outcomes.push(quotedBeforeBuffer + gasCost - sampledGas - shortfall);
+    }
+
+    outcomes.sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+    const total = outcomes.reduce((sum, x) => sum + x, BigInt(0));
+    const tailCount = Math.max(1, Math.floor(outcomes.length * (1 - this.options.confidence)));
+    const tail = outcomes.slice(0, tailCount);
+    const varOutcome = tail[tail.length - 1];
+    const tailMean = tail.reduce((sum, x) => sum + x, BigInt(0)) / BigInt(tail.length);
+
+    const borrowAmount = BigInt(plan.borrowAmount);
+    const gap = quotedBeforeBuffer - varOutcome;
+    const suggestedSafetyBufferBps =
+      borrowAmount > BigInt(0) && gap > BigInt(0)
+        ? Number((gap * BigInt(10000) + borrowAmount - BigInt(1)) / borrowAmount)
+        : 0;
+
+    return {
+      trials: outcomes.length,
+      source,
+      expectedValue: Amount.from(total / BigInt(outcomes.length), decimals),
+      probabilityOfLoss: outcomes.filter((x) => x < BigInt(0)).length / outcomes.length,
+      valueAtRisk: Amount.from(-varOutcome, decimals),
+      conditionalValueAtRisk: Amount.from(-tailMean, decimals),
+      revertProbability: reverts / outcomes.length,
+      suggestedSafetyBufferBps,
+    };
+  }
+
+  /**
+   * Empirical distributions: bootstrap slippage and inclusion delay from successful
+   * trades, revert rate with a uniform prior, gas spread from the log-dispersion of
+   * effective gas prices around their median
+   */
+  private ledgerSampler(trades: TradeRecord[]): Sampler {
+    const successes = trades.filter((t) => t.status === "success");
+    const reverted = trades.length - successes.length;
+    const revertProbability = (reverted + 1) / (trades.length + 2);
+
+    const logPrices = trades.map((t) => Math.log(Number(BigInt(t.effectiveGasPrice)) || 1));
+    const medianLog = [...logPrices].sort((a, b) => a - b)[Math.floor(logPrices.length / 2)];
+    const gasMultipliers = logPrices.map((l) => Math.exp(l - medianLog));
+
+    const pick = <T>(values: T[], fallback: T): T =>
+      values.length > 0 ? values[Math.floor(this.random() * values.length)] : fallback;
+
+    return {
+      gasMultiplier: () => pick(gasMultipliers, 1),
+      reverts: () => this.random() < revertProbability,
+      slippageBps: () => pick(successes.map((t) => t.slippageBps), 0),
+      inclusionSeconds: () => pick(successes.map((t) => t.timeToInclusion), 0),
+    };
+  }
+
+  private priorSampler(): Sampler {
+    const { gasPriceVolatility, revertProbability, slippageBps, inclusionSeconds } = this.priors;
+    return {
+      gasMultiplier: () => Math.exp(this.normal() * gasPriceVolatility),
+      reverts: () => this.random() < revertProbability,
+      slippageBps: () => slippageBps.mean + this.normal() * slippageBps.stdDev,
+      inclusionSeconds: () => Math.max(0, inclusionSeconds.mean + this.normal() * inclusionSeconds.stdDev),
+    };
+  }
+
+  /**
+   * Standard normal sample (Box-Muller)
+   */
+  private normal(): number {
+    const u = 1 - this.random();
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+interface Sampler {
+  gasMultiplier: () => number;
+  reverts: () => boolean;
+  slippageBps: () => number;
+  inclusionSeconds: () => number;
+}
+
+/**
+ * Small seeded PRNG returning floats in [0, 1)
+ */
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export type { RiskOptions, RiskPriors, PlanRisk };
+export default RiskSimulator;
@@ -0,0 +1,260 @@
+// route-discovery.ts
+import AmmSimulator from "./amm-simulator";
+import type { PoolSnapshot } from "./arbitrage-monitor";
+
+// IArbExec.DEXType enum order
+export const DEX_TYPE: Record<string, number> = {
+  "uniswap-v3": 0,
+  sushiswap: 1,
+};
+
+interface VenuePool {
+  dex: string;
+  pool: PoolSnapshot;
+}
+
+interface GraphEdge {
+  from: string;
+  to: string;
+  dex: string;
+  pool: PoolSnapshot;
+  weight: number; // -ln(marginal rate after fee), raw token units
+}
+
+interface CandidateCycle {
+  path: string[]; // Tokens, first == last
+  edges: GraphEdge[];
+  logProfit: number; // -sum(weights); > 0 means the spot cycle is profitable
+}
+
+interface CandidateRoute {
+  path: string[]; // Token path without the closing token, as in IArbExec.ArbitrageRoute
+  pools: string[];
+  dexes: string[];
+  spotProfitBps: number;
+  amountIn: string; // Wei of path[0]
+  amountOut: string;
+  profit: string; // Signed
+  profitBps: number;
+  // Only set when the hops fit ArbExec's two-DEX shape (first hop on dexA, the rest on dexB)
+  arbExecRoute: {
+    path: string[];
+    minProfit: string;
+    dexA: number;
+    dexB: number;
+  } | null;
+}
+
+class RouteDiscovery {
+  private simulator: AmmSimulator;
+  private edges = new Map<string, GraphEdge[]>();
+  private tokenAddresses = new Map<string, string>(); // lowercase -> original casing
+
+  constructor(simulator: AmmSimulator = new AmmSimulator()) {
+    this.simulator = simulator;
+  }
+
+  /**
+   * Build the token graph: every pool contributes one edge per swap direction
+   */
+  buildGraph(venues: VenuePool[]): void {
+    this.edges.clear();
+    this.tokenAddresses.clear();
+
+    for (const { dex, pool } of venues) {
+      this.tokenAddresses.set(pool.token0.toLowerCase(), pool.token0);
+      this.tokenAddresses.set(pool.token1.toLowerCase(), pool.token1);
+
+      const rate0to1 = this.marginalRate(pool);
+      if (!(rate0to1 > 0) || !Number.isFinite(rate0to1)) continue;
+
+      const feeFactor = 1 - pool.fee / 1_000_000;
+      this.addEdge({
+        from: pool.token0.toLowerCase(),
+        to: pool.token1.toLowerCase(),
+        dex,
+        pool,
+        weight: -Math.log(rate0to1 * feeFactor),
+      });
+      this.addEdge({
+        from: pool.token1.toLowerCase(),
+        to: pool.token0.toLowerCase(),
+        dex,
+        pool,
+        weight: -Math.log(feeFactor / rate0to1),
+      });
+    }
+  }
+
+  /**
+   * Find negative log-price cycles of 2..maxLength hops through each start token.
+   * This is a hop-bounded Bellman-Ford: after k relaxation rounds, the best k-hop
+   * walks from the source are known, and a walk back to the source with negative
+   * total weight is a profitable cycle. A small beam of walks is kept per node so
+   * that a single dominant path does not hide other cycles.
+   */
+  findCycles(startTokens: string[], maxLength: number = 4, beam: number = 3): CandidateCycle[] {
+    const cycles: CandidateCycle[] = [];
+    const seen = new Set<string>();
+
+    for (const start of startTokens.map((t) => t.toLowerCase())) {
+      let frontier = new Map<string, Array<{ path: string[]; edges: GraphEdge[]; dist: number }>>([
+        [start, [{ path: [start], edges: [], dist: 0 }]],
+      ]);
+
+      for (let hop = 1; hop <= maxLength; hop++) {
+        const next = new Map<string, Array<{ path: string[]; edges: GraphEdge[]; dist: number }>>();
+
+        for (const walks of frontier.values()) {
+          for (const walk of walks) {
+            const node = walk.path[walk.path.length - 1];
+            for (const edge of this.edges.get(node) ?? []) {
+              const closes = edge.to === start;
+              if (!closes && walk.path.includes(edge.to)) continue;
+              if (walk.edges.some((e) => e.pool.address === edge.pool.address)) continue;
+
+              const candidate = {
+                path: [...walk.path, edge.to],
+                edges: [...walk.edges, edge],
+                dist: walk.dist + edge.weight,
+              };
+
+              if (closes) {
+                if (hop >= 2 && candidate.dist < 0) {
+                  const key = candidate.edges.map((e) => `${e.pool.address}:${e.from}`).join("|");
+                  if (!seen.has(key)) {
+                    seen.add(key);
+                    cycles.push({
+                      path: candidate.path,
+                      edges: candidate.edges,
+                      logProfit: -candidate.dist,
+                    });
+                  }
+                }
+                continue;
+              }
+
+              const bucket = next.get(edge.to) ?? [];
+              bucket.push(candidate);
+              bucket.sort((a, b) => a.dist - b.dist);
+              next.set(edge.to, bucket.slice(0, beam));
+            }
+          }
+        }
+
+        frontier = next;
+      }
+    }
+
+    return cycles.sort((a, b) => b.logProfit - a.logProfit);
+  }
+
+  /**
+   * Re-price a cycle with exact swap simulation. The input size is chosen from a
+   * doubling ladder around `probeAmount` since price impact makes small spot edges vanish.
+   */
+  refineCycle(cycle: CandidateCycle, probeAmount: bigint, ladderSteps: number = 4): CandidateRoute {
+    let best = { amountIn: probeAmount, amountOut: BigInt(0), profit: -probeAmount };
+
+    for (let step = -ladderSteps; step <= ladderSteps; step++) {
+      const amountIn =
+        step >= 0 ? probeAmount << BigInt(step) : probeAmount >> BigInt(-step);
+      if (amountIn <= BigInt(0)) continue;
+
+      const amountOut = this.simulateCycle(cycle, amountIn);
+      const profit = amountOut - amountIn;
+      if (profit > best.profit) best = { amountIn, amountOut, profit };
+    }
+
+    const path = cycle.path.slice(0, -1).map((t) => this.tokenAddresses.get(t) ?? t);
+    const dexes = cycle.edges.map((e) => e.dex);
+    const profitBps =
+      best.amountIn > BigInt(0) ? Number((best.profit * BigInt(10000)) / best.amountIn) : 0;
+
+    return {
+      path,
+      pools: cycle.edges.map((e) => e.pool.address),
+      dexes,
+      spotProfitBps: (Math.exp(cycle.logProfit) - 1) * 10000,
+      amountIn: best.amountIn.toString(),
+      amountOut: best.amountOut.toString(),
+      profit: best.profit.toString(),
+      profitBps,
+      arbExecRoute: this.toArbExecRoute(path, dexes, best.profit),
+    };
+  }
+
+  /**
+   * Discover and refine cycles, returning only those still profitable after simulation
+   */
+  discoverRoutes(
+    venues: VenuePool[],
+    probeAmounts: Record<string, bigint>,
+    maxLength: number = 4
+  ): CandidateRoute[] {
+    this.buildGraph(venues);
+
+    const probes = new Map(
+      Object.entries(probeAmounts).map(([token, amount]) => [token.toLowerCase(), amount])
+    );
+    const cycles = this.findCycles([...probes.keys()], maxLength);
+
+    return cycles
+      .map((cycle) => this.refineCycle(cycle, probes.get(cycle.path[0])!))
+      .filter((route) => BigInt(route.profit) > BigInt(0))
+      .sort((a, b) => b.profitBps - a.profitBps);
+  }
+
+  private simulateCycle(cycle: CandidateCycle, amountIn: bigint): bigint {
+    let amount = amountIn;
+    try {
+      for (const edge of cycle.edges) {
+        amount = this.simulator.quoteExactInput(edge.pool, edge.from, amount).amountOut;
+      }
+    } catch {
+      return BigInt(0);
+    }
+    return amount;
+  }
+
+  /**
+   * Raw-unit marginal price of token0 in token1 (decimals cancel around a cycle)
+   */
+  private marginalRate(pool: PoolSnapshot): number {
+    if (pool.poolType === "uniswap-v3" && pool.sqrtPriceX96 !== undefined) {
+      const sqrtPrice = Number(pool.sqrtPriceX96) / 2 ** 96;
+      return sqrtPrice * sqrtPrice;
+    }
+    if (pool.reserve0 === BigInt(0)) return 0;
+    return Number(pool.reserve1) / Number(pool.reserve0);
+  }
+
+  private toArbExecRoute(
+    path: string[],
+    dexes: string[],
+    profit: bigint
+  ): CandidateRoute["arbExecRoute"] {
+    const laterDexes = new Set(dexes.slice(1));
+    if (laterDexes.size !== 1) return null;
+
+    const dexA = DEX_TYPE[dexes[0]];
+    const dexB = DEX_TYPE[dexes[1]];
+    if (dexA === undefined || dexB === undefined) return null;
+
+    return {
+      path,
+      minProfit: (profit > BigInt(0) ? profit : BigInt(0)).toString(),
+      dexA,
+      dexB,
+    };
+  }
+
+  private addEdge(edge: GraphEdge): void {
+    const list = this.edges.get(edge.from) ?? [];
+    list.push(edge);
+    this.edges.set(edge.from, list);
+  }
+}
+
+export type { VenuePool, CandidateCycle, CandidateRoute };
+export default RouteDiscovery;
@@ -0,0 +1,266 @@
+// route-registry.ts
+import { ethers } from "ethers";
+import type { ArbExecutorContract } from "./bindings/ArbExecutor";
+import type EventIndexer from "./event-indexer";
+import { DEX_TYPE } from "./route-discovery";
+import type { CandidateRoute } from "./route-discovery";
+import type { ContractCall } from "./safe-batch";
+
+interface RegisteredRoute {
+  routeId: number; // Index ArbOptimizer passes to getRoute/initiateArbitrage
+  path: string[]; // Token path without the closing token
+  minProfit: string; // Base units of path[0]
+  dexA: string;
+  dexB: string;
+}
+
+interface WantedRoute {
+  source: "config" | "discovered";
+  path: string[];
+  minProfit: string;
+  dexA: string;
+  dexB: string;
+}
+
+interface RouteActivity {
+  analyses: number; // RouteAnalyzed events since the route was last written
+  profitable: number;
+  lastAnalyzedBlock: number | null;
+}
+
+interface RouteSyncReport {
+  registered: RegisteredRoute[];
+  freeSlots: number[]; // Deleted route ids (empty path), reusable with updateRoute
+  missing: WantedRoute[]; // Watched by the monitor but not registered
+  stale: RegisteredRoute[]; // Registered but no longer watched by the monitor
+  neverProfitable: Array<RegisteredRoute & { activity: RouteActivity }>;
+  calls: ContractCall[]; // Owner transactions that bring the registry in line
+}
+
+const DEX_NAME: Record<number, string> = Object.fromEntries(
+  Object.entries(DEX_TYPE).map(([name, type]) => [type, name])
+);
+
+/**
+ * Keeps ArbExec's on-chain route list (what ArbOptimizer.findOptimalRoute iterates)
+ * in line with the routes the monitor watches: the configured pairs on every DEX
+ * ordering plus any discovered multi-hop routes that fit ArbExec's two-DEX shape.
+ */
+class RouteRegistry {
+  private arbExec: ArbExecutorContract;
+  private indexer?: EventIndexer;
+  private pageSize: number;
+  private minAnalyses: number;
+
+  constructor(
+    arbExec: ArbExecutorContract,
+    indexer?: EventIndexer, // Must index ArbOptimizer (RouteAnalyzed) and ArbExecutor (route writes); sync needs it
+    options: { pageSize?: number; minAnalyses?: number } = {}
+  ) {
+    this.arbExec = arbExec;
+    this.indexer = indexer;
+    this.pageSize = options.pageSize ?? 50;
+    this.minAnalyses = options.minAnalyses ?? 20;
+  }
+
+  /**
+   * Every registered route, paged through getAllRoutes. Deleted slots come back with
+   * an empty path.
+   */
+  async fetchRoutes(blockNumber?: number): Promise<RegisteredRoute[]> {
+    const overrides = { blockTag: blockNumber ?? "latest" };
+    const count = Number(await this.arbExec.getRouteCount(overrides));
+
+    const routes: RegisteredRoute[] = [];
+    for (let offset = 0; offset < count; offset += this.pageSize) {
+      const page = await this.arbExec.getAllRoutes(offset, Math.min(this.pageSize, count - offset), overrides);
+      for (const route of page) {
+        routes.push({
+          routeId: Number(route.routeId),
+          path: route.path.map((token) => ethers.getAddress(token)),
+          minProfit: route.minProfit.toString(),
+          dexA: DEX_NAME[Number(route.dexA)] ?? `dex-${route.dexA}`,
+          dexB: DEX_NAME[Number(route.dexB)] ?? `dex-${route.dexB}`,
+        });
+      }
+    }
+    return routes;
+  }
+
+  /**
+   * Routes the monitor watches: each configured pair borrowed as token0 on every
+   * ordered pair of DEXes, plus discovered routes ArbExec can execute
+   */
+  wantedRoutes(
+    tokenPairs: Array<{ token0: string; token1: string }>,
+    discovered: CandidateRoute[] = []
+  ): WantedRoute[] {
+    const dexes = Object.keys(DEX_TYPE);
+    const wanted = new Map<string, WantedRoute>();
+
+    for (const pair of tokenPairs) {
+      for (const dexA of dexes) {
+        for (const dexB of dexes) {
+          if (dexA === dexB) continue;
+          const route: WantedRoute = {
+            source: "config",
+            path: [ethers.getAddress(pair.token0), ethers.getAddress(pair.token1)],
+            minProfit: "0",
+            dexA,
+            dexB,
+          };
+          wanted.set(RouteRegistry.routeKey(route), route);
+        }
+      }
+    }
+
+    for (const candidate of discovered) {
+      if (!candidate.arbExecRoute) continue;
+      const route: WantedRoute = {
+        source: "discovered",
+        path: candidate.arbExecRoute.path.map((token) => ethers.getAddress(token)),
+        minProfit: candidate.arbExecRoute.minProfit,
+        dexA: DEX_NAME[candidate.arbExecRoute.dexA],
+        dexB: DEX_NAME[candidate.arbExecRoute.dexB],
+      };
+      // A configured route wins over the same route found by discovery
+      if (!wanted.has(RouteRegistry.routeKey(route))) wanted.set(RouteRegistry.routeKey(route), route);
+    }
+    return [...wanted.values()];
+  }
+
+  /**
+   * RouteAnalyzed history per route id, counting only analyses after the route was
+   * last added, updated or deleted (older ones describe whatever used the slot before)
+   */
+  async activity(): Promise<Map<number, RouteActivity>> {
+    if (!this.indexer) throw new Error("Route activity needs an EventIndexer");
+    await this.indexer.backfill();
+
+    const lastWrite = new Map<number, number>();
+    for (const event of this.indexer.query({ contract: "ArbExecutor" })) {
+      if (event.event !== "RoutesUpdated" && event.event !== "RouteDeleted") continue;
+      const routeId = Number(event.args.routeId);
+      lastWrite.set(routeId, Math.max(lastWrite.get(routeId) ?? 0, event.blockNumber));
+    }
+
+    const activity = new Map<number, RouteActivity>();
+    for (const event of this.indexer.query({ contract: "ArbOptimizer", event: "RouteAnalyzed" })) {
+      const routeId = Number(event.args.routeIndex);
+      if (event.blockNumber <= (lastWrite.get(routeId) ?? -1)) continue;
+      const entry = activity.get(routeId) ?? { analyses: 0, profitable: 0, lastAnalyzedBlock: null };
+      entry.analyses++;
+      if (event.args.isProfitable === true) entry.profitable++;
+      entry.lastAnalyzedBlock = Math.max(entry.lastAnalyzedBlock ?? 0, event.blockNumber);
+      activity.set(routeId, entry);
+    }
+    return activity;
+  }
+
+  /**
+   * Diff the registry against the wanted routes and build the owner calls that fix it.
+   * Missing routes reuse stale and deleted slots via updateRoute first, so the id range
+   * ArbOptimizer loops over stays dense; leftover stale routes are deleted and leftover
+   * missing routes added in one batch. Never-profitable routes are only reported: if
+   * the monitor still wants them, removing them would just make them missing again.
+   */
+  async sync(wanted: WantedRoute[], blockNumber?: number): Promise<RouteSyncReport> {
+    const all = await this.fetchRoutes(blockNumber);
+    const registered = all.filter((route) => route.path.length > 0);
+    const freeSlots = all.filter((route) => route.path.length === 0).map((route) => route.routeId);
+
+    const wantedKeys = new Set(wanted.map(RouteRegistry.routeKey));
+    const registeredKeys = new Set(registered.map(RouteRegistry.routeKey));
+    const missing = wanted.filter((route) => !registeredKeys.has(RouteRegistry.routeKey(route)));
+    const stale = registered.filter((route) => !wantedKeys.has(RouteRegistry.routeKey(route)));
+
+    const activity = await this.activity();
+    const neverProfitable = registered
+      .map((route) => ({
+        ...route,
+        activity: activity.get(route.routeId) ?? { analyses: 0, profitable: 0, lastAnalyzedBlock: null },
+      }))
+      .filter((route) => route.activity.analyses >= this.minAnalyses && route.activity.profitable === 0);
+
+    return { registered, freeSlots, missing, stale, neverProfitable, calls: this.buildCalls(missing, stale, freeSlots) };
+  }
+
+  /**
+   * Identity of a route: token path and DEX ordering (minProfit is a setting, not identity)
+   */
+  static routeKey(route: { path: string[]; dexA: string; dexB: string }): string {
+    return `${route.path.map((token) => token.toLowerCase()).join(">")}@${route.dexA}>${route.dexB}`;
+  }
+
+  /**
+   * The registered route with the same token path and DEX ordering, if any
+   */
+  static findRoute(
+    routes: RegisteredRoute[],
+    route: { path: string[]; dexA: string; dexB: string }
+  ): RegisteredRoute | undefined {
+    const key = RouteRegistry.routeKey(route);
+    return routes.find((registered) => RouteRegistry.routeKey(registered) === key);
+  }
+
+  private buildCalls(missing: WantedRoute[], stale: RegisteredRoute[], freeSlots: number[]): ContractCall[] {
+    const iface = this.arbExec.interface;
+    const to = this.arbExec.target as string;
+    const describe = (route: { path: string[]; dexA: string; dexB: string }) =>
+      `${route.path.join(" → ")} (${route.dexA}/${route.dexB})`;
+
+    const slots = [...stale.map((route) => route.routeId), ...freeSlots].sort((a, b) => a - b);
+    const staleIds = new Set(stale.map((route) => route.routeId));
+    const calls: ContractCall[] = [];
+    const toAdd: WantedRoute[] = [];
+
+    for (const route of missing) {
+      const slot = slots.shift();
+      if (slot === undefined) {
+        toAdd.push(route);
+        continue;
+      }
+      staleIds.delete(slot);
+      calls.push({
+        to,
+        value: "0",
+        data: iface.encodeFunctionData("updateRoute", [
+          slot,
+          route.path,
+          route.minProfit,
+          DEX_TYPE[route.dexA],
+          DEX_TYPE[route.dexB],
+        ]),
+        description: `Route ${slot}: set to ${describe(route)}`,
+      });
+    }
+
+    for (const route of stale) {
+      if (!staleIds.has(route.routeId)) continue;
+      calls.push({
+        to,
+        value: "0",
+        data: iface.encodeFunctionData("deleteRoute", [route.routeId]),
+        description: `Route ${route.routeId}: delete ${describe(route)}`,
+      });
+    }
+
+    if (toAdd.length > 0) {
+      calls.push({
+        to,
+        value: "0",
+        data: iface.encodeFunctionData("addRoutesBatch", [
+          toAdd.map((route) => route.path),
+          toAdd.map((route) => route.minProfit),
+          toAdd.map((route) => DEX_TYPE[route.dexA]),
+          toAdd.map((route) => DEX_TYPE[route.dexB]),
+        ]),
+        description: `Add ${toAdd.length} routes: ${toAdd.map(describe).join(", ")}`,
+      });
+    }
+    return calls;
+  }
+}
+
+export type { RegisteredRoute, WantedRoute, RouteActivity, RouteSyncReport };
+export default RouteRegistry;
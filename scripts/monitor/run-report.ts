@@ -0,0 +1,531 @@
+// run-report.ts
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname, extname } from "path";
+import { Amount } from "./amount";
+import type { ExecutionPlan } from "./orchestrator";
+
+type ReportFormat = "json" | "csv" | "md" | "html";
+
+export const REPORT_FORMATS: ReportFormat[] = ["json", "csv", "md", "html"];
+
+// An opportunity that reached planning, as seen by the monitor
+interface ReportedOpportunity {
+  tokenA: string;
+  tokenB: string;
+  dexA: string;
+  dexB: string;
+  priceA: number;
+  priceB: number;
+  profitabilityBps: number;
+  estimatedProfit: string; // tokenB, human-readable
+  blockNumber: number;
+}
+
+// An opportunity that did not become a plan, and the stage that dropped it
+interface RejectedCandidate {
+  tokenA: string;
+  tokenB: string;
+  dexA: string;
+  dexB: string;
+  blockNumber: number;
+  profitabilityBps: number;
+  stage: "route" | "oracle" | "pool-state" | "gas-pricing" | "flash-loan" | "sizing" | "unprofitable";
+  reason: string;
+}
+
+interface RunReport {
+  timestamp: string;
+  network: string;
+  chainId: number;
+  parameters: Record<string, string | number>; // Settings that shape the run, compared by diffs
+  opportunities: ReportedOpportunity[];
+  executionPlans: ExecutionPlan[];
+  rejected: RejectedCandidate[];
+  summary: {
+    totalOpportunities: number;
+    totalPlans: number;
+    totalRejected: number;
+    totalPotentialProfit: Array<{ token: string; symbol: string; raw: string; decimals: number; formatted: string }>;
+  };
+}
+
+// Outcome of one candidate (pair + DEX route) in a run
+interface CandidateOutcome {
+  status: "planned" | "rejected";
+  netProfit?: string; // Human-readable, planned only
+  symbol?: string;
+  roi?: number;
+  reason?: string; // Rejected only
+}
+
+interface ReportDiff {
+  before: { timestamp: string; network: string };
+  after: { timestamp: string; network: string };
+  parameters: Array<{ key: string; before: string | number | undefined; after: string | number | undefined }>;
+  candidates: Array<{
+    key: string; // tokenA-tokenB:dexA>dexB
+    change: "added" | "removed" | "status" | "profit";
+    before?: CandidateOutcome;
+    after?: CandidateOutcome;
+  }>;
+}
+
+/**
+ * Writes a run's plans, rejections, cost breakdowns, sensitivity tables and
+ * optimal-size curves as JSON, CSV, Markdown or self-contained HTML, and
+ * compares two saved JSON reports.
+ */
+class RunReporter {
+  /**
+   * Write the report in each format next to `filePath`, swapping its extension
+   * (CSV also writes .sensitivity.csv and .curves.csv). Returns the written paths.
+   */
+  write(report: RunReport, filePath: string, formats: ReportFormat[] = ["json"]): string[] {
+    const base = filePath.slice(0, filePath.length - extname(filePath).length);
+    const dir = dirname(filePath);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+
+    const files: Array<[string, string]> = [];
+    for (const format of formats) {
+      switch (format) {
+        case "json":
+          files.push([`${base}.json`, JSON.stringify(report, null, 2)]);
+          break;
+        case "csv":
+          files.push(
+            [`${base}.csv`, this.candidatesCsv(report)],
+            [`${base}.sensitivity.csv`, this.sensitivityCsv(report)],
+            [`${base}.curves.csv`, this.curvesCsv(report)]
+          );
+          break;
+        case "md":
+          files.push([`${base}.md`, this.markdown(report)]);
+          break;
+        case "html":
+          files.push([`${base}.html`, this.html(report)]);
+          break;
+        default:
+          throw new Error(`Unknown report format: ${format}`);
+      }
+    }
+
+    for (const [path, contents] of files) writeFileSync(path, contents);
+    return files.map(([path]) => path);
+  }
+
+  /**
+   * Read a report written in JSON format
+   */
+  static load(filePath: string): RunReport {
+    return JSON.parse(readFileSync(filePath, "utf8"));
+  }
+
+  /**
+   * Parameter changes and per-candidate differences between two runs. A candidate
+   * counts as changed when it moved between planned and rejected, or its net
+   * profit moved by more than `profitToleranceBps` of the earlier value.
+   */
+  static diff(before: RunReport, after: RunReport, profitToleranceBps: number = 100): ReportDiff {
+    const keys = new Set([...Object.keys(before.parameters ?? {}), ...Object.keys(after.parameters ?? {})]);
+    const parameters = [...keys]
+      .filter((key) => before.parameters?.[key] !== after.parameters?.[key])
+      .map((key) => ({ key, before: before.parameters?.[key], after: after.parameters?.[key] }));
+
+    const beforeOutcomes = RunReporter.outcomes(before);
+    const afterOutcomes = RunReporter.outcomes(after);
+    const candidates: ReportDiff["candidates"] = [];
+
+    for (const key of new Set([...beforeOutcomes.keys(), ...afterOutcomes.keys()])) {
+      const previous = beforeOutcomes.get(key);
+      const current = afterOutcomes.get(key);
+      if (!previous) {
+        candidates.push({ key, change: "added", after: current });
+      } else if (!current) {
+        candidates.push({ key, change: "removed", before: previous });
+      } else if (previous.status !== current.status) {
+        candidates.push({ key, change: "status", before: previous, after: current });
+      } else if (previous.status === "planned" && previous.symbol === current.symbol) {
+        const was = Number(previous.netProfit);
+        const now = Number(current.netProfit);
+        if (Math.abs(now - was) * 10000 > Math.abs(was) * profitToleranceBps) {
+          candidates.push({ key, change: "profit", before: previous, after: current });
+        }
+      }
+    }
+
+    candidates.sort((a, b) => a.key.localeCompare(b.key));
+    return {
+      before: { timestamp: before.timestamp, network: before.network },
+      after: { timestamp: after.timestamp, network: after.network },
+      parameters,
+      candidates,
+    };
+  }
+
+  /**
+   * Markdown summary of a diff
+   */
+  renderDiff(diff: ReportDiff): string {
+    const describe = (outcome?: CandidateOutcome) =>
+      !outcome
+        ? "-"
+        : outcome.status === "planned"
+          ? `${outcome.netProfit} ${outcome.symbol} (${((outcome.roi ?? 0) * 100).toFixed(2)}%)`
+          : `rejected: ${outcome.reason}`;
+
+    const lines = [
+      `# Run comparison`,
+      ``,
+      `${diff.before.timestamp} (${diff.before.network}) → ${diff.after.timestamp} (${diff.after.network})`,
+      ``,
+      `## Parameters`,
+      ``,
+    ];
+    if (diff.parameters.length === 0) {
+      lines.push("No parameter changes.");
+    } else {
+      lines.push(
+        ...this.markdownTable(
+          ["Parameter", "Before", "After"],
+          diff.parameters.map((p) => [p.key, String(p.before ?? "-"), String(p.after ?? "-")])
+        )
+      );
+    }
+
+    lines.push("", "## Candidates", "");
+    if (diff.candidates.length === 0) {
+      lines.push("No candidate changes.");
+    } else {
+      lines.push(
+        ...this.markdownTable(
+          ["Candidate", "Change", "Before", "After"],
+          diff.candidates.map((c) => [c.key, c.change, describe(c.before), describe(c.after)])
+        )
+      );
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Pair + DEX route identity used to match candidates across runs
+   */
+  static candidateKey(tokenA: string, tokenB: string, dexA: string, dexB: string): string {
+    return `${tokenA.toLowerCase()}-${tokenB.toLowerCase()}:${dexA}>${dexB}`;
+  }
+
+  private static outcomes(report: RunReport): Map<string, CandidateOutcome> {
+    const outcomes = new Map<string, CandidateOutcome>();
+    for (const rejected of report.rejected ?? []) {
+      outcomes.set(RunReporter.candidateKey(rejected.tokenA, rejected.tokenB, rejected.dexA, rejected.dexB), {
+        status: "rejected",
+        reason: `${rejected.stage}: ${rejected.reason}`,
+      });
+    }
+    // A candidate planned in one block and rejected in another counts as planned
+    for (const plan of report.executionPlans) {
+      const [tokenA, tokenB] = plan.tokenPath;
+      outcomes.set(RunReporter.candidateKey(tokenA, tokenB, plan.dexA, plan.dexB), {
+        status: "planned",
+        netProfit: Amount.from(plan.profitability.netProfit, plan.borrowToken.decimals).format(),
+        symbol: plan.borrowToken.symbol,
+        roi: plan.profitability.roi,
+      });
+    }
+    return outcomes;
+  }
+
+  private candidatesCsv(report: RunReport): string {
+    const header = [
+      "status", "tokenA", "tokenB", "dexA", "dexB", "blockNumber", "borrowToken", "borrowAmount",
+      "grossProfit", "flashLoanFee", "gasCost", "builderTip", "safetyBuffer", "netProfit", "roi", "reason",
+    ];
+    const rows = report.executionPlans.map((plan) => {
+      const fmt = this.formatter(plan);
+      const p = plan.profitability;
+      return [
+        "planned", plan.tokenPath[0], plan.tokenPath[1], plan.dexA, plan.dexB, "", plan.borrowToken.symbol,
+        fmt(plan.borrowAmount), fmt(p.grossProfit), fmt(p.flashLoanFee), fmt(p.gasCost), fmt(p.builderTip),
+        fmt(p.safetyBuffer), fmt(p.netProfit), String(p.roi), "",
+      ];
+    });
+    for (const r of report.rejected) {
+      rows.push([
+        "rejected", r.tokenA, r.tokenB, r.dexA, r.dexB, String(r.blockNumber), "", "",
+        "", "", "", "", "", "", "", `${r.stage}: ${r.reason}`,
+      ]);
+    }
+    return this.csv(header, rows);
+  }
+
+  private sensitivityCsv(report: RunReport): string {
+    const rows = report.executionPlans.flatMap((plan, idx) =>
+      (plan.sensitivity ?? []).map((row) => [
+        String(idx + 1), plan.borrowToken.symbol, row.gasScenario, row.gasPrice,
+        String(row.flashLoanPremium), this.formatter(plan)(row.netProfit), String(row.roi),
+      ])
+    );
+    return this.csv(["plan", "token", "gasScenario", "gasPriceWei", "flashLoanPremiumBps", "netProfit", "roi"], rows);
+  }
+
+  private curvesCsv(report: RunReport): string {
+    const rows = report.executionPlans.flatMap((plan, idx) =>
+      plan.sizing.curve.map((point) => [
+        String(idx + 1), plan.borrowToken.symbol, this.formatter(plan)(point.borrowAmount),
+        this.formatter(plan)(point.netProfit), String(point.borrowAmount === plan.borrowAmount),
+      ])
+    );
+    return this.csv(["plan", "token", "borrowAmount", "netProfit", "optimal"], rows);
+  }
+
+  private markdown(report: RunReport): string {
+    const lines = [
+      `# Arbitrage run ${report.timestamp}`,
+      ``,
+      `Network: ${report.network} (chain ${report.chainId})`,
+      ``,
+      `## Summary`,
+      ``,
+      `- Opportunities: ${report.summary.totalOpportunities}`,
+      `- Plans: ${report.summary.totalPlans}`,
+      `- Rejected: ${report.summary.totalRejected}`,
+      ...report.summary.totalPotentialProfit.map((t) => `- Potential profit: ${t.formatted} ${t.symbol}`),
+      ``,
+      `## Opportunities`,
+      ``,
+      ...this.markdownTable(...this.opportunityTable(report)),
+      ``,
+      `## Rejected candidates`,
+      ``,
+      ...this.markdownTable(...this.rejectedTable(report)),
+    ];
+
+    report.executionPlans.forEach((plan, idx) => {
+      lines.push(
+        ``,
+        `## Plan ${idx + 1}: ${plan.dexA} → ${plan.dexB}`,
+        ``,
+        `Path: ${plan.tokenPath.join(" → ")}, ${this.routeLabel(plan)}, sized by ${plan.sizing.method}`,
+        ``,
+        `### Costs`,
+        ``,
+        ...this.markdownTable(...this.costTable(plan)),
+        ``,
+        ...(plan.flashLoanAlternatives.length > 0
+          ? [
+              `### Flash-loan alternatives (not executable)`,
+              ``,
+              ...this.markdownTable(...this.alternativesTable(plan)),
+              ``,
+            ]
+          : []),
+        `### Sensitivity`,
+        ``,
+        ...this.markdownTable(...this.sensitivityTable(plan)),
+        ``,
+        `### Optimal-size curve`,
+        ``,
+        ...this.markdownTable(...this.curveTable(plan))
+      );
+    });
+    return lines.join("\n") + "\n";
+  }
+
+  private html(report: RunReport): string {
+    const sections = [
+      `<h1>Arbitrage run ${this.escape(report.timestamp)}</h1>`,
+      `<p>Network: ${this.escape(report.network)} (chain ${report.chainId})</p>`,
+      `<h2>Summary</h2><ul>`,
+      `<li>Opportunities: ${report.summary.totalOpportunities}</li>`,
+      `<li>Plans: ${report.summary.totalPlans}</li>`,
+      `<li>Rejected: ${report.summary.totalRejected}</li>`,
+      ...report.summary.totalPotentialProfit.map(
+        (t) => `<li>Potential profit: ${this.escape(t.formatted)} ${this.escape(t.symbol)}</li>`
+      ),
+      `</ul>`,
+      `<h2>Opportunities</h2>`,
+      this.htmlTable(...this.opportunityTable(report)),
+      `<h2>Rejected candidates</h2>`,
+      this.htmlTable(...this.rejectedTable(report)),
+    ];
+
+    report.executionPlans.forEach((plan, idx) => {
+      sections.push(
+        `<h2>Plan ${idx + 1}: ${this.escape(plan.dexA)} → ${this.escape(plan.dexB)}</h2>`,
+        `<p>Path: ${this.escape(plan.tokenPath.join(" → "))}, ${this.routeLabel(plan)}, sized by ${this.escape(plan.sizing.method)}</p>`,
+        `<h3>Costs</h3>`,
+        this.htmlTable(...this.costTable(plan)),
+        ...(plan.flashLoanAlternatives.length > 0
+          ? [`<h3>Flash-loan alternatives (not executable)</h3>`, this.htmlTable(...this.alternativesTable(plan))]
+          : []),
+        `<h3>Sensitivity</h3>`,
+        this.htmlTable(...this.sensitivityTable(plan)),
+        `<h3>Optimal-size curve</h3>`,
+        this.curveSvg(plan),
+        this.htmlTable(...this.curveTable(plan))
+      );
+    });
+
+    return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Arbitrage run ${this.escape(report.timestamp)}</title>
+<style>
+body { font-family: sans-serif; margin: 2em; color: #222; }
+table { border-collapse: collapse; margin-bottom: 1em; }
+th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: right; }
+th { background: #f0f0f0; }
+td:first-child, th:first-child { text-align: left; }
+</style>
+</head>
+<body>
+${sections.join("\n")}
+</body>
+</html>
+`;
+  }
+
+  private opportunityTable(report: RunReport): [string[], string[][]] {
+    return [
+      ["Pair", "Route", "Block", "Price A", "Price B", "Spread (bps)", "Est. profit"],
+      report.opportunities.map((o) => [
+        `${o.tokenA} / ${o.tokenB}`, `${o.dexA} → ${o.dexB}`, String(o.blockNumber),
+        String(o.priceA), String(o.priceB), String(o.profitabilityBps), o.estimatedProfit,
+      ]),
+    ];
+  }
+
+  private rejectedTable(report: RunReport): [string[], string[][]] {
+    return [
+      ["Pair", "Route", "Block", "Stage", "Reason"],
+      report.rejected.map((r) => [
+        `${r.tokenA} / ${r.tokenB}`, `${r.dexA} → ${r.dexB}`, String(r.blockNumber), r.stage, r.reason,
+      ]),
+    ];
+  }
+
+  private routeLabel(plan: ExecutionPlan): string {
+    return plan.routeId !== undefined ? `ArbExec route #${plan.routeId}` : "no ArbExec route";
+  }
+
+  private costTable(plan: ExecutionPlan): [string[], string[][]] {
+    const fmt = this.formatter(plan);
+    const p = plan.profitability;
+    const share = (pct: number) => `${pct.toFixed(2)}%`;
+    return [
+      ["Item", `Amount (${plan.borrowToken.symbol})`, "Share of costs"],
+      [
+        ["Borrow amount", fmt(plan.borrowAmount), ""],
+        ["Gross profit", fmt(p.grossProfit), ""],
+        [
+          `Flash-loan fee (${plan.flashLoan.source}, ${plan.flashLoan.premiumBps} bps)`,
+          fmt(p.flashLoanFee),
+          share(p.breakdownPercentages.flashLoanFee),
+        ],
+        ["Gas", fmt(p.gasCost), share(p.breakdownPercentages.gasCost)],
+        ["Builder tip", fmt(p.builderTip), share(p.breakdownPercentages.builderTip)],
+        ["Safety buffer", fmt(p.safetyBuffer), share(p.breakdownPercentages.safetyBuffer)],
+        ["Total costs", fmt(p.totalCosts), ""],
+        ["Net profit", fmt(p.netProfit), `ROI ${(p.roi * 100).toFixed(2)}%`],
+      ],
+    ];
+  }
+
+  /**
+   * Lenders ArbExec cannot borrow from, with the net profit each would have left
+   */
+  private alternativesTable(plan: ExecutionPlan): [string[], string[][]] {
+    const fmt = this.formatter(plan);
+    return [
+      ["Source", "Lender", "Premium (bps)", `Net profit (${plan.borrowToken.symbol})`, "vs plan"],
+      plan.flashLoanAlternatives.map((a) => [
+        a.flashLoan.source, a.flashLoan.lender, String(a.flashLoan.premiumBps), fmt(a.netProfit), fmt(a.savings),
+      ]),
+    ];
+  }
+
+  private sensitivityTable(plan: ExecutionPlan): [string[], string[][]] {
+    return [
+      ["Gas scenario", "Gas price (gwei)", "Flash-loan premium (bps)", `Net profit (${plan.borrowToken.symbol})`, "ROI"],
+      (plan.sensitivity ?? []).map((row) => [
+        row.gasScenario,
+        Amount.from(row.gasPrice, 9).format(),
+        String(row.flashLoanPremium),
+        this.formatter(plan)(row.netProfit),
+        `${(row.roi * 100).toFixed(2)}%`,
+      ]),
+    ];
+  }
+
+  private curveTable(plan: ExecutionPlan): [string[], string[][]] {
+    const fmt = this.formatter(plan);
+    return [
+      [`Borrow (${plan.borrowToken.symbol})`, `Net profit (${plan.borrowToken.symbol})`, ""],
+      plan.sizing.curve.map((point) => [
+        fmt(point.borrowAmount),
+        fmt(point.netProfit),
+        point.borrowAmount === plan.borrowAmount ? "optimal" : "",
+      ]),
+    ];
+  }
+
+  /**
+   * Net profit against borrow size as an inline SVG line, with the chosen size marked
+   */
+  private curveSvg(plan: ExecutionPlan, width: number = 480, height: number = 200): string {
+    const points = plan.sizing.curve.map((p) => ({ x: Number(p.borrowAmount), y: Number(p.netProfit) }));
+    if (points.length < 2) return "";
+    const [minX, maxX] = [Math.min(...points.map((p) => p.x)), Math.max(...points.map((p) => p.x))];
+    const [minY, maxY] = [Math.min(0, ...points.map((p) => p.y)), Math.max(0, ...points.map((p) => p.y))];
+    const sx = (x: number) => ((x - minX) / (maxX - minX || 1)) * (width - 20) + 10;
+    const sy = (y: number) => height - 10 - ((y - minY) / (maxY - minY || 1)) * (height - 20);
+
+    const line = points.map((p) => `${sx(p.x).toFixed(1)},${sy(p.y).toFixed(1)}`).join(" ");
+    const optimal = Number(plan.borrowAmount);
+    const optimalY = points.find((p) => p.x === optimal)?.y ?? 0;
+    return (
+      `<svg width="${width}" height="${height}" xmlns="http://www.w3.org/2000/svg">` +
+      `<line x1="10" y1="${sy(0).toFixed(1)}" x2="${width - 10}" y2="${sy(0).toFixed(1)}" stroke="#999" stroke-dasharray="4"/>` +
+      `<polyline points="${line}" fill="none" stroke="#1565c0" stroke-width="2"/>` +
+      `<circle cx="${sx(optimal).toFixed(1)}" cy="${sy(optimalY).toFixed(1)}" r="4" fill="#c62828"/>` +
+      `</svg>`
+    );
+  }
+
+  private formatter(plan: ExecutionPlan): (raw: string) => string {
+    return (raw) => Amount.from(raw, plan.borrowToken.decimals).format();
+  }
+
+  private markdownTable(header: string[], rows: string[][]): string[] {
+    if (rows.length === 0) return ["None."];
+    const cell = (value: string) => value.replace(/\|/g, "\\|");
+    return [
+      `| ${header.map(cell).join(" | ")} |`,
+      `| ${header.map(() => "---").join(" | ")} |`,
+      ...rows.map((row) => `| ${row.map(cell).join(" | ")} |`),
+    ];
+  }
+
+  private htmlTable(header: string[], rows: string[][]): string {
+    if (rows.length === 0) return "<p>None.</p>";
+    const head = header.map((h) => `<th>${this.escape(h)}</th>`).join("");
+    const body = rows.map((row) => `<tr>${row.map((v) => `<td>${this.escape(v)}</td>`).join("")}</tr>`).join("\n");
+    return `<table>\n<tr>${head}</tr>\n${body}\n</table>`;
+  }
+
+  private csv(header: string[], rows: string[][]): string {
+    const cell = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+    return [header, ...rows].map((row) => row.map(cell).join(",")).join("\n") + "\n";
+  }
+
+  private escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
+
+export type { ReportFormat, ReportedOpportunity, RejectedCandidate, RunReport, ReportDiff, CandidateOutcome };
+export default RunReporter;
@@ -0,0 +1,64 @@
+// safe-batch.ts
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import { ethers } from "ethers";
+
+// One owner transaction, kept unsigned so it can be sent directly or proposed to a multisig
+export interface ContractCall {
+  to: string;
+  value: string; // Wei
+  data: string;
+  description: string;
+}
+
+export interface CallResult {
+  description: string;
+  txHash: string;
+  status: "mined" | "reverted";
+  gasUsed: string;
+}
+
+/**
+ * Send calls in order from `signer`, waiting for each and stopping at the first revert
+ */
+export async function sendCalls(signer: ethers.Signer, calls: ContractCall[]): Promise<CallResult[]> {
+  const results: CallResult[] = [];
+  for (const call of calls) {
+    console.log(`🚀 ${call.description}...`);
+    const tx = await signer.sendTransaction({ to: call.to, value: BigInt(call.value), data: call.data });
+    const receipt = await tx.wait();
+    const status = receipt?.status === 1 ? "mined" : "reverted";
+    results.push({ description: call.description, txHash: tx.hash, status, gasUsed: (receipt?.gasUsed ?? 0).toString() });
+    if (status === "reverted") break;
+  }
+  return results;
+}
+
+/**
+ * Write calls as an unsigned Safe Transaction Builder batch, for the multisig owner
+ * to import, sign and execute
+ */
+export function writeSafeBatch(
+  calls: ContractCall[],
+  name: string,
+  safeAddress: string,
+  chainId: number,
+  filePath: string
+): string {
+  const batch = {
+    version: "1.0",
+    chainId: String(chainId),
+    createdAt: Date.now(),
+    meta: {
+      name,
+      description: calls.map((c) => c.description).join("; "),
+      createdFromSafeAddress: ethers.getAddress(safeAddress),
+    },
+    transactions: calls.map((c) => ({ to: c.to, value: c.value, data: c.data })),
+  };
+
+  const dir = dirname(filePath);
+  if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+  writeFileSync(filePath, JSON.stringify(batch, null, 2));
+  return filePath;
+}
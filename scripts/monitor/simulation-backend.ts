@@ -0,0 +1,356 @@
+// simulation-backend.ts
+import { ethers } from "ethers";
+import { loadArtifactInterface } from "./artifacts";
+
+export interface SimulationRequest {
+  from: string;
+  to: string;
+  data: string;
+  value?: string; // Wei
+  gasLimit?: number;
+  blockNumber?: number; // Simulate on top of this block (default: latest)
+}
+
+export interface SimulationRevert {
+  reason: string;
+  errorName: string | null; // "Error", "Panic" or a custom error from ArbOptimizer/ArbExecutor
+  args: string[];
+  data: string | null; // Raw revert data
+}
+
+export interface SimulatedRoute {
+  routeIndex: number;
+  estimatedProfit: string; // Wei
+  flashLoanAmount: string; // Wei
+  isProfitable: boolean;
+}
+
+export interface SimulationResult {
+  backend: string;
+  success: boolean;
+  gasUsed: number | null;
+  routesAnalyzed: SimulatedRoute[]; // ArbOptimizer.RouteAnalyzed
+  executedRoute: number | null; // ArbOptimizer.ArbitrageExecuted, or ArbExecutor.ArbitrageSuccess when called directly
+  flashLoanAmount: string | null;
+  // ArbExecutor.ArbitrageSuccess profit when the executor ran, else ArbitrageExecuted.estimatedProfit
+  realisedProfit: string | null;
+  revert: SimulationRevert | null;
+}
+
+export interface SimulationBackend {
+  readonly name: string;
+  simulate(request: SimulationRequest): Promise<SimulationResult>;
+}
+
+const arbOptimizer = loadArtifactInterface("ArbOptimizer");
+const arbExecutor = loadArtifactInterface("ArbExecutor");
+
+const PANIC_CODES: Record<number, string> = {
+  0x01: "assertion failed",
+  0x11: "arithmetic overflow or underflow",
+  0x12: "division by zero",
+  0x21: "invalid enum value",
+  0x31: "pop on empty array",
+  0x32: "array index out of bounds",
+  0x41: "out of memory",
+  0x51: "call to uninitialized function",
+};
+
+/**
+ * Turn raw revert data into a readable reason: Error(string), Panic(uint256)
+ * or one of the ArbOptimizer/ArbExecutor custom errors
+ */
+export function decodeRevert(data: string | null | undefined, fallback: string = "execution reverted"): SimulationRevert {
+  if (!data || data === "0x") {
+    return { reason: fallback, errorName: null, args: [], data: data ?? null };
+  }
+
+  const coder = ethers.AbiCoder.defaultAbiCoder();
+  const selector = data.slice(0, 10);
+  try {
+    if (selector === "0x08c379a0") {
+      const [message] = coder.decode(["string"], ethers.dataSlice(data, 4));
+      return { reason: message, errorName: "Error", args: [message], data };
+    }
+    if (selector === "0x4e487b71") {
+      const [code] = coder.decode(["uint256"], ethers.dataSlice(data, 4));
+      const description = PANIC_CODES[Number(code)] ?? `panic 0x${code.toString(16)}`;
+      return { reason: description, errorName: "Panic", args: [code.toString()], data };
+    }
+  } catch {
+    // Malformed standard error payload; fall through to custom errors
+  }
+
+  for (const iface of [arbOptimizer, arbExecutor]) {
+    try {
+      const parsed = iface.parseError(data);
+      if (parsed) {
+        const args = parsed.args.map((arg: unknown) => String(arg));
+        return { reason: `${parsed.name}(${args.join(", ")})`, errorName: parsed.name, args, data };
+      }
+    } catch {
+      // Not one of this contract's errors
+    }
+  }
+
+  return { reason: `unknown revert ${selector}`, errorName: null, args: [], data };
+}
+
+/**
+ * Extract route analysis, executed route and profit from simulated or mined logs
+ */
+export function decodeSimulationLogs(
+  logs: ReadonlyArray<{ address: string; topics: readonly string[]; data: string }>
+): Pick<SimulationResult, "routesAnalyzed" | "executedRoute" | "flashLoanAmount" | "realisedProfit"> {
+  const routesAnalyzed: SimulatedRoute[] = [];
+  let executedRoute: number | null = null;
+  let executorRoute: number | null = null;
+  let flashLoanAmount: string | null = null;
+  let estimatedProfit: string | null = null;
+  let executorProfit: bigint | null = null;
+
+  for (const log of logs) {
+    const optimizerEvent = parseLog(arbOptimizer, log);
+    if (optimizerEvent?.name === "RouteAnalyzed") {
+      routesAnalyzed.push({
+        routeIndex: Number(optimizerEvent.args.routeIndex),
+        estimatedProfit: optimizerEvent.args.estimatedProfit.toString(),
+        flashLoanAmount: optimizerEvent.args.flashLoanAmount.toString(),
+        isProfitable: optimizerEvent.args.isProfitable,
+      });
+      continue;
+    }
+    if (optimizerEvent?.name === "ArbitrageExecuted") {
+      executedRoute = Number(optimizerEvent.args.routeIndex);
+      flashLoanAmount = optimizerEvent.args.flashLoanAmount.toString();
+      estimatedProfit = optimizerEvent.args.estimatedProfit.toString();
+      continue;
+    }
+
+    const executorEvent = parseLog(arbExecutor, log);
+    if (executorEvent?.name === "ArbitrageSuccess") {
+      executorProfit = (executorProfit ?? BigInt(0)) + (executorEvent.args.profit as bigint);
+      executorRoute = Number(executorEvent.args.routeId);
+    }
+  }
+
+  return {
+    routesAnalyzed,
+    executedRoute: executedRoute ?? executorRoute,
+    flashLoanAmount,
+    realisedProfit: executorProfit !== null ? executorProfit.toString() : estimatedProfit,
+  };
+}
+
+function parseLog(
+  iface: ethers.Interface,
+  log: { topics: readonly string[]; data: string }
+): ethers.LogDescription | null {
+  try {
+    return iface.parseLog({ topics: [...log.topics], data: log.data });
+  } catch {
+    return null;
+  }
+}
+
+function failedResult(backend: string, revert: SimulationRevert, gasUsed: number | null = null): SimulationResult {
+  return {
+    backend,
+    success: false,
+    gasUsed,
+    routesAnalyzed: [],
+    executedRoute: null,
+    flashLoanAmount: null,
+    realisedProfit: null,
+    revert,
+  };
+}
+
+/**
+ * Simulates against a local hardhat/anvil node. With a fork URL the node is reset
+ * onto the requested block first, or the upstream's latest block when none is given;
+ * without one the node's own state is used. Every simulation runs inside an
+ * evm_snapshot that is reverted afterwards.
+ */
+export class LocalForkBackend implements SimulationBackend {
+  readonly name = "local-fork";
+  private provider: ethers.JsonRpcProvider;
+  private forkUrl: string | null;
+  private upstream: ethers.JsonRpcProvider | null;
+  private forkedBlock: number | null = null;
+
+  constructor(rpcUrl: string, forkUrl: string | null = null) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.forkUrl = forkUrl;
+    this.upstream = forkUrl ? new ethers.JsonRpcProvider(forkUrl, undefined, { cacheTimeout: -1 }) : null;
+  }
+
+  async simulate(request: SimulationRequest): Promise<SimulationResult> {
+    if (this.upstream) {
+      // Pin "latest" to a number so the next call re-forks once the chain has moved on
+      const target = request.blockNumber ?? (await this.upstream.getBlockNumber());
+      if (target !== this.forkedBlock) await this.fork(target);
+    }
+
+    const tx = {
+      from: request.from,
+      to: request.to,
+      data: request.data,
+      value: ethers.toQuantity(BigInt(request.value ?? "0")),
+      ...(request.gasLimit ? { gas: ethers.toQuantity(request.gasLimit) } : {}),
+    };
+
+    // eth_call first so a revert surfaces with its data rather than as a failed send. It
+    // runs on the pending block like the send: right after a reset, "latest" is the fork
+    // block itself, which the node can only execute if it knows the chain's hardforks.
+    try {
+      await this.provider.send("eth_call", [tx, "pending"]);
+    } catch (error) {
+      return failedResult(this.name, this.revertFromError(error));
+    }
+
+    const snapshot = await this.provider.send("evm_snapshot", []);
+    try {
+      await this.provider.send("hardhat_impersonateAccount", [request.from]);
+      await this.provider.send("hardhat_setBalance", [request.from, ethers.toQuantity(ethers.parseEther("1000"))]);
+
+      const hash: string = await this.provider.send("eth_sendTransaction", [tx]);
+      const receipt = await this.provider.waitForTransaction(hash, 1, 30000);
+      if (!receipt) {
+        return failedResult(this.name, decodeRevert(null, "simulation transaction was not mined"));
+      }
+      if (receipt.status !== 1) {
+        return failedResult(this.name, decodeRevert(null), Number(receipt.gasUsed));
+      }
+
+      return {
+        backend: this.name,
+        success: true,
+        gasUsed: Number(receipt.gasUsed),
+        ...decodeSimulationLogs(receipt.logs),
+        revert: null,
+      };
+    } catch (error) {
+      return failedResult(this.name, this.revertFromError(error));
+    } finally {
+      await this.provider.send("evm_revert", [snapshot]);
+      await this.provider.send("hardhat_stopImpersonatingAccount", [request.from]).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Re-fork the node at `blockNumber` (latest when undefined)
+   */
+  async fork(blockNumber?: number): Promise<void> {
+    if (!this.forkUrl || !this.upstream) throw new Error("No fork URL configured");
+    const target = blockNumber ?? (await this.upstream.getBlockNumber());
+    await this.provider.send("hardhat_reset", [{ forking: { jsonRpcUrl: this.forkUrl, blockNumber: target } }]);
+    this.forkedBlock = target;
+  }
+
+  private revertFromError(error: unknown): SimulationRevert {
+    const err = error as { data?: unknown; info?: { error?: { data?: unknown } }; shortMessage?: string; message?: string };
+    const data = [err.data, err.info?.error?.data].find(
+      (d): d is string => typeof d === "string" && d.startsWith("0x")
+    );
+    return decodeRevert(data, err.shortMessage ?? err.message ?? String(error));
+  }
+}
+
+/**
+ * Tenderly simulation API (https://docs.tenderly.co/simulations)
+ */
+export class TenderlyBackend implements SimulationBackend {
+  readonly name = "tenderly";
+  private endpoint: string;
+  private accessKey: string;
+  private networkId: string;
+
+  constructor(account: string, project: string, accessKey: string, networkId: string = "1") {
+    this.endpoint = `https://api.tenderly.co/api/v1/account/${account}/project/${project}/simulate`;
+    this.accessKey = accessKey;
+    this.networkId = networkId;
+  }
+
+  async simulate(request: SimulationRequest): Promise<SimulationResult> {
+    const response = await fetch(this.endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Access-Key": this.accessKey },
+      body: JSON.stringify({
+        network_id: this.networkId,
+        from: request.from,
+        to: request.to,
+        input: request.data,
+        value: request.value ?? "0",
+        gas: request.gasLimit ?? 8000000,
+        block_number: request.blockNumber,
+        save: false,
+        simulation_type: "full",
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Tenderly simulation failed: ${response.status} ${await response.text()}`);
+    }
+
+    const body = await response.json();
+    const transaction = body.transaction ?? {};
+    const info = transaction.transaction_info ?? {};
+    const gasUsed = transaction.gas_used !== undefined ? Number(transaction.gas_used) : null;
+
+    if (!transaction.status) {
+      const revertData = info.call_trace?.output;
+      return failedResult(this.name, decodeRevert(revertData, transaction.error_message ?? "execution reverted"), gasUsed);
+    }
+
+    const logs = (info.logs ?? [])
+      .map((log: { raw?: { address: string; topics: string[]; data: string } }) => log.raw)
+      .filter(Boolean);
+    return {
+      backend: this.name,
+      success: true,
+      gasUsed,
+      ...decodeSimulationLogs(logs),
+      revert: null,
+    };
+  }
+}
+
+/**
+ * Alchemy alchemy_simulateExecution
+ */
+export class AlchemyBackend implements SimulationBackend {
+  readonly name = "alchemy";
+  private provider: ethers.JsonRpcProvider;
+
+  constructor(rpcUrl: string) {
+    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+  }
+
+  async simulate(request: SimulationRequest): Promise<SimulationResult> {
+    const blockTag = request.blockNumber !== undefined ? ethers.toQuantity(request.blockNumber) : "latest";
+    const result = await this.provider.send("alchemy_simulateExecution", [
+      {
+        from: request.from,
+        to: request.to,
+        data: request.data,
+        value: ethers.toQuantity(BigInt(request.value ?? "0")),
+        ...(request.gasLimit ? { gas: ethers.toQuantity(request.gasLimit) } : {}),
+      },
+      blockTag,
+    ]);
+
+    const topCall = result.calls?.[0] ?? {};
+    const gasUsed = topCall.gasUsed !== undefined ? Number(topCall.gasUsed) : null;
+    if (topCall.error) {
+      return failedResult(this.name, decodeRevert(topCall.output, topCall.revertReason ?? topCall.error), gasUsed);
+    }
+
+    return {
+      backend: this.name,
+      success: true,
+      gasUsed,
+      ...decodeSimulationLogs(result.logs ?? []),
+      revert: null,
+    };
+  }
+}
@@ -1,5 +1,6 @@
 // statistical-analyzer.ts
 import * as math from "mathjs";
+import TradeLedger, { TradeFilter, TradeRecord } from "./trade-ledger";
 
 interface ParameterRecommendation {
   minProfitBps: number;
@@ -21,6 +22,41 @@ interface StatisticalAnalysis {
   recommendations: ParameterRecommendation;
 }
 
+interface SegmentAnalysis {
+  key: string; // e.g. "0xc02a...-0xa0b8...", "uniswap-v3>sushiswap", "14"
+  trades: number;
+  analysis: StatisticalAnalysis | null; // Null below minSegmentTrades
+}
+
+interface SegmentedAnalysis {
+  borrowToken: string; // Lowercase tokenPath[0]; every profit below is in its units
+  trades: number;
+  global: StatisticalAnalysis | null;
+  byPair: SegmentAnalysis[];
+  byDexRoute: SegmentAnalysis[]; // dexA>dexB, leg order matters
+  byHour: SegmentAnalysis[]; // UTC hour of inclusion, 0-23
+}
+
+interface TimeSeriesPoint {
+  timestamp: number;
+  profit: number;
+  slippage: number;
+  rollingProfit: number; // Mean over the last `window` trades
+  rollingSlippage: number;
+  ewmaProfit: number;
+  ewmaSlippage: number;
+}
+
+interface RegimeChange {
+  timestamp: number; // First trade of the new regime
+  index: number;
+  metric: "profit" | "slippage";
+  kind: "profit-decay" | "profit-rise" | "slippage-rise" | "slippage-fall";
+  before: number; // Mean over the window before the change
+  after: number; // Mean over the window after it
+  tStatistic: number;
+}
+
 class StatisticalAnalyzer {
   /**
    * Analyze historical arbitrage trades
@@ -45,7 +81,7 @@ class StatisticalAnalyzer {
     // Calculate statistics
     const meanProfit = math.mean(profits);
     const medianProfit = this.median(profits);
-    const stdDeviation = math.std(profits);
+    const stdDeviation = Number(math.std(profits));
     const minProfit = Math.min(...profits);
     const maxProfit = Math.max(...profits);
     const successRate = (trades.filter((t) => t.profit > 0).length / trades.length) * 100;
@@ -57,7 +93,8 @@ class StatisticalAnalyzer {
       stdDeviation,
       slippages,
       executionTimes,
-      averageGasUsed
+      gasUsages,
+      successRate
     );
 
     return {
@@ -72,6 +109,162 @@ class StatisticalAnalyzer {
     };
   }
 
+  /**
+   * Analyze trades recorded in the ledger, filtered by pair, DEX and time window
+   */
+  analyzeLedgerTrades(ledger: TradeLedger, filter: TradeFilter = {}): StatisticalAnalysis {
+    return this.analyzeHistoricalTrades(ledger.getAnalyzerTrades(filter));
+  }
+
+  /**
+   * Statistics and recommendations per borrow token, then per pair, per DEX route and
+   * per hour of day within it. Profits are in borrow-token units, so trades borrowing
+   * different tokens are never pooled.
+   * Segments with fewer than `minSegmentTrades` trades are listed without analysis.
+   */
+  analyzeSegments(trades: TradeRecord[], minSegmentTrades: number = 5): SegmentedAnalysis[] {
+    const analyze = (group: TradeRecord[]) =>
+      group.length >= Math.max(2, minSegmentTrades)
+        ? this.analyzeHistoricalTrades(group.map((t) => TradeLedger.toAnalyzerTrade(t)))
+        : null;
+
+    const group = (records: TradeRecord[], keyOf: (t: TradeRecord) => string): Map<string, TradeRecord[]> => {
+      const groups = new Map<string, TradeRecord[]>();
+      for (const trade of records) {
+        const key = keyOf(trade);
+        groups.set(key, [...(groups.get(key) ?? []), trade]);
+      }
+      return groups;
+    };
+
+    const segment = (records: TradeRecord[], keyOf: (t: TradeRecord) => string): SegmentAnalysis[] =>
+      [...group(records, keyOf).entries()]
+        .map(([key, grouped]) => ({ key, trades: grouped.length, analysis: analyze(grouped) }))
+        .sort((a, b) => b.trades - a.trades);
+
+    return [...group(trades, (t) => t.tokenPath[0].toLowerCase()).entries()]
+      .map(([borrowToken, borrowed]) => ({
+        borrowToken,
+        trades: borrowed.length,
+        global: analyze(borrowed),
+        byPair: segment(borrowed, (t) => StatisticalAnalyzer.pairKey(t.tokenPath[0], t.tokenPath[1])),
+        byDexRoute: segment(borrowed, (t) => `${t.dexA}>${t.dexB}`),
+        byHour: segment(borrowed, (t) => String(new Date(t.timestamp * 1000).getUTCHours())),
+      }))
+      .sort((a, b) => b.trades - a.trades);
+  }
+
+  /**
+   * Segmented analysis of ledger trades
+   */
+  analyzeLedgerSegments(
+    ledger: TradeLedger,
+    filter: TradeFilter = {},
+    minSegmentTrades: number = 5
+  ): SegmentedAnalysis[] {
+    return this.analyzeSegments(ledger.query(filter), minSegmentTrades);
+  }
+
+  /**
+   * Order-independent pair key used by the per-pair segments
+   */
+  static pairKey(tokenA: string, tokenB: string): string {
+    return [tokenA.toLowerCase(), tokenB.toLowerCase()].sort().join("-");
+  }
+
+  /**
+   * Profit and slippage per trade in time order, with a rolling mean over the last
+   * `window` trades and an exponentially weighted mean (weight `alpha` on the newest)
+   */
+  timeSeries(trades: TradeRecord[], window: number = 20, alpha: number = 0.1): TimeSeriesPoint[] {
+    const ordered = [...trades].sort((a, b) => a.timestamp - b.timestamp);
+    const points: TimeSeriesPoint[] = [];
+    let ewmaProfit = 0;
+    let ewmaSlippage = 0;
+
+    ordered.forEach((trade, i) => {
+      const { profit, slippage } = TradeLedger.toAnalyzerTrade(trade);
+      ewmaProfit = i === 0 ? profit : alpha * profit + (1 - alpha) * ewmaProfit;
+      ewmaSlippage = i === 0 ? slippage : alpha * slippage + (1 - alpha) * ewmaSlippage;
+
+      const recent = points.slice(Math.max(0, i - window + 1));
+      const rollingProfits = [...recent.map((p) => p.profit), profit];
+      const rollingSlippages = [...recent.map((p) => p.slippage), slippage];
+
+      points.push({
+        timestamp: trade.timestamp,
+        profit,
+        slippage,
+        rollingProfit: math.mean(rollingProfits),
+        rollingSlippage: math.mean(rollingSlippages),
+        ewmaProfit,
+        ewmaSlippage,
+      });
+    });
+
+    return points;
+  }
+
+  /**
+   * Find shifts in mean profit or slippage: at each trade, compare the `window`
+   * trades before with the `window` from it onwards (Welch t-statistic) and keep the
+   * strongest shift per window above `threshold`. A profit decay usually means a
+   * competitor started taking the same opportunities.
+   */
+  detectRegimeChanges(
+    series: TimeSeriesPoint[],
+    window: number = 20,
+    threshold: number = 3
+  ): RegimeChange[] {
+    const changes: RegimeChange[] = [];
+
+    for (const metric of ["profit", "slippage"] as const) {
+      const values = series.map((p) => p[metric]);
+      let candidate: RegimeChange | null = null;
+
+      for (let i = window; i + window <= values.length; i++) {
+        const before = values.slice(i - window, i);
+        const after = values.slice(i, i + window);
+        const tStatistic = this.welchT(before, after);
+        if (Math.abs(tStatistic) < threshold) continue;
+
+        const change: RegimeChange = {
+          timestamp: series[i].timestamp,
+          index: i,
+          metric,
+          kind:
+            metric === "profit"
+              ? tStatistic < 0 ? "profit-decay" : "profit-rise"
+              : tStatistic > 0 ? "slippage-rise" : "slippage-fall",
+          before: math.mean(before),
+          after: math.mean(after),
+          tStatistic,
+        };
+
+        // Overlapping windows flag the same shift repeatedly; keep the strongest
+        if (candidate && i - candidate.index < window) {
+          if (Math.abs(tStatistic) > Math.abs(candidate.tStatistic)) candidate = change;
+          continue;
+        }
+        if (candidate) changes.push(candidate);
+        candidate = change;
+      }
+      if (candidate) changes.push(candidate);
+    }
+
+    return changes.sort((a, b) => a.index - b.index);
+  }
+
+  private welchT(a: number[], b: number[]): number {
+    const meanA = math.mean(a);
+    const meanB = math.mean(b);
+    const varA = Number(math.variance(a));
+    const varB = Number(math.variance(b));
+    const standardError = Math.sqrt(varA / a.length + varB / b.length);
+    if (standardError === 0) return meanA === meanB ? 0 : Math.sign(meanB - meanA) * Infinity;
+    return (meanB - meanA) / standardError;
+  }
+
   /**
    * Calculate median
    */
@@ -89,7 +282,8 @@ class StatisticalAnalyzer {
     stdDeviation: number,
     slippages: number[],
     executionTimes: number[],
-    averageGasUsed: number
+    gasUsages: number[],
+    successRate: number
   ): ParameterRecommendation {
     // Conservative approach: use mean - 1 std dev as minimum profit
     const minProfitBps = Math.max(50, Math.floor((meanProfit - stdDeviation) * 100));
@@ -107,8 +301,8 @@ class StatisticalAnalyzer {
     );
 
     // Gas estimate: mean + 2 std dev
-    const gasStdDev = math.std(executionTimes);
-    const gasUnitsEstimate = Math.ceil(averageGasUsed * 1.5);
+    const gasStdDev = Number(math.std(gasUsages));
+    const gasUnitsEstimate = Math.ceil(math.mean(gasUsages) + 2 * gasStdDev);
 
     const confidence = Math.min(100, Math.floor((meanProfit / stdDeviation) * 100));
 
@@ -120,9 +314,7 @@ class StatisticalAnalyzer {
       confidence,
       reasoning: `Based on ${executionTimes.length} historical trades. Mean profit: ${meanProfit.toFixed(
         4
-      )} ETH, Success rate: ${((executionTimes.length / executionTimes.length) * 100).toFixed(
-        2
-      )}%`,
+      )} ETH, Success rate: ${successRate.toFixed(2)}%`,
     };
   }
 
@@ -191,4 +383,5 @@ class StatisticalAnalyzer {
   }
 }
 
+export type { StatisticalAnalysis, ParameterRecommendation, SegmentAnalysis, SegmentedAnalysis, TimeSeriesPoint, RegimeChange };
 export default StatisticalAnalyzer;
\ No newline at end of file
@@ -0,0 +1,103 @@
+// token-registry.ts
+import { ethers } from "ethers";
+import { Amount } from "./amount";
+import type { PriceFeed } from "./config";
+
+interface TokenInfo {
+  address: string; // Checksummed
+  symbol: string;
+  decimals: number;
+  feed: string | null; // Chainlink USD feed, null when none is configured
+}
+
+// Some early tokens (e.g. MKR) return symbol as bytes32
+const ERC20_METADATA = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+];
+const BYTES32_SYMBOL = ["function symbol() view returns (bytes32)"];
+
+class TokenRegistry {
+  private provider: ethers.Provider;
+  private feeds: Record<string, string>;
+  private tokens = new Map<string, TokenInfo>();
+  private pending = new Map<string, Promise<TokenInfo>>();
+
+  constructor(provider: ethers.Provider, feeds: Record<string, PriceFeed> = {}) {
+    this.provider = provider;
+    this.feeds = Object.fromEntries(
+      Object.entries(feeds).map(([token, { feed }]) => [token.toLowerCase(), feed])
+    );
+  }
+
+  /**
+   * Symbol, decimals and feed for a token, read on first use and cached
+   */
+  async resolve(token: string): Promise<TokenInfo> {
+    const key = token.toLowerCase();
+    const cached = this.tokens.get(key);
+    if (cached) return cached;
+
+    // Concurrent lookups of the same token share one set of calls
+    let lookup = this.pending.get(key);
+    if (!lookup) {
+      lookup = this.load(token).finally(() => this.pending.delete(key));
+      this.pending.set(key, lookup);
+    }
+    return lookup;
+  }
+
+  /**
+   * Cached token info without touching the network
+   */
+  get(token: string): TokenInfo | undefined {
+    return this.tokens.get(token.toLowerCase());
+  }
+
+  async decimals(token: string): Promise<number> {
+    return (await this.resolve(token)).decimals;
+  }
+
+  /**
+   * Base units of a token as a fixed-point amount
+   */
+  async amount(token: string, raw: bigint | string): Promise<Amount> {
+    return Amount.from(raw, await this.decimals(token));
+  }
+
+  /**
+   * Parse a human-readable amount of a token, e.g. "1.5"
+   */
+  async parse(token: string, value: string): Promise<Amount> {
+    return Amount.parse(value, await this.decimals(token));
+  }
+
+  feedFor(token: string): string | null {
+    return this.feeds[token.toLowerCase()] ?? null;
+  }
+
+  private async load(token: string): Promise<TokenInfo> {
+    const address = ethers.getAddress(token);
+    const erc20 = new ethers.Contract(address, ERC20_METADATA, this.provider);
+    const decimals = Number(await erc20.decimals());
+
+    let symbol: string;
+    try {
+      symbol = await erc20.symbol();
+    } catch {
+      try {
+        const legacy = new ethers.Contract(address, BYTES32_SYMBOL, this.provider);
+        symbol = ethers.decodeBytes32String(await legacy.symbol());
+      } catch {
+        symbol = address.slice(0, 8);
+      }
+    }
+
+    const info: TokenInfo = { address, symbol, decimals, feed: this.feedFor(address) };
+    this.tokens.set(address.toLowerCase(), info);
+    return info;
+  }
+}
+
+export type { TokenInfo };
+export default TokenRegistry;
@@ -0,0 +1,485 @@
+// trade-executor.ts
+import { ethers } from "ethers";
+import { loadArtifactInterface } from "./artifacts";
+import { CONFIG } from "./config";
+import type { BundleRelay } from "./bundle-relay";
+import { EXECUTABLE_FLASH_LOAN_SOURCE } from "./flash-loan-sources";
+import type { ExecutionPlan } from "./orchestrator";
+import { SimulationBackend, decodeSimulationLogs } from "./simulation-backend";
+import TradeLedger from "./trade-ledger";
+
+interface ExecutorOptions {
+  arbOptimizerAddress?: string;
+  arbExecAddress?: string;
+  ledger?: TradeLedger;
+  simulator?: SimulationBackend; // Pre-check through a simulation backend instead of plain eth_call
+  relay?: BundleRelay; // Submit privately as bundles instead of to the public mempool
+  bundleTargetBlocks?: number; // Consecutive blocks to target before giving up
+  builderTipBps?: number; // Share of expected gross profit paid to the builder
+  profitRecipient: string;
+  priorityFeeGwei: string;
+  stuckTimeoutMs: number; // Replace a transaction not mined within this time
+  feeBumpPercent: number; // Nodes require >= 10% to accept a replacement
+  maxReplacements: number; // Cancel after this many replacements
+  receiptPollMs?: number;
+}
+
+interface ExecutionOutcome {
+  status: "mined" | "reverted" | "cancelled" | "precheck-failed" | "not-included" | "failed";
+  nonce: number | null;
+  txHash: string | null;
+  submittedHashes: string[];
+  replacements: number;
+  bundleHash?: string;
+  builderPayment?: string; // Wei paid to the builder, from the mined receipt
+  executedRouteId?: number; // ArbExec route the mined transaction ran
+  gasUsed?: string;
+  effectiveGasPrice?: string;
+  revertReason?: string;
+  error?: string;
+}
+
+interface PreparedCall {
+  to: string;
+  data: string;
+  method: "executeOptimalArbitrage" | "initiateArbitrage";
+}
+
+class TradeExecutor {
+  private provider: ethers.Provider;
+  private signer: ethers.Signer;
+  private options: ExecutorOptions;
+  private arbOptimizer = loadArtifactInterface("ArbOptimizer");
+  private arbExec = loadArtifactInterface("IArbExec");
+
+  private nextNonce: number | null = null;
+  private nonceQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(provider: ethers.Provider, signer: ethers.Signer, options: ExecutorOptions) {
+    this.provider = provider;
+    this.signer = signer;
+    this.options = options;
+  }
+
+  /**
+   * Encode the contract call for a plan: IArbExec.initiateArbitrage on the plan's
+   * registered route, or ArbOptimizer.executeOptimalArbitrage when no ArbExec address is
+   * configured. ArbOptimizer borrows WETH and picks its own route, so it only takes WETH
+   * plans. Throws for a plan neither can execute.
+   */
+  buildCall(plan: ExecutionPlan): PreparedCall {
+    if (this.options.arbExecAddress) {
+      if (plan.routeId === undefined) {
+        throw new Error(`No ArbExec route registered for ${plan.tokenPath.join(" → ")} on ${plan.dexA}/${plan.dexB}`);
+      }
+      return {
+        to: this.options.arbExecAddress,
+        data: this.arbExec.encodeFunctionData("initiateArbitrage", [
+          plan.borrowToken.address,
+          plan.borrowAmount,
+          plan.routeId,
+          false,
+        ]),
+        method: "initiateArbitrage",
+      };
+    }
+
+    if (!this.options.arbOptimizerAddress) {
+      throw new Error("No ArbExec or ArbOptimizer address configured");
+    }
+    if (plan.borrowToken.address.toLowerCase() !== CONFIG.WETH_ADDRESS.toLowerCase()) {
+      throw new Error(`ArbOptimizer only borrows WETH, the plan borrows ${plan.borrowToken.symbol}`);
+    }
+    return {
+      to: this.options.arbOptimizerAddress,
+      data: this.arbOptimizer.encodeFunctionData("executeOptimalArbitrage", [plan.borrowAmount]),
+      method: "executeOptimalArbitrage",
+    };
+  }
+
+  /**
+   * Dry-run the call from the signer's address, through the simulation backend if one is set
+   */
+  async precheck(call: PreparedCall): Promise<{ ok: boolean; revertReason?: string }> {
+    if (this.options.simulator) {
+      try {
+        const result = await this.options.simulator.simulate({
+          from: await this.signer.getAddress(),
+          to: call.to,
+          data: call.data,
+        });
+        if (!result.success) return { ok: false, revertReason: result.revert?.reason };
+        if (call.method === "executeOptimalArbitrage" && result.executedRoute === null) {
+          return { ok: false, revertReason: "initiateArbitrage failed inside ArbOptimizer" };
+        }
+        return { ok: true };
+      } catch (error) {
+        return { ok: false, revertReason: `${this.options.simulator.name} simulation failed: ${(error as Error).message}` };
+      }
+    }
+
+    try {
+      const result = await this.provider.call({
+        to: call.to,
+        data: call.data,
+        from: await this.signer.getAddress(),
+      });
+
+      // executeOptimalArbitrage swallows ArbExec failures and returns false instead
+      if (call.method === "executeOptimalArbitrage") {
+        const [success] = this.arbOptimizer.decodeFunctionResult(call.method, result);
+        if (!success) return { ok: false, revertReason: "initiateArbitrage failed inside ArbOptimizer" };
+      }
+      return { ok: true };
+    } catch (error) {
+      return { ok: false, revertReason: this.revertReason(error) };
+    }
+  }
+
+  /**
+   * Pre-check, sign and submit a plan, replacing or cancelling it if it gets stuck
+   */
+  async execute(plan: ExecutionPlan): Promise<ExecutionOutcome> {
+    const outcome: ExecutionOutcome = {
+      status: "failed",
+      nonce: null,
+      txHash: null,
+      submittedHashes: [],
+      replacements: 0,
+    };
+
+    // ArbExec always borrows from Aave, so a plan costed on another lender's premium would not hold
+    if (plan.flashLoan.source !== EXECUTABLE_FLASH_LOAN_SOURCE) {
+      const reason = `ArbExec cannot borrow from ${plan.flashLoan.source}`;
+      console.log(`⛔ Pre-check failed: ${reason}`);
+      return { ...outcome, status: "precheck-failed", revertReason: reason };
+    }
+
+    let call: PreparedCall;
+    try {
+      call = this.buildCall(plan);
+    } catch (error) {
+      console.log(`⛔ Pre-check failed: ${(error as Error).message}`);
+      return { ...outcome, status: "precheck-failed", revertReason: (error as Error).message };
+    }
+
+    const check = await this.precheck(call);
+    if (!check.ok) {
+      console.log(`⛔ Pre-check failed: ${check.revertReason}`);
+      return { ...outcome, status: "precheck-failed", revertReason: check.revertReason };
+    }
+
+    if (this.options.relay) {
+      return this.executeBundle(plan, call, outcome, this.options.relay);
+    }
+
+    let nonce: number;
+    try {
+      nonce = await this.allocateNonce();
+    } catch (error) {
+      return { ...outcome, error: (error as Error).message };
+    }
+    outcome.nonce = nonce;
+
+    const submittedAt = Math.floor(Date.now() / 1000);
+    let gasLimit: bigint;
+    let fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+    try {
+      gasLimit = ((await this.provider.estimateGas({
+        to: call.to,
+        data: call.data,
+        from: await this.signer.getAddress(),
+      })) * BigInt(120)) / BigInt(100);
+      fees = await this.getFees();
+      outcome.submittedHashes.push(await this.send({ ...call, nonce, gasLimit, ...fees }));
+    } catch (error) {
+      this.resyncNonce();
+      return { ...outcome, error: (error as Error).message };
+    }
+    console.log(`🚀 Submitted ${call.method} nonce ${nonce}: ${outcome.submittedHashes[0]}`);
+
+    let cancelling = false;
+    while (true) {
+      const receipt = await this.waitForAnyReceipt(outcome.submittedHashes, this.options.stuckTimeoutMs);
+      if (receipt) {
+        outcome.txHash = receipt.hash;
+        outcome.gasUsed = receipt.gasUsed.toString();
+        outcome.effectiveGasPrice = receipt.gasPrice.toString();
+
+        if (cancelling && receipt.to?.toLowerCase() !== call.to.toLowerCase()) {
+          outcome.status = "cancelled";
+        } else {
+          outcome.status = receipt.status === 1 ? "mined" : "reverted";
+          outcome.executedRouteId = this.executedRoute(plan, receipt);
+          if (this.options.ledger) {
+            await this.options.ledger.recordFromReceipt(
+              this.provider,
+              receipt,
+              plan,
+              this.options.profitRecipient,
+              submittedAt
+            );
+          }
+        }
+        console.log(`✅ ${outcome.status} in block ${receipt.blockNumber}: ${receipt.hash}`);
+        return outcome;
+      }
+
+      if (cancelling && outcome.replacements >= this.options.maxReplacements * 2) {
+        return { ...outcome, error: `Nonce ${nonce} still pending after cancellation attempts` };
+      }
+
+      // Stuck: bump fees and resubmit the same nonce, or cancel once out of replacements
+      fees = await this.bumpFees(fees);
+      const stillValid = !cancelling && (await this.precheck(call)).ok;
+      try {
+        if (!stillValid || outcome.replacements >= this.options.maxReplacements) {
+          cancelling = true;
+          const self = await this.signer.getAddress();
+          outcome.submittedHashes.push(
+            await this.send({ to: self, data: "0x", nonce, gasLimit: BigInt(21000), ...fees })
+          );
+          console.log(`🧹 Cancelling nonce ${nonce}`);
+        } else {
+          outcome.submittedHashes.push(await this.send({ ...call, nonce, gasLimit, ...fees }));
+          console.log(`⛽ Replaced nonce ${nonce} with higher fees`);
+        }
+      } catch (error) {
+        // "nonce too low" means one of the earlier submissions was mined meanwhile
+        if (!/nonce/i.test((error as Error).message)) {
+          console.error(`Replacement for nonce ${nonce} failed:`, error);
+        }
+      }
+      outcome.replacements++;
+    }
+  }
+
+  /**
+   * Builder payment for a plan: BUILDER_TIP_BPS of the expected gross profit, capped at
+   * the tip budget the profitability calculation already deducted
+   */
+  builderPayment(plan: ExecutionPlan): bigint {
+    const grossProfit = BigInt(plan.profitability.grossProfit);
+    const payment = (grossProfit * BigInt(this.options.builderTipBps ?? 0)) / BigInt(10000);
+    const budget = BigInt(plan.profitability.builderTip);
+    return payment < budget ? payment : budget;
+  }
+
+  /**
+   * Sign the call for each target block and hand it to the relay. The builder is paid
+   * through the priority fee, so no extra transfer to the coinbase is needed. The fee is
+   * charged on gas used, so it is priced on the estimate rather than the padded gas limit.
+   */
+  private async executeBundle(
+    plan: ExecutionPlan,
+    call: PreparedCall,
+    outcome: ExecutionOutcome,
+    relay: BundleRelay
+  ): Promise<ExecutionOutcome> {
+    // Profit is denominated in the borrow token; the builder is paid in ETH
+    if (plan.tokenPath[0].toLowerCase() !== CONFIG.WETH_ADDRESS.toLowerCase()) {
+      return { ...outcome, error: "Bundle submission needs a WETH-denominated plan to price the builder tip" };
+    }
+
+    const submittedAt = Math.floor(Date.now() / 1000);
+    let nonce: number;
+    let expectedGas: bigint;
+    try {
+      nonce = await this.allocateNonce();
+      expectedGas = await this.provider.estimateGas({
+        to: call.to,
+        data: call.data,
+        from: await this.signer.getAddress(),
+      });
+    } catch (error) {
+      this.resyncNonce();
+      return { ...outcome, error: (error as Error).message };
+    }
+    outcome.nonce = nonce;
+
+    const gasLimit = (expectedGas * BigInt(120)) / BigInt(100);
+    const maxPriorityFeePerGas = this.builderPayment(plan) / expectedGas;
+
+    const network = await this.provider.getNetwork();
+    const status = await relay.submit(async () => {
+      const { maxFeePerGas } = await this.getFees(maxPriorityFeePerGas);
+      return [
+        await this.signer.signTransaction({
+          type: 2,
+          chainId: network.chainId,
+          to: call.to,
+          data: call.data,
+          value: 0,
+          nonce,
+          gasLimit,
+          maxFeePerGas,
+          maxPriorityFeePerGas,
+        }),
+      ];
+    }, this.options.bundleTargetBlocks ?? 3, this.options.receiptPollMs);
+
+    outcome.bundleHash = status.bundleHash;
+    outcome.submittedHashes = status.txHashes;
+    if (status.state !== "included") {
+      // The nonce was never used on-chain
+      this.resyncNonce();
+      console.log(`📦 Bundle ${status.state} for nonce ${nonce}${status.error ? `: ${status.error}` : ""}`);
+      return {
+        ...outcome,
+        status: status.state === "not-included" ? "not-included" : "failed",
+        revertReason: status.error,
+      };
+    }
+
+    const receipt = await this.provider.getTransactionReceipt(status.txHashes[0]);
+    if (!receipt) return { ...outcome, error: `Receipt for ${status.txHashes[0]} not found` };
+
+    const block = await this.provider.getBlock(receipt.blockNumber);
+    const baseFee = block?.baseFeePerGas ?? BigInt(0);
+
+    outcome.txHash = receipt.hash;
+    outcome.gasUsed = receipt.gasUsed.toString();
+    outcome.effectiveGasPrice = receipt.gasPrice.toString();
+    outcome.builderPayment = (receipt.gasUsed * (receipt.gasPrice - baseFee)).toString();
+    outcome.status = receipt.status === 1 ? "mined" : "reverted";
+    outcome.executedRouteId = this.executedRoute(plan, receipt);
+    if (this.options.ledger) {
+      await this.options.ledger.recordFromReceipt(
+        this.provider,
+        receipt,
+        plan,
+        this.options.profitRecipient,
+        submittedAt
+      );
+    }
+    console.log(`✅ Bundle ${outcome.status} in block ${receipt.blockNumber}: ${receipt.hash}`);
+    return outcome;
+  }
+
+  /**
+   * Route a mined transaction executed, from its ArbitrageExecuted (or ArbitrageSuccess) log
+   */
+  private executedRoute(plan: ExecutionPlan, receipt: ethers.TransactionReceipt): number | undefined {
+    const executed = decodeSimulationLogs(receipt.logs).executedRoute;
+    if (executed !== null && executed !== plan.routeId) {
+      console.log(`⚠️  Executed route #${executed}, the plan was for route #${plan.routeId}`);
+    }
+    return executed ?? undefined;
+  }
+
+  /**
+   * Hand out sequential nonces to concurrent executions
+   */
+  private allocateNonce(): Promise<number> {
+    const next = this.nonceQueue.then(async () => {
+      if (this.nextNonce === null) {
+        this.nextNonce = await this.provider.getTransactionCount(
+          await this.signer.getAddress(),
+          "pending"
+        );
+      }
+      return this.nextNonce++;
+    });
+    this.nonceQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  /**
+   * Re-read the nonce from the node after a submission never reached the mempool
+   */
+  private resyncNonce(): void {
+    this.nonceQueue = this.nonceQueue.then(() => {
+      this.nextNonce = null;
+    });
+  }
+
+  private async send(tx: {
+    to: string;
+    data: string;
+    nonce: number;
+    gasLimit: bigint;
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+  }): Promise<string> {
+    const network = await this.provider.getNetwork();
+    const response = await this.signer.sendTransaction({
+      type: 2,
+      chainId: network.chainId,
+      to: tx.to,
+      data: tx.data,
+      value: 0,
+      nonce: tx.nonce,
+      gasLimit: tx.gasLimit,
+      maxFeePerGas: tx.maxFeePerGas,
+      maxPriorityFeePerGas: tx.maxPriorityFeePerGas,
+    });
+    return response.hash;
+  }
+
+  /**
+   * maxFee = 2 × latest base fee + priority fee, so the transaction stays valid
+   * through several full blocks of base-fee growth
+   */
+  private async getFees(
+    priorityFee?: bigint
+  ): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const block = await this.provider.getBlock("latest");
+    const baseFee = block?.baseFeePerGas ?? BigInt(0);
+    const maxPriorityFeePerGas = priorityFee ?? ethers.parseUnits(this.options.priorityFeeGwei, "gwei");
+    return {
+      maxFeePerGas: baseFee * BigInt(2) + maxPriorityFeePerGas,
+      maxPriorityFeePerGas,
+    };
+  }
+
+  private async bumpFees(previous: {
+    maxFeePerGas: bigint;
+    maxPriorityFeePerGas: bigint;
+  }): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const bump = (value: bigint) =>
+      (value * BigInt(100 + this.options.feeBumpPercent) + BigInt(99)) / BigInt(100);
+    const current = await this.getFees();
+    const maxPriorityFeePerGas = bump(previous.maxPriorityFeePerGas);
+    const bumpedMaxFee = bump(previous.maxFeePerGas);
+    return {
+      maxPriorityFeePerGas,
+      maxFeePerGas: bumpedMaxFee > current.maxFeePerGas ? bumpedMaxFee : current.maxFeePerGas,
+    };
+  }
+
+  private async waitForAnyReceipt(
+    hashes: string[],
+    timeoutMs: number
+  ): Promise<ethers.TransactionReceipt | null> {
+    const deadline = Date.now() + timeoutMs;
+    const pollMs = this.options.receiptPollMs ?? 2000;
+
+    while (Date.now() < deadline) {
+      for (const hash of hashes) {
+        const receipt = await this.provider.getTransactionReceipt(hash);
+        if (receipt) return receipt;
+      }
+      await new Promise((resolve) => setTimeout(resolve, pollMs));
+    }
+    return null;
+  }
+
+  private revertReason(error: unknown): string {
+    const err = error as { reason?: string; shortMessage?: string; message?: string; data?: string };
+    if (err.reason) return err.reason;
+    if (err.data) {
+      for (const iface of [this.arbOptimizer, this.arbExec]) {
+        try {
+          const parsed = iface.parseError(err.data);
+          if (parsed) return `${parsed.name}(${parsed.args.join(", ")})`;
+        } catch {
+          // Not one of this contract's errors
+        }
+      }
+    }
+    return err.shortMessage ?? err.message ?? String(error);
+  }
+}
+
+export type { ExecutorOptions, ExecutionOutcome, PreparedCall };
+export default TradeExecutor;
@@ -0,0 +1,179 @@
+// trade-ledger.ts
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import { ethers } from "ethers";
+import { decodeSimulationLogs } from "./simulation-backend";
+
+interface TradeRecord {
+  txHash: string;
+  status: "success" | "reverted";
+  blockNumber: number;
+  timestamp: number; // Inclusion block timestamp
+  tokenPath: string[];
+  dexA: string;
+  dexB: string;
+  routeId?: number; // ArbExec route that executed, from the receipt; ArbOptimizer may pick another than planned
+  borrowAmount: string; // Borrow-token base units
+  borrowDecimals?: number; // Borrow-token decimals; absent on records written before it existed (18)
+  quotedProfit: string; // Base units, net profit the plan expected
+  realisedProfit: string; // Base units, signed
+  gasUsed: number;
+  effectiveGasPrice: string; // Wei
+  slippageBps: number; // Shortfall of realised vs quoted profit
+  timeToInclusion: number; // Seconds from submission to inclusion
+}
+
+interface TradeFilter {
+  pair?: { token0: string; token1: string };
+  dex?: string; // Matches either leg
+  since?: number; // Unix seconds, inclusive
+  until?: number; // Unix seconds, inclusive
+}
+
+const ERC20_TRANSFER = new ethers.Interface([
+  "event Transfer(address indexed from, address indexed to, uint256 value)",
+]);
+
+class TradeLedger {
+  private filePath: string;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  /**
+   * Append one executed trade to the ledger
+   */
+  record(trade: TradeRecord): void {
+    const dir = dirname(this.filePath);
+    if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+    appendFileSync(this.filePath, JSON.stringify(trade) + "\n");
+  }
+
+  /**
+   * Build and append a record from a mined transaction. Realised profit is the sum of
+   * borrow-token transfers to the profit recipient in the receipt.
+   */
+  async recordFromReceipt(
+    provider: ethers.Provider,
+    receipt: ethers.TransactionReceipt,
+    plan: {
+      tokenPath: string[];
+      borrowToken?: { decimals: number };
+      dexA: string;
+      dexB: string;
+      borrowAmount: string;
+      profitability: { netProfit: string };
+    },
+    profitRecipient: string,
+    submittedAt: number
+  ): Promise<TradeRecord> {
+    const block = await provider.getBlock(receipt.blockNumber);
+    if (!block) throw new Error(`Block ${receipt.blockNumber} not found`);
+
+    const borrowToken = plan.tokenPath[0].toLowerCase();
+    const recipient = profitRecipient.toLowerCase();
+    let realisedProfit = BigInt(0);
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== borrowToken) continue;
+      const parsed = ERC20_TRANSFER.parseLog(log);
+      if (parsed && parsed.args.to.toLowerCase() === recipient) {
+        realisedProfit += parsed.args.value as bigint;
+      }
+    }
+
+    const quotedProfit = BigInt(plan.profitability.netProfit);
+    const slippageBps =
+      quotedProfit > BigInt(0)
+        ? Number(((quotedProfit - realisedProfit) * BigInt(10000)) / quotedProfit)
+        : 0;
+
+    const trade: TradeRecord = {
+      txHash: receipt.hash,
+      status: receipt.status === 1 ? "success" : "reverted",
+      blockNumber: receipt.blockNumber,
+      timestamp: block.timestamp,
+      tokenPath: plan.tokenPath,
+      dexA: plan.dexA,
+      dexB: plan.dexB,
+      routeId: decodeSimulationLogs(receipt.logs).executedRoute ?? undefined,
+      borrowAmount: plan.borrowAmount,
+      borrowDecimals: plan.borrowToken?.decimals ?? 18,
+      quotedProfit: quotedProfit.toString(),
+      realisedProfit: realisedProfit.toString(),
+      gasUsed: Number(receipt.gasUsed),
+      effectiveGasPrice: receipt.gasPrice.toString(),
+      slippageBps,
+      timeToInclusion: Math.max(0, block.timestamp - submittedAt),
+    };
+
+    this.record(trade);
+    return trade;
+  }
+
+  /**
+   * Read trades, optionally filtered by pair, DEX and time window. Lines that do not
+   * parse (e.g. an append torn by a crash) are skipped and reported.
+   */
+  query(filter: TradeFilter = {}): TradeRecord[] {
+    if (!existsSync(this.filePath)) return [];
+
+    const trades: TradeRecord[] = [];
+    const unparseable: number[] = [];
+    readFileSync(this.filePath, "utf8")
+      .split("\n")
+      .forEach((line, index) => {
+        if (line.trim().length === 0) return;
+        try {
+          trades.push(JSON.parse(line));
+        } catch {
+          unparseable.push(index + 1);
+        }
+      });
+    if (unparseable.length > 0) {
+      console.log(`⚠️  Skipped unparseable ledger line(s) ${unparseable.join(", ")} in ${this.filePath}`);
+    }
+
+    return trades.filter((trade) => {
+      if (filter.pair && !this.matchesPair(trade, filter.pair)) return false;
+      if (filter.dex && trade.dexA !== filter.dex && trade.dexB !== filter.dex) return false;
+      if (filter.since !== undefined && trade.timestamp < filter.since) return false;
+      if (filter.until !== undefined && trade.timestamp > filter.until) return false;
+      return true;
+    });
+  }
+
+  /**
+   * Trades in the shape StatisticalAnalyzer expects (profit in whole borrow-token units)
+   */
+  getAnalyzerTrades(filter: TradeFilter = {}): Array<{
+    profit: number;
+    gasUsed: number;
+    slippage: number;
+    executionTime: number;
+  }> {
+    return this.query(filter).map((trade) => TradeLedger.toAnalyzerTrade(trade));
+  }
+
+  static toAnalyzerTrade(trade: TradeRecord): {
+    profit: number;
+    gasUsed: number;
+    slippage: number;
+    executionTime: number;
+  } {
+    return {
+      profit: Number(ethers.formatUnits(trade.realisedProfit, trade.borrowDecimals ?? 18)),
+      gasUsed: trade.gasUsed,
+      slippage: trade.slippageBps,
+      executionTime: trade.timeToInclusion,
+    };
+  }
+
+  private matchesPair(trade: TradeRecord, pair: { token0: string; token1: string }): boolean {
+    const tokens = trade.tokenPath.map((t) => t.toLowerCase());
+    return tokens.includes(pair.token0.toLowerCase()) && tokens.includes(pair.token1.toLowerCase());
+  }
+}
+
+export type { TradeRecord, TradeFilter };
+export default TradeLedger;
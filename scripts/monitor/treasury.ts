@@ -0,0 +1,305 @@
+// treasury.ts
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "fs";
+import { dirname } from "path";
+import { ethers } from "ethers";
+import { Amount } from "./amount";
+import { loadArtifactInterface } from "./artifacts";
+import type { ArbOptimizerContract } from "./bindings/ArbOptimizer";
+import EventIndexer from "./event-indexer";
+import { CallResult, ContractCall, sendCalls, writeSafeBatch } from "./safe-batch";
+import TokenRegistry from "./token-registry";
+
+// Native ETH in balance maps, thresholds and target assets
+export const ETH = "ETH";
+
+interface TreasuryOptions {
+  wethAddress: string;
+  routerAddress: string; // Uniswap V2 style router used for conversions
+  thresholds: Record<string, string>; // Token address or ETH -> human-readable amount that triggers a sweep
+  maxSlippageBps: number;
+  balancesPath: string; // JSONL balance history
+  auditPath: string; // Event index of ProfitWithdrawn/ETHWithdrawn
+  auditStartBlock: number;
+  auditBatchSize?: number;
+  auditReorgDepth?: number;
+}
+
+interface BalanceSnapshot {
+  blockNumber: number;
+  timestamp: number;
+  balances: Record<string, string>; // Token address or ETH -> base units
+}
+
+interface Sweep {
+  asset: string; // Token address or ETH
+  symbol: string;
+  decimals: number;
+  amount: string; // Base units
+  threshold: string; // Base units
+}
+
+interface SweepPlan {
+  blockNumber: number;
+  recipient: string; // The ArbOptimizer owner, who receives every withdrawal
+  target: string | null; // Asset swept balances are converted to; null keeps them as withdrawn
+  sweeps: Sweep[];
+  calls: ContractCall[];
+}
+
+interface WithdrawalRecord {
+  blockNumber: number;
+  transactionHash: string;
+  asset: string; // Token address or ETH
+  symbol: string;
+  amount: string; // Base units
+  formatted: string;
+  recipient: string;
+}
+
+const WETH = new ethers.Interface(["function deposit() payable", "function withdraw(uint256 amount)"]);
+const ERC20 = new ethers.Interface(["function approve(address spender, uint256 amount) returns (bool)"]);
+
+/**
+ * Tracks ArbOptimizer balances over time and sweeps them to the owner once per-token
+ * thresholds are crossed, optionally converting to one target asset. Sweeps are plain
+ * call lists, so the same plan can be sent from the owner key or handed to a multisig.
+ */
+class Treasury {
+  private provider: ethers.Provider;
+  private optimizer: ArbOptimizerContract;
+  private registry: TokenRegistry;
+  private options: TreasuryOptions;
+  private router: ethers.Contract;
+  private indexer: EventIndexer;
+
+  constructor(
+    provider: ethers.Provider,
+    optimizer: ArbOptimizerContract,
+    options: TreasuryOptions,
+    registry: TokenRegistry = new TokenRegistry(provider)
+  ) {
+    this.provider = provider;
+    this.optimizer = optimizer;
+    this.registry = registry;
+    this.options = options;
+    this.router = new ethers.Contract(options.routerAddress, loadArtifactInterface("IUniswapV2Router02"), provider);
+    this.indexer = new EventIndexer(
+      provider,
+      [{ name: "ArbOptimizer", address: optimizer.target as string }],
+      options.auditPath,
+      options.auditStartBlock,
+      { batchSize: options.auditBatchSize, reorgDepth: options.auditReorgDepth }
+    );
+  }
+
+  /**
+   * Current ETH and token balances (supported tokens plus any with a threshold),
+   * appended to the balance history unless `record` is false
+   */
+  async snapshot(record: boolean = true): Promise<BalanceSnapshot> {
+    const block = await this.provider.getBlock("latest");
+    if (!block) throw new Error("Latest block not found");
+    const overrides = { blockTag: block.number };
+
+    const tokens = new Set((await this.optimizer.getSupportedTokens()).map((t) => ethers.getAddress(t)));
+    for (const asset of Object.keys(this.options.thresholds)) {
+      if (asset !== ETH) tokens.add(ethers.getAddress(asset));
+    }
+
+    const balances: Record<string, string> = {
+      [ETH]: (await this.optimizer.getETHBalance(overrides)).toString(),
+    };
+    for (const token of tokens) {
+      balances[token] = (await this.optimizer.getTokenBalance(token, overrides)).toString();
+    }
+
+    const snapshot = { blockNumber: block.number, timestamp: block.timestamp, balances };
+    if (record) {
+      const dir = dirname(this.options.balancesPath);
+      if (!existsSync(dir)) mkdirSync(dir, { recursive: true });
+      appendFileSync(this.options.balancesPath, JSON.stringify(snapshot) + "\n");
+    }
+    return snapshot;
+  }
+
+  /**
+   * Symbol and decimals of a token address or ETH
+   */
+  async assetInfo(asset: string): Promise<{ symbol: string; decimals: number }> {
+    return asset === ETH ? { symbol: ETH, decimals: 18 } : this.registry.resolve(asset);
+  }
+
+  /**
+   * Recorded snapshots, oldest first, optionally since a unix timestamp
+   */
+  history(since?: number): BalanceSnapshot[] {
+    if (!existsSync(this.options.balancesPath)) return [];
+    return readFileSync(this.options.balancesPath, "utf8")
+      .split("\n")
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as BalanceSnapshot)
+      .filter((s) => since === undefined || s.timestamp >= since);
+  }
+
+  /**
+   * Assets whose balance has reached their configured threshold
+   */
+  async dueSweeps(snapshot: BalanceSnapshot): Promise<Sweep[]> {
+    const sweeps: Sweep[] = [];
+    for (const [key, value] of Object.entries(this.options.thresholds)) {
+      const asset = key === ETH ? ETH : ethers.getAddress(key);
+      const { symbol, decimals } = await this.assetInfo(asset);
+      const balance = Amount.from(snapshot.balances[asset] ?? "0", decimals);
+      const threshold = Amount.parse(value, decimals);
+      if (balance.isPositive() && balance.compare(threshold) >= 0) {
+        sweeps.push({ asset, symbol, decimals, amount: balance.toString(), threshold: threshold.toString() });
+      }
+    }
+    return sweeps;
+  }
+
+  /**
+   * Calls that withdraw each swept asset to `recipient` (the owner, EOA or multisig)
+   * and convert it to `target`. Swap minimums are quoted now, less maxSlippageBps,
+   * and must be executed before `deadline` (unix seconds).
+   */
+  async planSweep(
+    sweeps: Sweep[],
+    recipient: string,
+    target: string | null,
+    deadline: number,
+    blockNumber: number
+  ): Promise<SweepPlan> {
+    const optimizer = this.optimizer.interface;
+    const to = this.optimizer.target as string;
+    const resolvedTarget = target === null || target === ETH ? target : ethers.getAddress(target);
+
+    const calls: ContractCall[] = [];
+    for (const sweep of sweeps) {
+      const formatted = `${Amount.from(sweep.amount, sweep.decimals).format()} ${sweep.symbol}`;
+      calls.push(
+        sweep.asset === ETH
+          ? { to, value: "0", data: optimizer.encodeFunctionData("withdrawETH"), description: `Withdraw ${formatted}` }
+          : {
+              to,
+              value: "0",
+              data: optimizer.encodeFunctionData("withdrawToken", [sweep.asset]),
+              description: `Withdraw ${formatted}`,
+            }
+      );
+      if (resolvedTarget !== null && resolvedTarget !== sweep.asset) {
+        calls.push(...(await this.conversionCalls(sweep, resolvedTarget, recipient, deadline, blockNumber)));
+      }
+    }
+    return { blockNumber, recipient, target: resolvedTarget, sweeps, calls };
+  }
+
+  /**
+   * Send a plan's calls in order from the owner, stopping at the first revert
+   */
+  async execute(plan: SweepPlan, signer: ethers.Signer): Promise<CallResult[]> {
+    const owner = await this.optimizer.owner();
+    if (ethers.getAddress(await signer.getAddress()) !== ethers.getAddress(owner)) {
+      throw new Error(`Signer is not the ArbOptimizer owner (${owner})`);
+    }
+
+    return sendCalls(signer, plan.calls);
+  }
+
+  /**
+   * Write a plan as an unsigned Safe Transaction Builder batch for the multisig owner
+   * to propose, sign and execute
+   */
+  writeMultisigBatch(plan: SweepPlan, safeAddress: string, chainId: number, filePath: string): string {
+    return writeSafeBatch(plan.calls, "ArbOptimizer treasury sweep", safeAddress, chainId, filePath);
+  }
+
+  /**
+   * Every ProfitWithdrawn/ETHWithdrawn event up to the current head, indexed
+   * incrementally (with reorg handling) into auditPath
+   */
+  async auditLog(): Promise<WithdrawalRecord[]> {
+    await this.indexer.backfill();
+
+    const records: WithdrawalRecord[] = [];
+    for (const event of this.indexer.query()) {
+      if (event.event !== "ProfitWithdrawn" && event.event !== "ETHWithdrawn") continue;
+      const asset = event.event === "ETHWithdrawn" ? ETH : ethers.getAddress(String(event.args.token));
+      const { symbol, decimals } = await this.assetInfo(asset);
+      records.push({
+        blockNumber: event.blockNumber,
+        transactionHash: event.transactionHash,
+        asset,
+        symbol,
+        amount: String(event.args.amount),
+        formatted: Amount.from(String(event.args.amount), decimals).format(),
+        recipient: String(event.args.recipient),
+      });
+    }
+    return records;
+  }
+
+  /**
+   * Unwrap/wrap between WETH and ETH directly; anything else swaps through the router,
+   * via WETH when neither side is WETH or ETH
+   */
+  private async conversionCalls(
+    sweep: Sweep,
+    target: string,
+    recipient: string,
+    deadline: number,
+    blockNumber: number
+  ): Promise<ContractCall[]> {
+    const weth = ethers.getAddress(this.options.wethAddress);
+    const amount = BigInt(sweep.amount);
+    const targetSymbol = (await this.assetInfo(target)).symbol;
+    const label = `${Amount.from(amount, sweep.decimals).format()} ${sweep.symbol} to ${targetSymbol}`;
+
+    if (sweep.asset === weth && target === ETH) {
+      return [{ to: weth, value: "0", data: WETH.encodeFunctionData("withdraw", [amount]), description: `Unwrap ${label}` }];
+    }
+    if (sweep.asset === ETH && target === weth) {
+      return [{ to: weth, value: amount.toString(), data: WETH.encodeFunctionData("deposit"), description: `Wrap ${label}` }];
+    }
+
+    const from = sweep.asset === ETH ? weth : sweep.asset;
+    const to = target === ETH ? weth : target;
+    const path = from === weth || to === weth ? [from, to] : [from, weth, to];
+    const amounts: bigint[] = await this.router.getAmountsOut(amount, path, { blockTag: blockNumber });
+    const minOut = (amounts[amounts.length - 1] * BigInt(10000 - this.options.maxSlippageBps)) / BigInt(10000);
+
+    const router = this.router.interface;
+    const routerAddress = this.router.target as string;
+    const description = `Swap ${label}`;
+    if (sweep.asset === ETH) {
+      return [
+        {
+          to: routerAddress,
+          value: amount.toString(),
+          data: router.encodeFunctionData("swapExactETHForTokens", [minOut, path, recipient, deadline]),
+          description,
+        },
+      ];
+    }
+
+    const approve = {
+      to: sweep.asset,
+      value: "0",
+      data: ERC20.encodeFunctionData("approve", [routerAddress, amount]),
+      description: `Approve router for ${Amount.from(amount, sweep.decimals).format()} ${sweep.symbol}`,
+    };
+    const method = target === ETH ? "swapExactTokensForETH" : "swapExactTokensForTokens";
+    return [
+      approve,
+      {
+        to: routerAddress,
+        value: "0",
+        data: router.encodeFunctionData(method, [amount, minOut, path, recipient, deadline]),
+        description,
+      },
+    ];
+  }
+}
+
+export type { TreasuryOptions, BalanceSnapshot, Sweep, SweepPlan, WithdrawalRecord };
+export default Treasury;
@@ -0,0 +1,146 @@
+// amm-simulator.test.ts
+import { expect } from "chai";
+import AmmSimulator, {
+  MAX_SQRT_RATIO,
+  MAX_TICK,
+  MIN_SQRT_RATIO,
+  MIN_TICK,
+  getSqrtRatioAtTick,
+  getTickAtSqrtRatio,
+} from "../scripts/monitor/amm-simulator";
+import type { PoolSnapshot } from "../scripts/monitor/arbitrage-monitor";
+import ProfitabilityCalculator from "../scripts/monitor/profitability-calculator";
+
+const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+
+function v2Pool(address: string, reserve0: bigint, reserve1: bigint, fee: number = 3000): PoolSnapshot {
+  return {
+    address,
+    poolType: "uniswap-v2",
+    token0: USDC,
+    token1: WETH,
+    reserve0,
+    reserve1,
+    fee,
+    amount0: BigInt(0),
+    amount1: BigInt(0),
+    price: 0,
+    timestamp: 0,
+    blockNumber: 0,
+    transactionHash: "",
+    logIndex: 0,
+  };
+}
+
+describe("TickMath", () => {
+  it("maps the tick bounds to the sqrt ratio bounds", () => {
+    expect(getSqrtRatioAtTick(MIN_TICK)).to.equal(MIN_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(MAX_TICK)).to.equal(MAX_SQRT_RATIO);
+    expect(getSqrtRatioAtTick(0)).to.equal(BigInt(2) ** BigInt(96));
+  });
+
+  it("rejects ticks and prices outside the bounds", () => {
+    expect(() => getSqrtRatioAtTick(MIN_TICK - 1)).to.throw("out of range");
+    expect(() => getSqrtRatioAtTick(MAX_TICK + 1)).to.throw("out of range");
+    expect(() => getTickAtSqrtRatio(MIN_SQRT_RATIO - BigInt(1))).to.throw("out of range");
+    expect(() => getTickAtSqrtRatio(MAX_SQRT_RATIO)).to.throw("out of range");
+  });
+
+  it("round-trips ticks and returns the greatest tick at or below a price", () => {
+    for (const tick of [MIN_TICK, -200000, -887, -1, 0, 1, 60, 887, 200000, MAX_TICK - 1]) {
+      const sqrtRatio = getSqrtRatioAtTick(tick);
+      expect(getTickAtSqrtRatio(sqrtRatio)).to.equal(tick);
+      expect(getTickAtSqrtRatio(sqrtRatio + BigInt(1))).to.equal(tick);
+      if (tick > MIN_TICK) expect(getTickAtSqrtRatio(sqrtRatio - BigInt(1))).to.equal(tick - 1);
+    }
+    expect(getTickAtSqrtRatio(MAX_SQRT_RATIO - BigInt(1))).to.equal(MAX_TICK - 1);
+  });
+});
+
+describe("AmmSimulator V2", () => {
+  const simulator = new AmmSimulator();
+
+  it("matches UniswapV2Library.getAmountOut", () => {
+    const reserveIn = BigInt("5000000000000000000000");
+    const reserveOut = BigInt("10000000000000");
+    const amountIn = BigInt("1000000000000000000");
+    const expected = (amountIn * BigInt(997) * reserveOut) / (reserveIn * BigInt(1000) + amountIn * BigInt(997));
+    expect(simulator.getAmountOutV2(amountIn, reserveIn, reserveOut)).to.equal(expected);
+  });
+
+  it("returns zero for no input and rejects empty reserves", () => {
+    expect(simulator.getAmountOutV2(BigInt(0), BigInt(1), BigInt(1))).to.equal(BigInt(0));
+    expect(() => simulator.getAmountOutV2(BigInt(1), BigInt(0), BigInt(1))).to.throw("Insufficient liquidity");
+  });
+
+  it("swaps in the direction of the input token", () => {
+    const pool = v2Pool("0x01", BigInt(2_000_000e6), BigInt(1000e18));
+    const wethIn = simulator.quoteExactInput(pool, WETH, BigInt(1e18));
+    expect(wethIn.amountOut).to.equal(simulator.getAmountOutV2(BigInt(1e18), pool.reserve1, pool.reserve0));
+    const usdcIn = simulator.quoteExactInput(pool, USDC, BigInt(2000e6));
+    expect(usdcIn.amountOut).to.equal(simulator.getAmountOutV2(BigInt(2000e6), pool.reserve0, pool.reserve1));
+  });
+});
+
+describe("ProfitabilityCalculator closed-form optimum", () => {
+  const simulator = new AmmSimulator();
+  const calculator = new ProfitabilityCalculator(simulator);
+  const costs = {
+    flashLoanPremiumBps: 5,
+    gasPrice: "0",
+    gasUnitsEstimate: 0,
+    builderTipBps: 10,
+    safetyBufferBps: 5,
+  };
+  // 1% apart: buy WETH cheap on leg 1 (WETH -> USDC at 2020), sell back on leg 2 (USDC -> WETH at 2000)
+  const route = {
+    borrowToken: WETH,
+    leg1Pool: v2Pool("0x01", BigInt(20_200_000e6), BigInt(10_000e18)),
+    leg2Pool: v2Pool("0x02", BigInt(4_000_000e6), BigInt(2_000e18)),
+  };
+  const bounds = { minBorrowAmount: "0", maxBorrowAmount: (BigInt(200) * BigInt(1e18)).toString() };
+
+  const netProfit = (amount: bigint): bigint => {
+    const out = simulator.simulateRoute(WETH, amount, route.leg1Pool, route.leg2Pool).leg2AmountOut;
+    // Each cost is rounded down on its own, as the calculator does
+    const fees = [costs.flashLoanPremiumBps, costs.builderTipBps, costs.safetyBufferBps].reduce(
+      (sum, bps) => sum + (amount * BigInt(bps)) / BigInt(10000),
+      BigInt(0)
+    );
+    return out - amount - fees;
+  };
+
+  it("matches a brute-force scan of the exact simulation", () => {
+    const result = calculator.findOptimalBorrowAmount(route, bounds, costs);
+    expect(result.method).to.equal("closed-form");
+
+    const max = BigInt(bounds.maxBorrowAmount);
+    const steps = BigInt(2000);
+    let bestAmount = BigInt(0);
+    let bestProfit = BigInt(0);
+    for (let i = BigInt(0); i <= steps; i++) {
+      const amount = (max * i) / steps;
+      const profit = netProfit(amount);
+      if (profit > bestProfit) {
+        bestProfit = profit;
+        bestAmount = amount;
+      }
+    }
+
+    const optimum = BigInt(result.optimalAmount);
+    expect(bestProfit > BigInt(0)).to.equal(true);
+    // Never worse than the best grid point, and within one grid step of it
+    expect(netProfit(optimum) >= bestProfit).to.equal(true);
+    const distance = optimum > bestAmount ? optimum - bestAmount : bestAmount - optimum;
+    expect(distance <= max / steps).to.equal(true);
+    expect(BigInt(result.maxProfit)).to.equal(netProfit(optimum));
+  });
+
+  it("falls back to the minimum size when the spread does not cover the fees", () => {
+    const flat = { ...route, leg2Pool: v2Pool("0x02", BigInt(4_040_000e6), BigInt(2_000e18)) };
+    const result = calculator.findOptimalBorrowAmount(flat, { ...bounds, minBorrowAmount: BigInt(1e18).toString() }, costs);
+    expect(result.optimalAmount).to.equal(BigInt(1e18).toString());
+    expect(result.profitability.isProfitable).to.equal(false);
+  });
+});
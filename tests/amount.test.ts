@@ -0,0 +1,90 @@
+// amount.test.ts
+import { expect } from "chai";
+import { Amount } from "../scripts/monitor/amount";
+
+describe("Amount", () => {
+  const usdc = (value: string) => Amount.parse(value, 6);
+  const weth = (value: string) => Amount.parse(value, 18);
+
+  describe("construction", () => {
+    it("parses human-readable values into base units", () => {
+      expect(usdc("1.5").raw).to.equal(BigInt(1500000));
+      expect(weth("0.000000000000000001").raw).to.equal(BigInt(1));
+      expect(Amount.from("2500000", 6).format()).to.equal("2.5");
+    });
+
+    it("rejects decimals outside 0-77", () => {
+      expect(() => Amount.zero(-1)).to.throw("Invalid decimals: -1");
+      expect(() => Amount.zero(78)).to.throw("Invalid decimals: 78");
+      expect(() => Amount.zero(6.5)).to.throw("Invalid decimals: 6.5");
+    });
+  });
+
+  describe("arithmetic on one token", () => {
+    it("adds, subtracts and compares", () => {
+      expect(usdc("1.25").plus(usdc("0.75")).raw).to.equal(BigInt(2000000));
+      expect(usdc("1").minus(usdc("1.5")).format()).to.equal("-0.5");
+      expect(weth("1").compare(weth("2"))).to.equal(-1);
+      expect(weth("2").compare(weth("2"))).to.equal(0);
+      expect(usdc("-3").floorAtZero().isZero()).to.equal(true);
+    });
+
+    it("refuses to mix amounts of different decimals", () => {
+      const mismatch = "Amount unit mismatch: 6 vs 18 decimals";
+      expect(() => usdc("1").plus(weth("1"))).to.throw(mismatch);
+      expect(() => usdc("1").minus(weth("1"))).to.throw(mismatch);
+      expect(() => usdc("1").ratio(weth("1"))).to.throw(mismatch);
+      expect(() => usdc("1").compare(weth("1"))).to.throw(mismatch);
+    });
+  });
+
+  describe("mulBps", () => {
+    it("takes a basis-point share, rounding down", () => {
+      // 9 bps Aave premium on 1000 USDC
+      expect(usdc("1000").mulBps(9).format()).to.equal("0.9");
+      expect(Amount.from("1111", 6).mulBps(9).raw).to.equal(BigInt(0));
+      expect(weth("1").mulBps(10000).raw).to.equal(weth("1").raw);
+    });
+
+    it("rejects fractional bps", () => {
+      expect(() => usdc("1").mulBps(2.5)).to.throw("bps must be an integer, got 2.5");
+    });
+  });
+
+  describe("convert", () => {
+    it("prices one token in another across decimals", () => {
+      // 0.5 WETH at 2000.123456 USDC per WETH
+      const rate = usdc("2000.123456");
+      expect(weth("0.5").convert(rate, 6).format()).to.equal("1000.061728");
+      // 1500 USDC at 0.0005 WETH per USDC
+      expect(usdc("1500").convert(weth("0.0005"), 18).format()).to.equal("0.75");
+    });
+
+    it("rounds down to the target token's base unit", () => {
+      expect(weth("0.000000000000000001").convert(usdc("2000"), 6).raw).to.equal(BigInt(0));
+    });
+  });
+
+  describe("ratio and per", () => {
+    it("divides amounts of the same token, or 0 against zero", () => {
+      expect(usdc("1").ratio(usdc("4"))).to.equal(0.25);
+      expect(weth("3").ratio(weth("2"))).to.equal(1.5);
+      expect(usdc("1").ratio(Amount.zero(6))).to.equal(0);
+    });
+
+    it("gives whole units of one token per whole unit of another", () => {
+      expect(usdc("3000").per(weth("1.5"))).to.equal(2000);
+      expect(weth("1").per(usdc("2000"))).to.equal(0.0005);
+      expect(usdc("1").per(Amount.zero(18))).to.equal(0);
+    });
+  });
+
+  describe("serialisation", () => {
+    it("writes base units with the decimals and formatted value", () => {
+      expect(JSON.parse(JSON.stringify({ profit: usdc("12.5") }))).to.deep.equal({
+        profit: { raw: "12500000", decimals: 6, formatted: "12.5" },
+      });
+      expect(`${weth("1")}`).to.equal("1000000000000000000");
+    });
+  });
+});
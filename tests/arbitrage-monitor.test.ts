@@ -0,0 +1,139 @@
+// arbitrage-monitor.test.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import ArbitrageMonitor from "../scripts/monitor/arbitrage-monitor";
+import { V2_SYNC_TOPIC, V3_SWAP_TOPIC } from "../scripts/monitor/pool-events";
+import TokenRegistry from "../scripts/monitor/token-registry";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+import { UniswapDeployment, addV2Liquidity, addV3Liquidity, deployUniswap, swapV2, swapV3 } from "./helpers/uniswap";
+
+describe("ArbitrageMonitor pool history on a local node", () => {
+  let node: LocalNode;
+  let uniswap: UniswapDeployment;
+  let pair: string;
+  let head: number; // After the V2 liquidity, before any swap
+  let v3Pool: string;
+  let v2Swap: ethers.TransactionReceipt;
+  let v3Swap: ethers.TransactionReceipt;
+
+  // Fails the first `failures` getLogs calls, then defers to the node
+  const monitor = (failures: number): ArbitrageMonitor => {
+    const m = new ArbitrageMonitor(node.url, "", [], new TokenRegistry(node.provider));
+    const provider = (m as unknown as { provider: ethers.JsonRpcProvider }).provider;
+    const getLogs = provider.getLogs.bind(provider);
+    let calls = 0;
+    provider.getLogs = async (filter) => {
+      if (calls++ < failures) throw new Error("upstream timeout");
+      return getLogs(filter);
+    };
+    return m;
+  };
+
+  before(async () => {
+    node = await startLocalNode();
+    uniswap = await deployUniswap(node.signer);
+    const [tokenA, tokenB] = uniswap.tokens;
+    pair = await addV2Liquidity(uniswap, tokenA, tokenB, ethers.parseEther("1000"), ethers.parseEther("2000000"));
+    await addV2Liquidity(uniswap, tokenA, tokenB, ethers.parseEther("10"), ethers.parseEther("20000"));
+    head = await node.provider.getBlockNumber();
+
+    v2Swap = await swapV2(uniswap, tokenA, tokenB, ethers.parseEther("5"));
+    v3Pool = await addV3Liquidity(uniswap, tokenA, tokenB, 500, 2000, ethers.parseEther("100"));
+    v3Swap = await swapV3(uniswap, tokenB, tokenA, 500, ethers.parseEther("10000"));
+  });
+
+  after(async () => {
+    await node.stop();
+  });
+
+  it("decodes a V3 Swap into the pool's state, tokens, fee and block timestamp", async () => {
+    // The pool's Initialize and Mint logs change no snapshot
+    const snapshots = await monitor(0).fetchPoolSnapshots(v3Pool, uniswap.deployBlock, v3Swap.blockNumber);
+    expect(snapshots).to.have.length(1);
+
+    const blockTag = { blockTag: v3Swap.blockNumber };
+    const pool = new ethers.Contract(
+      v3Pool,
+      [
+        "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16, uint16, uint16, uint8, bool)",
+        "function liquidity() view returns (uint128)",
+        "event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)",
+      ],
+      node.provider
+    );
+    const [sqrtPriceX96, tick] = await pool.slot0(blockTag);
+    const swapLog = v3Swap.logs.find((log) => log.address === v3Pool && log.topics[0] === V3_SWAP_TOPIC)!;
+    const swap = pool.interface.parseLog(swapLog)!;
+    const block = await node.provider.getBlock(v3Swap.blockNumber);
+
+    const [snapshot] = snapshots;
+    expect(snapshot).to.deep.include({
+      address: v3Pool,
+      poolType: "uniswap-v3",
+      token0: uniswap.tokens[0],
+      token1: uniswap.tokens[1],
+      fee: 500,
+      sqrtPriceX96,
+      liquidity: await pool.liquidity(blockTag),
+      tick: Number(tick),
+      amount0: swap.args.amount0,
+      amount1: ethers.parseEther("10000"),
+      timestamp: block!.timestamp,
+      blockNumber: v3Swap.blockNumber,
+      transactionHash: v3Swap.hash,
+      logIndex: swapLog.index,
+    });
+    expect(snapshot.amount0 < BigInt(0)).to.equal(true);
+    const price = Number(sqrtPriceX96) ** 2 / 2 ** 192;
+    expect(snapshot.price).to.be.closeTo(price, price * 1e-9);
+  });
+
+  it("folds a V2 Swap's amounts into the Sync from the same transaction", async () => {
+    const snapshots = await monitor(0).fetchPoolSnapshots(pair, uniswap.deployBlock, v2Swap.blockNumber);
+    expect(snapshots.map((s) => s.blockNumber)).to.deep.equal([head - 1, head, v2Swap.blockNumber]);
+
+    // Liquidity changes sync the reserves without a swap
+    expect(snapshots.slice(0, 2).map((s) => [s.amount0, s.amount1])).to.deep.equal([
+      [BigInt(0), BigInt(0)],
+      [BigInt(0), BigInt(0)],
+    ]);
+
+    const [, before, swapped] = snapshots;
+    const v2Pair = new ethers.Contract(pair, ["function getReserves() view returns (uint112, uint112, uint32)"], node.provider);
+    const [reserve0, reserve1] = await v2Pair.getReserves({ blockTag: v2Swap.blockNumber });
+    const sync = v2Swap.logs.find((log) => log.address === pair && log.topics[0] === V2_SYNC_TOPIC)!;
+    const block = await node.provider.getBlock(v2Swap.blockNumber);
+
+    expect(swapped).to.deep.include({
+      address: pair,
+      poolType: "uniswap-v2",
+      token0: uniswap.tokens[0],
+      token1: uniswap.tokens[1],
+      fee: 3000,
+      reserve0,
+      reserve1,
+      amount0: ethers.parseEther("5"),
+      amount1: reserve1 - before.reserve1,
+      timestamp: block!.timestamp,
+      transactionHash: v2Swap.hash,
+      logIndex: sync.index,
+    });
+    expect(reserve0 - before.reserve0).to.equal(ethers.parseEther("5"));
+    expect(swapped.amount1 < BigInt(0)).to.equal(true);
+  });
+
+  it("retries a log range that fails transiently", async () => {
+    const expected = await monitor(0).fetchPoolSnapshots(pair, uniswap.deployBlock, head);
+    expect(expected.map((s) => s.blockNumber)).to.deep.equal([head - 1, head]);
+
+    const retried = await monitor(1).fetchPoolSnapshots(pair, uniswap.deployBlock, head);
+    expect(retried).to.deep.equal(expected);
+  });
+
+  it("fails instead of carrying state across a range it could not read", async () => {
+    const error = await monitor(3)
+      .reconstructPoolState(pair, uniswap.deployBlock, head)
+      .then(() => null, (e: Error) => e);
+    expect(error?.message).to.include(`blocks ${uniswap.deployBlock}-${head} unavailable after 3 attempts`);
+  });
+});
@@ -0,0 +1,171 @@
+// backtester.test.ts
+import { expect } from "chai";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers } from "ethers";
+import Backtester, { BacktestOptions, BacktestParameters } from "../scripts/monitor/backtester";
+
+describe("Backtester replaying a recorded dataset", () => {
+  let dir: string;
+  let datasetPath: string;
+
+  const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+  const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+  const POOL_A = "0x00000000000000000000000000000000000000A1";
+  const POOL_B = "0x00000000000000000000000000000000000000B1";
+  const V3_POOL = "0x00000000000000000000000000000000000000C1";
+
+  const options: BacktestOptions = {
+    quoteAmount: "1",
+    flashLoanPremiumBps: 5,
+    builderTipBps: 0,
+    safetyBufferBps: 0,
+    minFlashLoanAmount: "0.1",
+    maxFlashLoanAmount: "100",
+    cooldownBlocks: 0,
+    wethAddress: WETH,
+  };
+
+  const params: BacktestParameters = {
+    name: "baseline",
+    minProfitBps: 50,
+    maxSlippageBps: 50,
+    gasUnitsEstimate: 300000,
+    priorityFeeGwei: "1",
+    latencyBlocks: 1,
+  };
+
+  // V2 pool state as recorded: 1000 WETH against `usdc` USDC
+  const v2 = (address: string, blockNumber: number, usdc: number) => ({
+    type: "snapshot",
+    snapshot: {
+      address,
+      poolType: "uniswap-v2",
+      token0: WETH,
+      token1: USDC,
+      reserve0: ethers.parseEther("1000").toString(),
+      reserve1: ethers.parseUnits(String(usdc), 6).toString(),
+      fee: 3000,
+      amount0: "0",
+      amount1: "0",
+      price: usdc / 1000,
+      timestamp: 1700000000 + blockNumber * 12,
+      blockNumber,
+      transactionHash: ethers.ZeroHash,
+      logIndex: 0,
+    },
+  });
+
+  /**
+   * Pool B quotes 5% above pool A at block 100. At 101 WETH gets cheaper on A, which
+   * only helps the first trade; at 102 B falls to A's price, so the second trade
+   * (sized at 101, executed at 102) misses its minimum output and reverts.
+   */
+  const records = [
+    { type: "header", fromBlock: 100, toBlock: 103, tokenPairs: [{ token0: WETH, token1: USDC }] },
+    { type: "token", token: { address: WETH, symbol: "WETH", decimals: 18, feed: null } },
+    { type: "token", token: { address: USDC, symbol: "USDC", decimals: 6, feed: null } },
+    { type: "pool", dex: "uniswap-v2", address: POOL_A, token0: WETH, token1: USDC },
+    { type: "pool", dex: "sushiswap", address: POOL_B, token0: WETH, token1: USDC },
+    v2(POOL_A, 100, 2000000),
+    v2(POOL_B, 100, 2100000),
+    v2(POOL_A, 101, 1990000),
+    v2(POOL_B, 102, 1990000),
+    ...[100, 101, 102, 103].map((blockNumber) => ({
+      type: "block",
+      blockNumber,
+      baseFeePerGas: ethers.parseUnits("10", "gwei").toString(),
+    })),
+  ];
+
+  const write = (lines: unknown[]): void => {
+    writeFileSync(datasetPath, lines.map((line) => JSON.stringify(line)).join("\n") + "\n");
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "backtester-"));
+    datasetPath = join(dir, "dataset.jsonl");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("loads snapshots with bigint state and carries V3 ticks onto Swap-only snapshots", () => {
+    const v3 = (blockNumber: number, extra: object) => ({
+      type: "snapshot",
+      snapshot: {
+        ...v2(V3_POOL, blockNumber, 2000000).snapshot,
+        poolType: "uniswap-v3",
+        sqrtPriceX96: (BigInt(2) ** BigInt(96)).toString(),
+        liquidity: "123456789",
+        tick: 0,
+        amount0: "-5",
+        amount1: "7",
+        ...extra,
+      },
+    });
+    write([
+      ...records,
+      v3(100, { tickSpacing: 60, ticks: [{ tick: -60, liquidityNet: "-42" }, { tick: 60, liquidityNet: "42" }] }),
+      v3(101, {}),
+    ]);
+
+    const dataset = Backtester.load(datasetPath);
+    expect(dataset).to.include({ fromBlock: 100, toBlock: 103 });
+    expect(dataset.baseFees.get(102)).to.equal(ethers.parseUnits("10", "gwei"));
+
+    const [opening] = dataset.history.get(POOL_A.toLowerCase())!;
+    expect(opening).to.include({ reserve0: ethers.parseEther("1000"), reserve1: BigInt(2000000e6), amount0: BigInt(0) });
+
+    const [, swapped] = dataset.history.get(V3_POOL.toLowerCase())!;
+    expect(swapped).to.deep.include({
+      poolType: "uniswap-v3",
+      sqrtPriceX96: BigInt(2) ** BigInt(96),
+      liquidity: BigInt(123456789),
+      amount0: BigInt(-5),
+      amount1: BigInt(7),
+      tickSpacing: 60,
+      ticks: [
+        { tick: -60, liquidityNet: BigInt(-42) },
+        { tick: 60, liquidityNet: BigInt(42) },
+      ],
+    });
+  });
+
+  it("reports PnL, hit rate and drawdown for the replayed trades", () => {
+    write(records);
+    const [result] = new Backtester(Backtester.load(datasetPath), options).run([params]);
+
+    expect(result).to.include({ opportunities: 2, trades: 2, wins: 1, reverts: 1, hitRate: 50 });
+    const [won, lost] = result.log;
+    expect(won).to.include({ detectedBlock: 100, executedBlock: 101, dexA: "sushiswap", dexB: "uniswap-v2", status: "success" });
+    expect(BigInt(won.realisedProfit) > BigInt(won.quotedProfit)).to.equal(true);
+
+    // A revert costs exactly the gas at the inclusion block: 300k gas at 10 + 1 gwei
+    expect(lost).to.include({ detectedBlock: 101, executedBlock: 102, status: "reverted" });
+    const gasCost = BigInt(300000) * ethers.parseUnits("11", "gwei");
+    expect(lost.realisedProfit).to.equal((-gasCost).toString());
+
+    expect(result.byToken).to.have.length(1);
+    const [weth] = result.byToken;
+    expect(weth).to.include({ token: WETH, symbol: "WETH" });
+    expect(weth.pnl.raw).to.equal(BigInt(won.realisedProfit) - gasCost);
+    expect(weth.maxDrawdown.raw).to.equal(gasCost);
+  });
+
+  it("replays every parameter set over the same dataset", () => {
+    write(records);
+    const [strict, instant] = new Backtester(Backtester.load(datasetPath), options).run([
+      { ...params, name: "strict", minProfitBps: 1000 },
+      { ...params, name: "instant", latencyBlocks: 0 },
+    ]);
+
+    expect(strict).to.include({ opportunities: 0, trades: 0, hitRate: 0 });
+    expect(strict.byToken).to.be.empty;
+    // Executed in the block it was seen in, nothing moves underneath either trade
+    expect(instant).to.include({ trades: 2, wins: 2, reverts: 0, hitRate: 100 });
+    expect(instant.byToken[0].maxDrawdown.raw).to.equal(BigInt(0));
+  });
+});
@@ -0,0 +1,184 @@
+// block-watcher.test.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import BlockWatcher, { WatcherOptions } from "../scripts/monitor/block-watcher";
+import type ArbitrageOrchestrator from "../scripts/monitor/orchestrator";
+import type { ExecutionPlan } from "../scripts/monitor/orchestrator";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+
+describe("BlockWatcher", () => {
+  let node: LocalNode;
+
+  const plan = (tokenA: string, tokenB: string, dexA: string = "uniswap-v3", dexB: string = "sushiswap") =>
+    ({ tokenPath: [tokenA, tokenB], dexA, dexB }) as unknown as ExecutionPlan;
+
+  /**
+   * Records the blocks it is asked to plan and the prune calls before them. `plansFor`
+   * picks the plans returned per block; `gate` holds every evaluation until it resolves.
+   */
+  const orchestrator = (plansFor: (blockNumber: number) => ExecutionPlan[] = () => [], gate?: Promise<void>) => {
+    const seen = { blocks: [] as number[], calls: [] as string[] };
+    const stub = {
+      pruneStaleOpportunities: (blockNumber: number, maxAgeBlocks: number) => {
+        seen.calls.push(`prune ${blockNumber} max ${maxAgeBlocks}`);
+        return 0;
+      },
+      analyzeAndPlan: async (_pairs: unknown, _minProfitBps: number, blockNumber: number) => {
+        seen.calls.push(`plan ${blockNumber}`);
+        await gate;
+        seen.blocks.push(blockNumber);
+        return plansFor(blockNumber);
+      },
+    };
+    return { seen, stub: stub as unknown as ArbitrageOrchestrator };
+  };
+
+  const watch = (
+    stub: ArbitrageOrchestrator,
+    wsUrl?: string,
+    onPlans?: (plans: ExecutionPlan[], blockNumber: number) => Promise<void>
+  ): BlockWatcher => {
+    const options: WatcherOptions = {
+      rpcUrl: node.url,
+      wsUrl,
+      pollIntervalMs: 100,
+      opportunityMaxAgeBlocks: 2,
+      actedOnCooldownBlocks: 5,
+      minProfitBps: 100,
+    };
+    return new BlockWatcher(stub, [], options, onPlans);
+  };
+
+  // Deliver a block as the provider's "block" event would
+  const deliver = (watcher: BlockWatcher, blockNumber: number): void =>
+    (watcher as unknown as { handleBlock(blockNumber: number): void }).handleBlock(blockNumber);
+
+  const until = async (
+    condition: () => boolean,
+    timeoutMs: number = 10000,
+    poke: () => Promise<unknown> = async () => {}
+  ): Promise<void> => {
+    const deadline = Date.now() + timeoutMs;
+    while (!condition()) {
+      if (Date.now() > deadline) throw new Error("Timed out waiting for the watcher");
+      await poke();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    }
+  };
+
+  const mine = async (): Promise<number> => {
+    await node.provider.send("evm_mine", []);
+    return node.provider.getBlockNumber();
+  };
+
+  // The watcher subscribes in the background, so blocks mined before then go unseen
+  const mineUntilSeen = async (seen: { blocks: number[] }): Promise<void> => {
+    await until(() => seen.blocks.length > 0, 10000, mine);
+  };
+
+  before(async () => {
+    node = await startLocalNode();
+  });
+
+  after(async () => {
+    await node.stop();
+  });
+
+  describe("block handling", () => {
+    it("prunes stale opportunities before planning each block", async () => {
+      const { seen, stub } = orchestrator();
+      const watcher = watch(stub);
+      for (const block of [7, 8]) {
+        deliver(watcher, block);
+        await until(() => seen.blocks.includes(block));
+      }
+      await watcher.stop();
+
+      expect(seen.calls).to.deep.equal(["prune 7 max 2", "plan 7", "prune 8 max 2", "plan 8"]);
+    });
+
+    it("acts on a plan once per cooldown window", async () => {
+      const A = "0x00000000000000000000000000000000000000aa";
+      const B = "0x00000000000000000000000000000000000000bb";
+      const { seen, stub } = orchestrator((block) => [
+        // The same plan with checksummed addresses from block 4 on
+        block >= 4 ? plan(ethers.getAddress(A), ethers.getAddress(B)) : plan(A, B),
+        ...(block >= 3 ? [plan(A, B, "sushiswap", "uniswap-v3")] : []),
+      ]);
+      const delivered: Array<[number, string[]]> = [];
+      const watcher = watch(stub, undefined, async (plans, block) => {
+        delivered.push([block, plans.map((p) => `${p.dexA}>${p.dexB}`)]);
+      });
+
+      for (const block of [1, 2, 3, 4, 6, 7]) {
+        deliver(watcher, block);
+        await until(() => seen.blocks.includes(block));
+      }
+      await watcher.stop();
+
+      // Cooldown 5: acted on at 1, the first plan is due again once more than 5 blocks have passed
+      expect(delivered).to.deep.equal([
+        [1, ["uniswap-v3>sushiswap"]],
+        [3, ["sushiswap>uniswap-v3"]],
+        [7, ["uniswap-v3>sushiswap"]],
+      ]);
+    });
+
+    it("collapses blocks that arrive mid-evaluation into the newest", async () => {
+      let release = () => {};
+      const gate = new Promise<void>((resolve) => (release = resolve));
+      const { seen, stub } = orchestrator(() => [], gate);
+      const watcher = watch(stub);
+
+      for (const block of [10, 11, 12, 13]) deliver(watcher, block);
+      release();
+      await until(() => seen.blocks.length === 2);
+      await watcher.stop();
+
+      expect(seen.blocks).to.deep.equal([10, 13]);
+      const stats = watcher.getLatencyStats();
+      expect(stats).to.include({ blocks: 2, skippedBlocks: 2, maxHeadLag: 3 });
+    });
+  });
+
+  describe("connections", () => {
+    it("resubscribes after the WebSocket closes and catches up to the head", async () => {
+      const { seen, stub } = orchestrator();
+      const watcher = watch(stub, node.wsUrl);
+      const running = watcher.run();
+      try {
+        await mineUntilSeen(seen);
+
+        const socket = (watcher as unknown as { provider: ethers.WebSocketProvider }).provider.websocket;
+        socket.close();
+        // Mined while disconnected
+        const missed = await mine();
+        await until(() => seen.blocks.includes(missed));
+
+        const after = await mine();
+        await until(() => seen.blocks.includes(after));
+        expect((watcher as unknown as { provider: ethers.Provider }).provider).to.be.instanceOf(
+          ethers.WebSocketProvider
+        );
+      } finally {
+        await watcher.stop();
+        await running;
+      }
+    });
+
+    it("polls over HTTP when the WebSocket cannot connect", async () => {
+      const { seen, stub } = orchestrator();
+      const watcher = watch(stub, "ws://127.0.0.1:1");
+      const running = watcher.run();
+      try {
+        await mineUntilSeen(seen);
+        expect((watcher as unknown as { provider: ethers.Provider }).provider).to.be.instanceOf(
+          ethers.JsonRpcProvider
+        );
+      } finally {
+        await watcher.stop();
+        await running;
+      }
+    });
+  });
+});
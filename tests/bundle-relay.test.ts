@@ -0,0 +1,115 @@
+// bundle-relay.test.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { BundleRelay } from "../scripts/monitor/bundle-relay";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+import { MockBundleRelay } from "./helpers/mock-relay";
+
+describe("BundleRelay against a mock relay", () => {
+  let node: LocalNode;
+  let searcher: ethers.Wallet;
+  const authSigner = new ethers.Wallet(ethers.Wallet.createRandom().privateKey);
+
+  // Code that reverts on every call
+  const REVERTER = "0x000000000000000000000000000000000000dEaD";
+
+  // A plain transfer, rebuilt per target block like the executor does
+  const transfer = (to: string = authSigner.address) => async (): Promise<string[]> => {
+    const nonce = await node.provider.getTransactionCount(searcher.address, "pending");
+    return [
+      await searcher.signTransaction({
+        to,
+        value: BigInt(1),
+        nonce,
+        gasLimit: 50000,
+        maxFeePerGas: ethers.parseUnits("100", "gwei"),
+        maxPriorityFeePerGas: ethers.parseUnits("1", "gwei"),
+        chainId: 31337,
+        type: 2,
+      }),
+    ];
+  };
+
+  const withRelay = async (
+    includeBundles: boolean,
+    run: (relay: BundleRelay, mock: MockBundleRelay) => Promise<void>
+  ): Promise<void> => {
+    const mock = new MockBundleRelay(node.url, includeBundles);
+    const url = await mock.start();
+    try {
+      await run(new BundleRelay(node.provider, url, authSigner), mock);
+    } finally {
+      await mock.stop();
+    }
+  };
+
+  before(async () => {
+    node = await startLocalNode();
+    searcher = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, node.provider);
+    await node.provider.send("hardhat_setBalance", [searcher.address, ethers.toQuantity(ethers.parseEther("10"))]);
+    await node.provider.send("hardhat_setCode", [REVERTER, "0x60006000fd"]);
+  });
+
+  after(async () => {
+    await node.stop();
+  });
+
+  it("signs requests and simulates a bundle before sending it", async () => {
+    await withRelay(true, async (relay, mock) => {
+      const head = await node.provider.getBlockNumber();
+      const signed = await transfer()();
+      const simulation = await relay.callBundle(signed, head + 1);
+
+      expect(simulation.results).to.have.length(1);
+      const [result] = simulation.results;
+      expect(result.txHash).to.equal(ethers.keccak256(signed[0]));
+      expect(result.gasUsed).to.be.within(21000, 21100);
+      expect(simulation.coinbaseDiff).to.equal((BigInt(result.gasUsed) * ethers.parseUnits("1", "gwei")).toString());
+      expect(mock.received[0]).to.deep.include({ method: "eth_callBundle", blockNumber: head + 1, searcher: authSigner.address });
+    });
+  });
+
+  it("reports a bundle included in its target block", async () => {
+    await withRelay(true, async (relay, mock) => {
+      const head = await node.provider.getBlockNumber();
+      const status = await relay.submit(transfer(), 3, 10);
+
+      expect(status.state).to.equal("included");
+      expect(status.targetBlock).to.equal(head + 1);
+      expect(status.includedBlock).to.equal(head + 1);
+      expect(mock.received.map((b) => b.method)).to.deep.equal(["eth_callBundle", "eth_sendBundle"]);
+      expect(relay.getBundleStatus(status.bundleHash)).to.equal(status);
+    });
+  });
+
+  it("retargets each block and gives up when the bundle never lands", async () => {
+    await withRelay(false, async (relay, mock) => {
+      const head = await node.provider.getBlockNumber();
+      // Each target block is mined without the bundle
+      const build = async (): Promise<string[]> => {
+        const txs = await transfer()();
+        await node.provider.send("evm_mine", []);
+        return txs;
+      };
+      const status = await relay.submit(build, 2, 10);
+
+      expect(status.state).to.equal("not-included");
+      expect(status.targetBlock).to.equal(head + 2);
+      expect(mock.received.filter((b) => b.method === "eth_sendBundle").map((b) => b.blockNumber)).to.deep.equal([
+        head + 1,
+        head + 2,
+      ]);
+      expect(relay.getBundleStatuses().every((s) => s.state === "not-included")).to.equal(true);
+    });
+  });
+
+  it("does not send a bundle whose simulation fails", async () => {
+    await withRelay(true, async (relay, mock) => {
+      const status = await relay.submit(transfer(REVERTER), 3, 10);
+
+      expect(status.state).to.equal("simulation-failed");
+      expect(status.error).to.be.a("string");
+      expect(mock.received.map((b) => b.method)).to.deep.equal(["eth_callBundle"]);
+    });
+  });
+});
@@ -0,0 +1,121 @@
+// dex-quoters.test.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import AmmSimulator from "../scripts/monitor/amm-simulator";
+import type { PoolSnapshot } from "../scripts/monitor/arbitrage-monitor";
+import { SushiswapQuoter, UniswapV3Quoter } from "../scripts/monitor/dex-quoters";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+import { UniswapDeployment, addV2Liquidity, addV3Liquidity, deployUniswap } from "./helpers/uniswap";
+
+describe("DEX quoters on a local node", () => {
+  const simulator = new AmmSimulator();
+  let node: LocalNode;
+  let uniswap: UniswapDeployment;
+  let token0: string;
+  let token1: string;
+  let v3Pool: string;
+
+  before(async () => {
+    node = await startLocalNode();
+    uniswap = await deployUniswap(node.signer);
+    [token0, token1] = uniswap.tokens;
+    await addV2Liquidity(uniswap, token0, token1, ethers.parseEther("1000"), ethers.parseEther("2000000"));
+    v3Pool = await addV3Liquidity(uniswap, token0, token1, 3000, 2000, ethers.parseEther("1000"));
+    await addV3Liquidity(uniswap, token0, token1, 500, 2010, ethers.parseEther("500"));
+  });
+
+  after(async () => {
+    await node.stop();
+  });
+
+  it("quotes V2 pairs with the router's constant-product output", async () => {
+    const quoter = new SushiswapQuoter(node.provider, await uniswap.v2Router.getAddress());
+    const block = await node.provider.getBlockNumber();
+    const amountIn = ethers.parseEther("1");
+
+    const quote = await quoter.quoteExactInput(token0, token1, amountIn, block);
+    const pair = new ethers.Contract(
+      await uniswap.v2Factory.getPair(token0, token1),
+      ["function getReserves() view returns (uint112, uint112, uint32)"],
+      node.provider
+    );
+    const [reserve0, reserve1] = await pair.getReserves();
+    expect(quote.amountOut).to.equal(simulator.getAmountOutV2(amountIn, reserve0, reserve1));
+    expect(quote).to.include({ dex: "sushiswap", adapter: "sushiswap-router02", blockNumber: block });
+    expect(quote.gasEstimate).to.equal(null);
+  });
+
+  it("quotes V2 pairs at the requested block", async () => {
+    const quoter = new SushiswapQuoter(node.provider, await uniswap.v2Router.getAddress());
+    const before = await node.provider.getBlockNumber();
+    const amountIn = ethers.parseEther("1");
+    const quoteBefore = await quoter.quoteExactInput(token0, token1, amountIn, before);
+
+    await addV2Liquidity(uniswap, token0, token1, ethers.parseEther("1000"), ethers.parseEther("1000000"));
+    const after = await node.provider.getBlockNumber();
+
+    expect((await quoter.quoteExactInput(token0, token1, amountIn, before)).amountOut).to.equal(quoteBefore.amountOut);
+    expect((await quoter.quoteExactInput(token0, token1, amountIn, after)).amountOut).to.not.equal(
+      quoteBefore.amountOut
+    );
+  });
+
+  it("quotes the configured V3 fee tier and matches the exact swap simulation", async () => {
+    const quoter = new UniswapV3Quoter(node.provider, await uniswap.quoter.getAddress(), 3000);
+    const block = await node.provider.getBlockNumber();
+    const amountIn = ethers.parseEther("2");
+
+    const quote = await quoter.quoteExactInput(token0, token1, amountIn, block);
+    expect(quote).to.include({ dex: "uniswap-v3", adapter: "uniswap-v3-quoterv2-3000", fee: 3000 });
+    expect(quote.gasEstimate! > BigInt(0)).to.equal(true);
+
+    const pool = new ethers.Contract(
+      v3Pool,
+      [
+        "function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16, uint16, uint16, uint8, bool)",
+        "function liquidity() view returns (uint128)",
+      ],
+      node.provider
+    );
+    const slot0 = await pool.slot0({ blockTag: block });
+    const snapshot = {
+      address: v3Pool,
+      poolType: "uniswap-v3",
+      token0,
+      token1,
+      reserve0: BigInt(0),
+      reserve1: BigInt(0),
+      fee: 3000,
+      sqrtPriceX96: slot0.sqrtPriceX96,
+      liquidity: await pool.liquidity({ blockTag: block }),
+      tick: Number(slot0.tick),
+      tickSpacing: 60,
+      ticks: [],
+    } as unknown as PoolSnapshot;
+    expect(quote.amountOut).to.equal(simulator.quoteExactInput(snapshot, token0, amountIn).amountOut);
+  });
+
+  it("quotes another V3 fee tier when one is requested", async () => {
+    const quoter = new UniswapV3Quoter(node.provider, await uniswap.quoter.getAddress(), 3000);
+    const block = await node.provider.getBlockNumber();
+    const amountIn = ethers.parseEther("1");
+
+    const standard = await quoter.quoteExactInput(token0, token1, amountIn, block);
+    const lowFee = await quoter.quoteExactInput(token0, token1, amountIn, block, 500);
+    expect(lowFee).to.include({ adapter: "uniswap-v3-quoterv2-500", fee: 500 });
+    // Higher price and lower fee on the 0.05% pool
+    expect(lowFee.amountOut > standard.amountOut).to.equal(true);
+  });
+
+  it("rejects pairs without a pool on the tier", async () => {
+    const quoter = new UniswapV3Quoter(node.provider, await uniswap.quoter.getAddress(), 10000);
+    const block = await node.provider.getBlockNumber();
+    let failed = false;
+    try {
+      await quoter.quoteExactInput(token0, token1, ethers.parseEther("1"), block);
+    } catch {
+      failed = true;
+    }
+    expect(failed).to.equal(true);
+  });
+});
@@ -0,0 +1,192 @@
+// event-indexer.test.ts
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers } from "ethers";
+import { loadArtifactInterface } from "../scripts/monitor/artifacts";
+import EventIndexer, { IndexedContract } from "../scripts/monitor/event-indexer";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+
+describe("EventIndexer saved state on a local node", () => {
+  let node: LocalNode;
+  let stateDir: string;
+  let head: number;
+
+  const OPTIMIZER = "0x00000000000000000000000000000000000000C1";
+  const EXECUTOR = "0x00000000000000000000000000000000000000C2";
+
+  const indexer = (contracts: IndexedContract[], startBlock: number = 1): EventIndexer =>
+    new EventIndexer(node.provider, contracts, join(stateDir, "events.json"), startBlock, { reorgDepth: 4 });
+
+  before(async () => {
+    node = await startLocalNode();
+    stateDir = mkdtempSync(join(tmpdir(), "event-indexer-"));
+    await node.provider.send("hardhat_mine", ["0x5"]);
+    head = await node.provider.getBlockNumber();
+  });
+
+  after(async () => {
+    await node.stop();
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    rmSync(join(stateDir, "events.json"), { force: true });
+    await indexer([
+      { name: "ArbOptimizer", address: OPTIMIZER },
+      { name: "ArbExecutor", address: EXECUTOR },
+    ]).backfill(head);
+  });
+
+  it("resumes when the same contracts are indexed in any order", () => {
+    const resumed = indexer([
+      { name: "ArbExecutor", address: EXECUTOR.toLowerCase() },
+      { name: "ArbOptimizer", address: OPTIMIZER },
+    ]);
+    expect(resumed.getLastIndexedBlock()).to.equal(head);
+  });
+
+  it("rebuilds when the contract set or start block changes", () => {
+    expect(indexer([{ name: "ArbOptimizer", address: OPTIMIZER }]).getLastIndexedBlock()).to.equal(0);
+    expect(
+      indexer([
+        { name: "ArbOptimizer", address: EXECUTOR },
+        { name: "ArbExecutor", address: OPTIMIZER },
+      ]).getLastIndexedBlock()
+    ).to.equal(0);
+    expect(
+      indexer(
+        [
+          { name: "ArbOptimizer", address: OPTIMIZER },
+          { name: "ArbExecutor", address: EXECUTOR },
+        ],
+        3
+      ).getLastIndexedBlock()
+    ).to.equal(2);
+  });
+});
+
+describe("EventIndexer on emitted events", () => {
+  let node: LocalNode;
+  let stateDir: string;
+  let emitter: string;
+  const optimizer = loadArtifactInterface("ArbOptimizer");
+
+  // Emits LOG2 for each 128-byte calldata record (topic0, topic1, two data words)
+  const EMITTER_INITCODE = "0x6026600c60003960266000f360005b803611600a57005b6040816040016000378060200135813560406000a2608001600256";
+
+  const indexer = (): EventIndexer =>
+    new EventIndexer(node.provider, [{ name: "ArbOptimizer", address: emitter }], join(stateDir, "events.json"), 1, {
+      reorgDepth: 8,
+    });
+
+  // Emit ArbOptimizer events from one transaction, mined in its own block
+  const emit = async (...events: Array<[string, unknown[]]>): Promise<ethers.TransactionReceipt> => {
+    const data = ethers.concat(
+      events.map(([name, args]) => {
+        const { topics, data } = optimizer.encodeEventLog(name, args);
+        return ethers.concat([...topics, data]);
+      })
+    );
+    const tx = await node.signer.sendTransaction({ to: emitter, data });
+    return (await tx.wait())!;
+  };
+
+  const selected = (route: number, profit: number): [string, unknown[]] => ["OptimalRouteSelected", [route, profit, 1000]];
+  const executed = (route: number, profit: number): [string, unknown[]] => ["ArbitrageExecuted", [route, 1000, profit]];
+
+  before(async () => {
+    node = await startLocalNode();
+    stateDir = mkdtempSync(join(tmpdir(), "event-indexer-"));
+  });
+
+  after(async () => {
+    await node.stop();
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  // A fresh emitter per test keeps each test's index to its own events
+  beforeEach(async () => {
+    rmSync(join(stateDir, "events.json"), { force: true });
+    const deployed = await (await node.signer.sendTransaction({ data: EMITTER_INITCODE })).wait();
+    emitter = deployed!.contractAddress!;
+  });
+
+  it("rolls back events from reorged blocks and re-indexes the new branch", async () => {
+    const kept = await emit(selected(1, 100), executed(1, 100));
+    const snapshot = await node.provider.send("evm_snapshot", []);
+    const orphaned = await emit(selected(2, 200));
+    await node.provider.send("evm_mine", []);
+
+    const first = indexer();
+    expect(await first.backfill()).to.equal(3);
+    expect(first.query({ transactionHash: orphaned.hash })).to.have.length(1);
+
+    // Replace everything after `kept` with a longer branch holding a different selection
+    await node.provider.send("evm_revert", [snapshot]);
+    await node.provider.send("evm_mine", []);
+    const replacement = await emit(selected(5, 500));
+    await node.provider.send("evm_mine", []);
+    const head = await node.provider.getBlockNumber();
+
+    const resumed = indexer();
+    expect(await resumed.backfill()).to.equal(1);
+    expect(resumed.getLastIndexedBlock()).to.equal(head);
+    expect(resumed.query({ transactionHash: orphaned.hash })).to.be.empty;
+    expect(resumed.query({ transactionHash: kept.hash }).map((e) => e.event)).to.deep.equal([
+      "OptimalRouteSelected",
+      "ArbitrageExecuted",
+    ]);
+
+    const [event] = resumed.query({ transactionHash: replacement.hash });
+    expect(event).to.deep.include({
+      contract: "ArbOptimizer",
+      event: "OptimalRouteSelected",
+      blockNumber: replacement.blockNumber,
+      blockHash: replacement.blockHash,
+      args: { bestRouteIndex: "5", highestProfit: "500", flashLoanAmount: "1000" },
+    });
+  });
+
+  it("reconciles selected routes with the latest prediction at or before their block", async () => {
+    const hit = await emit(selected(2, 300), executed(2, 300));
+    const miss = await emit(selected(4, 50));
+
+    const reconciler = indexer();
+    await reconciler.backfill();
+    const results = reconciler.reconcile([
+      { blockNumber: miss.blockNumber + 1, routeIndex: 4, estimatedProfit: "50" },
+      { blockNumber: hit.blockNumber - 1, routeIndex: 2, estimatedProfit: "250" },
+      { blockNumber: miss.blockNumber, routeIndex: 3, estimatedProfit: "80" },
+    ]);
+
+    expect(results).to.deep.equal([
+      {
+        transactionHash: hit.hash,
+        blockNumber: hit.blockNumber,
+        selectedRoute: 2,
+        predictedRoute: 2,
+        routeMatches: true,
+        onChainProfit: "300",
+        predictedProfit: "250",
+        profitDelta: "50",
+        executed: true,
+      },
+      {
+        transactionHash: miss.hash,
+        blockNumber: miss.blockNumber,
+        selectedRoute: 4,
+        predictedRoute: 3,
+        routeMatches: false,
+        onChainProfit: "50",
+        predictedProfit: "80",
+        profitDelta: "-30",
+        executed: false,
+      },
+    ]);
+
+    const [unpredicted] = reconciler.reconcile([]);
+    expect(unpredicted).to.include({ predictedRoute: null, routeMatches: false, profitDelta: null, executed: true });
+  });
+});
@@ -0,0 +1,77 @@
+// local-node.ts
+import { mkdtempSync, rmSync } from "fs";
+import { createRequire } from "module";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers } from "ethers";
+
+const require = createRequire(import.meta.url);
+const { resolveConfig } = require("hardhat/internal/core/config/config-resolution");
+const { createProvider } = require("hardhat/internal/core/providers/construction");
+const { JsonRpcServer } = require("hardhat/internal/hardhat-network/jsonrpc/server");
+
+interface LocalNode {
+  url: string;
+  wsUrl: string;
+  provider: ethers.JsonRpcProvider;
+  signer: ethers.JsonRpcSigner;
+  stop(): Promise<void>;
+}
+
+/**
+ * In-process hardhat network served over HTTP and WebSocket on a free port. The
+ * provider is built without the project's artifacts: the Remix build-info they ship
+ * cannot be loaded by hardhat's tracer.
+ *
+ * With `fork` the node starts as a fork of another node's latest block. Only nodes
+ * created forking can be re-forked with hardhat_reset; a plain node rejects it.
+ */
+export async function startLocalNode(options: { fork?: string } = {}): Promise<LocalNode> {
+  const forking = options.fork ? { forking: { url: options.fork, enabled: true } } : {};
+  const config = resolveConfig(`${process.cwd()}/hardhat.config.js`, {
+    networks: { hardhat: { chainId: 31337, allowUnlimitedContractSize: true, ...forking } },
+  });
+  // Forks cache upstream responses under paths.cache; keep them out of the tree
+  config.paths.cache = mkdtempSync(join(tmpdir(), "local-node-"));
+  const server = new JsonRpcServer({
+    hostname: "127.0.0.1",
+    port: 0,
+    provider: await createProvider(config, "hardhat"),
+  });
+  const { address, port } = await server.listen();
+
+  const url = `http://${address}:${port}`;
+  const provider = new ethers.JsonRpcProvider(url, undefined, { staticNetwork: true, cacheTimeout: -1 });
+  return {
+    url,
+    wsUrl: `ws://${address}:${port}`,
+    provider,
+    signer: await provider.getSigner(0),
+    stop: async () => {
+      provider.destroy();
+      // Clients such as a fork's upstream connection hold keep-alive sockets open for minutes
+      // and close() waits for them, so drop them all, idle or mid-request
+      const closing = server.close();
+      server._httpServer.closeAllConnections();
+      await closing;
+      rmSync(config.paths.cache, { recursive: true, force: true });
+    },
+  };
+}
+
+/**
+ * Deploy from a compiled artifact in node_modules (Hardhat or Waffle layout)
+ */
+export async function deployArtifact(
+  signer: ethers.Signer,
+  artifactPath: string,
+  args: unknown[] = []
+): Promise<ethers.Contract> {
+  const artifact = require(artifactPath);
+  const bytecode: string = artifact.bytecode.startsWith("0x") ? artifact.bytecode : `0x${artifact.bytecode}`;
+  const contract = await new ethers.ContractFactory(artifact.abi, bytecode, signer).deploy(...args);
+  await contract.waitForDeployment();
+  return contract as ethers.Contract;
+}
+
+export type { LocalNode };
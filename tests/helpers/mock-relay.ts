@@ -0,0 +1,139 @@
+// mock-relay.ts
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { ethers } from "ethers";
+
+export interface ReceivedBundle {
+  method: "eth_sendBundle" | "eth_callBundle";
+  txs: string[];
+  blockNumber: number;
+  searcher: string | null; // Address recovered from X-Flashbots-Signature
+}
+
+/**
+ * Local stand-in for a bundle relay. It records every bundle it receives and,
+ * when backed by a dev node (hardhat/anvil with automine), simulates bundles with
+ * eth_call and "includes" sent bundles by forwarding them as raw transactions.
+ */
+export class MockBundleRelay {
+  readonly received: ReceivedBundle[] = [];
+  private node: ethers.JsonRpcProvider | null;
+  private includeBundles: boolean;
+  private server: Server | null = null;
+
+  constructor(nodeUrl: string | null = null, includeBundles: boolean = true) {
+    this.node = nodeUrl ? new ethers.JsonRpcProvider(nodeUrl) : null;
+    this.includeBundles = includeBundles;
+  }
+
+  /**
+   * Start listening and return the relay URL
+   */
+  async start(port: number = 0): Promise<string> {
+    this.server = createServer((req, res) => void this.handle(req, res));
+    await new Promise<void>((resolve) => this.server!.listen(port, "127.0.0.1", resolve));
+    const address = this.server.address() as AddressInfo;
+    return `http://127.0.0.1:${address.port}`;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) =>
+      this.server!.close((error) => (error ? reject(error) : resolve()))
+    );
+    this.server = null;
+    this.node?.destroy();
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    let body = "";
+    for await (const chunk of req) body += chunk;
+
+    let request: { id: number; method: string; params: [{ txs: string[]; blockNumber: string }] };
+    try {
+      request = JSON.parse(body);
+    } catch {
+      return this.fail(res, null, -32700, "parse error");
+    }
+
+    try {
+      const searcher = this.recoverSearcher(req.headers["x-flashbots-signature"], body);
+      if (request.method !== "eth_sendBundle" && request.method !== "eth_callBundle") {
+        return this.fail(res, request.id, -32601, `unsupported method ${request.method}`);
+      }
+
+      const [{ txs, blockNumber }] = request.params;
+      const bundle: ReceivedBundle = {
+        method: request.method,
+        txs,
+        blockNumber: Number(blockNumber),
+        searcher,
+      };
+      this.received.push(bundle);
+
+      const bundleHash = ethers.keccak256(ethers.concat(txs.map((tx) => ethers.keccak256(tx))));
+      if (request.method === "eth_callBundle") {
+        return this.reply(res, request.id, { bundleHash, ...(await this.simulate(txs)) });
+      }
+
+      if (this.node && this.includeBundles) {
+        for (const tx of txs) await this.node.send("eth_sendRawTransaction", [tx]);
+      }
+      return this.reply(res, request.id, { bundleHash });
+    } catch (error) {
+      return this.fail(res, request.id, -32000, (error as Error).message);
+    }
+  }
+
+  private async simulate(txs: string[]): Promise<{
+    coinbaseDiff: string;
+    totalGasUsed: number;
+    results: Array<{ txHash: string; gasUsed: number; error?: string }>;
+  }> {
+    const results: Array<{ txHash: string; gasUsed: number; error?: string }> = [];
+    let coinbaseDiff = BigInt(0);
+
+    for (const raw of txs) {
+      const tx = ethers.Transaction.from(raw);
+      const call = { from: tx.from!, to: tx.to!, data: tx.data, value: tx.value };
+      if (!this.node) {
+        results.push({ txHash: tx.hash!, gasUsed: 0 });
+        continue;
+      }
+
+      try {
+        const gasUsed = Number(await this.node.estimateGas(call));
+        coinbaseDiff += BigInt(gasUsed) * (tx.maxPriorityFeePerGas ?? BigInt(0));
+        results.push({ txHash: tx.hash!, gasUsed });
+      } catch (error) {
+        results.push({ txHash: tx.hash!, gasUsed: 0, error: (error as Error).message });
+      }
+    }
+
+    return {
+      coinbaseDiff: coinbaseDiff.toString(),
+      totalGasUsed: results.reduce((sum, r) => sum + r.gasUsed, 0),
+      results,
+    };
+  }
+
+  private recoverSearcher(header: string | string[] | undefined, body: string): string | null {
+    if (typeof header !== "string") return null;
+    const [address, signature] = header.split(":");
+    const recovered = ethers.verifyMessage(ethers.id(body), signature);
+    if (recovered.toLowerCase() !== address.toLowerCase()) {
+      throw new Error("X-Flashbots-Signature does not match the request body");
+    }
+    return recovered;
+  }
+
+  private reply(res: ServerResponse, id: number | null, result: unknown): void {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ jsonrpc: "2.0", id, result }));
+  }
+
+  private fail(res: ServerResponse, id: number | null, code: number, message: string): void {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ jsonrpc: "2.0", id, error: { code, message } }));
+  }
+}
@@ -0,0 +1,174 @@
+// uniswap.ts
+import { ethers } from "ethers";
+import { deployArtifact } from "./local-node";
+
+const V2_CORE = "@uniswap/v2-core/build";
+const V2_PERIPHERY = "@uniswap/v2-periphery/build";
+const V3_CORE = "@uniswap/v3-core/artifacts/contracts";
+const V3_PERIPHERY = "@uniswap/v3-periphery/artifacts/contracts";
+
+const MAX_UINT = ethers.MaxUint256;
+const DEADLINE = BigInt(2) ** BigInt(40);
+
+interface UniswapDeployment {
+  tokens: string[]; // Sorted ascending, so tokens[0] is token0 of every pool
+  weth: string;
+  v2Factory: ethers.Contract;
+  v2Router: ethers.Contract;
+  v3Factory: ethers.Contract;
+  positionManager: ethers.Contract;
+  swapRouter: ethers.Contract; // V3
+  quoter: ethers.Contract;
+  deployBlock: number; // Block before the factories existed
+}
+
+/**
+ * Deploy Uniswap V2 and V3 (factories, Router02, NonfungiblePositionManager, SwapRouter, QuoterV2)
+ * from the published npm builds, plus `tokenCount` 18-decimal test tokens
+ */
+export async function deployUniswap(signer: ethers.Signer, tokenCount: number = 2): Promise<UniswapDeployment> {
+  const deployBlock = await signer.provider!.getBlockNumber();
+  const owner = await signer.getAddress();
+
+  const weth = await deployArtifact(signer, `${V2_PERIPHERY}/WETH9.json`);
+  const tokens: string[] = [];
+  for (let i = 0; i < tokenCount; i++) {
+    const token = await deployArtifact(signer, `${V2_PERIPHERY}/ERC20.json`, [ethers.parseEther("1000000000")]);
+    tokens.push(await token.getAddress());
+  }
+  tokens.sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+
+  const v2Factory = await deployArtifact(signer, `${V2_CORE}/UniswapV2Factory.json`, [owner]);
+  const v2Router = await deployArtifact(signer, `${V2_PERIPHERY}/UniswapV2Router02.json`, [
+    await v2Factory.getAddress(),
+    await weth.getAddress(),
+  ]);
+  const v3Factory = await deployArtifact(signer, `${V3_CORE}/UniswapV3Factory.sol/UniswapV3Factory.json`);
+  const positionManager = await deployArtifact(
+    signer,
+    `${V3_PERIPHERY}/NonfungiblePositionManager.sol/NonfungiblePositionManager.json`,
+    [await v3Factory.getAddress(), await weth.getAddress(), ethers.ZeroAddress]
+  );
+  const swapRouter = await deployArtifact(signer, `${V3_PERIPHERY}/SwapRouter.sol/SwapRouter.json`, [
+    await v3Factory.getAddress(),
+    await weth.getAddress(),
+  ]);
+  const quoter = await deployArtifact(signer, `${V3_PERIPHERY}/lens/QuoterV2.sol/QuoterV2.json`, [
+    await v3Factory.getAddress(),
+    await weth.getAddress(),
+  ]);
+
+  for (const token of tokens) {
+    const erc20 = new ethers.Contract(token, ["function approve(address, uint256) returns (bool)"], signer);
+    await (await erc20.approve(await v2Router.getAddress(), MAX_UINT)).wait();
+    await (await erc20.approve(await positionManager.getAddress(), MAX_UINT)).wait();
+    await (await erc20.approve(await swapRouter.getAddress(), MAX_UINT)).wait();
+  }
+
+  return {
+    tokens,
+    weth: await weth.getAddress(),
+    v2Factory,
+    v2Router,
+    v3Factory,
+    positionManager,
+    swapRouter,
+    quoter,
+    deployBlock,
+  };
+}
+
+/**
+ * Create (if needed) and fund a V2 pair; returns the pair address
+ */
+export async function addV2Liquidity(
+  uniswap: UniswapDeployment,
+  tokenA: string,
+  tokenB: string,
+  amountA: bigint,
+  amountB: bigint
+): Promise<string> {
+  const to = await (uniswap.v2Router.runner as ethers.Signer).getAddress();
+  await (
+    await uniswap.v2Router.addLiquidity(tokenA, tokenB, amountA, amountB, 0, 0, to, DEADLINE)
+  ).wait();
+  return uniswap.v2Factory.getPair(tokenA, tokenB);
+}
+
+/**
+ * Create a V3 pool at `price` (token1 per token0) and add full-range liquidity of
+ * `amount0` token0; returns the pool address
+ */
+export async function addV3Liquidity(
+  uniswap: UniswapDeployment,
+  token0: string,
+  token1: string,
+  fee: number,
+  price: number,
+  amount0: bigint
+): Promise<string> {
+  const sqrtPriceX96 = BigInt(Math.floor(Math.sqrt(price) * 2 ** 48)) * BigInt(2) ** BigInt(48);
+  await (
+    await uniswap.positionManager.createAndInitializePoolIfNecessary(token0, token1, fee, sqrtPriceX96)
+  ).wait();
+
+  const tickSpacing = Number(await uniswap.v3Factory.feeAmountTickSpacing(fee));
+  const maxTick = Math.floor(887272 / tickSpacing) * tickSpacing;
+  const recipient = await (uniswap.positionManager.runner as ethers.Signer).getAddress();
+  await (
+    await uniswap.positionManager.mint({
+      token0,
+      token1,
+      fee,
+      tickLower: -maxTick,
+      tickUpper: maxTick,
+      amount0Desired: amount0,
+      amount1Desired: (amount0 * BigInt(Math.round(price * 1e6))) / BigInt(1e6) + BigInt(1e18),
+      amount0Min: 0,
+      amount1Min: 0,
+      recipient,
+      deadline: DEADLINE,
+    })
+  ).wait();
+  return uniswap.v3Factory.getPool(token0, token1, fee);
+}
+
+/**
+ * Swap an exact `amountIn` of tokenIn through the V2 pair
+ */
+export async function swapV2(
+  uniswap: UniswapDeployment,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint
+): Promise<ethers.TransactionReceipt> {
+  const to = await (uniswap.v2Router.runner as ethers.Signer).getAddress();
+  const tx = await uniswap.v2Router.swapExactTokensForTokens(amountIn, 0, [tokenIn, tokenOut], to, DEADLINE);
+  return tx.wait();
+}
+
+/**
+ * Swap an exact `amountIn` of tokenIn through the V3 pool of the given fee tier
+ */
+export async function swapV3(
+  uniswap: UniswapDeployment,
+  tokenIn: string,
+  tokenOut: string,
+  fee: number,
+  amountIn: bigint
+): Promise<ethers.TransactionReceipt> {
+  const recipient = await (uniswap.swapRouter.runner as ethers.Signer).getAddress();
+  const tx = await uniswap.swapRouter.exactInputSingle({
+    tokenIn,
+    tokenOut,
+    fee,
+    recipient,
+    deadline: DEADLINE,
+    amountIn,
+    amountOutMinimum: 0,
+    sqrtPriceLimitX96: 0,
+  });
+  return tx.wait();
+}
+
+export type { UniswapDeployment };
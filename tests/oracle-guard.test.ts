@@ -0,0 +1,89 @@
+// oracle-guard.test.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import OracleGuard from "../scripts/monitor/oracle-guard";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+
+describe("OracleGuard feed heartbeats on a local node", () => {
+  let node: LocalNode;
+  let now: number;
+
+  const WETH = "0x00000000000000000000000000000000000000A1";
+  const USDC = "0x00000000000000000000000000000000000000A2";
+  const ETH_USD = "0x00000000000000000000000000000000000000F1";
+  const USDC_USD = "0x00000000000000000000000000000000000000F2";
+
+  /**
+   * Install a feed whose every call returns the same round: (roundId 8, answer, startedAt,
+   * updatedAt, answeredInRound 8). decimals() reads the first word, so the feed has 8 decimals.
+   */
+  const setRound = async (feed: string, price: number, updatedAt: number): Promise<void> => {
+    const round = ethers.AbiCoder.defaultAbiCoder().encode(
+      ["uint80", "int256", "uint256", "uint256", "uint80"],
+      [8, ethers.parseUnits(String(price), 8), updatedAt, updatedAt, 8]
+    );
+    // CODECOPY the 0xa0 bytes after this 12-byte prologue to memory and return them
+    await node.provider.send("hardhat_setCode", [feed, "0x60a0600c600039" + "60a06000f3" + round.slice(2)]);
+  };
+
+  const guard = (graceSeconds: number): OracleGuard =>
+    new OracleGuard(node.provider, {
+      feedGraceSeconds: graceSeconds,
+      deviationBps: 100,
+      secondaryDeviationBps: 100,
+      primaryFeeds: {
+        [WETH]: { feed: ETH_USD, maxAge: 3600 },
+        [USDC]: { feed: USDC_USD, maxAge: 86400 },
+      },
+      secondaryFeeds: {},
+    });
+
+  const validate = async (graceSeconds: number) => {
+    await node.provider.send("evm_mine", []);
+    const block = await node.provider.getBlock("latest");
+    return guard(graceSeconds).validatePrices(WETH, USDC, [2000], block!.number);
+  };
+
+  before(async () => {
+    node = await startLocalNode();
+    // Leave room to backdate rounds by a day
+    await node.provider.send("evm_increaseTime", [2 * 86400]);
+    await node.provider.send("evm_mine", []);
+  });
+
+  beforeEach(async () => {
+    now = (await node.provider.getBlock("latest"))!.timestamp;
+  });
+
+  after(async () => {
+    await node.stop();
+  });
+
+  it("accepts a daily feed hours after its last update", async () => {
+    await setRound(ETH_USD, 2000, now - 600);
+    await setRound(USDC_USD, 1, now - 6 * 3600);
+
+    const check = await validate(0);
+    expect(check).to.include({ ok: true, referencePrice: 2000 });
+  });
+
+  it("rejects an hourly feed that missed its heartbeat", async () => {
+    await setRound(ETH_USD, 2000, now - 2 * 3600);
+    await setRound(USDC_USD, 1, now - 600);
+
+    const check = await validate(120);
+    expect(check.reason).to.equal("StalePriceFeed");
+    expect(check.detail).to.include(ETH_USD).and.include("heartbeat 3600s");
+  });
+
+  it("allows the grace period past the heartbeat and no more", async () => {
+    await setRound(USDC_USD, 1, now);
+
+    await setRound(ETH_USD, 2000, now - 3600 - 60);
+    expect((await validate(120)).ok).to.equal(true);
+    expect((await validate(0)).reason).to.equal("StalePriceFeed");
+
+    await setRound(ETH_USD, 2000, now - 3600 - 300);
+    expect((await validate(120)).reason).to.equal("StalePriceFeed");
+  });
+});
@@ -0,0 +1,148 @@
+// pool-catalogue.test.ts
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers } from "ethers";
+import ArbitrageMonitor from "../scripts/monitor/arbitrage-monitor";
+import { CONFIG } from "../scripts/monitor/config";
+import { SushiswapQuoter, UniswapV3Quoter } from "../scripts/monitor/dex-quoters";
+import OracleGuard from "../scripts/monitor/oracle-guard";
+import PoolCatalogue, { PoolCatalogueOptions } from "../scripts/monitor/pool-catalogue";
+import TokenRegistry from "../scripts/monitor/token-registry";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+import { UniswapDeployment, addV2Liquidity, addV3Liquidity, deployUniswap } from "./helpers/uniswap";
+
+describe("PoolCatalogue on a local node", () => {
+  let node: LocalNode;
+  let uniswap: UniswapDeployment;
+  let tokenA: string;
+  let tokenB: string;
+  let unwatched: string;
+  let stateDir: string;
+  const pools: Record<string, string> = {};
+
+  const catalogue = (tokens: string[], overrides: Partial<PoolCatalogueOptions> = {}): PoolCatalogue =>
+    new PoolCatalogue(
+      node.provider,
+      new TokenRegistry(node.provider),
+      new OracleGuard(node.provider, {
+        feedGraceSeconds: 120,
+        deviationBps: 100,
+        secondaryDeviationBps: 100,
+        primaryFeeds: {},
+        secondaryFeeds: {},
+      }),
+      tokens,
+      {
+        uniswapV3Factory: uniswap.v3Factory.target as string,
+        sushiswapFactory: uniswap.v2Factory.target as string,
+        statePath: join(stateDir, "pools.json"),
+        startBlock: uniswap.deployBlock,
+        minLiquidityUsd: 10000,
+        minTvlUsd: 50000,
+        refreshBlocks: 10,
+        batchSize: 5,
+        reorgDepth: 8,
+        ...overrides,
+      }
+    );
+
+  before(async () => {
+    node = await startLocalNode();
+    uniswap = await deployUniswap(node.signer, 3);
+    [tokenA, tokenB, unwatched] = uniswap.tokens;
+    stateDir = mkdtempSync(join(tmpdir(), "pool-catalogue-"));
+
+    pools.v2 = await addV2Liquidity(uniswap, tokenA, tokenB, ethers.parseEther("1000"), ethers.parseEther("1900000"));
+    pools.v3Standard = await addV3Liquidity(uniswap, tokenA, tokenB, 3000, 2000, ethers.parseEther("1000"));
+    pools.v3Low = await addV3Liquidity(uniswap, tokenA, tokenB, 500, 2100, ethers.parseEther("1000"));
+    pools.unwatched = await addV3Liquidity(uniswap, tokenA, unwatched, 3000, 1, ethers.parseEther("1000"));
+    // Created but never funded
+    await (await uniswap.v3Factory.createPool(tokenA, tokenB, 10000)).wait();
+    pools.v3Empty = await uniswap.v3Factory.getPool(tokenA, tokenB, 10000);
+  });
+
+  after(async () => {
+    await node.stop();
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    rmSync(join(stateDir, "pools.json"), { force: true });
+  });
+
+  it("catalogues every fee tier and the V2 pair between watched tokens only", async () => {
+    const added = await catalogue([tokenA, tokenB]).sync();
+    expect(added.map((p) => p.address).sort()).to.deep.equal(
+      [pools.v2, pools.v3Standard, pools.v3Low, pools.v3Empty].sort()
+    );
+    expect(added.find((p) => p.address === pools.v3Low)).to.include({ dex: "uniswap-v3", fee: 500, tickSpacing: 10 });
+    expect(added.find((p) => p.address === pools.v2)).to.include({ dex: "sushiswap", fee: 3000, tickSpacing: null });
+  });
+
+  it("offers only pools with liquidity as venues once refreshed", async () => {
+    const pc = catalogue([tokenA, tokenB]);
+    await pc.sync();
+    expect(pc.venues(tokenA, tokenB)).to.have.length(0);
+
+    const block = await node.provider.getBlockNumber();
+    expect(await pc.refresh(block)).to.equal(4);
+    expect(await pc.refresh(block)).to.equal(0);
+    expect(pc.venues(tokenB, tokenA).map((p) => p.address).sort()).to.deep.equal(
+      [pools.v2, pools.v3Standard, pools.v3Low].sort()
+    );
+  });
+
+  it("resumes from its saved state and rebuilds when the watched tokens change", async () => {
+    await catalogue([tokenA, tokenB]).sync();
+    const resumed = catalogue([tokenB, tokenA]);
+    expect(resumed.pools()).to.have.length(4);
+    expect(await resumed.sync()).to.have.length(0);
+
+    const rebuilt = catalogue([tokenA, tokenB, unwatched]);
+    expect(rebuilt.pools()).to.have.length(0);
+    expect((await rebuilt.sync()).map((p) => p.address)).to.include(pools.unwatched);
+  });
+
+  it("drops pools whose creation was reorged out", async () => {
+    const pc = catalogue([tokenA, tokenB]);
+    await pc.sync();
+
+    const snapshot = await node.provider.send("evm_snapshot", []);
+    await (await uniswap.v3Factory.enableFeeAmount(100, 1)).wait();
+    await (await uniswap.v3Factory.createPool(tokenA, tokenB, 100)).wait();
+    const orphan = await uniswap.v3Factory.getPool(tokenA, tokenB, 100);
+    expect((await pc.sync()).map((p) => p.address)).to.deep.equal([orphan]);
+
+    await node.provider.send("evm_revert", [snapshot]);
+    await node.provider.send("hardhat_mine", ["0x3"]);
+    await pc.sync();
+    expect(pc.pools().map((p) => p.address)).to.not.include(orphan);
+    expect(pc.pools()).to.have.length(4);
+  });
+
+  it("quotes V3 only on the fee tier ArbExec swaps on", async () => {
+    const pc = catalogue([tokenA, tokenB]);
+    await pc.sync();
+    await pc.refresh(await node.provider.getBlockNumber());
+
+    const monitor = new ArbitrageMonitor(
+      node.url,
+      "",
+      [
+        new UniswapV3Quoter(node.provider, uniswap.quoter.target as string, CONFIG.UNISWAP_V3_FEE),
+        new SushiswapQuoter(node.provider, uniswap.v2Router.target as string),
+      ],
+      new TokenRegistry(node.provider),
+      pc
+    );
+    // The 0.05% pool has the widest spread against the V2 pair but cannot be executed
+    const [opportunity] = await monitor.identifyOpportunities([{ token0: tokenA, token1: tokenB }], 0, "1");
+    const v3Quote = opportunity.dexA === "uniswap-v3" ? opportunity.quoteA : opportunity.quoteB;
+    expect(v3Quote).to.include({ pool: pools.v3Standard, fee: CONFIG.UNISWAP_V3_FEE });
+
+    const venues = await monitor.getVenuePools([tokenA, tokenB], await node.provider.getBlockNumber());
+    expect(venues.map((v) => v.pool.address).sort()).to.deep.equal([pools.v2, pools.v3Standard].sort());
+  });
+});
@@ -0,0 +1,44 @@
+// profitability-parity.test.ts
+import { expect } from "chai";
+import { deployArbitrageAnalyzer } from "../scripts/monitor/bindings/ArbitrageAnalyzer";
+import ProfitabilityParity from "../scripts/monitor/profitability-parity";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+
+describe("ProfitabilityCalculator parity with ArbitrageAnalyzer", () => {
+  let node: LocalNode;
+  let parity: ProfitabilityParity;
+
+  before(async () => {
+    node = await startLocalNode();
+    parity = new ProfitabilityParity(await deployArbitrageAnalyzer(node.signer));
+  });
+
+  after(async () => {
+    await node.stop();
+  });
+
+  it("agrees on every field for a fixed seed", async () => {
+    const report = await parity.run(200, 20240601);
+    expect(report.mismatches).to.deep.equal([]);
+    expect(report.matched).to.equal(200);
+  });
+
+  it("agrees on rounding and rejection edge cases", async () => {
+    const base = {
+      borrowAmount: BigInt(3),
+      flashLoanPremiumBps: 0,
+      gasPrice: BigInt(0),
+      gasUnitsEstimate: 0,
+      leg1AmountOut: BigInt(1),
+      leg2AmountOut: BigInt(4),
+      builderTipBps: 0,
+      safetyBufferBps: 0,
+    };
+    // roiBps of 1/3 truncates to 3333; no costs leaves every breakdown share at zero
+    expect(await parity.compare(base)).to.deep.equal([]);
+    // Losing route
+    expect(await parity.compare({ ...base, borrowAmount: BigInt(10) ** BigInt(18), flashLoanPremiumBps: 9 })).to.deep.equal([]);
+    // Zero borrow is rejected on both sides or accepted on both
+    expect(await parity.compare({ ...base, borrowAmount: BigInt(0) })).to.deep.equal([]);
+  });
+});
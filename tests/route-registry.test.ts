@@ -0,0 +1,175 @@
+// route-registry.test.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { loadArtifactAbi } from "../scripts/monitor/artifacts";
+import type { ArbExecutorContract, ArbitrageRouteOutput } from "../scripts/monitor/bindings/ArbExecutor";
+import type EventIndexer from "../scripts/monitor/event-indexer";
+import RouteRegistry, { WantedRoute } from "../scripts/monitor/route-registry";
+
+describe("RouteRegistry sync", () => {
+  const ARB_EXEC = "0x00000000000000000000000000000000000000E1";
+  const iface = new ethers.Interface(loadArtifactAbi("ArbExecutor"));
+  const token = (n: number) => ethers.getAddress(ethers.zeroPadValue(ethers.toBeHex(n), 20));
+  const [A, B, C, D, E, F] = [1, 2, 3, 4, 5, 6].map((n) => token(0xa0 + n));
+
+  const onChain = (routeId: number, path: string[], dexA = 0, dexB = 1): ArbitrageRouteOutput => ({
+    routeId: BigInt(routeId),
+    path,
+    minProfit: BigInt(0),
+    dexA: BigInt(dexA),
+    dexB: BigInt(dexB),
+  });
+
+  // 0 and 3 are still watched, 1 was deleted, 2 and 4 are no longer watched
+  const routes = [
+    onChain(0, [A, B]),
+    onChain(1, []),
+    onChain(2, [C, D]),
+    onChain(3, [A, B], 1, 0),
+    onChain(4, [E, F]),
+  ];
+
+  // Serves getAllRoutes pages and records them, so paging is visible
+  const arbExec = (pages: Array<[number, number]> = []) =>
+    ({
+      target: ARB_EXEC,
+      interface: iface,
+      getRouteCount: async () => BigInt(routes.length),
+      getAllRoutes: async (offset: number, limit: number) => {
+        pages.push([offset, limit]);
+        return routes.slice(offset, offset + limit);
+      },
+    }) as unknown as ArbExecutorContract;
+
+  const event = (contract: string, name: string, blockNumber: number, args: Record<string, string | boolean>) => ({
+    contract,
+    event: name,
+    blockNumber,
+    args,
+  });
+  const analyzed = (routeIndex: number, blockNumber: number, isProfitable = false) =>
+    event("ArbOptimizer", "RouteAnalyzed", blockNumber, { routeIndex: String(routeIndex), isProfitable });
+
+  const indexer = (events: ReturnType<typeof event>[] = []) =>
+    ({
+      backfill: async () => undefined,
+      query: (filter: { contract?: string; event?: string }) =>
+        events.filter(
+          (e) =>
+            (filter.contract === undefined || e.contract === filter.contract) &&
+            (filter.event === undefined || e.event === filter.event)
+        ),
+    }) as unknown as EventIndexer;
+
+  const wanted = (path: string[], dexA = "uniswap-v3", dexB = "sushiswap"): WantedRoute => ({
+    source: "discovered",
+    path,
+    minProfit: "1000",
+    dexA,
+    dexB,
+  });
+
+  const decode = (call: { to: string; data: string }) => {
+    expect(call.to).to.equal(ARB_EXEC);
+    const tx = iface.parseTransaction(call)!;
+    return [tx.name, ...tx.args.toArray(true)];
+  };
+
+  const watchedPair = new RouteRegistry(arbExec()).wantedRoutes([{ token0: A, token1: B }]);
+
+  it("reuses deleted and stale slots lowest first before adding the rest in one batch", async () => {
+    const pages: Array<[number, number]> = [];
+    const registry = new RouteRegistry(arbExec(pages), indexer(), { pageSize: 2 });
+    const extra = [wanted([B, C]), wanted([C, E]), wanted([D, F], "sushiswap", "uniswap-v3"), wanted([E, A])];
+    const report = await registry.sync([...watchedPair, ...extra]);
+
+    expect(pages).to.deep.equal([
+      [0, 2],
+      [2, 2],
+      [4, 1],
+    ]);
+    expect(report.registered.map((route) => route.routeId)).to.deep.equal([0, 2, 3, 4]);
+    expect(report.freeSlots).to.deep.equal([1]);
+    expect(report.stale.map((route) => route.routeId)).to.deep.equal([2, 4]);
+    expect(report.missing).to.deep.equal(extra);
+
+    // Every stale slot is overwritten, so nothing is deleted
+    expect(report.calls.map(decode)).to.deep.equal([
+      ["updateRoute", BigInt(1), [B, C], BigInt(1000), BigInt(0), BigInt(1)],
+      ["updateRoute", BigInt(2), [C, E], BigInt(1000), BigInt(0), BigInt(1)],
+      ["updateRoute", BigInt(4), [D, F], BigInt(1000), BigInt(1), BigInt(0)],
+      ["addRoutesBatch", [[E, A]], [BigInt(1000)], [BigInt(0)], [BigInt(1)]],
+    ]);
+    expect(report.calls.map((call) => call.description)).to.deep.equal([
+      `Route 1: set to ${B} → ${C} (uniswap-v3/sushiswap)`,
+      `Route 2: set to ${C} → ${E} (uniswap-v3/sushiswap)`,
+      `Route 4: set to ${D} → ${F} (sushiswap/uniswap-v3)`,
+      `Add 1 routes: ${E} → ${A} (uniswap-v3/sushiswap)`,
+    ]);
+  });
+
+  it("deletes the stale routes no missing route took over", async () => {
+    const report = await new RouteRegistry(arbExec(), indexer()).sync([...watchedPair, wanted([B, C])]);
+
+    // The deleted slot 1 sorts first, leaving both stale routes to delete
+    expect(report.calls.map(decode)).to.deep.equal([
+      ["updateRoute", BigInt(1), [B, C], BigInt(1000), BigInt(0), BigInt(1)],
+      ["deleteRoute", BigInt(2)],
+      ["deleteRoute", BigInt(4)],
+    ]);
+  });
+
+  it("has nothing to do when the registry already matches", async () => {
+    const report = await new RouteRegistry(arbExec(), indexer()).sync([
+      ...watchedPair,
+      wanted([C, D]),
+      wanted([E, F]),
+    ]);
+    expect(report.missing).to.be.empty;
+    expect(report.stale).to.be.empty;
+    expect(report.calls).to.be.empty;
+  });
+
+  it("reports routes analysed often enough without a profitable result since their last write", async () => {
+    const events = [
+      // Route 0: never profitable
+      ...[10, 11, 12].map((block) => analyzed(0, block)),
+      // Route 2: profitable once
+      ...[10, 11].map((block) => analyzed(2, block)),
+      analyzed(2, 12, true),
+      // Route 3: rewritten at 50, which leaves only one analysis of the current route
+      ...[10, 11, 12].map((block) => analyzed(3, block)),
+      event("ArbExecutor", "RoutesUpdated", 50, { routeId: "3", pathLength: "2" }),
+      analyzed(3, 51),
+      // Route 4: every analysis predates a delete of the slot
+      ...[10, 11, 12].map((block) => analyzed(4, block)),
+      event("ArbExecutor", "RouteDeleted", 40, { routeId: "4" }),
+      // Slot 1: analysed after its last write, but empty now
+      event("ArbExecutor", "RoutesUpdated", 40, { routeId: "1", pathLength: "0" }),
+      ...[41, 42, 43].map((block) => analyzed(1, block)),
+    ];
+    const registry = new RouteRegistry(arbExec(), indexer(events), { minAnalyses: 3 });
+
+    const activity = await registry.activity();
+    expect(activity.get(3)).to.deep.equal({ analyses: 1, profitable: 0, lastAnalyzedBlock: 51 });
+    expect(activity.has(4)).to.equal(false);
+
+    // Slot 1 has the history but no registered route to report
+    const report = await registry.sync(watchedPair);
+    expect(report.neverProfitable).to.deep.equal([
+      {
+        ...report.registered[0],
+        activity: { analyses: 3, profitable: 0, lastAnalyzedBlock: 12 },
+      },
+    ]);
+    expect(report.neverProfitable[0].routeId).to.equal(0);
+  });
+
+  it("needs an indexer to sync", async () => {
+    const error = await new RouteRegistry(arbExec()).sync(watchedPair).then(
+      () => null,
+      (e: Error) => e
+    );
+    expect(error?.message).to.equal("Route activity needs an EventIndexer");
+  });
+});
@@ -0,0 +1,47 @@
+// simulation-backend.test.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { LocalForkBackend } from "../scripts/monitor/simulation-backend";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+
+describe("LocalForkBackend forking a local upstream", () => {
+  let upstream: LocalNode;
+  let fork: LocalNode;
+  const from = ethers.Wallet.createRandom().address;
+
+  // Empty until the test installs code that reverts on every call
+  const TARGET = "0x000000000000000000000000000000000000bEEF";
+  const request = { from, to: TARGET, data: "0x" };
+
+  before(async () => {
+    upstream = await startLocalNode();
+    await upstream.provider.send("evm_mine", []);
+    fork = await startLocalNode({ fork: upstream.url });
+  });
+
+  after(async () => {
+    await fork.stop();
+    await upstream.stop();
+  });
+
+  it("re-forks onto the upstream's new head when no block is given", async () => {
+    const backend = new LocalForkBackend(fork.url, upstream.url);
+    expect((await backend.simulate(request)).success).to.equal(true);
+
+    await upstream.provider.send("hardhat_setCode", [TARGET, "0x60006000fd"]);
+    await upstream.provider.send("evm_mine", []);
+    const result = await backend.simulate(request);
+    expect(result.success).to.equal(false);
+    expect(await fork.provider.getBlockNumber()).to.equal(await upstream.provider.getBlockNumber());
+  });
+
+  it("simulates on the requested block", async () => {
+    const backend = new LocalForkBackend(fork.url, upstream.url);
+    // Deploy the reverter in a block of its own; hardhat_setCode would rewrite history
+    const deployment = await (await upstream.signer.sendTransaction({ data: "0x6460006000fd6000526005601bf3" })).wait();
+    const reverter = { ...request, to: deployment!.contractAddress! };
+
+    expect((await backend.simulate({ ...reverter, blockNumber: deployment!.blockNumber - 1 })).success).to.equal(true);
+    expect((await backend.simulate({ ...reverter, blockNumber: deployment!.blockNumber })).success).to.equal(false);
+  });
+});
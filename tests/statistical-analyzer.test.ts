@@ -0,0 +1,60 @@
+// statistical-analyzer.test.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import StatisticalAnalyzer from "../scripts/monitor/statistical-analyzer";
+import type { TradeRecord } from "../scripts/monitor/trade-ledger";
+
+describe("StatisticalAnalyzer segments", () => {
+  const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+  const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+  const analyzer = new StatisticalAnalyzer();
+
+  // Same route and hour for every trade, so only the borrow token tells them apart
+  const trade = (borrowToken: string, profit: string, decimals: number, i: number): TradeRecord => ({
+    txHash: ethers.id(`${borrowToken}-${i}`),
+    status: "success",
+    blockNumber: 100 + i,
+    timestamp: 1_700_000_000 + i * 12,
+    tokenPath: borrowToken === WETH ? [WETH, USDC] : [USDC, WETH],
+    dexA: "uniswap-v3",
+    dexB: "sushiswap",
+    borrowAmount: ethers.parseUnits("10", decimals).toString(),
+    borrowDecimals: decimals,
+    quotedProfit: ethers.parseUnits(profit, decimals).toString(),
+    realisedProfit: ethers.parseUnits(profit, decimals).toString(),
+    gasUsed: 300000 + i,
+    effectiveGasPrice: "1000000000",
+    slippageBps: i,
+    timeToInclusion: 12,
+  });
+
+  const trades = [
+    ...[0, 1, 2, 3, 4].map((i) => trade(WETH, i % 2 ? "0.011" : "0.009", 18, i)),
+    ...[0, 1, 2, 3, 4, 5].map((i) => trade(USDC, i % 2 ? "21" : "19", 6, i)),
+  ];
+
+  it("never pools profits of different borrow tokens", () => {
+    const segments = analyzer.analyzeSegments(trades, 5);
+    expect(segments.map((s) => [s.borrowToken, s.trades])).to.deep.equal([
+      [USDC.toLowerCase(), 6],
+      [WETH.toLowerCase(), 5],
+    ]);
+
+    const [usdc, weth] = segments;
+    expect(weth.global!.meanProfit).to.be.closeTo(0.0098, 1e-9);
+    expect(usdc.global!.meanProfit).to.be.closeTo(20, 1e-9);
+    for (const borrowed of segments) {
+      expect(borrowed.byDexRoute.map((s) => [s.key, s.trades])).to.deep.equal([["uniswap-v3>sushiswap", borrowed.trades]]);
+      expect(borrowed.byDexRoute[0].analysis!.meanProfit).to.equal(borrowed.global!.meanProfit);
+      expect(borrowed.byHour).to.have.length(1);
+      expect(borrowed.byPair[0].trades).to.equal(borrowed.trades);
+    }
+  });
+
+  it("leaves a borrow token without analysis below the segment minimum", () => {
+    const [usdc, weth] = analyzer.analyzeSegments(trades, 6);
+    expect(usdc.global).to.not.equal(null);
+    expect(weth.global).to.equal(null);
+    expect(weth.byDexRoute[0].analysis).to.equal(null);
+  });
+});
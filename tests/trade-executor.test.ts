@@ -0,0 +1,291 @@
+// trade-executor.test.ts
+import { expect } from "chai";
+import { ethers } from "ethers";
+import { loadArtifactInterface } from "../scripts/monitor/artifacts";
+import { BundleRelay } from "../scripts/monitor/bundle-relay";
+import { CONFIG } from "../scripts/monitor/config";
+import type { ExecutionPlan } from "../scripts/monitor/orchestrator";
+import { decodeSimulationLogs } from "../scripts/monitor/simulation-backend";
+import TradeExecutor, { ExecutionOutcome, ExecutorOptions } from "../scripts/monitor/trade-executor";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+import { MockBundleRelay } from "./helpers/mock-relay";
+
+describe("TradeExecutor route selection", () => {
+  const ARB_EXEC = "0x00000000000000000000000000000000000000E1";
+  const ARB_OPTIMIZER = "0x00000000000000000000000000000000000000E2";
+  const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+  const arbExec = loadArtifactInterface("IArbExec");
+  const arbOptimizer = loadArtifactInterface("ArbOptimizer");
+  const arbExecutor = loadArtifactInterface("ArbExecutor");
+
+  // Building calls and refusing plans never reaches the node
+  const provider = new ethers.JsonRpcProvider("http://127.0.0.1:1", undefined, { staticNetwork: true });
+  const executor = (addresses: Partial<ExecutorOptions>): TradeExecutor =>
+    new TradeExecutor(provider, new ethers.VoidSigner(ethers.ZeroAddress, provider), {
+      profitRecipient: ethers.ZeroAddress,
+      priorityFeeGwei: "1",
+      stuckTimeoutMs: 1000,
+      feeBumpPercent: 10,
+      maxReplacements: 1,
+      ...addresses,
+    });
+
+  const plan = (borrowToken: string, symbol: string, routeId?: number): ExecutionPlan =>
+    ({
+      tokenPath: [borrowToken, borrowToken === USDC ? CONFIG.WETH_ADDRESS : USDC],
+      routeId,
+      borrowToken: { address: borrowToken, symbol, decimals: borrowToken === USDC ? 6 : 18 },
+      borrowAmount: "1000000",
+      flashLoan: { source: "aave-v3" },
+      dexA: "uniswap-v3",
+      dexB: "sushiswap",
+    }) as unknown as ExecutionPlan;
+
+  it("calls initiateArbitrage on the plan's route with its borrow token", () => {
+    const call = executor({ arbExecAddress: ARB_EXEC, arbOptimizerAddress: ARB_OPTIMIZER }).buildCall(plan(USDC, "USDC", 3));
+    expect(call).to.include({ to: ARB_EXEC, method: "initiateArbitrage" });
+    expect([...arbExec.decodeFunctionData("initiateArbitrage", call.data)]).to.deep.equal([
+      USDC,
+      BigInt(1000000),
+      BigInt(3),
+      false,
+    ]);
+  });
+
+  it("sends only WETH plans through ArbOptimizer, which picks its own route", () => {
+    const optimizerOnly = executor({ arbOptimizerAddress: ARB_OPTIMIZER });
+    const call = optimizerOnly.buildCall(plan(CONFIG.WETH_ADDRESS, "WETH"));
+    expect(call).to.include({ to: ARB_OPTIMIZER, method: "executeOptimalArbitrage" });
+    expect(arbOptimizer.decodeFunctionData("executeOptimalArbitrage", call.data)[0]).to.equal(BigInt(1000000));
+
+    expect(() => optimizerOnly.buildCall(plan(USDC, "USDC"))).to.throw("ArbOptimizer only borrows WETH, the plan borrows USDC");
+  });
+
+  it("refuses a plan without a registered route before pre-checking it", async () => {
+    const both = executor({ arbExecAddress: ARB_EXEC, arbOptimizerAddress: ARB_OPTIMIZER });
+    expect(() => both.buildCall(plan(CONFIG.WETH_ADDRESS, "WETH"))).to.throw("No ArbExec route registered");
+
+    const outcome = await both.execute(plan(CONFIG.WETH_ADDRESS, "WETH"));
+    expect(outcome.status).to.equal("precheck-failed");
+    expect(outcome.revertReason).to.include(`No ArbExec route registered for ${CONFIG.WETH_ADDRESS} → ${USDC}`);
+  });
+
+  it("reads the executed route from ArbitrageExecuted, or ArbitrageSuccess on direct calls", () => {
+    const log = (iface: ethers.Interface, event: string, args: unknown[]) => ({
+      address: ARB_EXEC,
+      ...iface.encodeEventLog(event, args),
+    });
+    const success = log(arbExecutor, "ArbitrageSuccess", [USDC, 1000000, 250, 4, 300000]);
+
+    expect(decodeSimulationLogs([success]).executedRoute).to.equal(4);
+    expect(
+      decodeSimulationLogs([success, log(arbOptimizer, "ArbitrageExecuted", [7, 1000000, 200])]).executedRoute
+    ).to.equal(7);
+  });
+});
+
+describe("TradeExecutor submission on a local node", () => {
+  let node: LocalNode;
+  let wallet: ethers.Wallet;
+
+  // No code at the address, so every call to it succeeds
+  const ARB_EXEC = ethers.getAddress("0x00000000000000000000000000000000000000e1");
+  const GWEI = ethers.parseUnits("1", "gwei");
+
+  const executor = (options: Partial<ExecutorOptions> = {}): TradeExecutor =>
+    new TradeExecutor(node.provider, wallet, {
+      arbExecAddress: ARB_EXEC,
+      profitRecipient: ethers.ZeroAddress,
+      priorityFeeGwei: "1",
+      stuckTimeoutMs: 10000,
+      feeBumpPercent: 10,
+      maxReplacements: 1,
+      receiptPollMs: 20,
+      ...options,
+    });
+
+  const plan = (routeId?: number): ExecutionPlan =>
+    ({
+      tokenPath: [CONFIG.WETH_ADDRESS, "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"],
+      routeId,
+      borrowToken: { address: CONFIG.WETH_ADDRESS, symbol: "WETH", decimals: 18 },
+      borrowAmount: ethers.parseEther("1").toString(),
+      flashLoan: { source: "aave-v3" },
+      dexA: "uniswap-v3",
+      dexB: "sushiswap",
+    }) as unknown as ExecutionPlan;
+
+  // Transactions waiting in the mempool; automine is off, so nothing is mined unless a test mines
+  const pending = async (): Promise<Array<{ to: string; nonce: string; maxPriorityFeePerGas: string }>> =>
+    (await node.provider.send("eth_getBlockByNumber", ["pending", true])).transactions;
+
+  const until = async (condition: () => Promise<boolean>, timeoutMs: number = 10000): Promise<void> => {
+    const deadline = Date.now() + timeoutMs;
+    while (!(await condition())) {
+      if (Date.now() > deadline) throw new Error("Timed out waiting for the mempool");
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  };
+
+  const mineWhenPending = async (count: number): Promise<void> => {
+    await until(async () => (await pending()).length === count);
+    await node.provider.send("evm_mine", []);
+  };
+
+  before(async () => {
+    node = await startLocalNode();
+    wallet = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, node.provider);
+    await node.provider.send("hardhat_setBalance", [wallet.address, ethers.toQuantity(ethers.parseEther("10"))]);
+    await node.provider.send("evm_setAutomine", [false]);
+  });
+
+  after(async () => {
+    await node.stop();
+  });
+
+  it("signs EIP-1559 transactions and hands concurrent executions sequential nonces", async () => {
+    const start = await node.provider.getTransactionCount(wallet.address);
+    const parent = await node.provider.getBlock("latest");
+    const shared = executor();
+    const running = Promise.all([3, 4, 5].map((routeId) => shared.execute(plan(routeId))));
+    await mineWhenPending(3);
+    const outcomes = await running;
+
+    expect(outcomes.map((o) => o.status)).to.deep.equal(["mined", "mined", "mined"]);
+    expect(outcomes.map((o) => o.nonce).sort()).to.deep.equal([start, start + 1, start + 2]);
+    for (const outcome of outcomes) {
+      const tx = (await node.provider.getTransaction(outcome.txHash!))!;
+      expect(tx).to.include({ type: 2, from: wallet.address, to: ARB_EXEC, nonce: outcome.nonce, chainId: BigInt(31337) });
+      expect(tx.maxPriorityFeePerGas).to.equal(GWEI);
+      expect(tx.maxFeePerGas).to.equal(parent!.baseFeePerGas! * BigInt(2) + GWEI);
+      expect(tx.blockNumber).to.equal(parent!.number + 1);
+    }
+  });
+
+  it("bumps the fees of a stuck transaction, then cancels it", async () => {
+    const seenFees = new Set<bigint>();
+    const stuck = executor({ stuckTimeoutMs: 400 });
+    const running = stuck.execute(plan(3));
+    await until(async () => {
+      const txs = await pending();
+      for (const tx of txs) seenFees.add(BigInt(tx.maxPriorityFeePerGas));
+      return txs.some((tx) => tx.to.toLowerCase() === wallet.address.toLowerCase());
+    });
+    await node.provider.send("evm_mine", []);
+    const outcome = await running;
+
+    expect(outcome).to.include({ status: "cancelled", replacements: 2 });
+    expect(new Set(outcome.submittedHashes).size).to.equal(3);
+    expect(outcome.txHash).to.equal(outcome.submittedHashes[2]);
+    // Each replacement pays at least feeBumpPercent more than the one it replaces
+    expect([...seenFees]).to.deep.equal([GWEI, (GWEI * BigInt(110)) / BigInt(100), (GWEI * BigInt(121)) / BigInt(100)]);
+
+    const cancel = (await node.provider.getTransaction(outcome.txHash!))!;
+    expect(cancel).to.include({ to: wallet.address, nonce: outcome.nonce, data: "0x" });
+    expect(cancel.value).to.equal(BigInt(0));
+
+    // The cancelled nonce is spent, so the next execution takes the one after it
+    const next = stuck.execute(plan(3));
+    await mineWhenPending(1);
+    expect((await next).nonce).to.equal(outcome.nonce! + 1);
+  });
+
+  it("keeps nonces dense when plans are refused between submissions", async () => {
+    const shared = executor();
+    const start = await node.provider.getTransactionCount(wallet.address);
+
+    // A plan refused before submission never takes a nonce
+    const batch = Promise.all([shared.execute(plan(3)), shared.execute(plan()), shared.execute(plan(4))]);
+    await mineWhenPending(2);
+    const outcomes: ExecutionOutcome[] = await batch;
+    expect(outcomes.map((o) => o.status)).to.deep.equal(["mined", "precheck-failed", "mined"]);
+    expect(outcomes.map((o) => o.nonce)).to.deep.equal([start, null, start + 1]);
+
+    const next = shared.execute(plan(5));
+    await mineWhenPending(1);
+    expect((await next).nonce).to.equal(start + 2);
+    expect(await node.provider.getTransactionCount(wallet.address)).to.equal(start + 3);
+    expect(await pending()).to.be.empty;
+  });
+});
+
+describe("TradeExecutor bundle submission against a mock relay", () => {
+  let node: LocalNode;
+  let wallet: ethers.Wallet;
+  let mock: MockBundleRelay;
+  let relay: BundleRelay;
+
+  const ARB_EXEC = ethers.getAddress("0x00000000000000000000000000000000000000e1");
+
+  const executor = (): TradeExecutor =>
+    new TradeExecutor(node.provider, wallet, {
+      arbExecAddress: ARB_EXEC,
+      relay,
+      bundleTargetBlocks: 2,
+      builderTipBps: 1000,
+      profitRecipient: ethers.ZeroAddress,
+      priorityFeeGwei: "1",
+      stuckTimeoutMs: 10000,
+      feeBumpPercent: 10,
+      maxReplacements: 1,
+      receiptPollMs: 20,
+    });
+
+  const plan = (grossProfit: bigint, builderTip: bigint): ExecutionPlan =>
+    ({
+      tokenPath: [CONFIG.WETH_ADDRESS, "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48"],
+      routeId: 3,
+      borrowToken: { address: CONFIG.WETH_ADDRESS, symbol: "WETH", decimals: 18 },
+      borrowAmount: ethers.parseEther("1").toString(),
+      flashLoan: { source: "aave-v3" },
+      profitability: { grossProfit: grossProfit.toString(), builderTip: builderTip.toString() },
+      dexA: "uniswap-v3",
+      dexB: "sushiswap",
+    }) as unknown as ExecutionPlan;
+
+  before(async () => {
+    node = await startLocalNode();
+    wallet = new ethers.Wallet(ethers.Wallet.createRandom().privateKey, node.provider);
+    await node.provider.send("hardhat_setBalance", [wallet.address, ethers.toQuantity(ethers.parseEther("10"))]);
+    mock = new MockBundleRelay(node.url);
+    relay = new BundleRelay(node.provider, await mock.start(), new ethers.Wallet(ethers.Wallet.createRandom().privateKey));
+  });
+
+  after(async () => {
+    await mock.stop();
+    await node.stop();
+  });
+
+  it("caps the builder payment at the tip budget the plan was costed with", () => {
+    const gross = ethers.parseUnits("1", "finney");
+    expect(executor().builderPayment(plan(gross, gross))).to.equal(gross / BigInt(10));
+    expect(executor().builderPayment(plan(gross, BigInt(12345)))).to.equal(BigInt(12345));
+  });
+
+  it("pays the builder through the priority fee and records what the receipt charged", async () => {
+    const payment = ethers.parseUnits("1", "finney") / BigInt(10);
+    const expectedGas = await node.provider.estimateGas({
+      from: wallet.address,
+      to: ARB_EXEC,
+      data: executor().buildCall(plan(BigInt(0), BigInt(0))).data,
+    });
+
+    const outcome = await executor().execute(plan(ethers.parseUnits("1", "finney"), payment * BigInt(2)));
+    expect(outcome.status).to.equal("mined");
+    expect(mock.received.map((b) => b.method)).to.deep.equal(["eth_callBundle", "eth_sendBundle"]);
+    expect(outcome.submittedHashes).to.deep.equal([outcome.txHash]);
+    expect(outcome.bundleHash).to.match(/^0x[0-9a-f]{64}$/);
+
+    const tx = (await node.provider.getTransaction(outcome.txHash!))!;
+    const receipt = (await node.provider.getTransactionReceipt(outcome.txHash!))!;
+    const block = (await node.provider.getBlock(receipt.blockNumber))!;
+    expect(tx.maxPriorityFeePerGas).to.equal(payment / expectedGas);
+    expect(tx.gasLimit).to.equal((expectedGas * BigInt(120)) / BigInt(100));
+
+    // Only gas used is charged, so the payment stays within the cap rather than tip × gasLimit
+    const paid = receipt.gasUsed * (receipt.gasPrice - block.baseFeePerGas!);
+    expect(outcome.builderPayment).to.equal(paid.toString());
+    expect(paid).to.equal(receipt.gasUsed * tx.maxPriorityFeePerGas!);
+    expect(paid <= payment).to.equal(true);
+  });
+});
@@ -0,0 +1,166 @@
+// trade-ledger.test.ts
+import { expect } from "chai";
+import { appendFileSync, mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers } from "ethers";
+import { loadArtifactInterface } from "../scripts/monitor/artifacts";
+import TradeLedger, { TradeRecord } from "../scripts/monitor/trade-ledger";
+
+describe("TradeLedger", () => {
+  let dir: string;
+  let ledger: TradeLedger;
+
+  const WETH = "0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2";
+  const USDC = "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48";
+  const DAI = "0x6B175474E89094C44Da98b954EedeAC495271d0F";
+  const RECIPIENT = "0x00000000000000000000000000000000000000A1";
+
+  const trade = (overrides: Partial<TradeRecord>): TradeRecord => ({
+    txHash: ethers.ZeroHash,
+    status: "success",
+    blockNumber: 1,
+    timestamp: 1000,
+    tokenPath: [WETH, USDC],
+    dexA: "uniswap-v3",
+    dexB: "sushiswap",
+    borrowAmount: "1000",
+    borrowDecimals: 18,
+    quotedProfit: "10",
+    realisedProfit: "10",
+    gasUsed: 300000,
+    effectiveGasPrice: "1",
+    slippageBps: 0,
+    timeToInclusion: 12,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "trade-ledger-"));
+    ledger = new TradeLedger(join(dir, "trades.jsonl"));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe("query", () => {
+    beforeEach(() => {
+      ledger.record(trade({ txHash: "0x01", timestamp: 1000 }));
+      ledger.record(trade({ txHash: "0x02", timestamp: 2000, tokenPath: [USDC, WETH], dexA: "sushiswap", dexB: "uniswap-v2" }));
+      ledger.record(trade({ txHash: "0x03", timestamp: 3000, tokenPath: [DAI, USDC] }));
+      ledger.record(trade({ txHash: "0x04", timestamp: 4000, tokenPath: [WETH, DAI], dexA: "uniswap-v2", dexB: "sushiswap" }));
+    });
+
+    const hashes = (trades: TradeRecord[]) => trades.map((t) => t.txHash);
+
+    it("returns every trade in append order without a filter", () => {
+      expect(hashes(ledger.query())).to.deep.equal(["0x01", "0x02", "0x03", "0x04"]);
+    });
+
+    it("matches a pair in either order and any case", () => {
+      expect(hashes(ledger.query({ pair: { token0: USDC.toLowerCase(), token1: WETH } }))).to.deep.equal(["0x01", "0x02"]);
+    });
+
+    it("matches a DEX on either leg", () => {
+      expect(hashes(ledger.query({ dex: "uniswap-v2" }))).to.deep.equal(["0x02", "0x04"]);
+      expect(hashes(ledger.query({ dex: "curve" }))).to.be.empty;
+    });
+
+    it("keeps the time window inclusive and combines filters", () => {
+      expect(hashes(ledger.query({ since: 2000, until: 3000 }))).to.deep.equal(["0x02", "0x03"]);
+      expect(hashes(ledger.query({ since: 2000, dex: "uniswap-v3" }))).to.deep.equal(["0x03"]);
+      expect(hashes(ledger.query({ until: 999 }))).to.be.empty;
+    });
+
+    it("skips a torn append instead of failing every read", () => {
+      appendFileSync(join(dir, "trades.jsonl"), '{"txHash":"0x05","status":"succ');
+      // The next append lands on the torn line
+      ledger.record(trade({ txHash: "0x06" }));
+
+      expect(hashes(ledger.query())).to.deep.equal(["0x01", "0x02", "0x03", "0x04"]);
+      ledger.record(trade({ txHash: "0x07" }));
+      expect(hashes(ledger.query())).to.deep.equal(["0x01", "0x02", "0x03", "0x04", "0x07"]);
+    });
+  });
+
+  describe("recordFromReceipt", () => {
+    const erc20 = new ethers.Interface(["event Transfer(address indexed from, address indexed to, uint256 value)"]);
+    const arbExecutor = loadArtifactInterface("ArbExecutor");
+
+    const log = (address: string, iface: ethers.Interface, event: string, args: unknown[]) => ({
+      address,
+      ...iface.encodeEventLog(event, args),
+    });
+    const transfer = (token: string, to: string, value: bigint) =>
+      log(token, erc20, "Transfer", [ethers.ZeroAddress, to, value]);
+
+    // Only the block timestamp is read from the node
+    const provider = { getBlock: async () => ({ timestamp: 5000 }) } as unknown as ethers.Provider;
+
+    const receipt = (logs: unknown[]): ethers.TransactionReceipt =>
+      ({
+        hash: "0xabc",
+        status: 1,
+        blockNumber: 42,
+        gasUsed: BigInt(250000),
+        gasPrice: BigInt(3e9),
+        logs,
+      }) as unknown as ethers.TransactionReceipt;
+
+    const plan = (netProfit: bigint) => ({
+      tokenPath: [USDC, WETH],
+      borrowToken: { decimals: 6 },
+      dexA: "uniswap-v3",
+      dexB: "sushiswap",
+      borrowAmount: "1000000000",
+      profitability: { netProfit: netProfit.toString() },
+    });
+
+    it("sums borrow-token transfers to the recipient and measures slippage against the quote", async () => {
+      const recorded = await ledger.recordFromReceipt(
+        provider,
+        receipt([
+          transfer(USDC, RECIPIENT, BigInt(600000)),
+          transfer(USDC, ethers.ZeroAddress, BigInt(999999)), // Repayment, not profit
+          transfer(WETH, RECIPIENT, BigInt(777)), // Another token
+          transfer(USDC, RECIPIENT.toLowerCase(), BigInt(300000)),
+          log(RECIPIENT, arbExecutor, "ArbitrageSuccess", [USDC, 1000000000, 900000, 4, 240000]),
+        ]),
+        plan(BigInt(1000000)),
+        RECIPIENT,
+        4988
+      );
+
+      expect(recorded).to.deep.include({
+        txHash: "0xabc",
+        status: "success",
+        blockNumber: 42,
+        timestamp: 5000,
+        routeId: 4,
+        borrowDecimals: 6,
+        quotedProfit: "1000000",
+        realisedProfit: "900000",
+        gasUsed: 250000,
+        effectiveGasPrice: "3000000000",
+        slippageBps: 1000,
+        timeToInclusion: 12,
+      });
+      expect(ledger.query()).to.deep.equal([recorded]);
+      expect(TradeLedger.toAnalyzerTrade(recorded).profit).to.equal(0.9);
+    });
+
+    it("records no route or slippage when the receipt and quote give none", async () => {
+      const recorded = await ledger.recordFromReceipt(
+        provider,
+        receipt([transfer(USDC, RECIPIENT, BigInt(5))]),
+        plan(BigInt(0)),
+        RECIPIENT,
+        6000
+      );
+
+      expect(recorded.routeId).to.equal(undefined);
+      expect(recorded).to.include({ realisedProfit: "5", slippageBps: 0, timeToInclusion: 0 });
+    });
+  });
+});
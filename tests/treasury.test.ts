@@ -0,0 +1,241 @@
+// treasury.test.ts
+import { expect } from "chai";
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { ethers } from "ethers";
+import { loadArtifactInterface } from "../scripts/monitor/artifacts";
+import { ArbOptimizerContract, deployArbOptimizer } from "../scripts/monitor/bindings/ArbOptimizer";
+import TokenRegistry from "../scripts/monitor/token-registry";
+import Treasury, { BalanceSnapshot, ETH, Sweep, TreasuryOptions } from "../scripts/monitor/treasury";
+import { LocalNode, startLocalNode } from "./helpers/local-node";
+import { UniswapDeployment, addV2Liquidity, deployUniswap } from "./helpers/uniswap";
+
+describe("Treasury on a local node", () => {
+  let node: LocalNode;
+  let uniswap: UniswapDeployment;
+  let optimizer: ArbOptimizerContract;
+  let owner: string;
+  let tokenA: string;
+  let tokenB: string;
+  let stateDir: string;
+
+  // ArbOptimizer's withdrawals first pull funds back from ArbExec at its mainnet address
+  const ARB_EXEC = "0xEfac88d8e212ca21d4FE670F715c4fE12CFbEF05";
+  const DEADLINE = 2 ** 40;
+  const router = loadArtifactInterface("IUniswapV2Router02");
+  const weth = new ethers.Interface(["function deposit() payable", "function withdraw(uint256 amount)"]);
+  const erc20 = (address: string) =>
+    new ethers.Contract(
+      address,
+      [
+        "function approve(address, uint256) returns (bool)",
+        "function transfer(address, uint256) returns (bool)",
+        "function balanceOf(address) view returns (uint256)",
+      ],
+      node.signer
+    );
+
+  const treasury = (overrides: Partial<TreasuryOptions> = {}): Treasury =>
+    new Treasury(
+      node.provider,
+      optimizer,
+      {
+        wethAddress: uniswap.weth,
+        routerAddress: uniswap.v2Router.target as string,
+        thresholds: {},
+        maxSlippageBps: 50,
+        balancesPath: join(stateDir, "balances.jsonl"),
+        auditPath: join(stateDir, "audit.json"),
+        auditStartBlock: uniswap.deployBlock,
+        auditReorgDepth: 8,
+        ...overrides,
+      },
+      new TokenRegistry(node.provider)
+    );
+
+  const sweep = (asset: string, amount: bigint, symbol: string = asset === ETH ? ETH : "TT"): Sweep => ({
+    asset,
+    symbol,
+    decimals: 18,
+    amount: amount.toString(),
+    threshold: "0",
+  });
+
+  const quote = async (amount: bigint, path: string[], blockNumber: number): Promise<bigint> => {
+    const amounts: bigint[] = await uniswap.v2Router.getAmountsOut(amount, path, { blockTag: blockNumber });
+    return amounts[amounts.length - 1];
+  };
+
+  before(async () => {
+    node = await startLocalNode();
+    await node.provider.send("hardhat_setCode", [ARB_EXEC, "0x00"]);
+    owner = await node.signer.getAddress();
+    uniswap = await deployUniswap(node.signer);
+    [tokenA, tokenB] = uniswap.tokens;
+    stateDir = mkdtempSync(join(tmpdir(), "treasury-"));
+
+    const wrapped = new ethers.Contract(
+      uniswap.weth,
+      ["function deposit() payable", "function approve(address, uint256) returns (bool)"],
+      node.signer
+    );
+    await (await wrapped.deposit({ value: ethers.parseEther("200") })).wait();
+    await (await wrapped.approve(uniswap.v2Router.target, ethers.MaxUint256)).wait();
+    await addV2Liquidity(uniswap, tokenA, uniswap.weth, ethers.parseEther("200000"), ethers.parseEther("100"));
+    await addV2Liquidity(uniswap, tokenB, uniswap.weth, ethers.parseEther("100000"), ethers.parseEther("100"));
+
+    optimizer = await deployArbOptimizer(node.signer);
+  });
+
+  after(async () => {
+    await node.stop();
+    rmSync(stateDir, { recursive: true, force: true });
+  });
+
+  it("sweeps assets whose balance reached their threshold", async () => {
+    const snapshot: BalanceSnapshot = {
+      blockNumber: 1,
+      timestamp: 0,
+      balances: {
+        [ETH]: ethers.parseEther("2").toString(),
+        [tokenA]: ethers.parseEther("500").toString(),
+        [tokenB]: ethers.parseEther("49.99").toString(),
+      },
+    };
+    const sweeps = await treasury({
+      thresholds: { [ETH]: "1", [tokenA.toLowerCase()]: "500", [tokenB]: "50", [uniswap.weth]: "0" },
+    }).dueSweeps(snapshot);
+
+    // At the threshold counts; below it or an empty balance does not
+    expect(sweeps).to.deep.equal([
+      {
+        asset: ETH,
+        symbol: ETH,
+        decimals: 18,
+        amount: ethers.parseEther("2").toString(),
+        threshold: ethers.parseEther("1").toString(),
+      },
+      {
+        asset: tokenA,
+        symbol: "TT",
+        decimals: 18,
+        amount: ethers.parseEther("500").toString(),
+        threshold: ethers.parseEther("500").toString(),
+      },
+    ]);
+  });
+
+  it("only withdraws when no target is set or an asset already is the target", async () => {
+    const head = await node.provider.getBlockNumber();
+    const sweeps = [sweep(ETH, BigInt(1)), sweep(tokenA, BigInt(2))];
+
+    for (const target of [null, tokenA]) {
+      const plan = await treasury().planSweep(sweeps, owner, target, DEADLINE, head);
+      const withdrawals = plan.calls.filter((call) => call.to === optimizer.target);
+      expect(withdrawals.map((call) => optimizer.interface.parseTransaction(call)!.name)).to.deep.equal([
+        "withdrawETH",
+        "withdrawToken",
+      ]);
+      // Swapping ETH needs no approval
+      expect(plan.calls).to.have.length(target === null ? 2 : 3);
+    }
+  });
+
+  it("unwraps and wraps between WETH and ETH without the router", async () => {
+    const head = await node.provider.getBlockNumber();
+    const amount = ethers.parseEther("1.5");
+
+    const unwrap = await treasury().planSweep([sweep(uniswap.weth, amount, "WETH")], owner, ETH, DEADLINE, head);
+    expect(unwrap.calls[1]).to.deep.include({ to: uniswap.weth, value: "0", description: "Unwrap 1.5 WETH to ETH" });
+    expect(weth.decodeFunctionData("withdraw", unwrap.calls[1].data)[0]).to.equal(amount);
+
+    const wrap = await treasury().planSweep([sweep(ETH, amount)], owner, uniswap.weth, DEADLINE, head);
+    expect(wrap.calls[1]).to.deep.include({
+      to: uniswap.weth,
+      value: amount.toString(),
+      data: weth.encodeFunctionData("deposit"),
+      description: "Wrap 1.5 ETH to WETH",
+    });
+  });
+
+  it("swaps through WETH with a minimum quoted at the plan block less the slippage allowance", async () => {
+    const head = await node.provider.getBlockNumber();
+    const amount = ethers.parseEther("1000");
+    const plan = await treasury().planSweep(
+      [sweep(tokenA, amount), sweep(ETH, ethers.parseEther("1"))],
+      owner,
+      tokenB,
+      DEADLINE,
+      head
+    );
+    const [, approve, swap, , ethSwap] = plan.calls;
+
+    expect(approve.to).to.equal(tokenA);
+    const approval = erc20(tokenA).interface.decodeFunctionData("approve", approve.data);
+    expect([...approval]).to.deep.equal([uniswap.v2Router.target, amount]);
+
+    const path = [tokenA, uniswap.weth, tokenB];
+    const [amountIn, minOut, swapPath, recipient] = router.decodeFunctionData("swapExactTokensForTokens", swap.data);
+    expect(amountIn).to.equal(amount);
+    expect([...swapPath]).to.deep.equal(path);
+    expect(recipient).to.equal(owner);
+    expect(minOut).to.equal(((await quote(amount, path, head)) * BigInt(9950)) / BigInt(10000));
+
+    // ETH is already one hop from WETH
+    expect(ethSwap.value).to.equal(ethers.parseEther("1").toString());
+    const [ethMinOut, ethPath] = router.decodeFunctionData("swapExactETHForTokens", ethSwap.data);
+    expect([...ethPath]).to.deep.equal([uniswap.weth, tokenB]);
+    const ethQuote = await quote(ethers.parseEther("1"), [uniswap.weth, tokenB], head);
+    expect(ethMinOut).to.equal((ethQuote * BigInt(9950)) / BigInt(10000));
+  });
+
+  it("executes a sweep from the owner and audits the withdrawals it made", async () => {
+    await (await erc20(tokenA).transfer(optimizer.target, ethers.parseEther("1000"))).wait();
+    await (await node.signer.sendTransaction({ to: optimizer.target, value: ethers.parseEther("2") })).wait();
+
+    // snapshot() reads the optimizer's mainnet token list, which has no code here
+    const subject = treasury({ thresholds: { [ETH]: "1", [tokenA]: "100" } });
+    const snapshot: BalanceSnapshot = {
+      blockNumber: await node.provider.getBlockNumber(),
+      timestamp: 0,
+      balances: {
+        [ETH]: (await node.provider.getBalance(optimizer.target)).toString(),
+        [tokenA]: (await erc20(tokenA).balanceOf(optimizer.target)).toString(),
+      },
+    };
+
+    // Into WETH the ETH is wrapped, leaving one swap priced at the plan block
+    const before = await erc20(uniswap.weth).balanceOf(owner);
+    const sweeps = await subject.dueSweeps(snapshot);
+    const plan = await subject.planSweep(sweeps, owner, uniswap.weth, DEADLINE, snapshot.blockNumber);
+    const results = await subject.execute(plan, node.signer);
+    expect(results).to.have.length(plan.calls.length);
+
+    const swap = plan.calls.find((call) => call.to === uniswap.v2Router.target)!;
+    const [, minOut] = router.decodeFunctionData("swapExactTokensForTokens", swap.data);
+    const received = (await erc20(uniswap.weth).balanceOf(owner)) - before;
+    expect(received >= ethers.parseEther("2") + minOut).to.equal(true);
+    expect(await node.provider.getBalance(optimizer.target)).to.equal(BigInt(0));
+
+    const audit = await subject.auditLog();
+    expect(audit.map(({ asset, symbol, formatted, recipient }) => ({ asset, symbol, formatted, recipient }))).to.deep.equal([
+      { asset: ETH, symbol: ETH, formatted: "2.0", recipient: owner },
+      { asset: tokenA, symbol: "TT", formatted: "1000.0", recipient: owner },
+    ]);
+    expect(audit.map((record) => record.amount)).to.deep.equal([
+      ethers.parseEther("2").toString(),
+      ethers.parseEther("1000").toString(),
+    ]);
+
+    // The audit index resumes from where it stopped
+    await (await erc20(tokenA).transfer(optimizer.target, ethers.parseEther("5"))).wait();
+    const withdrawal = await (await optimizer.withdrawToken(tokenA)).wait();
+    const resumed = await treasury().auditLog();
+    expect(resumed).to.have.length(3);
+    expect(resumed[2]).to.deep.include({
+      transactionHash: withdrawal!.hash,
+      amount: ethers.parseEther("5").toString(),
+    });
+  });
+});